@@ -0,0 +1,251 @@
+// api/_lib/athleteContext.js — Server-side athlete context for the coach (no SDK, uses fetch)
+// Everything is loaded with the service role for a user ID that was verified first, so the context
+// can't be spoofed by the client. Shared by /api/coach and the Telegram/WhatsApp channels.
+
+import { supabaseConfig, select } from './supabase.js';
+import { isHabitScheduled, withMissedDays } from '../../src/lib/trainingRules.js';
+
+/**
+ * @typedef {{ id: string, date: string, sport: string, type: string, duration: number, distance: number, intensity: string, description: string, status: string }} PlannedSessionRow
+ * @typedef {{ date: string, sport: string, type: string, duration: number, distance: number, rpe: number, avg_power: number | null, volume_kg: number | null }} TrainingSessionRow
+ * @typedef {{ date: string, weight: number | null, sleep: number | null, fatigue: number | null }} BodyMetricsRow
+ * @typedef {{ weight: number, reps: number, rpe: number | null, set_type: string | null, duration_seconds: number | null }} GymSetRow
+ * @typedef {{ date: string, day_type: string, duration_minutes: number | null, entries: { exercise_name: string, sets: GymSetRow[] }[] }} GymSessionSummary
+ * @typedef {{ name: string, progression: string, week: number, blockWeeks: number, deload: boolean, days: { name: string, weekday: string, exercises: string[] }[] }} GymProgrammeSummary
+ * @typedef {{ name: string, icon: string, adherence: number | null, streak: number, doneToday: boolean }} HabitSummary
+ * @typedef {{ completed: number, skipped: number, total: number, compliancePercent: number, swimDistance: number, bikeDistance: number, runDistance: number, gymSessions: number, gymMinutes: number, gymVolume: number, totalMinutes: number }} WeekStats
+ * @typedef {{ atl: number, ctl: number, tsb: number, rampRate: number, status: string, last7Days: { date: string, load: number }[] }} TrainingLoadSummary
+ *
+ * @typedef {Object} AthleteContext
+ * @property {string} userId
+ * @property {string} today — the athlete's date (YYYY-MM-DD) the context was built for
+ * @property {Object | null} onboarding — camelCase profile fields used in the prompt
+ * @property {Object | null} plan — training_plans row
+ * @property {{ key: string, label: string, legs: { swimM: number, bikeKm: number, runKm: number } }} raceDistance
+ * @property {WeekStats} weekStats
+ * @property {TrainingLoadSummary} trainingLoad
+ * @property {BodyMetricsRow[]} recentBody
+ * @property {TrainingSessionRow[]} recentSessions
+ * @property {PlannedSessionRow[]} plannedSessionsList — upcoming planned sessions, soonest first
+ * @property {GymSessionSummary[]} recentGymSessions
+ * @property {GymProgrammeSummary | null} gymProgramme
+ * @property {HabitSummary[]} habits
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const isoDate = date => date.toISOString().split('T')[0];
+
+// Mirrors RACE_DISTANCES in the app — only what the coach prompt needs
+const RACE_DISTANCES = {
+  sprint: { label: 'Sprint Triathlon', legs: { swimM: 750, bikeKm: 20, runKm: 5 } },
+  olympic: { label: 'Olympic Triathlon', legs: { swimM: 1500, bikeKm: 40, runKm: 10 } },
+  '70.3': { label: 'Ironman 70.3', legs: { swimM: 1900, bikeKm: 90, runKm: 21.1 } },
+  full: { label: 'Ironman', legs: { swimM: 3800, bikeKm: 180, runKm: 42.2 } },
+  half_marathon: { label: 'Half Marathon', legs: { swimM: 0, bikeKm: 0, runKm: 21.1 } },
+  marathon: { label: 'Marathon', legs: { swimM: 0, bikeKm: 0, runKm: 42.2 } },
+  gran_fondo: { label: 'Gran Fondo', legs: { swimM: 0, bikeKm: 120, runKm: 0 } },
+};
+
+const PROGRESSION_LABELS = { double: 'Double progression', wave: '5/3/1 wave' };
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const RPE_TO_IF = { 1: 0.5, 2: 0.55, 3: 0.6, 4: 0.65, 5: 0.7, 6: 0.75, 7: 0.82, 8: 0.88, 9: 0.95, 10: 1.02 };
+
+/** Resolves the Supabase user behind a `Bearer` token, or null when it is missing or invalid. */
+export async function authenticateRequest(req) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) return null;
+  const { url, serviceKey, anonKey } = supabaseConfig();
+  if (!url || !serviceKey || !anonKey) throw new Error('Server misconfigured');
+  const userRes = await fetch(`${url}/auth/v1/user`, {
+    headers: { 'Authorization': authHeader, 'apikey': anonKey },
+  });
+  if (!userRes.ok) return null;
+  const user = await userRes.json();
+  return user?.id ? user : null;
+}
+
+function onboardingFromRow(row) {
+  if (!row) return null;
+  return {
+    age: row.age, weight: row.weight, trainingBackground: row.training_background, goalType: row.goal_type,
+    raceDate: row.race_date, raceDistance: row.race_distance || '70.3', priority: row.priority,
+    hoursPerWeek: row.hours_per_week, canSwim1900m: row.can_swim_1900m, fiveKTime: row.five_k_time, ftp: row.ftp,
+  };
+}
+
+// Same model as TrainingLoadEngine in the app: rTSS for runs with a 5K time, TSS for rides with an FTP, sRPE otherwise
+function sessionLoad(session, onboarding) {
+  const hours = (session.duration || 0) / 60;
+  const rpe = Math.min(10, Math.max(1, Math.round(session.rpe || 5)));
+  if (session.sport === 'Run' && onboarding?.fiveKTime && session.distance > 0 && session.duration > 0) {
+    const thresholdPace = (onboarding.fiveKTime / 5) * 1.06;
+    const intensity = Math.min(1.15, thresholdPace / ((session.duration * 60) / session.distance));
+    return Math.round(hours * intensity * intensity * 100);
+  }
+  if (session.sport === 'Bike' && onboarding?.ftp) {
+    const intensity = session.avg_power ? Math.min(1.2, session.avg_power / onboarding.ftp) : RPE_TO_IF[rpe];
+    return Math.round(hours * intensity * intensity * 100);
+  }
+  return Math.round((rpe * (session.duration || 0)) / 6);
+}
+
+/** @returns {TrainingLoadSummary} */
+function summarizeLoad(sessions, onboarding, today) {
+  const dailyLoad = {};
+  sessions.forEach(s => { dailyLoad[s.date] = (dailyLoad[s.date] || 0) + sessionLoad(s, onboarding); });
+  const start = new Date(isoDate(today) + 'T00:00:00Z');
+  const earliest = Object.keys(dailyLoad).sort()[0];
+  const warmup = earliest ? Math.ceil((start.getTime() - new Date(earliest + 'T00:00:00Z').getTime()) / DAY_MS) : 42;
+  const span = Math.min(180, Math.max(42, warmup));
+  let atl = 0, ctl = 0;
+  const series = [];
+  for (let i = span; i >= 0; i--) {
+    const date = isoDate(new Date(start.getTime() - i * DAY_MS));
+    const load = dailyLoad[date] || 0;
+    const tsb = ctl - atl;
+    atl += (load - atl) / 7;
+    ctl += (load - ctl) / 42;
+    series.push({ date, load, atl: Math.round(atl * 10) / 10, ctl: Math.round(ctl * 10) / 10, tsb: Math.round(tsb * 10) / 10 });
+  }
+  const latest = series[series.length - 1];
+  const weekAgo = series[series.length - 8] || latest;
+  const rampRate = Math.round((latest.ctl - weekAgo.ctl) * 10) / 10;
+  let status = 'Maintaining';
+  if (latest.tsb < -30 || rampRate > 8) status = 'Overreaching';
+  else if (latest.tsb < -10) status = 'Productive';
+  else if (latest.tsb > 25) status = 'Detraining';
+  else if (latest.tsb > 5) status = 'Fresh';
+  return { atl: latest.atl, ctl: latest.ctl, tsb: latest.tsb, rampRate, status, last7Days: series.slice(-7).map(d => ({ date: d.date, load: d.load })) };
+}
+
+/** @returns {WeekStats} */
+function summarizeWeek(planned, training, weekStart, weekEnd) {
+  const inWeek = row => row.date >= weekStart && row.date <= weekEnd;
+  const weekPlanned = planned.filter(p => inWeek(p) && p.status !== 'cancelled');
+  const completed = weekPlanned.filter(p => p.status === 'completed').length;
+  const weekTraining = training.filter(inWeek);
+  const sum = (rows, pick) => rows.reduce((s, r) => s + (pick(r) || 0), 0);
+  const gym = weekTraining.filter(t => (t.sport || '').startsWith('Gym'));
+  return {
+    completed,
+    skipped: weekPlanned.filter(p => p.status === 'skipped').length,
+    total: weekPlanned.length,
+    compliancePercent: weekPlanned.length > 0 ? Math.round((completed / weekPlanned.length) * 100) : 0,
+    swimDistance: sum(weekTraining.filter(t => t.sport === 'Swim'), t => t.distance),
+    bikeDistance: sum(weekTraining.filter(t => t.sport === 'Bike'), t => t.distance),
+    runDistance: sum(weekTraining.filter(t => t.sport === 'Run'), t => t.distance),
+    gymSessions: gym.length,
+    gymMinutes: sum(gym, t => t.duration),
+    gymVolume: sum(gym, t => t.volume_kg),
+    totalMinutes: sum(weekTraining, t => t.duration),
+  };
+}
+
+/** @returns {GymProgrammeSummary | null} */
+function summarizeProgramme(programme, today) {
+  if (!programme) return null;
+  const blockWeeks = Math.max(1, programme.block_weeks || 1);
+  const weeks = Math.floor((today.getTime() - new Date(programme.start_date + 'T00:00:00').getTime()) / (7 * DAY_MS));
+  const week = (Math.max(0, weeks) % blockWeeks) + 1;
+  return {
+    name: programme.name,
+    progression: PROGRESSION_LABELS[programme.progression] || programme.progression,
+    week, blockWeeks, deload: blockWeeks > 1 && week === blockWeeks,
+    days: (programme.days || []).map(d => ({
+      name: d.name, weekday: WEEKDAY_NAMES[d.weekday],
+      exercises: (d.exercises || []).map(e => `${e.name} ${e.sets}×${e.minReps === e.maxReps ? e.minReps : `${e.minReps}-${e.maxReps}`}`),
+    })),
+  };
+}
+
+// Scheduled-day adherence and current streak per habit, using the same schedule rules as HabitEngine
+function summarizeHabits(rows, trainingDates, today) {
+  // Habits on the latest logged day are the active ones, as the app's habit list would show
+  const latest = rows.reduce((max, r) => (r.date > max ? r.date : max), '');
+  const filled = withMissedDays(rows, today, new Set(rows.filter(r => r.date === latest).map(r => r.name)));
+  const names = [...new Set(rows.map(r => r.name))];
+  return names.map(name => {
+    const scheduled = filled.filter(r => r.name === name && isHabitScheduled(r, trainingDates)).sort((a, b) => b.date.localeCompare(a.date));
+    let streak = 0;
+    for (const r of scheduled) {
+      if (r.completed) streak++;
+      else if (r.date !== today) break;
+    }
+    const past = scheduled.filter(r => r.date !== today);
+    return {
+      name,
+      icon: rows.find(r => r.name === name).icon || '',
+      adherence: past.length > 0 ? Math.round((past.filter(r => r.completed).length / past.length) * 100) : null,
+      streak,
+      doneToday: scheduled.some(r => r.date === today && r.completed),
+    };
+  });
+}
+
+/**
+ * The athlete's local date from the app as a Date the helpers above read back as that day, so "today"
+ * doesn't roll over at UTC midnight. Dates more than a day from the server's are ignored.
+ * @param {string | undefined} localDate — YYYY-MM-DD
+ */
+export function athleteNow(localDate) {
+  const now = new Date();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(localDate || '')) return now;
+  const local = new Date(`${localDate}T12:00:00Z`);
+  return Math.abs(local.getTime() - now.getTime()) <= 1.5 * DAY_MS ? local : now;
+}
+
+/**
+ * Loads everything the coach needs for one athlete.
+ * @param {string} userId — must come from a verified token or a paired bot account
+ * @param {Date} [now] — the athlete's current day, see athleteNow
+ * @param {string} [until] — last date of logged data to include (YYYY-MM-DD), so a review of a past week
+ *   ignores anything logged since; upcoming planned sessions are still loaded
+ * @returns {Promise<AthleteContext>}
+ */
+export async function buildAthleteContext(userId, now = new Date(), until = null) {
+  const today = isoDate(now);
+  const weekStartDate = new Date(now); weekStartDate.setDate(now.getDate() - now.getDay());
+  const weekStart = isoDate(weekStartDate);
+  const weekEnd = isoDate(new Date(weekStartDate.getTime() + 6 * DAY_MS));
+  const upTo = until ? `&date=lte.${until}` : '';
+  const loadStart = isoDate(new Date(now.getTime() - 180 * DAY_MS));
+  const habitStart = isoDate(new Date(now.getTime() - 13 * DAY_MS));
+  const user = `user_id=eq.${userId}`;
+
+  const [onboardingRows, planRows, planned, training, body, gymSessions, programmeRows, habitRows] = await Promise.all([
+    select(`onboarding_data?${user}&select=*&limit=1`),
+    select(`training_plans?${user}&select=*&limit=1`),
+    select(`planned_sessions?${user}&date=gte.${weekStart}&select=id,date,sport,type,duration,distance,intensity,description,status&order=date.asc`),
+    select(`training_sessions?${user}&date=gte.${loadStart}${upTo}&select=date,sport,type,duration,distance,rpe,avg_power,volume_kg&order=date.desc`),
+    select(`body_metrics?${user}${upTo}&select=date,weight,sleep,fatigue&order=date.desc&limit=5`),
+    select(`gym_sessions?${user}&completed_at=not.is.null${upTo}&select=date,day_type,duration_minutes,gym_exercise_entries(order_index,gym_exercises(name),gym_sets(set_index,weight,reps,rpe,set_type,duration_seconds))&order=date.desc&limit=5`),
+    select(`gym_programmes?${user}&select=*&limit=1`),
+    select(`daily_habits?${user}&date=gte.${habitStart}${upTo}&select=name,icon,completed,date,schedule`),
+  ]);
+
+  const onboarding = onboardingFromRow(onboardingRows[0]);
+  const raceKey = onboarding?.raceDistance || '70.3';
+  const trainingDates = new Set([...planned.filter(p => p.status !== 'cancelled').map(p => p.date), ...training.map(t => t.date)]);
+
+  return {
+    userId,
+    today,
+    onboarding,
+    plan: planRows[0] || null,
+    raceDistance: { key: raceKey, ...(RACE_DISTANCES[raceKey] || RACE_DISTANCES['70.3']) },
+    weekStats: summarizeWeek(planned, training, weekStart, until || weekEnd),
+    trainingLoad: summarizeLoad(training, onboarding, now),
+    recentBody: body,
+    recentSessions: training.slice(0, 7),
+    plannedSessionsList: planned.filter(p => p.status === 'planned' && p.date >= today).slice(0, 14),
+    recentGymSessions: gymSessions.map(g => ({
+      date: g.date, day_type: g.day_type, duration_minutes: g.duration_minutes,
+      entries: (g.gym_exercise_entries || []).sort((a, b) => a.order_index - b.order_index).map(e => ({
+        exercise_name: e.gym_exercises?.name || 'Unknown',
+        sets: (e.gym_sets || []).sort((a, b) => a.set_index - b.set_index),
+      })),
+    })),
+    gymProgramme: summarizeProgramme(programmeRows[0], now),
+    habits: summarizeHabits(habitRows, trainingDates, today),
+  };
+}
@@ -0,0 +1,23 @@
+// api/_lib/claude.js — Claude Messages API call shared by the coach and scheduled routes
+
+export const COACH_MODEL = 'claude-sonnet-4-20250514';
+
+export function callClaude(apiKey, request) {
+  return fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+    },
+    body: JSON.stringify(request),
+  });
+}
+
+/** Non-streaming call that returns the joined text, or throws with the API's error body. */
+export async function completeText(apiKey, request) {
+  const response = await callClaude(apiKey, { model: COACH_MODEL, ...request });
+  if (!response.ok) throw new Error(`Claude API error: ${await response.text()}`);
+  const data = await response.json();
+  return data.content.filter(block => block.type === 'text').map(block => block.text).join('\n').trim();
+}
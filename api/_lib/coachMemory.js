@@ -0,0 +1,103 @@
+// api/_lib/coachMemory.js — Long-term coach memory: durable athlete facts plus rolling summaries of
+// chat history that has fallen out of the recent-turns window. Rows live in `coach_memories`
+// (kind 'fact' | 'summary') and are editable by the athlete on the Coach → Memory tab.
+
+import { select, insert, remove } from './supabase.js';
+import { completeText } from './claude.js';
+
+/**
+ * @typedef {{ id: string, category: string, content: string, source: 'coach' | 'athlete', updated_at: string }} MemoryFact
+ * @typedef {{ role: 'user' | 'assistant', content: string, timestamp: string }} ChatMessageRow
+ * @typedef {{ facts: MemoryFact[], summary: string | null, unsummarised: ChatMessageRow[] }} CoachMemory
+ */
+
+export const MEMORY_CATEGORIES = ['injury', 'health', 'schedule', 'preference', 'goal', 'life', 'other'];
+const RECENT_TURNS = 20; // what the chat request already carries verbatim
+const SUMMARY_BATCH = 40; // older messages needed before a new rolling summary is written
+const MAX_FACTS = 25;
+const MAX_UNSUMMARISED = SUMMARY_BATCH * 2; // only reached if summaries keep failing
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'that', 'this', 'with', 'have', 'what', 'should', 'about', 'my', 'is', 'a', 'i', 'to', 'of', 'in', 'on', 'it', 'me', 'am', 'do', 'be', 'can']);
+const words = text => new Set(String(text || '').toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+
+/**
+ * Facts sharing words with the message come first, then injuries/health (always worth knowing),
+ * then the most recently updated. Summaries are written in batches, so the messages between the latest
+ * summary and the recent-turns window come back verbatim; together they cover the whole conversation.
+ * @returns {Promise<CoachMemory>}
+ */
+export async function loadCoachMemory(userId, message = '') {
+  const [facts, summaries] = await Promise.all([
+    select(`coach_memories?user_id=eq.${userId}&kind=eq.fact&select=id,category,content,source,updated_at&order=updated_at.desc&limit=200`),
+    select(`coach_memories?user_id=eq.${userId}&kind=eq.summary&select=content,covers_until&order=created_at.desc&limit=1`),
+  ]);
+  const since = summaries[0]?.covers_until ? `&timestamp=gt.${encodeURIComponent(summaries[0].covers_until)}` : '';
+  const messages = await select(`coach_messages?user_id=eq.${userId}${since}&select=role,content,timestamp&order=timestamp.asc`);
+  const unsummarised = messages.slice(0, Math.max(0, messages.length - RECENT_TURNS)).slice(-MAX_UNSUMMARISED);
+  const query = words(message);
+  const score = fact => [...words(fact.content)].filter(w => query.has(w)).length * 2 + (fact.category === 'injury' || fact.category === 'health' ? 1 : 0);
+  const ranked = facts.map((fact, i) => ({ fact, score: score(fact), i })).sort((a, b) => b.score - a.score || a.i - b.i);
+  return { facts: ranked.slice(0, MAX_FACTS).map(r => r.fact), summary: summaries[0]?.content || null, unsummarised };
+}
+
+export const MEMORY_TOOLS = [
+  {
+    name: 'remember_fact',
+    description: 'Save a durable fact about the athlete worth knowing in future conversations (injuries, schedule constraints, preferences, life events, goals). Not for one-off questions or data already in the app.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        fact: { type: 'string', description: 'One short third-person sentence, e.g. "Has a recurring left Achilles niggle"' },
+        category: { type: 'string', enum: MEMORY_CATEGORIES },
+      },
+      required: ['fact', 'category'],
+    },
+  },
+  {
+    name: 'forget_fact',
+    description: 'Remove a remembered fact that the athlete says is no longer true.',
+    input_schema: { type: 'object', properties: { memoryId: { type: 'string', description: 'MEM id from WHAT YOU REMEMBER' } }, required: ['memoryId'] },
+  },
+];
+
+/** Applies a memory tool call; returns a short note for the chat or an error. */
+export async function applyMemoryTool(userId, name, input) {
+  if (name === 'remember_fact') {
+    const fact = String(input?.fact || '').trim().slice(0, 300);
+    if (!fact) return { error: 'Empty fact' };
+    const category = MEMORY_CATEGORIES.includes(input.category) ? input.category : 'other';
+    const now = new Date().toISOString();
+    await insert('coach_memories', { user_id: userId, kind: 'fact', category, content: fact, source: 'coach', created_at: now, updated_at: now });
+    return { note: `Remembered: ${fact}` };
+  }
+  if (name === 'forget_fact') {
+    const [fact] = await select(`coach_memories?id=eq.${encodeURIComponent(input?.memoryId || '')}&user_id=eq.${userId}&kind=eq.fact&select=content`);
+    if (!fact) return { error: 'Unknown memory' };
+    await remove('coach_memories', `id=eq.${encodeURIComponent(input.memoryId)}&user_id=eq.${userId}`);
+    return { note: `Forgot: ${fact.content}` };
+  }
+  return { error: `Unknown tool ${name}` };
+}
+
+/**
+ * Folds chat history older than the recent-turns window into a new rolling summary once enough of
+ * it has built up since the last one. The previous summary is carried forward, so the latest row
+ * always covers the whole conversation up to `covers_until`.
+ */
+export async function summariseOlderHistory(userId, apiKey) {
+  const [latest] = await select(`coach_memories?user_id=eq.${userId}&kind=eq.summary&select=content,covers_until&order=created_at.desc&limit=1`);
+  const since = latest?.covers_until ? `&timestamp=gt.${encodeURIComponent(latest.covers_until)}` : '';
+  const messages = await select(`coach_messages?user_id=eq.${userId}${since}&select=role,content,timestamp&order=timestamp.asc`);
+  const older = messages.slice(0, Math.max(0, messages.length - RECENT_TURNS));
+  if (older.length < SUMMARY_BATCH) return false;
+
+  const transcript = older.map(m => `${m.role === 'user' ? 'Athlete' : 'Coach'} (${m.timestamp.split('T')[0]}): ${m.content}`).join('\n');
+  const summary = await completeText(apiKey, {
+    max_tokens: 600,
+    system: 'You maintain a running summary of conversations between an endurance coach and an athlete. Write 150-250 words in the third person, in chronological order with dates. Keep injuries, constraints, preferences, decisions and plan changes; drop small talk. Merge the previous summary in rather than repeating it.',
+    messages: [{ role: 'user', content: `Previous summary:\n${latest?.content || '(none)'}\n\nNew conversation:\n${transcript}` }],
+  });
+  if (!summary) return false;
+  await insert('coach_memories', { user_id: userId, kind: 'summary', category: 'other', content: summary, source: 'coach', covers_until: older[older.length - 1].timestamp });
+  return true;
+}
@@ -0,0 +1,52 @@
+// api/_lib/messaging.js — Outbound messages to an athlete's paired Telegram / WhatsApp accounts.
+// Telegram goes straight to the Bot API; WhatsApp is relayed through the same n8n flow that feeds
+// /api/whatsapp-webhook (WHATSAPP_OUTBOUND_URL, authenticated with WEBHOOK_SECRET).
+
+import { select } from './supabase.js';
+
+/** Telegram's legacy Markdown uses single asterisks for bold and has no headings. */
+export function toTelegramMarkdown(text) {
+  return text.replace(/\*\*(.+?)\*\*/g, '*$1*').replace(/^#+\s*/gm, '');
+}
+
+/** Sends one message; falls back to plain text if Telegram rejects the Markdown. */
+export async function sendTelegramMessage(chatId, text) {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) return false;
+  const send = body => fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+    method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ chat_id: chatId, ...body }),
+  });
+  const res = await send({ text: toTelegramMarkdown(text), parse_mode: 'Markdown' });
+  if (res.ok) return true;
+  const plain = await send({ text: text.replace(/[*_`]/g, '') });
+  if (!plain.ok) console.error('Telegram send failed:', await plain.text());
+  return plain.ok;
+}
+
+export async function sendWhatsAppMessage(phone, text) {
+  const url = process.env.WHATSAPP_OUTBOUND_URL;
+  if (!url) return false;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Webhook-Secret': process.env.WEBHOOK_SECRET || '' },
+    body: JSON.stringify({ phone, message: text.replace(/\*\*(.+?)\*\*/g, '*$1*') }),
+  });
+  if (!res.ok) console.error('WhatsApp send failed:', await res.text());
+  return res.ok;
+}
+
+/**
+ * Sends to every channel the athlete has paired.
+ * @returns {Promise<('telegram' | 'whatsapp')[]>} the channels that accepted the message
+ */
+export async function deliverToChannels(userId, text) {
+  const [telegram, whatsapp] = await Promise.all([
+    select(`telegram_users?user_id=eq.${userId}&select=telegram_id&limit=1`),
+    select(`user_channels?user_id=eq.${userId}&channel_type=eq.whatsapp&verified=eq.true&select=channel_identifier&limit=1`),
+  ]);
+  const delivered = [];
+  // In a private chat the chat id is the user's Telegram id
+  if (telegram[0] && await sendTelegramMessage(telegram[0].telegram_id, text).catch(() => false)) delivered.push('telegram');
+  if (whatsapp[0] && await sendWhatsAppMessage(whatsapp[0].channel_identifier, text).catch(() => false)) delivered.push('whatsapp');
+  return delivered;
+}
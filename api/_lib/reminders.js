@@ -0,0 +1,109 @@
+// api/_lib/reminders.js — Scheduling rules and message text for the Telegram morning briefing and
+// evening nudge. Preferences are columns on `user_preferences` (edited from the Telegram settings in the
+// app); unset columns fall back to DEFAULT_PREFERENCES. The time zone has no default: the app saves the
+// browser's at sign-in, and athletes without one are skipped rather than messaged on UTC time.
+
+/**
+ * @typedef {{ briefing_enabled: boolean, briefing_time: string, nudge_enabled: boolean, nudge_time: string,
+ *   quiet_days: number[], timezone: string | null, last_briefing_on: string | null, last_nudge_on: string | null }} NotificationPreferences
+ */
+
+export const DEFAULT_PREFERENCES = {
+  briefing_enabled: true, briefing_time: '07:00',
+  nudge_enabled: true, nudge_time: '20:00',
+  quiet_days: [], timezone: null,
+  last_briefing_on: null, last_nudge_on: null,
+};
+
+import { carbTier, isLongSession, carbsPerHourDuring } from '../../src/lib/trainingRules.js';
+
+const SEND_WINDOW_MINS = 120; // a late or missed cron run still sends, but never hours off-time
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SPORT_EMOJI = { Swim: '🏊', Bike: '🚴', Run: '🏃', Strength: '💪' };
+
+/** The athlete's local date, minutes past midnight and weekday (0 = Sunday); unknown zones fall back to UTC. */
+export function localClock(timeZone, now = new Date()) {
+  let parts;
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', weekday: 'short', hourCycle: 'h23' }).formatToParts(now);
+  } catch {
+    return localClock('UTC', now);
+  }
+  const p = Object.fromEntries(parts.map(part => [part.type, part.value]));
+  return { date: `${p.year}-${p.month}-${p.day}`, minutes: Number(p.hour) * 60 + Number(p.minute), weekday: WEEKDAYS.indexOf(p.weekday) };
+}
+
+/** Whether a briefing ('briefing') or nudge ('nudge') should go out now. */
+export function isDue(prefs, kind, clock) {
+  if (!prefs[`${kind}_enabled`] || prefs[`last_${kind}_on`] === clock.date) return false;
+  if ((prefs.quiet_days || []).includes(clock.weekday)) return false;
+  const [h, m] = String(prefs[`${kind}_time`] || DEFAULT_PREFERENCES[`${kind}_time`]).split(':').map(Number);
+  const target = h * 60 + (m || 0);
+  return clock.minutes >= target && clock.minutes < target + SEND_WINDOW_MINS;
+}
+
+// Same tiers and long-session rates as the app's Nutrition tab
+function fuellingTip(sessions, weight) {
+  const tier = carbTier(sessions);
+  const carbs = Math.round(weight * tier.carbsPerKg);
+  const long = sessions.filter(isLongSession).sort((a, b) => b.duration - a.duration)[0];
+  if (long) {
+    return `${tier.dayType} day — aim for ~${carbs}g carbs. For the ${long.duration}min ${long.sport.toLowerCase()}: ${Math.round(weight)}–${Math.round(weight * 2)}g carbs 1–3h before, then ${carbsPerHourDuring(long)}g/h during.`;
+  }
+  if (tier.dayType === 'Rest') return `Rest day — ~${carbs}g carbs and plenty of protein (${Math.round(weight * 1.8)}g) to help you recover.`;
+  return `${tier.dayType} day — aim for ~${carbs}g carbs, with a carb + protein snack after your session.`;
+}
+
+/** Compares the last three fatigue scores with the ones before them. */
+function fatigueTrend(body) {
+  const scores = body.filter(b => b.fatigue).sort((a, b) => a.date.localeCompare(b.date)).map(b => b.fatigue);
+  if (scores.length === 0) return null;
+  const latest = scores[scores.length - 1];
+  const mean = values => values.reduce((s, v) => s + v, 0) / values.length;
+  const recent = scores.slice(-3), earlier = scores.slice(-7, -3);
+  const diff = earlier.length > 0 ? mean(recent) - mean(earlier) : 0;
+  const trend = diff >= 1 ? 'rising' : diff <= -1 ? 'easing' : 'steady';
+  const advice = latest >= 8 ? ' — consider swapping intensity for an easy day' : trend === 'rising' ? ' — keep today controlled' : '';
+  return `😓 Fatigue ${latest}/10, ${trend} over the last week${advice}`;
+}
+
+/**
+ * @param {{ date: string, sessions: object[], body: object[], weight: number }} data — today's non-cancelled planned
+ *   sessions and the last week of body metrics (newest first), both by the athlete's local date
+ */
+export function morningBriefing({ sessions, body, weight }) {
+  const lines = ['☀️ *Good morning!*', ''];
+  if (sessions.length === 0) lines.push('🧘 *Rest day* — no sessions planned today.');
+  else {
+    lines.push("📋 *Today's training*");
+    sessions.forEach(s => lines.push(`${s.status === 'completed' ? '✅' : '⬜'} ${SPORT_EMOJI[s.sport] || '🏋️'} ${s.sport} ${s.type} — ${s.duration}min, ${s.intensity}`));
+  }
+  const fatigue = fatigueTrend(body);
+  const sleep = body.find(b => b.sleep); // body is newest first
+  if (fatigue || sleep) lines.push('');
+  if (fatigue) lines.push(fatigue);
+  if (sleep) lines.push(`💤 Last logged sleep: ${sleep.sleep}h (${sleep.date})`);
+  lines.push('', `🍝 ${fuellingTip(sessions.filter(s => s.status !== 'skipped'), weight)}`);
+  return lines.join('\n');
+}
+
+/** Returns null when everything for the day is already logged, so no message is sent. */
+export function eveningNudge({ date, sessions, body }) {
+  const today = body.find(b => b.date === date) || {};
+  const missing = [
+    !today.sleep && '💤 /sleep 7.5',
+    !today.fatigue && '😓 /fatigue 5',
+    !today.weight && '⚖️ /weight 67.2',
+  ].filter(Boolean);
+  const unlogged = sessions.filter(s => s.status === 'planned');
+  if (missing.length === 0 && unlogged.length === 0) return null;
+
+  const lines = ['🌙 *Evening check-in*'];
+  if (missing.length > 0) lines.push('', "Today's metrics aren't logged yet — reply with:", ...missing);
+  if (unlogged.length > 0) {
+    lines.push('', 'Not logged as done yet:');
+    unlogged.forEach(s => lines.push(`⬜ ${SPORT_EMOJI[s.sport] || '🏋️'} ${s.sport} ${s.type} — ${s.duration}min`));
+    lines.push('Log it in the app (or mark it skipped) so your plan adapts.');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,49 @@
+// api/_lib/supabase.js — Minimal Supabase REST helpers for server routes (no SDK, uses fetch)
+// All calls use the service role, so callers must scope every query to a verified user ID.
+
+export function supabaseConfig() {
+  return {
+    url: process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL,
+    serviceKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    anonKey: process.env.VITE_SUPABASE_ANON_KEY,
+  };
+}
+
+function headers(extra = {}) {
+  const { serviceKey } = supabaseConfig();
+  return { 'Content-Type': 'application/json', 'apikey': serviceKey, 'Authorization': `Bearer ${serviceKey}`, ...extra };
+}
+
+/** GET rows; logs and returns [] on failure so one bad query doesn't sink a whole context. */
+export async function select(path) {
+  const res = await fetch(`${supabaseConfig().url}/rest/v1/${path}`, { headers: headers() });
+  if (!res.ok) {
+    console.error('Supabase select failed:', path.split('?')[0], await res.text());
+    return [];
+  }
+  return res.json();
+}
+
+/** Inserts one row (or an array) and returns the stored rows. */
+export async function insert(table, rows) {
+  const res = await fetch(`${supabaseConfig().url}/rest/v1/${table}`, {
+    method: 'POST', headers: headers({ 'Prefer': 'return=representation' }), body: JSON.stringify(rows),
+  });
+  if (!res.ok) throw new Error(`Insert into ${table} failed: ${await res.text()}`);
+  return res.json();
+}
+
+/** PATCH rows matching a PostgREST filter such as `id=eq.1&user_id=eq.2`. */
+export async function update(table, filter, changes) {
+  const res = await fetch(`${supabaseConfig().url}/rest/v1/${table}?${filter}`, {
+    method: 'PATCH', headers: headers({ 'Prefer': 'return=minimal' }), body: JSON.stringify(changes),
+  });
+  if (!res.ok) throw new Error(`Update of ${table} failed: ${await res.text()}`);
+}
+
+export async function remove(table, filter) {
+  const res = await fetch(`${supabaseConfig().url}/rest/v1/${table}?${filter}`, {
+    method: 'DELETE', headers: headers({ 'Prefer': 'return=minimal' }),
+  });
+  if (!res.ok) throw new Error(`Delete from ${table} failed: ${await res.text()}`);
+}
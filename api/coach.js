@@ -1,10 +1,17 @@
 // api/coach.js — Vercel Serverless Function
-// Calls Claude API securely (API key stays on server)
+// Calls Claude API securely (API key stays on server). Requires the athlete's Supabase JWT;
+// the athlete context is loaded server-side for that user rather than trusted from the request.
+
+import { authenticateRequest, buildAthleteContext, athleteNow } from './_lib/athleteContext.js';
+import { callClaude, COACH_MODEL } from './_lib/claude.js';
+import { loadCoachMemory, summariseOlderHistory, applyMemoryTool, MEMORY_TOOLS } from './_lib/coachMemory.js';
+import { buildSystemPrompt } from './_lib/coachPrompt.js';
 
 export default async function handler(req, res) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  // Same-origin by default; set APP_URL to allow a separately hosted frontend
+  if (process.env.APP_URL) res.setHeader('Access-Control-Allow-Origin', process.env.APP_URL);
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') return res.status(200).end();
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
@@ -12,8 +19,23 @@ export default async function handler(req, res) {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) return res.status(500).json({ error: 'ANTHROPIC_API_KEY not configured' });
 
+  let summarising = null;
   try {
-    const { mode, userMessage, athleteContext, chatHistory } = req.body;
+    const user = await authenticateRequest(req);
+    if (!user) return res.status(401).json({ error: 'Invalid or missing auth token' });
+
+    const { mode, userMessage, chatHistory, stream, fuelling, localDate } = req.body;
+    // Folding older chat into the rolling summary runs alongside the reply and is awaited before the
+    // response closes, since Vercel may stop the function once it has. The prompt below doesn't wait for it:
+    // messages the latest summary doesn't cover yet are sent verbatim. A failure only delays the summary.
+    summarising = mode === 'chat' ? summariseOlderHistory(user.id, apiKey).catch(err => console.error('Coach summary error:', err)) : null;
+    // Today's fuelling targets are computed in the app and only shape the athlete's own meal plan
+    const athleteContext = {
+      ...(await buildAthleteContext(user.id, athleteNow(localDate))),
+      memory: await loadCoachMemory(user.id, userMessage),
+      canModifyPlan: mode === 'chat',
+      fuelling: mode === 'nutrition' ? fuelling : undefined,
+    };
     const systemPrompt = buildSystemPrompt(athleteContext, mode);
 
     // Build messages array with conversation history
@@ -34,183 +56,252 @@ export default async function handler(req, res) {
       messages.push({ role: 'user', content: userMessage || 'How is my training going?' });
     }
 
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
-        system: systemPrompt,
-        messages,
-      }),
-    });
+    // Plan edits are proposed through tools and only applied once the athlete confirms them in the app;
+    // memory tools are applied straight away since the athlete can edit memories afterwards
+    const tools = mode === 'chat' ? [...(athleteContext.canModifyPlan ? PLAN_TOOLS : []), ...MEMORY_TOOLS] : undefined;
+    const request = {
+      model: COACH_MODEL,
+      max_tokens: 1500,
+      system: systemPrompt,
+      messages,
+      ...(tools ? { tools } : {}),
+    };
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('Claude API error:', errorData);
-      return res.status(response.status).json({ error: 'Claude API error', details: errorData });
-    }
+    if (stream) return streamCoachResponse(res, apiKey, request, athleteContext, summarising);
 
-    const data = await response.json();
-    const text = data.content.filter(block => block.type === 'text').map(block => block.text).join('\n');
+    const texts = [], planChanges = [], memories = [];
+    for (let round = 1; ; round++) {
+      const response = await callClaude(apiKey, withToolRound(request, round));
+      if (!response.ok) {
+        const errorData = await response.text();
+        console.error('Claude API error:', errorData);
+        await summarising;
+        return res.status(response.status).json({ error: 'Claude API error', details: errorData });
+      }
 
-    // Parse plan changes if the AI included them
-    let planChanges = [];
-    const planChangeMatch = text.match(/\[PLAN_CHANGES\]([\s\S]*?)\[\/PLAN_CHANGES\]/);
-    if (planChangeMatch) {
-      try { planChanges = JSON.parse(planChangeMatch[1]); } catch (e) { /* ignore parse errors */ }
+      const data = await response.json();
+      texts.push(data.content.filter(block => block.type === 'text').map(block => block.text).join('\n').trim());
+      const results = [];
+      for (const block of data.content.filter(b => b.type === 'tool_use')) {
+        const outcome = await runTool(block.name, block.input, athleteContext);
+        (isMemoryTool(block.name) ? memories : planChanges).push(outcome);
+        results.push(toolResult(block.id, outcome));
+      }
+      if (data.stop_reason !== 'tool_use') break;
+      request.messages = [...request.messages, { role: 'assistant', content: data.content }, { role: 'user', content: results }];
     }
-    const cleanMessage = text.replace(/\[PLAN_CHANGES\][\s\S]*?\[\/PLAN_CHANGES\]/, '').trim();
 
-    return res.status(200).json({ message: cleanMessage, planChanges });
+    await summarising;
+    return res.status(200).json({ message: texts.filter(Boolean).join('\n\n'), planChanges, memories });
 
   } catch (error) {
     console.error('Coach API error:', error);
+    await summarising;
+    if (res.headersSent) { sendEvent(res, 'error', { error: 'Internal server error' }); return res.end(); }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
 
-function buildSystemPrompt(ctx, mode) {
-  if (!ctx) ctx = {};
-
-  const sections = [
-    `You are an expert triathlon coach, strength training specialist, and sports nutritionist AI inside the "Pro Fit Agent" app. You coach athletes preparing for Ironman 70.3 races and manage their Push/Pull/Legs gym programme.`,
-    `Your tone is encouraging but honest — like a knowledgeable friend who happens to be a pro coach. Use short paragraphs. Use emoji sparingly (1-2 per response max).`,
-    `Keep responses concise (under 250 words for chat, under 400 words for summaries, under 500 words for meal plans).`,
-    `IMPORTANT: You have access to the athlete's real training data below. Always reference their actual numbers, planned sessions, and metrics. Never make up or guess data — use only what is provided.`,
-  ];
-
-  if (ctx.onboarding) {
-    const o = ctx.onboarding;
-    sections.push(`\n--- ATHLETE PROFILE ---`);
-    if (o.age) sections.push(`Age: ${o.age}`);
-    if (o.weight) sections.push(`Weight: ${o.weight}kg`);
-    if (o.trainingBackground) sections.push(`Experience: ${o.trainingBackground}`);
-    if (o.goalType) sections.push(`Goal: ${o.goalType}`);
-    if (o.raceDate) sections.push(`Race date: ${o.raceDate}`);
-    if (o.priority) sections.push(`Priority: ${o.priority}`);
-    if (o.hoursPerWeek) sections.push(`Available: ${o.hoursPerWeek} hrs/week`);
-    if (o.canSwim1900m !== undefined) sections.push(`Can swim 1.9km: ${o.canSwim1900m ? 'Yes' : 'No'}`);
-    if (o.fiveKTime) sections.push(`5K time: ${Math.round(o.fiveKTime / 60)} minutes`);
-    if (o.ftp) sections.push(`FTP: ${o.ftp}W`);
-  }
+const isMemoryTool = name => MEMORY_TOOLS.some(tool => tool.name === name);
 
-  if (ctx.plan) {
-    const p = ctx.plan;
-    sections.push(`\n--- CURRENT PLAN ---`);
-    sections.push(`Phase: ${p.phase}`);
-    sections.push(`Weekly targets: ${p.weekly_swim_sessions} swims, ${p.weekly_bike_km}km bike, ${p.weekly_run_km}km run, ${p.weekly_strength_sessions} strength`);
-  }
+// Each tool call is answered with a tool_result so the coach can reply in words; the last round
+// disables tools, so a turn never ends on tool calls alone
+const MAX_TOOL_ROUNDS = 3;
+
+const withToolRound = (request, round) => (request.tools && round >= MAX_TOOL_ROUNDS ? { ...request, tool_choice: { type: 'none' } } : request);
+
+/** Memory tools are applied now; plan edits are only validated and wait for the athlete's confirmation. */
+async function runTool(name, input, ctx) {
+  return isMemoryTool(name) ? applyMemoryTool(ctx.userId, name, input) : validatePlanChange(name, input, ctx);
+}
+
+function toolResult(id, outcome) {
+  if (outcome.error) return { type: 'tool_result', tool_use_id: id, content: outcome.error, is_error: true };
+  return { type: 'tool_result', tool_use_id: id, content: outcome.summary ? `Shown to the athlete to confirm: ${outcome.summary}` : outcome.note };
+}
+
+function sendEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Relays Claude's stream to the app as server-sent events: text (token deltas), plan_change (a validated
+// proposal or a rejected one with an error), memory (a fact saved or forgotten), error and done.
+// `pending` is background work that must finish before the stream closes.
+async function streamCoachResponse(res, apiKey, request, ctx, pending) {
+  let sentText = false;
+  for (let round = 1; ; round++) {
+    const response = await callClaude(apiKey, { ...withToolRound(request, round), stream: true });
+    if (!response.ok) {
+      const errorData = await response.text();
+      console.error('Claude API error:', errorData);
+      await pending;
+      if (res.headersSent) { sendEvent(res, 'error', { error: 'Claude API error' }); return res.end(); }
+      return res.status(response.status).json({ error: 'Claude API error', details: errorData });
+    }
 
-  // TODAY'S PLAN - most important context
-  if (ctx.plannedSessionsList && ctx.plannedSessionsList.length > 0) {
-    const today = new Date().toISOString().split('T')[0];
-    const todaySessions = ctx.plannedSessionsList.filter(s => s.date === today);
-    if (todaySessions.length > 0) {
-      sections.push(`\n--- TODAY'S PLANNED SESSIONS (${today}) ---`);
-      todaySessions.forEach(s => {
-        sections.push(`ID:${s.id} | ${s.sport} ${s.type} — ${s.duration}min, ${s.distance || 0}${s.sport === 'Swim' ? 'm' : 'km'}, ${s.intensity}, status:${s.status}${s.description ? ' | ' + s.description : ''}`);
+    if (!res.headersSent) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
       });
-    } else {
-      sections.push(`\n--- TODAY (${today}) ---`);
-      sections.push(`Rest day — no sessions planned for today.`);
     }
-  }
 
-  if (ctx.weekStats) {
-    const w = ctx.weekStats;
-    sections.push(`\n--- THIS WEEK ---`);
-    sections.push(`Completed: ${w.completed}/${w.total} sessions (${w.compliancePercent}%)`);
-    sections.push(`Skipped: ${w.skipped}`);
-    if (w.swimDistance) sections.push(`Swim: ${w.swimDistance}m`);
-    if (w.bikeDistance) sections.push(`Bike: ${w.bikeDistance}km`);
-    if (w.runDistance) sections.push(`Run: ${w.runDistance}km`);
-    sections.push(`Total duration: ${w.totalMinutes} minutes`);
+    // Text after a tool round starts a new paragraph of the same reply
+    const { content, results, stopReason } = await relayStream(res, response, ctx, sentText ? '\n\n' : '');
+    sentText = sentText || content.some(block => block.type === 'text');
+    if (stopReason !== 'tool_use') break;
+    request = { ...request, messages: [...request.messages, { role: 'assistant', content }, { role: 'user', content: results }] };
   }
 
-  if (ctx.recentBody && ctx.recentBody.length > 0) {
-    sections.push(`\n--- RECENT BODY METRICS ---`);
-    ctx.recentBody.slice(0, 5).forEach(b => {
-      const parts = [b.date];
-      if (b.weight) parts.push(`${b.weight}kg`);
-      if (b.sleep) parts.push(`${b.sleep}h sleep`);
-      if (b.fatigue) parts.push(`fatigue ${b.fatigue}/10`);
-      sections.push(parts.join(' | '));
-    });
-  }
+  await pending;
+  sendEvent(res, 'done', {});
+  res.end();
+}
 
-  if (ctx.recentSessions && ctx.recentSessions.length > 0) {
-    sections.push(`\n--- RECENT WORKOUTS (last 7) ---`);
-    ctx.recentSessions.slice(0, 7).forEach(s => {
-      sections.push(`${s.date}: ${s.sport} ${s.type} — ${s.duration}min, ${s.distance}${s.sport === 'Swim' ? 'm' : 'km'}, RPE ${s.rpe}`);
-    });
-  }
+/** Relays one streamed message; returns its content blocks, the tool_result for each tool call and the stop reason. */
+async function relayStream(res, response, ctx, separator) {
+  const blocks = [], results = [];
+  let stopReason = null, pending = separator;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
 
-  if (ctx.plannedSessionsList && ctx.plannedSessionsList.length > 0) {
-    sections.push(`\n--- UPCOMING PLANNED SESSIONS ---`);
-    ctx.plannedSessionsList.slice(0, 14).forEach(s => {
-      sections.push(`ID:${s.id} | ${s.date}: ${s.sport} ${s.type} — ${s.duration}min, ${s.intensity}, status:${s.status}`);
-    });
-  }
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop();
+
+    for (const raw of events) {
+      const dataLine = raw.split('\n').find(line => line.startsWith('data: '));
+      if (!dataLine) continue;
+      const event = JSON.parse(dataLine.slice(6));
 
-  // Gym/strength training context — always provide PPL awareness
-  sections.push(`\n--- GYM PROGRAMME ---`);
-  sections.push(`The athlete follows a Push/Pull/Legs split, scheduled 3x per week.`);
-  sections.push(`Push (Mon) = Bench Press, OHP, Incline DB Press, Lateral Raises, Tricep Pushdowns, Overhead Tricep Ext`);
-  sections.push(`Pull (Wed) = Barbell Row, Pull-Ups, Lat Pulldown, Seated Cable Row, Face Pulls, Bicep Curls, Hammer Curls`);
-  sections.push(`Legs (Fri) = Barbell Squat, Leg Press, Romanian Deadlift, Leg Curls, Leg Extensions, Calf Raises, Walking Lunges`);
-  sections.push(`When recommending gym work, always reference the specific exercises above and suggest sets/reps/weight based on their history.`);
-  sections.push(`For progressive overload: suggest 2.5kg increases on compounds (bench, squat, row, OHP) and 1-2 rep increases on isolations when they consistently hit their target reps.`);
-  
-  if (ctx.recentGymSessions && ctx.recentGymSessions.length > 0) {
-    sections.push(`\n--- RECENT GYM SESSIONS ---`);
-    ctx.recentGymSessions.forEach(g => {
-      sections.push(`${g.date}: ${g.day_type} Day — ${g.duration_minutes || '?'}min`);
-      if (g.entries) {
-        g.entries.forEach(e => {
-          const setsStr = e.sets.map(s => `${s.weight}kg×${s.reps}${s.rpe ? ' @' + s.rpe : ''}`).join(', ');
-          sections.push(`  ${e.exercise_name}: ${setsStr}`);
-        });
+      if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+        blocks[event.index] = { type: 'tool_use', id: event.content_block.id, name: event.content_block.name, input: {}, json: '' };
+      } else if (event.type === 'content_block_start' && event.content_block.type === 'text') {
+        blocks[event.index] = { type: 'text', text: '' };
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        blocks[event.index].text += event.delta.text;
+        sendEvent(res, 'text', { text: pending + event.delta.text });
+        pending = '';
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+        blocks[event.index].json += event.delta.partial_json;
+      } else if (event.type === 'content_block_stop' && blocks[event.index]?.type === 'tool_use') {
+        const block = blocks[event.index];
+        let input = null;
+        try { input = JSON.parse(block.json || '{}'); } catch (e) { /* reported by validation below */ }
+        block.input = input || {};
+        delete block.json;
+        const outcome = await runTool(block.name, input, ctx);
+        results.push(toolResult(block.id, outcome));
+        sendEvent(res, isMemoryTool(block.name) ? 'memory' : 'plan_change', outcome);
+      } else if (event.type === 'message_delta') {
+        stopReason = event.delta.stop_reason;
+      } else if (event.type === 'error') {
+        console.error('Claude stream error:', event.error);
+        sendEvent(res, 'error', { error: event.error?.message || 'Coach stream failed' });
       }
-    });
-    sections.push(`\nWhen the athlete asks about gym/strength training, reference their actual weights and reps above.`);
-  } else {
-    sections.push(`No gym sessions logged yet. If asked about gym, provide beginner-friendly recommendations based on the exercises above.`);
+    }
   }
+  // The API rejects empty text blocks when the turn is sent back
+  return { content: blocks.filter(block => block && (block.type !== 'text' || block.text)), results, stopReason };
+}
 
-  if (mode === 'nutrition') {
-    sections.push(`\n--- NUTRITION TASK ---`);
-    if (ctx.targetCalories) sections.push(`Target: ${ctx.targetCalories} kcal, ${ctx.targetProtein}g protein, ${ctx.targetCarbs}g carbs, ${ctx.targetFat}g fat`);
-    sections.push(`Generate a complete daily meal plan with 5-6 meals. For each meal include:`);
-    sections.push(`- Meal name (Breakfast, Snack AM, Lunch, Snack PM, Dinner, Post-Workout)`);
-    sections.push(`- Specific foods with portions`);
-    sections.push(`- Approximate calories and macros`);
-    sections.push(`Tailor to the athlete's training day — more carbs on heavy training days, more protein on rest/recovery days.`);
-    sections.push(`Focus on practical, whole-food meals. Include pre/post workout nutrition timing advice.`);
-  } else if (mode === 'summary') {
-    sections.push(`\n--- TASK ---`);
-    sections.push(`Generate a weekly training summary with these sections:`);
-    sections.push(`1. **Week Overview** — how the week went overall`);
-    sections.push(`2. **What Went Well** — positive highlights`);
-    sections.push(`3. **Areas to Improve** — honest but constructive feedback`);
-    sections.push(`4. **Recovery Check** — based on body metrics and training load`);
-    sections.push(`5. **Next Week Focus** — 2-3 specific priorities`);
-    sections.push(`If data is limited, say so and give general advice for the athlete's level.`);
-  } else {
-    sections.push(`\n--- TASK ---`);
-    sections.push(`Answer the athlete's question using their training data. Be specific and actionable. Reference their actual numbers when possible.`);
-    sections.push(`CRITICAL: When the athlete asks about today's training, ONLY refer to the TODAY'S PLANNED SESSIONS section above. Do not invent sessions.`);
-    if (ctx.canModifyPlan) {
-      sections.push(`\nYou can modify the training plan if the athlete asks. When making changes, include a JSON block at the end:`);
-      sections.push(`[PLAN_CHANGES][{"action":"cancel","sessionId":"<id>"},{"action":"add","date":"YYYY-MM-DD","sport":"Run","type":"Z2","duration":40,"distance":6,"intensity":"Easy","description":"Easy recovery run"}][/PLAN_CHANGES]`);
-      sections.push(`Only include [PLAN_CHANGES] when the athlete explicitly asks to change their plan. Available actions: cancel (replaces a session - does NOT count as skipped), add, reschedule (with newDate - marks original as cancelled and creates new session).`);
-      sections.push(`When replacing or rescheduling, use the session ID from the UPCOMING PLANNED SESSIONS list. Use "cancel" not "skip" — cancelled sessions appear as "Replaced" in amber color and don't count against compliance.`);
-    }
+// ============================================================================
+// PLAN EDIT TOOLS
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SPORTS = ['Swim', 'Bike', 'Run', 'Strength'];
+const INTENSITIES = ['Easy', 'Moderate', 'Hard'];
+
+const sessionIdProperty = { type: 'string', description: 'ID from the UPCOMING PLANNED SESSIONS list' };
+const sessionProperties = {
+  type: { type: 'string', description: 'Session type, e.g. Z2, Tempo, Intervals, Long, Technique' },
+  duration: { type: 'number', description: 'Minutes, 5-600' },
+  distance: { type: 'number', description: 'Metres for swims, kilometres otherwise' },
+  intensity: { type: 'string', enum: INTENSITIES },
+  description: { type: 'string' },
+};
+
+const PLAN_TOOLS = [
+  {
+    name: 'cancel_session',
+    description: 'Cancel a planned session. Cancelled sessions show as "Replaced" and do not count against compliance.',
+    input_schema: { type: 'object', properties: { sessionId: sessionIdProperty, reason: { type: 'string' } }, required: ['sessionId'] },
+  },
+  {
+    name: 'add_session',
+    description: 'Add a new planned session.',
+    input_schema: {
+      type: 'object',
+      properties: { date: { type: 'string', description: 'YYYY-MM-DD' }, sport: { type: 'string', enum: SPORTS }, ...sessionProperties },
+      required: ['date', 'sport', 'type', 'duration', 'intensity'],
+    },
+  },
+  {
+    name: 'reschedule_session',
+    description: 'Move a planned session to another date. The original is cancelled and a copy is created on the new date.',
+    input_schema: { type: 'object', properties: { sessionId: sessionIdProperty, newDate: { type: 'string', description: 'YYYY-MM-DD' } }, required: ['sessionId', 'newDate'] },
+  },
+  {
+    name: 'modify_session',
+    description: 'Change the intensity, type, duration, distance or description of a planned session.',
+    input_schema: { type: 'object', properties: { sessionId: sessionIdProperty, ...sessionProperties }, required: ['sessionId'] },
+  },
+];
+
+// Checks a tool call against its schema and the athlete's upcoming sessions, returning either
+// { change, summary } ready for applyPlanChanges or { error } so the app can show why it was dropped
+function validatePlanChange(name, input, ctx) {
+  const fail = error => ({ tool: name, error });
+  if (!input || typeof input !== 'object') return fail('Malformed tool input');
+  const today = ctx.today;
+  const sessions = (ctx && ctx.plannedSessionsList) || [];
+  const label = s => `${s.sport} ${s.type} on ${s.date}`;
+  const checkDate = date => !DATE_PATTERN.test(date || '') || isNaN(new Date(date).getTime()) ? 'Date must be YYYY-MM-DD' : date < today ? 'Date is in the past' : null;
+  const checkFields = () => {
+    if (input.duration !== undefined && (typeof input.duration !== 'number' || input.duration < 5 || input.duration > 600)) return 'Duration must be 5-600 minutes';
+    if (input.distance !== undefined && (typeof input.distance !== 'number' || input.distance < 0)) return 'Distance must be a positive number';
+    if (input.intensity !== undefined && !INTENSITIES.includes(input.intensity)) return `Intensity must be one of ${INTENSITIES.join(', ')}`;
+    return null;
+  };
+
+  let session = null;
+  if (name !== 'add_session') {
+    session = sessions.find(s => s.id === input.sessionId);
+    if (!session) return fail('Unknown session ID');
   }
 
-  return sections.join('\n');
-}
\ No newline at end of file
+  if (name === 'cancel_session') {
+    return { change: { action: 'cancel', sessionId: session.id }, summary: `Cancel ${label(session)}${input.reason ? ` — ${input.reason}` : ''}` };
+  }
+  if (name === 'reschedule_session') {
+    const dateError = checkDate(input.newDate);
+    if (dateError) return fail(dateError);
+    return { change: { action: 'reschedule', sessionId: session.id, newDate: input.newDate }, summary: `Move ${label(session)} to ${input.newDate}` };
+  }
+  if (name === 'modify_session') {
+    const fieldError = checkFields();
+    if (fieldError) return fail(fieldError);
+    const updates = {};
+    ['type', 'duration', 'distance', 'intensity', 'description'].forEach(field => { if (input[field] !== undefined) updates[field] = input[field]; });
+    if (Object.keys(updates).length === 0) return fail('No changes given');
+    const described = Object.entries(updates).filter(([field]) => field !== 'description').map(([field, value]) => `${field} ${value}`);
+    return { change: { action: 'modify', sessionId: session.id, ...updates }, summary: `Change ${label(session)}: ${described.join(', ') || 'new description'}` };
+  }
+  if (name === 'add_session') {
+    const dateError = checkDate(input.date);
+    if (dateError) return fail(dateError);
+    if (!SPORTS.includes(input.sport)) return fail(`Sport must be one of ${SPORTS.join(', ')}`);
+    if (!input.type || input.duration === undefined || !input.intensity) return fail('Type, duration and intensity are required');
+    const fieldError = checkFields();
+    if (fieldError) return fail(fieldError);
+    const { date, sport, type, duration, distance, intensity, description } = input;
+    return { change: { action: 'add', date, sport, type, duration, distance: distance || 0, intensity, description: description || '' }, summary: `Add ${sport} ${type} on ${date} — ${duration}min, ${intensity}` };
+  }
+  return fail(`Unknown tool ${name}`);
+}
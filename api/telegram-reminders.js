@@ -0,0 +1,69 @@
+// api/telegram-reminders.js — Cron-triggered Telegram morning briefing and evening nudge
+// Runs every 15 minutes (see vercel.json) and sends to each paired telegram_users account whose
+// local briefing/nudge time has come, honouring quiet days and opt-outs from user_preferences.
+// last_briefing_on / last_nudge_on record the athlete's local date so each goes out at most once a day.
+
+import { sendTelegramMessage } from './_lib/messaging.js';
+import { select, update } from './_lib/supabase.js';
+import { DEFAULT_PREFERENCES, localClock, isDue, morningBriefing, eveningNudge } from './_lib/reminders.js';
+
+export default async function handler(req, res) {
+  // Vercel cron sends CRON_SECRET as a bearer token; anything else is rejected
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) return res.status(401).json({ error: 'Unauthorized' });
+  if (!process.env.TELEGRAM_BOT_TOKEN) return res.status(500).json({ error: 'TELEGRAM_BOT_TOKEN not configured' });
+
+  try {
+    const [accounts, prefRows] = await Promise.all([
+      select('telegram_users?select=user_id,telegram_id'),
+      select('user_preferences?select=user_id,briefing_enabled,briefing_time,nudge_enabled,nudge_time,quiet_days,timezone,last_briefing_on,last_nudge_on'),
+    ]);
+    const prefsByUser = Object.fromEntries(prefRows.map(p => [p.user_id, p]));
+    const now = new Date();
+    const result = { briefings: 0, nudges: 0, failed: 0 };
+
+    for (const account of accounts) {
+      // The app creates the row at sign-in; without one the sent-date couldn't be recorded
+      if (!prefsByUser[account.user_id]) continue;
+      const stored = Object.entries(prefsByUser[account.user_id]).filter(([, value]) => value !== null);
+      const prefs = { ...DEFAULT_PREFERENCES, ...Object.fromEntries(stored) };
+      // Without a saved time zone the local send times can't be placed, so nothing is sent
+      if (!prefs.timezone) continue;
+      const clock = localClock(prefs.timezone, now);
+      const due = ['briefing', 'nudge'].filter(kind => isDue(prefs, kind, clock));
+      if (due.length === 0) continue;
+
+      try {
+        const data = await loadDay(account.user_id, clock.date);
+        const sent = {};
+        for (const kind of due) {
+          const text = kind === 'briefing' ? morningBriefing(data) : eveningNudge(data);
+          // A nudge with nothing to ask about is skipped but still marked done for the day
+          if (text && !(await sendTelegramMessage(account.telegram_id, text))) { result.failed++; continue; }
+          if (text) result[kind === 'briefing' ? 'briefings' : 'nudges']++;
+          sent[`last_${kind}_on`] = clock.date;
+        }
+        if (Object.keys(sent).length > 0) await update('user_preferences', `user_id=eq.${account.user_id}`, sent);
+      } catch (err) {
+        console.error(`Telegram reminder failed for ${account.user_id}:`, err);
+        result.failed++;
+      }
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Telegram reminders error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** Today's planned sessions and the last week of body metrics, by the athlete's local date. */
+async function loadDay(userId, date) {
+  const weekAgo = new Date(new Date(date + 'T00:00:00Z').getTime() - 6 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const [sessions, body, onboarding] = await Promise.all([
+    select(`planned_sessions?user_id=eq.${userId}&date=eq.${date}&status=neq.cancelled&select=sport,type,duration,intensity,status&order=created_at`),
+    select(`body_metrics?user_id=eq.${userId}&date=gte.${weekAgo}&select=date,weight,sleep,fatigue&order=date.desc`),
+    select(`onboarding_data?user_id=eq.${userId}&select=weight&limit=1`),
+  ]);
+  const weight = body.find(b => b.weight)?.weight || onboarding[0]?.weight || 75;
+  return { date, sessions, body, weight };
+}
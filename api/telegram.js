@@ -195,6 +195,9 @@ export default async function handler(req, res) {
         const swim = (training || []).filter(t => t.sport === 'Swim').reduce((s, t) => s + (t.distance || 0), 0);
         const bike = (training || []).filter(t => t.sport === 'Bike').reduce((s, t) => s + (t.distance || 0), 0);
         const run = (training || []).filter(t => t.sport === 'Run').reduce((s, t) => s + (t.distance || 0), 0);
+        const gym = (training || []).filter(t => (t.sport || '').startsWith('Gym'));
+        const gymMins = gym.reduce((s, t) => s + (t.duration || 0), 0);
+        const gymVolume = gym.reduce((s, t) => s + (t.volume_kg || 0), 0);
         const totalMins = (training || []).reduce((s, t) => s + (t.duration || 0), 0);
   
         let msg = `📊 *This Week's Summary*\n\n`;
@@ -202,6 +205,7 @@ export default async function handler(req, res) {
         if (swim) msg += `🏊 Swim: *${swim}m*\n`;
         if (bike) msg += `🚴 Bike: *${bike.toFixed(1)}km*\n`;
         if (run) msg += `🏃 Run: *${run.toFixed(1)}km*\n`;
+        if (gym.length) msg += `🏋️ Gym: *${gym.length}× ${gymMins}min* (${(gymVolume / 1000).toFixed(1)}t lifted)\n`;
         msg += `⏱ Total: *${Math.round(totalMins / 60 * 10) / 10}hrs*\n`;
   
         if (body && body.length > 0) {
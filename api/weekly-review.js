@@ -0,0 +1,88 @@
+// api/weekly-review.js — Cron-triggered weekly review (see vercel.json: Sunday evenings, UTC)
+// Generates each athlete's review of the Sunday–Saturday week that just ended, stores it in
+// `weekly_reviews` and sends it to their paired Telegram / WhatsApp accounts. Safe to re-run:
+// athletes who already have a review for the week are skipped, so a second trigger picks up
+// anyone the first run didn't reach before its time budget ran out.
+
+import { buildAthleteContext } from './_lib/athleteContext.js';
+import { buildSystemPrompt } from './_lib/coachPrompt.js';
+import { completeText } from './_lib/claude.js';
+import { loadCoachMemory } from './_lib/coachMemory.js';
+import { deliverToChannels } from './_lib/messaging.js';
+import { select, insert, update } from './_lib/supabase.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIME_BUDGET_MS = 240 * 1000; // leave headroom under the function's maxDuration
+const isoDate = date => date.toISOString().split('T')[0];
+
+export default async function handler(req, res) {
+  // Vercel cron sends CRON_SECRET as a bearer token; anything else is rejected
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) return res.status(401).json({ error: 'Unauthorized' });
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) return res.status(500).json({ error: 'ANTHROPIC_API_KEY not configured' });
+
+  const started = Date.now();
+  // Yesterday anchors the review: on Sunday that is the Saturday closing the app's Sunday-start week
+  const reviewDay = new Date(started - DAY_MS);
+  const weekStartDate = new Date(reviewDay); weekStartDate.setDate(reviewDay.getDate() - reviewDay.getDay());
+  const weekStart = isoDate(weekStartDate);
+  const weekEnd = isoDate(new Date(weekStartDate.getTime() + 6 * DAY_MS));
+
+  try {
+    const [athletes, done] = await Promise.all([
+      select('training_plans?select=user_id'),
+      select(`weekly_reviews?week_start=eq.${weekStart}&select=user_id`),
+    ]);
+    const reviewed = new Set(done.map(r => r.user_id));
+    const pending = [...new Set(athletes.map(a => a.user_id))].filter(id => !reviewed.has(id));
+
+    const result = { weekStart, weekEnd, generated: 0, delivered: 0, failed: 0, remaining: 0 };
+    for (const userId of pending) {
+      if (Date.now() - started > TIME_BUDGET_MS) { result.remaining++; continue; }
+      try {
+        const delivered = await generateReview(userId, apiKey, reviewDay, weekStart, weekEnd);
+        result.generated++;
+        if (delivered.length > 0) result.delivered++;
+      } catch (err) {
+        console.error(`Weekly review failed for ${userId}:`, err);
+        result.failed++;
+      }
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Weekly review error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function generateReview(userId, apiKey, reviewDay, weekStart, weekEnd) {
+  const context = { ...(await buildAthleteContext(userId, reviewDay, weekEnd)), memory: await loadCoachMemory(userId) };
+  const content = await completeText(apiKey, {
+    max_tokens: 1500,
+    system: buildSystemPrompt(context, 'summary'),
+    messages: [{ role: 'user', content: `Generate my weekly training summary for ${weekStart} to ${weekEnd} and recommendations for the week ahead.` }],
+  });
+  if (!content) throw new Error('Empty review');
+
+  // Stored before delivery so a messaging outage never causes a second, different review
+  const { ctl, atl, tsb, status } = context.trainingLoad || {};
+  const [review] = await insert('weekly_reviews', {
+    user_id: userId,
+    week_start: weekStart,
+    week_end: weekEnd,
+    content,
+    stats: { ...context.weekStats, ctl, atl, tsb, loadStatus: status },
+    delivered_via: [],
+  });
+
+  const delivered = await deliverToChannels(userId, `📊 Weekly review — ${formatRange(weekStart, weekEnd)}\n\n${content}`);
+  if (delivered.length > 0) await update('weekly_reviews', `id=eq.${review.id}`, { delivered_via: delivered });
+  return delivered;
+}
+
+function formatRange(start, end) {
+  const fmt = iso => new Date(iso + 'T00:00:00Z').toLocaleDateString('en-GB', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+  return `${fmt(start)} – ${fmt(end)}`;
+}
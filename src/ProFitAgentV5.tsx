@@ -2,9 +2,18 @@ import React, { useState, useEffect, useCallback } from 'react';
 import {
   Calendar, TrendingUp, Brain, Target, Plus, ChevronLeft, ChevronRight,
   X, User, Settings, LogOut, Loader, Check, AlertTriangle, Sun, Moon, Send, RefreshCw, UtensilsCrossed, Lock, Edit3, Save,
-  Smartphone, Copy, Flag, Award, MessageCircle, Palette, ChevronDown, Dumbbell, ArrowLeft, Trash2, ShoppingBag, Trophy
+  Smartphone, Copy, Flag, Award, MessageCircle, Palette, ChevronDown, Dumbbell, ArrowLeft, Trash2, ShoppingBag, Trophy, Search, Star, Camera
 } from 'lucide-react';
 import { supabase } from './lib/supabase';
+import { toLocalDate, addDays } from './lib/dates';
+import { parseActivityFile, type ImportedActivity, type ImportedLap } from './lib/activityImport';
+import { readEventStream } from './lib/eventStream';
+import { carbTier, isLongSession, carbsPerHourDuring, isHabitScheduled, withMissedDays } from './lib/trainingRules';
+import { searchFoods, findFoodByBarcode, getFood, macrosFor, scanBarcode, type FoodItem } from './lib/foodDatabase';
+import {
+  flattenWorkout, estimateStepSeconds, formatTarget, toZwo, toErgOrMrc, toFitWorkout, downloadFile,
+  type StructuredWorkout, type WorkoutStep, type WorkoutRepeat, type WorkoutTargetType, type WorkoutThresholds,
+} from './lib/workoutExport';
 const HUEL_LOGO = "data:image/png;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/4gHYSUNDX1BST0ZJTEUAAQEAAAHIAAAAAAQwAABtbnRyUkdCIFhZWiAH4AABAAEAAAAAAABhY3NwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQAA9tYAAQAAAADTLQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAlkZXNjAAAA8AAAACRyWFlaAAABFAAAABRnWFlaAAABKAAAABRiWFlaAAABPAAAABR3dHB0AAABUAAAABRyVFJDAAABZAAAAChnVFJDAAABZAAAAChiVFJDAAABZAAAAChjcHJ0AAABjAAAADxtbHVjAAAAAAAAAAEAAAAMZW5VUwAAAAgAAAAcAHMAUgBHAEJYWVogAAAAAAAAb6IAADj1AAADkFhZWiAAAAAAAABimQAAt4UAABjaWFlaIAAAAAAAACSgAAAPhAAAts9YWVogAAAAAAAA9tYAAQAAAADTLXBhcmEAAAAAAAQAAAACZmYAAPKnAAANWQAAE9AAAApbAAAAAAAAAABtbHVjAAAAAAAAAAEAAAAMZW5VUwAAACAAAAAcAEcAbwBvAGcAbABlACAASQBuAGMALgAgADIAMAAxADb/2wBDAAUDBAQEAwUEBAQFBQUGBwwIBwcHBw8LCwkMEQ8SEhEPERETFhwXExQaFRERGCEYGh0dHx8fExciJCIeJBweHx7/2wBDAQUFBQcGBw4ICA4eFBEUHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh4eHh7/wAARCAEWAyADASIAAhEBAxEB/8QAHQABAAIDAQEBAQAAAAAAAAAAAAgJBAUHBgIBA//EAFgQAAECBAIDBw4JCAgGAgMAAAABAgMEBQYHEQgSIRMxOEFRdLMJFBcYIjI2VmFxdZWy0lNXcoGSk5TE0yM1QlJikbTRFRaCoaKxwcIkMzdDY8ODo1Vz8P/EABQBAQAAAAAAAAAAAAAAAAAAAAD/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCZG5Qvg2fRQblC+DZ9FD7AHxuUL4Nn0UG5Qvg2fRQ+wB8blC+DZ9FBuUL4Nn0UPsAfG5Qvg2fRQht1TFjGtw/1WtbmtR3k5qTMIadU073D/wA9S+6gQyAAAAAAAAAAAAAAAALH9BGHDdo5UlXMaq9eTe1U/wDM4rgLIdA/g40nnk30zgO6blC+DZ9FBuUL4Nn0UPsAfG5Qvg2fRQblC+DZ9FD7AHxuUL4Nn0UG5Qvg2fRQ+wBynS1hw00dLzVIbUXrJu1E/wDKwq9LRdLbg53nzJvSsKugAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWP6CEOG7RzpKuY1V68m9qp/wCVxXAWQ6B3BypPPJvpXAd03KF8Gz6KDcoXwbPoofYA+NyhfBs+ig3KF8Gz6KH2APjcoXwbPooNyhfBs+ih9gCoK/tl9XAif/k5npXGkN3f3h3cHpOZ6VxpAB7DCjDa7MTbjSiWrT1jvbk6ZmYi6sCWYq99EfxceSJmq5Lkin8sJrErGJF90+06K1Gxpp2cWO5FVkvCbtfEd5ET96qib6oWFVifw80YsHYcOXl+4Z3MCAip1zU5pU2uc7l41dvNbkiJ3rVDyGHeirhbY1JSr31Mw6/NQGo+PHn4vW8jB8zM0RU4s3qqLyIbqNjfo3WU7rGl1GhQlh7Nzo9Jc9nzPhw9RfmUjDXKVj/pJQX3ZLU9ahQ2TL4MtJwqhAgS0s5qIqtbDiREVVycndqiqvLxJpu1Yx08S2etZP8AFAlrD0h9He5ndZ1SqSLkibNWp0eIrF86rDVqfOqGNdWjxghijRXVa0OsaZEi/wDKqFvx2Oga3I6EirD86IjV8qEObh0f8ZaDLujz9gVV8NiZuWUWHN5Jy5QXOU8tYd63bh5cSVW2arN0qdhO1Y0NO8iIi7WRIa7HJ5FTZ5FA9LjlgreOEtTaytQGzlJjv1ZSqSzVWDFXf1XZ7WPy/RXkXJVRMzmhZPgnihZ+kNh9P29cVMlEqaQNSrUmIubXtXYkaEq7dXPLJc9ZjstveuWEmkdhTPYS4gxaK90SYpM0izFLm3Jtiwc8tV2WzXauxfmXJEcgFpgAAAAAAABDTqmne4f+epfdSZZDTqmne4f+epfdQIZAAAAAAAAAAAAAAAAFkOgfwcaTzyb6ZxW8WQ6B/BxpPPJvpnAd3AAAAAAAByzS24Od58yb0rCrotF0tuDnefMm9Kwq6AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABZDoHcHKk88m+lcVvFkOgdwcqTzyb6VwHdwAAAAAAAVBX94d3B6TmelcaQ3d/eHdwek5npXGkAnj1OyyINMw+qd9TEFOvKzMulpZ6ptbLQlyXL5UTWz+Q0jLpT4lzGJeLFQnYUw59Fpz3SVKhovc7k1cliInK9U1s9/LVTiQmXYMd1qaEECfklWHFl7RmJyEqbMor4T4iL9J2ZW6BYd1Pb/oFE9NTPsQjO0jNI6Hg9eklbbrPdWlmqcye3dKjuGrrRIjNXV3J2f8Ay888+Pe2GD1Pb/oFE9NTPsQjG0p9He4sXL+kLipFepVPgStLZJOhzTYiuVzYsV+smqipllERPmUDpej/AIu0fGC1Jms02nzFNmJOY63m5SM9HqxytRyK1yZazVRd/JFzRdnLGTqjloUmmXHbd2yEtCl5yrsjwJ7Uajd2dC3NWRFy33ZPVFXka3kJB6OOFEpgfYlUhVavy01Hmo3Xc9OOTcYEFjGZImbl71E1lVy5b+8mRFDTjxXoOIt4Uik2vNNnqVQoUVFnGIqMjxoqs19TPfa1IbUR3Gquy2ZKocbwxvKrWBfNMuujRFbMyMZHOh62TY0Ndj4bv2XNzT+/fRCeelnb9LxR0a1u2ktSNEkJSHXKdFy7rcVYjorV5E3JVVU5WN5Cucsf0Qoi3Poo06lTi7om4ztOdntzYsSIiJ8zXonzAd5AAAAAAAAIadU073D/AM9S+6kyyGnVNO9w/wDPUvuoEMgAAAAAAAAAAAAAAACyHQP4ONJ55N9M4reLIdA/g40nnk30zgO7gAAAAAAA5ZpbcHO8+ZN6VhV0Wi6W3BzvPmTelYVdAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAsh0DuDlSeeTfSuK3iyHQO4OVJ55N9K4Du4AAAAAAAKgr+8O7g9JzPSuNIbu/vDu4PScz0rjSAWPYXsW89CCDTpL8pGmLXm6fDam1d1hsiQkT6TUK4SbPU57+gxaRWMOJ6OjZiXirUaejl7+G7JsVifJcjXZftuXiOA6VuGczhrixPy8GWcyiVSI+dpcRE7jc3Lm6Ei8rHLq5b+WqvGBLPqe3/AECiempn2IR5rTAx0v8AwtxVpNJteakEp0ajw5uLLzUo2Ij4ixozVVXbHImTG7EVD70F77si3cEolPuC8rdpE4tXmInW89U4MCJqq2Hk7Ve5FyXJdvkON6fVxW/cuLtInrcrtMrMrDoEKE+PITcOYhtekxMKrVcxVRHZORct/JU5QJgaNuLUni9Ya1dZeDJ1aTibhUpOG5VbDflm17c9uo5NqZ7yo5M1yzIm6duEspZd3St5W/JMlqLXHubMQYTcocvNoma5JvIj0zcicrX8WSHitEbEpMN8XZKPPzSQKHVspGpK92TIbXL3EVc9iajslVeJqv5SZuOtewkxHwtrVqxMSrJSYmIO6SUR1dlvycyzuobs9fYmsmS/sqoFaJZBouQls3RFkKtPfktSnztVia2xEYroj2r87EavzkE8G8PqpiRiNTrSpzXIkWJrTkwzJzZeXaqbpEVd7YmxOVVanGTW017vpuH+BEGx6OrJeZrEJlNlIDF2wpOGjd0XzaqNh/2/IBI4AAAAAAAAhp1TTvcP/PUvupMshp1TTvcP/PUvuoEMgAAAAAAAAAAAAAAACyHQP4ONJ55N9M4reLIdA/g40nnk30zgO7gAAAAAAA5ZpbcHO8+ZN6VhV0Wi6W3BzvPmTelYVdAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAsh0DuDlSeeTfSuK3iyHQO4OVJ55N9K4Du4AAAAAAAKgr+8O7g9JzPSuNIbu/vDu4PScz0rjSAbiy7lrFn3TT7loM0srUafGSLBiJtTkVrk42qiqipxoqoWC0SrYd6VeEkSmz7WylVl2o+PLtcizNNmMskiQ1Xvoa7du85M0XJU2VxG2tG5K7aVel67bdUmKZUZdc4ceA7JfKipvOavG1UVF40A9tjRgjfWFtQi/0xTok5R9bKBVpViul4icWsv/AG3fsuy48lVNpzMmnhdpm06YkodMxNoERsRW7m+oU5iPhxU3lWJBcubfLqq7PPY1D2EWe0PL0Xr2Y/qdBiRO6drw3056r5Uyh5r5QK/D3GFGFN74m1Vsna9HixZdH6sefjIrJWBy60TLLP8AZTNy8SKTLgy+hzazknGPsmMsPaiLGfUN79hViZ/uNLf+mLZVBpq0vDe34tUiw26kCLHg9aycJOLJid25P2cmecD3dnW1h3ot4WTVUq0+2NOxkRZucc1EmJ+MiKrYMFmexu/k3PZtc5d9UgfjPiLWsUL8nLorK7mj/wAlKSrXZslYCKurDby76qq8aqq7M8jExKv+7MRbgdW7sq0WemNrYUPvYUBn6kNibGp/eu+qqu08sBcwAAAAAAAAQ06pp3uH/nqX3UmWQ06pp3uH/nqX3UCGQAAAAAAAAAAAAAAABZDoH8HGk88m+mcVvFkOgfwcaTzyb6ZwHdwAAAAAAAcs0tuDnefMm9Kwq6LRdLbg53nzJvSsKugABK7R+0XLaxJwnpF5VC5qvJTM86Oj4ECHDVjdzjPhplmme1GIvzgRRBOvtIrN8c6/9VB/kO0is3xzr/1UH+QEFATr7SKzfHOv/VQf5DtIrN8c6/8AVQf5AQUBOvtIrN8c6/8AVQf5DtIrN8c6/wDVQf5AQUBkVOXbKVKZlWuVzYMZ8NFXfVEVUMcAAAAAAAAAAdJ0b8O6fijidAtOpVCakJeJKxo6xpdrVeisTNE7rYBzYE6+0is3xzr/ANVB/kO0is3xzr/1UH+QEFATr7SKzfHOv/VQf5DtIrN8c6/9VB/kBBQE6+0is3xzr/1UH+Q7SKzfHOv/AFUH+QEFAdt0rcGaRg7U6BKUmsT1SbU4MaJEWaaxFYrHMRETVT9o4kAAAAAAAAAAN1Z9qXJeFWbSrYok9Vpx2WcOWhK7UTlcu81PKqogGlBLDDfQtuWoMhzd93BLUSEuSrJyTUmI+XI5+aMavlTXQkLZOjNg7a7WPS12VqZbvx6vEWZ1vPDXKH/gArSkJKdqEwkvISkxNxnb0ODDV7l+ZNp7Ok4OYrVREdJ4eXMrV3nxKdEhNXzK9ERS1Gk0qmUiVSUpNOk6fLpvQpWA2ExPmaiIZgFYMvo243R2o5lgziIv681LsX9zoiH9IujRjhD76w5hfkz0s7/KIWdACqypYGYv09rnTGHdwvRu/uEosfo8zxlaoFdokRIdaotSpj1XJGzcq+CufmciFwx8TEGDMQXQY8JkWE9MnMe1HNVPKigU1AtNvPAfCS7GxHVOyaZBjv35iRZ1rEz/AFlWFq6y/KzI/YkaE6IyJNYfXS5XJmqSNXbv+RI0NP3IrPOoEMweqxEw7vTD+o9Y3db85THOcqQ4r260GL8iI3NrvmXNOM8qAAAAAAAAALIdA7g5Unnk30rit4sh0DuDlSeeTfSuA7uAAAAAAACoK/vDu4PScz0rjSG7v7w7uD0nM9K40gAAAAAAAAAAAXMAAAAAAAAENOqad7h/56l91JlkNOqad7h/56l91AhkAAAAAAAAAAAAAAAAWQ6B/BxpPPJvpnFbxZDoH8HGk88m+mcB3cAAAAAAAHLNLbg53nzJvSsKui0XS24Od58yb0rCroAWXaD/AAZrX+XOfxcYrRLLtB/gzWv8uc/i4wHagAAAAAAAU63B+f6hzqL7amCZ1wfn+oc6i+2pggAAAAAAAADv+gLwh5P0bNeyhwA7/oC8IeT9GzXsoBYyAAAAAAACEnVLfCGyuaTftwyIRL3qlvhDZXNJv24ZEIAAAAAAGRTpKcqM9BkKfKR5ubjvSHBgQIaviRHLvNa1Nqr5EPRYXWBc2JF1QbdteRWYmH91GivzbBl4ee2JEd+i1P3rvIirsLFcAcCLSwnpzI8tCZU7iiQ9WZqsZnd7d9sJNu5s8ibV41XZkEfsCtD2bnmS9bxSmHycu5EeyjSsTKM5OSNETvPktzXb3zV2EwrRte3rRo0Oj2zR5OlSMPegy8NGoq/rOXfc7lcqqq8puAAAAAAAAAAAAAAAYVcpFLrtLjUutU6UqMjHbqxZeZhNiQ3p5WrsIh496H8NYcxXsKnq16ZviUOYi5ovkgRHb3yXr5nJsQmSAKcKnIT1LqEenVKTjyc5LvWHGgR4asiQ3Jvo5q7UUxizrSIwItrFqlOmFbDplzQIeUpU2M77LehxkTv2f3t3040WuO/rQuCxbomrbuaQfJVCWXa1drYjV3nsdvOavEqf5oqAaEAAAAALIdA7g5Unnk30rit4sh0DuDlSeeTfSuA7uAAAAAAACoK/vDu4PScz0rjSG7v7w7uD0nM9K40gAAAAAAAAAAAXMAAAAAAAAENOqad7h/56l91JlmquC27duHcP6foFKq3W+tuPX0nDj7nrZa2rrouWeSZ5b+ScgFPgLbuxvh34hWr6ol/cHY3w78QrV9US/uAVIgtu7G+HfiFavqiX9wdjfDvxCtX1RL+4BUiC27sb4d+IVq+qJf3B2N8O/EK1fVEv7gFSILbuxvh34hWr6ol/cHY3w78QrV9US/uAVIgtu7G+HfiFavqiX9wdjfDvxCtX1RL+4BUiC27sb4d+IVq+qJf3B2N8O/EK1fVEv7gFSJZDoH8HGk88m+mcdN7G+HfiFavqiX9w31GpVLosg2Qo9Nk6dKMVXNgSkBsKGiquaqjWoibVAzAAAAAAAAcs0tuDnefMm9Kwq6LRdLbg53nzJvSsKugBZdoP8Ga1/lzn8XGK0Sy7Qf4M1r/LnP4uMB2oAAAAAAAFOtwfn+oc6i+2pgmdcH5/qHOovtqYIAAAAAAAAA7/AKAvCHk/Rs17KHADv+gLwh5P0bNeygFjIAAAAAAAISdUt8IbK5pN+3DIhEveqW+ENlc0m/bhkQgAAAHsMIsPLhxNvOWtq3oGb393MzL0XcpWEi91EevInEm+qqiJvnnreo9SuCuSVEo8pEnKhPRmwJeDDTa97lyRPJ512Im1Sz/R3wnpWE1iQqRLpDj1eaRsWqzqJtjxcu9Rd/UbmqNTzrvqoG2wdw1tvC60INv29L7VyfNzj2pu03Fy2vev+Td5E2Jx5+0AAAAAAAABra3cFBocNIlbrdNpjFTNHTk0yCn73KgGyB4OZxmwml1VImI9rLl8HU4T/ZVT6ksYsKJx6MgYjWqrl3kfVITM/pOQD3QMSlVSmVaW65pVRk5+Av8A3JaM2K397VVDLAAAAAABy/SKwdouLloOko7YUpXJRrnUyoau2E/9R+W1YbuNOLfTah1AAU93XQKta1xz1vV2TiSdSkYywY8F++1ycaLxoqZKipsVFRU3zVlgunBg0y9LSffFAlEW4aLBV0wyG3upyVbtc3yvZtcnKmsm3ucq+gAAAFkOgdwcqTzyb6VxW8WQ6B3BypPPJvpXAd3AAAAAAABUFf3h3cHpOZ6VxpDd394d3B6TmelcaQAAAAAAAAAAALmAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAHLNLbg53nzJvSsKui0XS24Od58yb0rCroAWXaD/Bmtf5c5/FxitEsu0H+DNa/wAuc/i4wHagAAAAAAAU63B+f6hzqL7amCZ1wfn+oc6i+2pggAAAAAAAADv+gLwh5P0bNeyhwA7/AKAvCHk/Rs17KAWMgAAAAAAAhJ1S3whsrmk37cMiES96pb4Q2VzSb9uGRCAAHr8G7JmsQ8S6LaUrrtbOzCdcRWpthQG91Ef50ai5Z765JxgSu6n9hM2RpUTFKtyv/FziOgUZr27YcHeiRk8rlzai/qo7icS7MWj06SpFJlKVTZdktJScBkCXgsTuYcNjUa1qeZEQygAAAAAAc0xtxssnCiQT+m5t03VorNaXpcqqOjxE4nO4mM/ad5ckVUyPPaV2N0vhNazJOlrCj3VU2O6xhORHNl2byx3pyIuxqL3ypyIpXBXatUq7WJqr1iejz1Qm4ixI8xHernxHLxqv/wDZAdkxV0ocT71jxYFPqbrXpTlVGStMerIit/bjd+q/J1UXkOJzczMTcw+Zm48WYjxFzfEivVznLyqq7VP5AAAAMykVSp0edZPUmozdPm2d5HlYzoURvmc1UVDv+EeltiBaseDJ3Y5LrpKZNcsdUZNw05WxUTuvM9FVeVCOgAtuwvxCtXEi2mV61ai2agZo2NCcmrGl35Z6kRn6K/3LvoqptPVFTuC2JNdwuveVuOixHPhoqMnZNXqkObg590x3l40XiXJfItpNkXNSLxtOnXNQphJin1CCkaC7jTiVrk4nNVFaqcSoqAbkAAAAAXamSlammNhamG+KMWYpktuVv1zWm5BGpk2E7P8AKwU+S5UVE4mvanEpZWcm0sMPG4i4OVSSloG6VemtWoU1UTNyxIaLrQ0+WzWblyq1eICsAAACyHQO4OVJ55N9K4reLIdA7g5Unnk30rgO7gAAAAAAAqCv7w7uD0nM9K40hu7+8O7g9JzPSuNIAAAAAAAAAAAFzAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADlmltwc7z5k3pWFXRaLpbcHO8+ZN6VhV0ALLtB/gzWv8uc/i4xWiWXaD/Bmtf5c5/FxgO1AAAAAAAAp1uD8/1DnUX21MEzrg/P9Q51F9tTBAAAAAAAAAHf9AXhDyfo2a9lDgB3/QF4Q8n6NmvZQCxkAAAAAAAEJOqW+ENlc0m/bhkQiXvVLfCGyuaTftwyIQAmt1OKx0hU6vYhTcL8pHf/AEZIqqbUY3VfFcnkVdzTP9hxCkthwHtNLIwgtm21hJDjy0gx003L/vxPykX/ABucB7cAAAAANfc1Zp9u29UK9VYyQZGny0SZmH8jGNVy5cq7NicamwI29UJuqJRcHJS3peLqRq/PthxEz2rAhJuj/wDHuSeZVAhFive1UxDv6qXZVnKkWdiqsKFrZtgQk2Mht8jW5J5VzXfVTywAAAAAAAAAAl11PDEh8nXZ/DOpTCrLTzXTtLRy95GamcWGnymJrZbyajuUiKbuw7inLRvSj3PIKqTFMnIcy1EXLXRrkVWr5HJmi+RVAt9BjUmflarSpSqSMRIsrOQGTEB6fpMe1HNX50VDJAAAAAAKuNKeyW2HjfX6TLwtzkJqL1/IoiZIkGNm7VTyNdrs/snLibHVJbVSLSLXvWBC7uBGfTJl6JtVr0WJCz8iK2L9IhOALIdA7g5Unnk30rit4sh0DuDlSeeTfSuA7uAAAAAAACoK/vDu4PScz0rjSG7v7w7uD0nM9K40gAAAAAAAAAAAXMAAAAAAAAAHA9LzGu5cHUthbeptJnf6X673fr9kR2puW46urqPbv7o7PPPeQDvgIDduxiV4tWl9RMfjDt2MSvFq0vqJj8YCfIIDduxiV4tWl9RMfjDt2MSvFq0vqJj8YCfIIDduxiV4tWl9RMfjDt2MSvFq0vqJj8YCfIIDduxiV4tWl9RMfjDt2MSvFq0vqJj8YCfIIDduxiV4tWl9RMfjDt2MSvFq0vqJj8YCfIIDduxiV4tWl9RMfjDt2MSvFq0vqJj8YCfIIDduxiV4tWl9RMfjEsdGy/6riZhRI3bWpSSlZyYjx4boco1zYaIx6tTJHOcu8nKB0gAAAAAAAHLNLbg53nzJvSsKui0XS24Od58yb0rCroAWXaD/AAZrX+XOfxcYrRLLtB/gzWv8uc/i4wHagAAAAAAAU63B+f6hzqL7amCZ1wfn+oc6i+2pggAAAAAAAADv+gLwh5P0bNeyhwA7/oC8IeT9GzXsoBYyAAAAAAACEnVLfCGyuaTftwyIRL3qlvhDZXNJv24ZEID2mBdvturGK06DEZukGaqkHd25b8JrteJ/ga4tkK59AOkpUdIWWm1bn/RdMmZtPJmiQf8A3FjAAAAAAAIG9UfrT5rFC36Ej1WDT6Ru+XEj40VyO/wwmE8jQ1yy7Ors91/XLToNUm9VGbvOU6FGiaqbyazmquScgFQoLbOxlhv8X1p+ppf3D9bhphw1c24f2oi8qUeX9wCpIFt/Y4w88Q7W9UQPcHY4w88Q7W9UQPcAqQBbi3DywGJk2xrYankpMBP9p9dj6wvEi2vVUD3QKjAW59j6wvEi2vVUD3T7SxLHRMks23fVkH3QKiQW7f1EsfxNt31ZB90/W2NZLVzbZ1vIvKlMg+6Bz7QzuJ1xaO9tvixNePTmRKdE27yQnqjE+r3M7EYlKplNpMsstS6fKSEBXK9YctBbDarlyRVyaiJnsTb5DLAAAAAAOT6XdvpcejzdcujNaLJyqVCEuW1qwHJEcv0GvT5yr8uKuGnQqxQKjSIyIsKelYss/Pe1XsVq/wCZTxHhRIEeJAitVsSG5WPavEqLkqAfBZDoHcHKk88m+lcVvFkOgdwcqTzyb6VwHdwAAAAAAAVBX94d3B6TmelcaQ3d/eHdwek5npXGkAAAAAAAAAAAC5gAAAAAAAAhp1TTvcP/AD1L7qTLIadU073D/wA9S+6gQyAAAAAAAAAAAAAAAALIdA/g40nnk30zit4sh0D+DjSeeTfTOA7uAAAAAAADlmltwc7z5k3pWFXRaLpbcHO8+ZN6VhV0ALLtB/gzWv8ALnP4uMVoll2g/wAGa1/lzn8XGA7UAAAAAAACnW4Pz/UOdRfbUwTOuD8/1DnUX21MEAAAAAAAAAd/0BeEPJ+jZr2UOAHf9AXhDyfo2a9lALGQAAAAAAAQk6pb4Q2VzSb9uGRCJe9Ut8IbK5pN+3DIhASw6mxJo+/rrqGrtg0uHBReTXiov/rJ0EK+pnsRajfb+NIMin71j/yJqAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAqNxYkm03FO7ac1MmytbnIKJ5Gx3p/oW5FUmkQxGY8Xy1Eyzr02v74rl/1A8EWQ6B3BypPPJvpXFbxZDoHcHKk88m+lcB3cAAAAAAAFQV/eHdwek5npXGkN3f3h3cHpOZ6VxpAAAAAAAAAAAAuYAAAAAAAAIadU073D/z1L7qTLIadU073D/z1L7qBDIAAAAAAAAAAAAAAAAsh0D+DjSeeTfTOK3iyHQP4ONJ55N9M4Du4AAAAAAAOWaW3BzvPmTelYVdFoultwc7z5k3pWFXQAsu0H+DNa/y5z+LjFaJZdoP8Ga1/lzn8XGA7UAAAAAAACnW4Pz/AFDnUX21ME2FyNVlxVJq76TcVP8AGprwAAAAAAAABIHQDartIWWVP0aZNKv0UT/Uj8SO6njLLHx5mYqb0vQ5iIvzxILP9wFhQAAAAAAAISdUt8IbK5pN+3DIhEveqW+ENlc0m/bhkQgJgdTRjI2t3vAz2vlpN6f2XRU/3E2CBnU3p5IWKtw05Vy64oixU8qw48NP/YpPMAAAAAAAESdI7SZv3DTFuqWjSKLbkzIS0OBEgRZuBGdFcj4TXOzVsVqd8rkTJE2ZAS2BATt18TvF2z/s0z+OO3XxO8XbP+zTP44E+wQE7dfE7xds/wCzTP447dfE7xds/wCzTP44E+wQE7dfE7xds/7NM/jjt18TvF2z/s0z+OBPsEBO3XxO8XbP+zTP447dfE7xds/7NM/jgT7BATt18TvF2z/s0z+OO3XxO8XbP+zTP44E+wQE7dfE7xds/wCzTP447dfE7xds/wCzTP44E+wQE7dfE7xds/7NM/jjt18TvF2z/s0z+OBPsEBO3XxO8XbP+zTP447dfE7xds/7NM/jgT7KnsfY6TOON8xWrm1bgnUReVEjvT/Q7N26+J3i7Z/2aZ/HI4V+pzFartQrM2jEmJ+aiTMVGIqNR73K5cs81yzVQMEsh0DuDlSeeTfSuK3iyHQO4OVJ55N9K4Du4AAAAAAAKgr+8O7g9JzPSuNIbu/vDu4PScz0rjSAAAAAAAAAAABcwAAAAAAAAQ06pp3uH/nqX3UmWQ06pp3uH/nqX3UCGQAAAAAAAAAAAAAAABZDoH8HGk88m+mcVvFkOgfwcaTzyb6ZwHdwAAAAAAAcs0tuDnefMm9Kwq6LRdLbg53nzJvSsKugBZboPqi6M1sInFEnM/tcYrSLJdBSIj9G6htRc9zmZtq+T8u9f9QO5gAAAAAAAqFxGlVkcQrkklTJZerTUJU5NWK5P9DQnStKOkuoukHesm5urulUfNonkjokZOkOagAAAAAAAACWfU16asW+LtrGrslabBls+TdYutl/9P8AcRMJ89Tmt98hhTWbgiw9V9Wqishrl30KCxGov03xE+YCT4AAAAAAAISdUt8IbK5pN+3DIhEveqW+ENlc0m/bhkQgO4aDdYbStIyhwnu1YdRgTMm5fKsJz2p87mNT5yygqIw1r7rVxCt65EVUSm1KBMvy42NeiuT525p85brDeyJDbEhua9jkRzXIuaKi7yoB9AAAAABXx1Q+mLJ45Sc+je4qFFgRFX9psSIxU/c1v7ywciJ1Sa3Hx7ctS64ULZKTUaQjuROKK1Hsz8iLCf8ASAhEAAAAAAAAAAAAAAAAAAAAAAAAWQ6B3BypPPJvpXFbxZDoHcHKk88m+lcB3cAAAAAAAFQV/eHdwek5npXGkN3f3h3cHpOZ6VxpAAAAAAAAAAAAuYAAAAAAAAIadU073D/z1L7qTLIadU073D/z1L7qBDIAAAAAAAAAAAAAAAAsh0D+DjSeeTfTOK3iyHQP4ONJ55N9M4Du4AAAAAAAOWaW3BzvPmTelYVdFoultwc7z5k3pWFXQAsN6npNpM4CRoOtmsrWpiFlyZshP/3leRODqatTSLal4UbW2y09LzSN/wD2w3Nz/wDqQCXAAAAAAAAID9UWtZ9NxSpN0woWUvWaekKI/LfjwF1Vz/sOhfuUi+WeaWeG8TEnCCekZCAkWs013X9ORE7p72IutDT5bFciJ+tq8hWI5Fa5WuRUVFyVF30A/AAAAAAAAf0loEaZmYUtLwnxY0V6Mhw2Jm57lXJERONVUtmwZtFliYW29abUbulPk2tmFbvOjOzfFVPIr3OUhjoI4Rx7mvRmIVZlXNolEi60lrt2TU2neqnK2H3yr+tqpyk/AAAAAAAAAISdUt8IbK5pN+3DIhEveqW+ENlc0m/bhkQgBaLoo3e288CLbqD4uvNyculOm81zVIkDuM18rmox39oq6JX9TrvxtMu+rWBOx9WBV4fXki1y7OuIad21PK6Ht/8AiAnSAAAAAHg9IGyUxCwhuC2IbEdNxpbdZJeSYhrrw0z4s3NRq+RynvABTVGhxIMV8GKx0OIxytexyZK1U2KipxKfBJ7Tpwdj2xdkXEShSrnUOsRtafbDbslJp2+q8jYi7UX9bWTZm0jCAAAAAAAAAAN1ZFrVy9LnkrbtyRiTtRnH6sOG3eanG5y/otRNqquxEA6Pou4LOxiuKqS03UJmmUqmyzYkaagwkeqxXuyZDyXZtRHr/Z8pIPtILY8eqx9kh/zO74DYaUzCrD2UtqRc2PNKu71CbRuSzEw5E1neRqZI1qcSInHmp70CJfaQWx49Vj7JD/mO0gtjx6rH2SH/ADJaACJfaQWx49Vj7JD/AJjtILY8eqx9kh/zJaACuXSlwNtnByjUaJJXPP1Sp1SYe1kvGgsY1sFje7fmi556zmInnXkOAnatM++mXvjjUmykbdKbRGpTJVUXuXLDVViuTzxFemfGjWnFQBZDoHcHKk88m+lcVvFkOgdwcqTzyb6VwHdwAAAAAAAVBX94d3B6TmelcaQ3d/eHdwek5npXGkAAAAAAAAAAAC5gAAAAAAAAhp1TTvcP/PUvupMshp1TTvcP/PUvuoEMgAAAAAAAAAAAAAAACyHQP4ONJ55N9M4reLIdA/g40nnk30zgO7gAAAAAAA5ZpbcHO8+ZN6VhV0Wi6W3BzvPmTelYVdACTfU6a4khjBVKJEfqw6pSXqxuffRYT2uT/AsQjIe3wGuttk4w2xcsSJucvKz7GzLs96BEzhxV+g9wFsICKioiouaLvKAAAAAAAQ60tdGWeqdUnb9w4k93jzCujVOkQ0ye9++6LATjVdquZvqu1ueeRMUAU2TktMyc1FlJuXiy8xCcrIkKKxWPY5N9FRdqL5D+RbPf+F+H9+tVbstWnVKNlkkyrFhx0TkSKxUfl5M8jj1b0M8K52I6JIVC5aWqrshwpuHEhp8z4au/xAV8gnc3QksjXzdeFxKzkRkFF/fqm+oehvhLIPY+ej3FVslzcyYnWsY76tjVRPnAr2gw4kaKyFBhviRHuRrGNTNXKu8iJxqSUwB0Urnuubl61f0CYt6gtcj+tYias5NJ+qjV2wmrxq7uuRNuaTRsXDDD6x8nWraVLpsZEy64bC14+XJur835fOewAwLeo1Lt+iSlFosjBkadJwkhS8vCbk1jU4v9VVdqqqqu0zwAAAAAAAAAISdUt8IbK5pN+3DIhEveqW+ENlc0m/bhkQgBtLSr1Rte56bcVIjblPU6ZZMwHcWs1c8l5UXeVONFVDVgC3bDa7qZfdjUm7KQ9FlajLpE1M81hP3nw18rXI5q+Y9EQE0EcXmWndL7Ar00kOi1uMjpOJEdk2Wm1yRE8jYiIjflI3lVSfYAAAAABhVylU2uUebo9XkoM7ITkJ0KYgRW5tiMXfRSBWkTor3DZ8zM16wpeZrtuqqvdKsRYk3JpxorU2xGJ+sm1E302ay2BACmhzXNcrXIrXIuSoqbUU/C1DEzA3DLEJ8WYr9twIdQiLm6oSX5CYVeVzm7Hr8tHHA7q0IJN8R8W1r7jwWfoQKlJJEX54jFb7AEKwSYqGhbijAf/wAJWrVm2cX/ABUZjvnRYWX95hQ9DjF1z9V0a2mJ+s6ffl/dDAjoCV9A0IrvjRG/09elDkWZ7esoMWZXL+0kM7Nh5oj4W21FhzdYhzt0TbFz/wCPejYCL5ITMkVPI9XIBCzBzB298U6o2BbtNdDp7H6sxU5lFZLQU4+6/Sd+y3NfMm0sOwJwbtXCSgrKUeH13VJhqJPVSMxEix1/VT9RiLvNT51Vdp0GnycnTpKDI0+UgSkrBajIUCBDRkOG1N5GtTYieRD+4AAAAAAOa6S2IUPDXCOrV2HGRlSjs6zpjc9qzMRFRrk+SiOevkYdKK3tNDFVuImJbqXSZndLfoCvlpVzXZtjxs/ysbyoqojWryNzTvlA4S9znuV73K5zlzVVXNVU/AABZDoHcHKk88m+lcVvFkOgdwcqTzyb6VwHdwAAAAAAAVBX94d3B6TmelcaQ3d/eHdwek5npXGkAAAAAAAAAAAC5gAAAAAAAAhp1TTvcP8Az1L7qTLIadU073D/AM9S+6gQyAAAAAAAAAAAAAAAALIdA/g40nnk30zit4sh0D+DjSeeTfTOA7uAAAAAAADlmltwc7z5k3pWFXRaLpbcHO8+ZN6VhV0AAAFnGiFiAy/8FqXFmI+6VWkNSnT6KvdK6GiIx68uszVXPl1uQ7AVk6JuK/YtxLhxqhFclvVZGytTbtVIaZ9xGy5WKq5/sudx5FmcCLCjwIceBEZFhRGo9j2ORWuaqZoqKm+ioB9gAAAAAAAAAAAAAAAHn8QrwoNh2lOXPck2stT5RE1la3We9yrk1jG/pOVV3v8ARFN7HjQpeBEjx4rIUKG1Xve9yNa1qJmqqq7yInGVx6YWNS4nXa2i0KYd/VSkRFSWVNiTkbedHVOTLNG58Wa7NZUQLH0XNMwfjO8TzH6AAAAAAQk6pb4Q2VzSb9uGRCJe9Ut8IbK5pN+3DIhAAAB+oqoqKiqipvKhYVobY6wr/oMOz7nnGpdVOhZQ4kR22oQGp36csRqd8m+vffrZV6GZRKpUaJV5Wr0mcjSU/KRWxpePCdqvhvRc0VFAuMBwfRd0hKTihToVCrsSBT7wgQ/ykHvYc6iJtiQvLltczfTaqZpvd4AAAAAAAAAAAAAAAAAAAAAca0msdKPhNQHSkq6DP3VOQ16ykc80hIuzdouW8xOJN9ypkmzNUDx2m5jWyzLZiWJbs2n9Y6tBVs1Ehu7qSlnJkq58UR6bE40TN2zuc6/TPuCsVO4K3OVqszsWdqE7FWNMR4q5ue5d9f5ImxE2IYAAAACyHQO4OVJ55N9K4reLIdA7g5Unnk30rgO7gAAAAAAAqCv7w7uD0nM9K40hu7+8O7g9JzPSuNIAAAAAAAAAAAFzAAAAAAAABDTqmne4f+epfdSZZDTqmne4f+epfdQIZAAAAAAAAAAAAAAAAFkOgfwcaTzyb6ZxW8WQ6B/BxpPPJvpnAd3AAAAAAAByzS24Od58yb0rCrotF0tuDnefMm9Kwq6AAAAS10OtI2Db0GVw9v6d1KUipDpdTirslc12QYq8UP8AVd+jvL3OWrEoAXLw3siQ2xIbmvY5EVrmrmiovGh+lbeAGkpd2GTYNGqDXV+2WbGyUaJlFlk/8L9uSfsLm3k1c1UnHhRjJh/iXKsW265C6+Vub6bNKkKah8vcKvdInK1XJ5QOggAAAAAAAAAAfxnZqWkZONOTsxBlpaAxYkWNFejGQ2omauc5diIicanKcWtIfDTDuHGl5msMrFXh5olOprkixEdyPdnqw/LrLnyIpB7HXH29sVoz5OcjJSqA1+tCpUq9dRcl2LFdvxHefJE30agHR9LbSSdebZiyLEmYsK3c1ZPTyZtdUMv0G8bYX97vIm/F0AC5dneJ5j9PxneJ5j9AAAAAAISdUt8IbK5pN+3DIhEveqW+ENlc0m/bhkQgAAAAAD+0nMzMlNwZuTmIsvMwXpEhRYT1a+G5FzRzVTaiovGhMvR40uYToUvbmKr9ze1EhwK5DZmjuJOuGpvL+21POibXELgBchTZ6SqUhBn6dNwJyUjsR8GPAiI+HEau8rXJsVPKhkFUmE+Lt+YZTm62tWokOUc7WjU+YTdZWL52LvL+01Ud5SYGFWmJZFeZBkr2k49sT6oiOmGoseUevLrImuzPkVFRONwEmwa+365RrhpzKlQatI1STf3seUjtisXyZtVUz8hsAAAAAAAAAAB/KbmJeUlokzNR4UCBDbrRIkV6NaxOVVXYiAf1Px7msYr3uRrWpmqquSIhwjFDSqwvs9kaWpM6+6qmzNGwKaqLAR37Ude5y8rNdfIQ9xn0hsQsTWRZCcnW0ihvX82SCqxj05Ir++ieZV1ePVQCTekRpW0K1oMxb+HcWXrdcyVj59FR8pKLytXeivTkTuU41XJWkFK/WKpX6zNVmtT8efqE3EWJHmI79Z73Lyr/AHIm8ibEMEAAAAAAAsh0DuDlSeeTfSuK3iyHQO4OVJ55N9K4Du4AAAAAAAKgr+8O7g9JzPSuNIbu/vDu4PScz0rjSAAAAAAAAAAAB7Dsp4nfGNeHruZ98dlPE74xrw9dzPvgAOynid8Y14eu5n3x2U8TvjGvD13M++AA7KeJ3xjXh67mffHZTxO+Ma8PXcz74ADsp4nfGNeHruZ9809yXVc9zdb/ANY7jrFZ621tw6/nYkxuWtlrauu5dXPVbnlv5JyAAacAAAAAAAAAAAAAAAA9FQ77vehU5lOod5XFS5Jiq5svJ1ONBhNVVzVUa1yIiqoAGd2U8TvjGvD13M++Oynid8Y14eu5n3wAHZTxO+Ma8PXcz747KeJ3xjXh67mffAAdlPE74xrw9dzPvjsp4nfGNeHruZ98ADFquIV/VanxqdVb4uafko7dWNLzNVjxYcRM88nNc5UVM0TfPMgAAAAAAA+4MWJBisjQYj4cRio5j2OyVqpvKipvKAB1+w9JXF+0WQ4EK5XViUhpkkvV4fXKZcmuqpEy8iPOzWzpwRkayHcthQ3u/TjU+eVqfNDe1fbAA6lZelbYNzxEgy1DuaBGzyckSBAVqL5FSLmv7jrNFvSl1aFuktLzrEyz/KMan+TlAA2U9W5STgbtFhx1bln3LUz/AMzkmIekvZFlJq1Cj3FMRFXJqQIEHJV8qrFTL9wAHFru03qlEY+Fadjyss79GPU5p0XP/wCOGjcvpqcHxDxzxSvtkSBXLrnGSMTNFkpLKWgKn6qtZkr0+UrgAObAAAAAPYdlLE74xrv9dzPvjsp4nfGNeHruZ98AB2U8TvjGvD13M++Oynid8Y14eu5n3wAHZTxO+Ma8PXcz747KeJ3xjXh67mffAA0tx3NclyxIMS4rgq1ZfARWwXT85EmFhouWaNV6rlnkm9yGpAAAAAAAAAAAADY2/Xq3b0+2foNYn6VNt3o0nMOgv/e1UU7PaGljjFQWthTdUp9fgt2I2pSiK7L5cNWOVfKqqAB1O39OFdVrK/h8ir+lGkajl+5j2f7joNsaX+Hlbi9bpb90wI/GiwIDm/v3VF/uAA6NTMYrZqEJsSDI1hqOyy14UNP8oh91HF225HPdpGrOy/VhQ1/3gAeCuzSxw9t2JuU1RLpjROLc5eBl+9Y3+hz+vacNMZrNoWH85MZ96+dqDYWXnaxjs/3oABzO7NMTFaq68Ojw6LQIa966Xld2ip53RVc1fmahxa8r6vK8Y6xboueq1butZrJmZc6Gxf2WZ6rfmRAAPOAAAAAAAAAAAeiod93vQqcynUO8ripckxVc2Xk6nGgwmqq5qqNa5ERVUADO7KeJ3xjXh67mffHZTxO+Ma8PXcz74ADsp4nfGNeHruZ98dlPE74xrw9dzPvgAOynid8Y14eu5n3x2U8TvjGvD13M++AB5KPFizEeJHjxXxYsRyve97lc5zlXNVVV31VeM+AAAAAAAAAAAAA//9k=";
 
 
@@ -28,6 +37,13 @@ interface TrainingSession {
   distance: number;
   rpe: number;
   notes: string;
+  avg_hr?: number | null;
+  avg_power?: number | null;
+  avg_pace?: number | null;
+  laps?: ImportedLap[] | null;
+  source?: string;
+  volume_kg?: number | null; // gym sessions only
+  gym_session_id?: string | null;
 }
 
 interface BodyMetrics {
@@ -52,6 +68,7 @@ interface PlannedSession {
   description: string;
   status: string;
   completed_session_id: string | null;
+  workout?: StructuredWorkout | null;
 }
 
 interface OnboardingData {
@@ -63,6 +80,7 @@ interface OnboardingData {
   trainingBackground?: string;
   goalType?: string;
   raceDate?: string;
+  raceDistance?: string;
   raceLocation?: string;
   raceName?: string;
   raceCost?: string;
@@ -71,13 +89,40 @@ interface OnboardingData {
   raceWeather?: string;
   raceTravel?: string;
   raceNotes?: string;
+  raceCourseProfile?: string;
+  raceTemperature?: number;
   priority?: string;
   hoursPerWeek?: number;
   poolDaysPerWeek?: number;
   gymAccess?: boolean;
+  unavailableEquipment?: string[];
   canSwim1900m?: boolean;
   fiveKTime?: number;
   ftp?: number;
+  css400Time?: number;
+  css200Time?: number;
+  maxHr?: number;
+  thresholdHr?: number;
+  zoneOverrides?: Partial<Record<ZoneKind, { low: number; high: number }[]>>;
+}
+
+type ZoneKind = 'power' | 'pace' | 'swim' | 'hr';
+
+interface RaceDistance {
+  label: string;
+  raceMins: number;
+  legs: { swimM: number; bikeKm: number; runKm: number };
+  volume: { swimSessions: number; bikeKm: number; runKm: number };
+  phaseStarts: { Build: number; Peak: number; Taper: number };
+  bikeIF: number;
+  milestones: { rideMins: number; runKm: number };
+}
+
+interface TrainingZone {
+  zone: string;
+  name: string;
+  low: number;
+  high: number;
 }
 
 interface Milestone {
@@ -98,6 +143,49 @@ interface UserPrefs {
   avatar_color: string;
 }
 
+interface Race {
+  id?: string;
+  user_id: string;
+  name: string;
+  date: string;
+  location: string;
+  distance: string;
+  priority: 'A' | 'B' | 'C';
+  notes: string;
+}
+
+interface FitnessTest {
+  id?: string;
+  user_id: string;
+  date: string;
+  test_type: 'FTP Test' | '5K Test' | 'CSS Test';
+  protocol: string;
+  result: Record<string, number>;
+  notes: string;
+}
+
+interface FuelRehearsal {
+  id?: string;
+  user_id: string;
+  date: string;
+  sport: string;
+  duration: number;
+  carbs_per_hour: number;
+  fluid_per_hour: number;
+  sodium_per_hour: number;
+  gut_score: number; // 1 = severe GI distress, 5 = no issues
+  notes: string;
+}
+
+interface PlanAdjustment {
+  key: string;
+  rule: 'fatigue' | 'sleep' | 'missed_session' | 'recovery_day';
+  reason: string;
+  changes: any[];
+  before: PlannedSession[];
+  after: Partial<PlannedSession>[];
+}
+
 // ============================================================================
 // CAMELCASE <-> SNAKE_CASE MAPPERS
 // ============================================================================
@@ -113,6 +201,7 @@ function onboardingToDb(data: OnboardingData, userId: string) {
     training_background: data.trainingBackground || null,
     goal_type: data.goalType || null,
     race_date: data.raceDate || null,
+    race_distance: data.raceDistance || '70.3',
     race_location: data.raceLocation || null,
     race_name: data.raceName || null,
     race_cost: data.raceCost || null,
@@ -121,13 +210,21 @@ function onboardingToDb(data: OnboardingData, userId: string) {
     race_weather: data.raceWeather || null,
     race_travel: data.raceTravel || null,
     race_notes: data.raceNotes || null,
+    race_course_profile: data.raceCourseProfile || null,
+    race_temperature: typeof data.raceTemperature === 'number' ? data.raceTemperature : null,
     priority: data.priority || null,
     hours_per_week: data.hoursPerWeek || null,
     pool_days_per_week: data.poolDaysPerWeek || null,
     gym_access: data.gymAccess || false,
+    unavailable_equipment: data.unavailableEquipment || [],
     can_swim_1900m: data.canSwim1900m || false,
     five_k_time: data.fiveKTime || null,
     ftp: data.ftp || null,
+    css_400_time: data.css400Time || null,
+    css_200_time: data.css200Time || null,
+    max_hr: data.maxHr || null,
+    threshold_hr: data.thresholdHr || null,
+    zone_overrides: data.zoneOverrides || null,
     updated_at: new Date().toISOString(),
   };
 }
@@ -142,6 +239,7 @@ function onboardingFromDb(row: any): OnboardingData {
     trainingBackground: row.training_background,
     goalType: row.goal_type,
     raceDate: row.race_date,
+    raceDistance: row.race_distance || '70.3',
     raceLocation: row.race_location,
     raceName: row.race_name,
     raceCost: row.race_cost,
@@ -150,16 +248,29 @@ function onboardingFromDb(row: any): OnboardingData {
     raceWeather: row.race_weather,
     raceTravel: row.race_travel,
     raceNotes: row.race_notes,
+    raceCourseProfile: row.race_course_profile,
+    raceTemperature: row.race_temperature ?? undefined,
     priority: row.priority,
     hoursPerWeek: row.hours_per_week,
     poolDaysPerWeek: row.pool_days_per_week,
     gymAccess: row.gym_access,
+    unavailableEquipment: row.unavailable_equipment || [],
     canSwim1900m: row.can_swim_1900m,
     fiveKTime: row.five_k_time,
     ftp: row.ftp,
+    css400Time: row.css_400_time,
+    css200Time: row.css_200_time,
+    maxHr: row.max_hr,
+    thresholdHr: row.threshold_hr,
+    zoneOverrides: row.zone_overrides || undefined,
   };
 }
 
+// The A race row mirrored from the onboarding race fields
+function aRaceFromOnboarding(data: OnboardingData, userId: string) {
+  return { user_id: userId, name: data.raceName || 'A race', date: data.raceDate, location: data.raceLocation || '', distance: data.raceDistance || '70.3', priority: 'A', notes: data.raceNotes || '' };
+}
+
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
@@ -292,83 +403,878 @@ const calThemes = {
   },
 };
 
+// ============================================================================
+// ZONES ENGINE
+// ============================================================================
+
+// Bounds are absolute: watts, sec/km, sec/100m or bpm. For pace zones `low` is the slower bound.
+const COGGAN_POWER_ZONES = [
+  { zone: 'Z1', name: 'Active Recovery', low: 0, high: 0.55 },
+  { zone: 'Z2', name: 'Endurance', low: 0.56, high: 0.75 },
+  { zone: 'Z3', name: 'Tempo', low: 0.76, high: 0.9 },
+  { zone: 'Z4', name: 'Threshold', low: 0.91, high: 1.05 },
+  { zone: 'Z5', name: 'VO2 Max', low: 1.06, high: 1.2 },
+  { zone: 'Z6', name: 'Anaerobic', low: 1.21, high: 1.5 },
+  { zone: 'Z7', name: 'Neuromuscular', low: 1.51, high: 2 },
+];
+// Fraction of threshold speed
+const RUN_PACE_ZONES = [
+  { zone: 'Z1', name: 'Recovery', low: 0.65, high: 0.78 },
+  { zone: 'Z2', name: 'Aerobic', low: 0.78, high: 0.88 },
+  { zone: 'Z3', name: 'Tempo', low: 0.88, high: 0.95 },
+  { zone: 'Z4', name: 'Threshold', low: 0.95, high: 1.02 },
+  { zone: 'Z5', name: 'VO2 Max', low: 1.02, high: 1.12 },
+];
+// Seconds per 100m relative to CSS
+const SWIM_CSS_ZONES = [
+  { zone: 'Z1', name: 'Recovery', low: 20, high: 15 },
+  { zone: 'Z2', name: 'Endurance', low: 15, high: 8 },
+  { zone: 'Z3', name: 'Tempo', low: 8, high: 3 },
+  { zone: 'Z4', name: 'CSS', low: 3, high: -2 },
+  { zone: 'Z5', name: 'Speed', low: -2, high: -8 },
+];
+// Friel zones as fraction of threshold HR; max-HR zones used when only max HR is known
+const LTHR_ZONES = [
+  { zone: 'Z1', name: 'Recovery', low: 0.65, high: 0.81 },
+  { zone: 'Z2', name: 'Aerobic', low: 0.81, high: 0.89 },
+  { zone: 'Z3', name: 'Tempo', low: 0.9, high: 0.93 },
+  { zone: 'Z4', name: 'Threshold', low: 0.94, high: 0.99 },
+  { zone: 'Z5', name: 'VO2 Max', low: 1, high: 1.06 },
+];
+const MAX_HR_ZONES = [
+  { zone: 'Z1', name: 'Recovery', low: 0.5, high: 0.6 },
+  { zone: 'Z2', name: 'Aerobic', low: 0.6, high: 0.7 },
+  { zone: 'Z3', name: 'Tempo', low: 0.7, high: 0.8 },
+  { zone: 'Z4', name: 'Threshold', low: 0.8, high: 0.9 },
+  { zone: 'Z5', name: 'VO2 Max', low: 0.9, high: 1 },
+];
+
+const formatPaceSecs = (secs: number) => `${Math.floor(secs / 60)}:${String(Math.round(secs % 60)).padStart(2, '0')}`;
+
+const ZonesEngine = {
+  thresholdPaceFrom5k: (fiveKTime: number) => (fiveKTime / 5) * 1.06,
+  cssFromTest: (t400: number, t200: number) => (t400 - t200) / 2,
+
+  // Zones per discipline from the athlete's test values; a discipline is null until its test is known
+  getZones: (onboarding?: OnboardingData | null): Record<ZoneKind, TrainingZone[] | null> => {
+    const o = onboarding || ({} as OnboardingData);
+    const thresholdPace = o.fiveKTime ? ZonesEngine.thresholdPaceFrom5k(o.fiveKTime) : null;
+    const css = o.css400Time && o.css200Time ? ZonesEngine.cssFromTest(o.css400Time, o.css200Time) : null;
+    const computed: Record<ZoneKind, TrainingZone[] | null> = {
+      power: o.ftp ? COGGAN_POWER_ZONES.map(z => ({ ...z, low: Math.round(z.low * o.ftp!), high: Math.round(z.high * o.ftp!) })) : null,
+      pace: thresholdPace ? RUN_PACE_ZONES.map(z => ({ ...z, low: Math.round(thresholdPace / z.low), high: Math.round(thresholdPace / z.high) })) : null,
+      swim: css ? SWIM_CSS_ZONES.map(z => ({ ...z, low: Math.round(css + z.low), high: Math.round(css + z.high) })) : null,
+      hr: o.thresholdHr ? LTHR_ZONES.map(z => ({ ...z, low: Math.round(z.low * o.thresholdHr!), high: Math.round(z.high * o.thresholdHr!) }))
+        : o.maxHr ? MAX_HR_ZONES.map(z => ({ ...z, low: Math.round(z.low * o.maxHr!), high: Math.round(z.high * o.maxHr!) })) : null,
+    };
+    (Object.keys(computed) as ZoneKind[]).forEach(kind => {
+      const override = o.zoneOverrides?.[kind];
+      if (computed[kind] && override && override.length === computed[kind]!.length) {
+        computed[kind] = computed[kind]!.map((z, i) => ({ ...z, low: override[i].low, high: override[i].high }));
+      }
+    });
+    return computed;
+  },
+
+  formatZone: (kind: ZoneKind, z: TrainingZone) => {
+    if (kind === 'power') return `${z.low}-${z.high}W`;
+    if (kind === 'pace') return `${formatPaceSecs(z.low)}-${formatPaceSecs(z.high)}/km`;
+    if (kind === 'swim') return `${formatPaceSecs(z.low)}-${formatPaceSecs(z.high)}/100m`;
+    return `${z.low}-${z.high}bpm`;
+  },
+
+  // Target zone for a planned session, e.g. "Z2 · 150-190W"; falls back to HR when the sport's test is missing
+  zoneForSession: (session: { sport: string; type: string; intensity: string }, zones: Record<ZoneKind, TrainingZone[] | null>) => {
+    const kind: ZoneKind | null = session.sport === 'Bike' ? 'power' : session.sport === 'Run' ? 'pace' : session.sport === 'Swim' ? 'swim' : null;
+    if (!kind) return null;
+    const useKind = zones[kind] ? kind : zones.hr ? 'hr' : null;
+    if (!useKind) return null;
+    const zoneIndex = session.type === 'Recovery' ? 0
+      : session.type === 'Threshold' || session.intensity === 'Hard' ? 3
+      : session.type === 'Tempo' || session.type === 'Race Pace' || session.type === 'Brick' || session.intensity === 'Moderate' ? 2
+      : 1;
+    const z = zones[useKind]![zoneIndex];
+    return `${z.zone} · ${ZonesEngine.formatZone(useKind, z)}`;
+  },
+};
+
+// ============================================================================
+// WORKOUT ENGINE
+// ============================================================================
+
+const step = (kind: WorkoutStep['kind'], type: WorkoutTargetType, low: number, high: number, durationMin?: number, distanceM?: number, label?: string): WorkoutStep => ({
+  kind, target: { type, low, high }, label,
+  ...(distanceM ? { distanceM } : { durationSec: Math.round((durationMin || 0) * 60) }),
+});
+
+const WorkoutEngine = {
+  // Interval block filling `mainMin` minutes with work/rest pairs, capped at `maxReps`
+  intervals: (mainMin: number, workMin: number, restMin: number, maxReps: number, work: WorkoutStep, rest: WorkoutStep): WorkoutRepeat => ({
+    kind: 'repeat', count: Math.max(1, Math.min(maxReps, Math.floor(mainMin / (workMin + restMin)))), steps: [work, rest],
+  }),
+
+  // Structured version of a generated session; durations are minutes, swim distance in metres
+  buildWorkout: (sport: string, type: string, duration: number, distance: number): StructuredWorkout | null => {
+    const name = `${sport} ${type}`;
+    if (type === 'FTP Test') return { name, sport, steps: [
+      step('warmup', 'power', 0.5, 0.7, 15), { kind: 'repeat', count: 3, steps: [step('interval', 'power', 1.05, 1.15, 1, undefined, 'Fast'), step('recovery', 'power', 0.5, 0.6, 1)] },
+      step('interval', 'power', 1.1, 1.3, 5, undefined, 'All-out 5min'), step('recovery', 'power', 0.5, 0.6, 10),
+      step('interval', 'power', 0.95, 1.05, 20, undefined, '20min test'), step('cooldown', 'power', 0.45, 0.6, 10),
+    ] };
+    if (type === '5K Test') return { name, sport, steps: [
+      step('warmup', 'pace', 0.65, 0.75, 15), step('interval', 'pace', 1.05, 1.1, undefined, 5000, '5K time trial'), step('cooldown', 'pace', 0.6, 0.7, 10),
+    ] };
+    if (type === 'CSS Test') return { name, sport, steps: [
+      step('warmup', 'css', 0.75, 0.85, undefined, 400), step('interval', 'css', 1, 1.1, undefined, 400, '400m time trial'), step('recovery', 'open', 0, 0, 5),
+      step('interval', 'css', 1.05, 1.15, undefined, 200, '200m time trial'), step('cooldown', 'css', 0.7, 0.8, undefined, 200),
+    ] };
+    if (sport === 'Bike') {
+      const wu = Math.min(15, Math.round(duration * 0.15)), cd = Math.min(10, Math.round(duration * 0.1));
+      const main = Math.max(10, duration - wu - cd);
+      const block = (() => {
+        if (type === 'Threshold') return [WorkoutEngine.intervals(main, 12, 5, 4, step('interval', 'power', 0.88, 0.94, 12, undefined, 'Sweet spot'), step('recovery', 'power', 0.5, 0.6, 5))];
+        if (type === 'Race Pace') return [WorkoutEngine.intervals(main, 30, 5, 3, step('interval', 'power', 0.75, 0.82, 30, undefined, 'Race power'), step('recovery', 'power', 0.5, 0.6, 5))];
+        if (type === 'Openers') return [WorkoutEngine.intervals(main, 3, 3, 3, step('interval', 'power', 0.9, 0.95, 3, undefined, 'Opener'), step('recovery', 'power', 0.5, 0.6, 3))];
+        if (type === 'Recovery') return [step('steady', 'power', 0.45, 0.55, main)];
+        if (type === 'Long' && main > 60) return [step('steady', 'power', 0.62, 0.72, main - 40), step('interval', 'power', 0.75, 0.82, 20, undefined, 'Race effort'), step('steady', 'power', 0.6, 0.7, 20)];
+        return [step('steady', 'power', 0.62, 0.75, main)];
+      })();
+      return { name, sport, steps: [step('warmup', 'power', 0.45, 0.65, wu), ...block, step('cooldown', 'power', 0.45, 0.6, cd)] };
+    }
+    if (sport === 'Run') {
+      if (type === 'Brick') return { name, sport, steps: [step('steady', 'pace', 0.9, 0.95, duration, undefined, 'Off the bike')] };
+      const wu = Math.min(12, Math.round(duration * 0.2)), cd = Math.min(8, Math.round(duration * 0.12));
+      const main = Math.max(10, duration - wu - cd);
+      const block = (() => {
+        if (type === 'Tempo') return [WorkoutEngine.intervals(main, 10, 3, 3, step('interval', 'pace', 0.88, 0.92, 10, undefined, 'Tempo'), step('recovery', 'pace', 0.65, 0.75, 3))];
+        if (type === 'Threshold') return [WorkoutEngine.intervals(main, 5, 2, 6, step('interval', 'pace', 0.98, 1.02, 5, undefined, 'Threshold'), step('recovery', 'pace', 0.6, 0.7, 2))];
+        if (type === 'Openers') return [step('steady', 'pace', 0.75, 0.82, Math.max(5, main - 8)), WorkoutEngine.intervals(8, 1, 1, 4, step('interval', 'pace', 1, 1.05, 1, undefined, 'Race pace'), step('recovery', 'pace', 0.6, 0.7, 1))];
+        if (type === 'Recovery') return [step('steady', 'pace', 0.65, 0.75, main)];
+        return [step('steady', 'pace', 0.75, 0.85, main)];
+      })();
+      return { name, sport, steps: [step('warmup', 'pace', 0.65, 0.75, wu), ...block, step('cooldown', 'pace', 0.6, 0.7, cd)] };
+    }
+    if (sport === 'Swim') {
+      const total = Math.max(800, distance || 1500);
+      const wu = 300, cd = 200, main = total - wu - cd;
+      const block = (() => {
+        if (type === 'Threshold') return [{ kind: 'repeat' as const, count: Math.max(4, Math.floor(main / 100)), steps: [step('interval', 'css', 1, 1.03, undefined, 100, 'CSS'), step('recovery', 'open', 0, 0, 0.25)] }];
+        if (type === 'Race Pace') return [{ kind: 'repeat' as const, count: Math.max(2, Math.floor(main / 400)), steps: [step('interval', 'css', 0.95, 1, undefined, 400, 'Race pace'), step('recovery', 'open', 0, 0, 0.5)] }];
+        if (type === 'Skills') return [{ kind: 'repeat' as const, count: 8, steps: [step('interval', 'css', 0.75, 0.85, undefined, 50, 'Drill'), step('recovery', 'open', 0, 0, 0.25)] }, step('steady', 'css', 0.85, 0.9, undefined, Math.max(100, main - 400))];
+        if (type === 'Openers') return [step('steady', 'css', 0.85, 0.9, undefined, Math.max(100, main - 200)), { kind: 'repeat' as const, count: 4, steps: [step('interval', 'css', 1, 1.05, undefined, 50, 'Opener'), step('recovery', 'open', 0, 0, 0.5)] }];
+        return [step('steady', 'css', 0.85, 0.92, undefined, main)];
+      })();
+      return { name, sport, steps: [step('warmup', 'css', 0.75, 0.85, undefined, wu), ...block, step('cooldown', 'css', 0.7, 0.8, undefined, cd)] };
+    }
+    return null;
+  },
+
+  getThresholds: (onboarding?: OnboardingData | null): WorkoutThresholds => ({
+    ftp: onboarding?.ftp || undefined,
+    thresholdPace: onboarding?.fiveKTime ? ZonesEngine.thresholdPaceFrom5k(onboarding.fiveKTime) : undefined,
+    css: onboarding?.css400Time && onboarding?.css200Time ? ZonesEngine.cssFromTest(onboarding.css400Time, onboarding.css200Time) : undefined,
+  }),
+};
+
 // ============================================================================
 // PLANNING ENGINE
 // ============================================================================
 
+// Sustainable Z2 speeds by training background: bike km/h, run min/km, swim min/100m
+const LEVEL_PACES: Record<string, { bikeKph: number; runMinPerKm: number; swimMinPer100: number }> = {
+  beginner: { bikeKph: 22, runMinPerKm: 7, swimMinPer100: 2.8 },
+  intermediate: { bikeKph: 25, runMinPerKm: 6.25, swimMinPer100: 2.4 },
+  advanced: { bikeKph: 28, runMinPerKm: 5.5, swimMinPer100: 2 },
+};
+
+// Session flavour per phase; recovery weeks always fall back to the easy variant
+const PHASE_SESSIONS: Record<string, Record<string, { type: string; intensity: string; description: string }>> = {
+  Base: {
+    swimKey: { type: 'Skills', intensity: 'Easy', description: 'Technique drills + easy aerobic swimming' },
+    swimEndurance: { type: 'Endurance', intensity: 'Easy', description: 'Continuous aerobic swim, focus on pacing' },
+    runKey: { type: 'Z2', intensity: 'Easy', description: 'Easy aerobic run + 6x20s strides' },
+    bikeKey: { type: 'Z2', intensity: 'Easy', description: 'Steady endurance ride, high cadence' },
+    bikeLong: { type: 'Long', intensity: 'Easy', description: 'Long Z2 ride' },
+    runLong: { type: 'Long', intensity: 'Easy', description: 'Long easy run' },
+  },
+  Build: {
+    swimKey: { type: 'Threshold', intensity: 'Moderate', description: '8-10x100m @ threshold, 15s rest' },
+    swimEndurance: { type: 'Endurance', intensity: 'Easy', description: 'Long continuous swim building to race distance' },
+    runKey: { type: 'Tempo', intensity: 'Moderate', description: '2-3x10min tempo, 3min easy jog' },
+    bikeKey: { type: 'Threshold', intensity: 'Hard', description: '3x12min sweet spot, 5min easy' },
+    bikeLong: { type: 'Long', intensity: 'Moderate', description: 'Long ride with 2x20min at race effort' },
+    runLong: { type: 'Long', intensity: 'Easy', description: 'Long run, last 15min steady' },
+  },
+  Peak: {
+    swimKey: { type: 'Race Pace', intensity: 'Moderate', description: 'Continuous race-pace swim with sighting practice' },
+    swimEndurance: { type: 'Threshold', intensity: 'Moderate', description: '4x400m @ race pace, 30s rest' },
+    runKey: { type: 'Threshold', intensity: 'Hard', description: '5x5min @ threshold, 2min jog' },
+    bikeKey: { type: 'Race Pace', intensity: 'Moderate', description: '2x30min @ race power' },
+    bikeLong: { type: 'Long', intensity: 'Moderate', description: 'Race simulation ride — fuel exactly as on race day' },
+    runLong: { type: 'Long', intensity: 'Moderate', description: 'Long run with final 20min @ race pace' },
+  },
+  Taper: {
+    swimKey: { type: 'Openers', intensity: 'Easy', description: 'Short swim with 4x50m race-pace openers' },
+    swimEndurance: { type: 'Endurance', intensity: 'Easy', description: 'Easy relaxed swim' },
+    runKey: { type: 'Openers', intensity: 'Moderate', description: 'Easy run with 4x1min @ race pace' },
+    bikeKey: { type: 'Openers', intensity: 'Moderate', description: 'Easy spin with 3x3min @ race power' },
+    bikeLong: { type: 'Z2', intensity: 'Easy', description: 'Shortened steady ride' },
+    runLong: { type: 'Z2', intensity: 'Easy', description: 'Shortened easy run' },
+  },
+};
+
+const RECOVERY_SESSIONS: Record<string, { type: string; intensity: string; description: string }> = {
+  swimKey: { type: 'Skills', intensity: 'Easy', description: 'Recovery week — drills and easy swimming' },
+  swimEndurance: { type: 'Endurance', intensity: 'Easy', description: 'Recovery week — relaxed continuous swim' },
+  runKey: { type: 'Recovery', intensity: 'Easy', description: 'Recovery week — easy run, keep it conversational' },
+  bikeKey: { type: 'Recovery', intensity: 'Easy', description: 'Recovery week — easy spin' },
+  bikeLong: { type: 'Z2', intensity: 'Easy', description: 'Recovery week — shortened Z2 ride' },
+  runLong: { type: 'Z2', intensity: 'Easy', description: 'Recovery week — shortened easy run' },
+};
+
+// Default split when no gym programme is set up; scheduled in this order, so 2 sessions/week = Push + Legs
+const GYM_SCHEDULE = [
+  { day: 1, sport: 'Gym - Push', type: 'Push', description: 'Bench press, overhead press, lateral raises, triceps' },
+  { day: 5, sport: 'Gym - Legs', type: 'Legs', description: 'Squats, leg press, RDL, leg curls, calf raises' },
+  { day: 3, sport: 'Gym - Pull', type: 'Pull', description: 'Rows, pull-ups, lat pulldown, bicep curls' },
+];
+
+// Race legs (0 = not raced), base weekly volume before goal/level scaling, and the weeks out
+// at which Build, Peak and Taper begin — longer races get a longer build and taper
+const RACE_DISTANCES: Record<string, RaceDistance> = {
+  sprint: { label: 'Sprint Triathlon', raceMins: 80, legs: { swimM: 750, bikeKm: 20, runKm: 5 }, volume: { swimSessions: 2, bikeKm: 40, runKm: 15 }, phaseStarts: { Build: 8, Peak: 2, Taper: 1 }, bikeIF: 0.92, milestones: { rideMins: 60, runKm: 5 } },
+  olympic: { label: 'Olympic Triathlon', raceMins: 150, legs: { swimM: 1500, bikeKm: 40, runKm: 10 }, volume: { swimSessions: 3, bikeKm: 50, runKm: 20 }, phaseStarts: { Build: 10, Peak: 3, Taper: 1 }, bikeIF: 0.87, milestones: { rideMins: 90, runKm: 10 } },
+  '70.3': { label: 'Ironman 70.3', raceMins: 330, legs: { swimM: 1900, bikeKm: 90, runKm: 21.1 }, volume: { swimSessions: 3, bikeKm: 60, runKm: 25 }, phaseStarts: { Build: 12, Peak: 3, Taper: 1 }, bikeIF: 0.78, milestones: { rideMins: 120, runKm: 10 } },
+  full: { label: 'Ironman', raceMins: 720, legs: { swimM: 3800, bikeKm: 180, runKm: 42.2 }, volume: { swimSessions: 3, bikeKm: 120, runKm: 40 }, phaseStarts: { Build: 16, Peak: 4, Taper: 2 }, bikeIF: 0.7, milestones: { rideMins: 300, runKm: 25 } },
+  half_marathon: { label: 'Half Marathon', raceMins: 120, legs: { swimM: 0, bikeKm: 0, runKm: 21.1 }, volume: { swimSessions: 0, bikeKm: 0, runKm: 35 }, phaseStarts: { Build: 10, Peak: 2, Taper: 1 }, bikeIF: 0, milestones: { rideMins: 0, runKm: 16 } },
+  marathon: { label: 'Marathon', raceMins: 240, legs: { swimM: 0, bikeKm: 0, runKm: 42.2 }, volume: { swimSessions: 0, bikeKm: 0, runKm: 50 }, phaseStarts: { Build: 14, Peak: 4, Taper: 2 }, bikeIF: 0, milestones: { rideMins: 0, runKm: 30 } },
+  gran_fondo: { label: 'Gran Fondo', raceMins: 300, legs: { swimM: 0, bikeKm: 120, runKm: 0 }, volume: { swimSessions: 0, bikeKm: 150, runKm: 0 }, phaseStarts: { Build: 10, Peak: 3, Taper: 1 }, bikeIF: 0.7, milestones: { rideMins: 240, runKm: 0 } },
+};
+
+const getRaceDistance = (key?: string) => RACE_DISTANCES[key || '70.3'] || RACE_DISTANCES['70.3'];
+
+// A benchmark test replaces the matching quality slot in each Base/Build recovery week, one sport at a time
+const FITNESS_TESTS: Record<string, { day: number; sport: string; duration: number; distance: number; description: string }> = {
+  '5K Test': { day: 2, sport: 'Run', duration: 45, distance: 8, description: '15min warm-up with strides, 5K time trial all-out, 10min cool-down' },
+  'FTP Test': { day: 3, sport: 'Bike', duration: 60, distance: 25, description: '20min warm-up incl. 3x1min fast, 5min all-out, 10min easy, then 20min best sustained effort (or a ramp test)' },
+  'CSS Test': { day: 4, sport: 'Swim', duration: 45, distance: 1500, description: '400m easy + drills, 400m time trial, 5min easy, 200m time trial, easy cool-down' },
+};
+
 const PlanningEngine = {
+  getPhaseForWeeksOut: (weeksOut: number, distance?: string) => {
+    const starts = getRaceDistance(distance).phaseStarts;
+    return weeksOut > starts.Build ? 'Base' : weeksOut > starts.Peak ? 'Build' : weeksOut > starts.Taper ? 'Peak' : 'Taper';
+  },
+
+  // Load for the week starting on `weekStart` (a Sunday): 3:1 load/recovery inside Base and Build,
+  // a Peak overload, then a stepped Taper into race week. Phase lengths follow the race distance.
+  getWeekLoad: (raceDate: string | undefined, weekStart: Date, planStart: Date, distance?: string) => {
+    if (!raceDate) return { phase: 'Base', weeksOut: null as number | null, weekInBlock: 0, isRecovery: false, loadFactor: 0.8 };
+    const weekMs = 7 * 24 * 60 * 60 * 1000;
+    const race = new Date(raceDate + 'T00:00:00').getTime();
+    const firstWeek = new Date(planStart); firstWeek.setHours(0, 0, 0, 0); firstWeek.setDate(firstWeek.getDate() - firstWeek.getDay());
+    const weeksOut = Math.max(0, Math.floor((race - weekStart.getTime()) / weekMs));
+    const firstWeeksOut = Math.max(0, Math.floor((race - firstWeek.getTime()) / weekMs));
+    const phase = PlanningEngine.getPhaseForWeeksOut(weeksOut, distance);
+    const starts = getRaceDistance(distance).phaseStarts;
+    const phaseStart = phase === 'Base' ? Infinity : starts[phase as keyof typeof starts];
+    const weekInBlock = Math.max(0, Math.min(phaseStart, firstWeeksOut) - weeksOut);
+    const cycle = Math.floor(weekInBlock / 4), position = weekInBlock % 4;
+    const isRecovery = (phase === 'Base' || phase === 'Build') && position === 3;
+    let loadFactor: number;
+    if (phase === 'Base') loadFactor = isRecovery ? 0.65 : Math.min(1, 0.75 + 0.05 * cycle + 0.07 * position);
+    else if (phase === 'Build') loadFactor = isRecovery ? 0.7 : Math.min(1.2, 0.95 + 0.04 * cycle + 0.07 * position);
+    else if (phase === 'Peak') loadFactor = weeksOut > starts.Taper + 1 ? 1.15 : 1.05;
+    else loadFactor = weeksOut >= 2 ? 0.75 : weeksOut >= 1 ? 0.6 : 0.35;
+    return { phase, weeksOut, weekInBlock, isRecovery, loadFactor };
+  },
+
   generateInitialPlan: (userId: string, onboarding: OnboardingData) => {
     const weeksToRace = Math.floor(
       (new Date(onboarding.raceDate!).getTime() - Date.now()) / (7 * 24 * 60 * 60 * 1000)
     );
-    const phase = weeksToRace > 20 ? 'Base' : weeksToRace > 12 ? 'Build' : weeksToRace > 3 ? 'Peak' : 'Taper';
-    let swimSessions = 3, bikeKm = 60, runKm = 25, strengthSessions = 2;
-    if (onboarding.goalType === 'sub4_30') { swimSessions = 4; bikeKm = 80; runKm = 35; }
-    else if (onboarding.goalType === 'sub5') { swimSessions = 3; bikeKm = 70; runKm = 30; }
-    else if (onboarding.goalType === 'hybrid') { swimSessions = 3; bikeKm = 50; runKm = 20; strengthSessions = 3; }
+    const phase = PlanningEngine.getPhaseForWeeksOut(weeksToRace, onboarding.raceDistance);
+    const volume = getRaceDistance(onboarding.raceDistance).volume;
+    let swimSessions = volume.swimSessions, bikeKm = volume.bikeKm, runKm = volume.runKm, strengthSessions = 2;
+    if (onboarding.goalType === 'sub4_30') { swimSessions += swimSessions > 0 ? 1 : 0; bikeKm *= 1.33; runKm *= 1.4; }
+    else if (onboarding.goalType === 'sub5') { bikeKm *= 1.17; runKm *= 1.2; }
+    else if (onboarding.goalType === 'hybrid') { bikeKm *= 0.83; runKm *= 0.8; strengthSessions = 3; }
     if (onboarding.trainingBackground === 'beginner') {
-      swimSessions = Math.max(2, swimSessions - 1); bikeKm *= 0.7; runKm *= 0.7;
+      swimSessions = swimSessions > 0 ? Math.max(2, swimSessions - 1) : 0; bikeKm *= 0.7; runKm *= 0.7;
     }
     return {
-      user_id: userId, start_date: new Date().toISOString().split('T')[0], end_date: onboarding.raceDate,
+      user_id: userId, start_date: toLocalDate(), end_date: onboarding.raceDate,
       phase, weekly_swim_sessions: swimSessions, weekly_bike_km: Math.round(bikeKm),
       weekly_run_km: Math.round(runKm), weekly_strength_sessions: strengthSessions, auto_generated: true,
     };
   },
 
-  generate30DaySessions: (userId: string) => {
+  // One week of sessions keyed by day of week (0 = Sunday), scaled to the week's load and time budget
+  buildWeekSessions: (onboarding: OnboardingData, plan: any, week: { phase: string; isRecovery: boolean; loadFactor: number; weeksOut: number | null }, gymProgramme?: GymProgramme | null) => {
+    const paces = LEVEL_PACES[onboarding.trainingBackground || 'intermediate'] || LEVEL_PACES.intermediate;
+    const pick = (key: string) => week.isRecovery ? RECOVERY_SESSIONS[key] : PHASE_SESSIONS[week.phase][key];
+    const f = week.loadFactor;
+    const isRaceWeek = week.weeksOut === 0;
+    const days: Record<number, any[]> = { 0: [], 1: [], 2: [], 3: [], 4: [], 5: [], 6: [] };
+    // Only train the disciplines the race contains; single-sport races get an extra session instead
+    const race = getRaceDistance(onboarding.raceDistance);
+    const hasSwim = race.legs.swimM > 0, hasBike = race.legs.bikeKm > 0, hasRun = race.legs.runKm > 0;
+
+    if (hasSwim) {
+      const swimCount = Math.max(1, Math.min(plan.weekly_swim_sessions || 3, onboarding.poolDaysPerWeek || plan.weekly_swim_sessions || 3));
+      const swimDays = [1, 4, 6, 3].slice(0, swimCount);
+      const swimMetres = Math.round(Math.max(1500, race.legs.swimM * (onboarding.canSwim1900m ? 1.15 : 0.85)) * f / 100) * 100;
+      swimDays.forEach((day, i) => {
+        const s = pick(i === 0 ? 'swimKey' : 'swimEndurance');
+        const distance = i === 0 ? Math.round(swimMetres * 0.85 / 100) * 100 : swimMetres;
+        days[day].push({ sport: 'Swim', ...s, distance, duration: Math.round(distance / 100 * paces.swimMinPer100 + 10) });
+      });
+    }
+
+    if (hasBike) {
+      const bikeKm = (plan.weekly_bike_km || race.volume.bikeKm) * f;
+      const bikeKey = pick('bikeKey'), bikeLong = pick('bikeLong');
+      const split = hasRun ? { key: 0.4, extra: 0, long: 0.6 } : { key: 0.3, extra: 0.2, long: 0.5 };
+      days[3].push({ sport: 'Bike', ...bikeKey, distance: Math.round(bikeKm * split.key), duration: Math.round(bikeKm * split.key / paces.bikeKph * 60) });
+      if (split.extra > 0) days[1].push({ sport: 'Bike', type: 'Z2', intensity: 'Easy', description: 'Steady endurance ride', distance: Math.round(bikeKm * split.extra), duration: Math.round(bikeKm * split.extra / paces.bikeKph * 60) });
+      if (!isRaceWeek) days[6].push({ sport: 'Bike', ...bikeLong, distance: Math.round(bikeKm * split.long), duration: Math.round(bikeKm * split.long / paces.bikeKph * 60) });
+    }
+
+    if (hasRun) {
+      const runKm = (plan.weekly_run_km || race.volume.runKm) * f;
+      const withBrick = hasSwim && hasBike && !week.isRecovery && (week.phase === 'Build' || week.phase === 'Peak');
+      const runKey = pick('runKey'), runLong = pick('runLong');
+      const split = hasBike ? { key: 0.3, extra: 0, easy: withBrick ? 0.15 : 0.25, long: 0.45 } : { key: 0.25, extra: 0.2, easy: 0.15, long: 0.4 };
+      days[2].push({ sport: 'Run', ...runKey, distance: +(runKm * split.key).toFixed(1), duration: Math.round(runKm * split.key * paces.runMinPerKm) });
+      if (split.extra > 0) days[4].push({ sport: 'Run', type: 'Z2', intensity: 'Easy', description: 'Steady aerobic run', distance: +(runKm * split.extra).toFixed(1), duration: Math.round(runKm * split.extra * paces.runMinPerKm) });
+      days[5].push({ sport: 'Run', type: 'Recovery', intensity: 'Easy', description: 'Easy recovery run', distance: +(runKm * split.easy).toFixed(1), duration: Math.round(runKm * split.easy * paces.runMinPerKm) });
+      if (withBrick) days[6].push({ sport: 'Run', type: 'Brick', intensity: 'Moderate', description: 'Brick run straight off the bike @ race pace', distance: +(runKm * 0.1).toFixed(1), duration: Math.round(runKm * 0.1 * paces.runMinPerKm) });
+      if (!isRaceWeek) days[0].push({ sport: 'Run', ...runLong, distance: +(runKm * split.long).toFixed(1), duration: Math.round(runKm * split.long * paces.runMinPerKm) });
+    }
+
+    // Fit endurance work into the athlete's available hours for this week
+    if (onboarding.hoursPerWeek) {
+      const budget = onboarding.hoursPerWeek * 60 * Math.min(1, f);
+      const total = Object.values(days).flat().reduce((sum, s) => sum + s.duration, 0);
+      if (total > budget) {
+        const scale = budget / total;
+        Object.values(days).flat().forEach(s => {
+          s.duration = Math.max(20, Math.round(s.duration * scale / 5) * 5);
+          s.distance = s.sport === 'Swim' ? Math.round(s.distance * scale / 100) * 100 : +(s.distance * scale).toFixed(1);
+        });
+      }
+    }
+
+    // One all-out test per recovery week, rotating through the race's sports so the week stays easy
+    if (week.isRecovery) {
+      const inRace: Record<string, boolean> = { Swim: hasSwim, Bike: hasBike, Run: hasRun };
+      const tests = Object.entries(FITNESS_TESTS).filter(([, test]) => inRace[test.sport]);
+      if (tests.length > 0) {
+        const [type, test] = tests[Math.floor((week.weeksOut || 0) / 4) % tests.length];
+        const slot = days[test.day].findIndex(s => s.sport === test.sport);
+        const session = { sport: test.sport, type, duration: test.duration, distance: test.distance, intensity: 'Hard', description: test.description };
+        if (slot >= 0) days[test.day][slot] = session;
+        else days[test.day].push(session);
+      }
+    }
+
+    if (onboarding.gymAccess !== false && !isRaceWeek) {
+      const schedule = gymProgramme && gymProgramme.days.length > 0 ? ProgrammeEngine.schedule(gymProgramme) : GYM_SCHEDULE;
+      const gymCount = week.phase === 'Taper' ? 1 : gymProgramme ? schedule.length : plan.weekly_strength_sessions || 2;
+      schedule.slice(0, gymCount).forEach(g => {
+        days[g.day].push({ sport: g.sport, type: g.type, duration: week.isRecovery ? 30 : 45, distance: 0, intensity: week.isRecovery || week.phase === 'Taper' ? 'Easy' : 'Moderate', description: g.description });
+      });
+    }
+    return days;
+  },
+
+  // Mini-taper into and recovery out of B/C races: B races get 3 easier days before and 2 after, C races one each side
+  applyRaceAdjustments: (sessions: any[], races: Race[], userId: string) => {
+    const dayMs = 24 * 60 * 60 * 1000;
+    let adjusted = [...sessions];
+    races.filter(r => r.priority !== 'A').forEach(race => {
+      const raceTime = new Date(race.date + 'T00:00:00').getTime();
+      const [before, after] = race.priority === 'B' ? [3, 2] : [1, 1];
+      const offsetOf = (s: any) => Math.round((new Date(s.date + 'T00:00:00').getTime() - raceTime) / dayMs);
+      adjusted = adjusted
+        .filter(s => offsetOf(s) !== 0 && !(s.sport.startsWith('Gym') && offsetOf(s) >= -2 && offsetOf(s) <= 1))
+        .map(s => {
+          const offset = offsetOf(s);
+          if (offset < -before || offset > after || s.sport.startsWith('Gym')) return s;
+          const duration = Math.max(20, Math.round(s.duration * (offset < 0 ? 0.6 : 0.5) / 5) * 5);
+          const type = offset < 0 ? 'Openers' : 'Recovery';
+          return {
+            ...s, type, duration, intensity: 'Easy',
+            description: offset < 0 ? `Pre-race: short and sharp ahead of ${race.name}` : `Post-race recovery after ${race.name}`,
+            workout: WorkoutEngine.buildWorkout(s.sport, type, duration, s.distance),
+          };
+        });
+      const inPlan = sessions.length > 0 && race.date >= sessions[0].date && race.date <= sessions[sessions.length - 1].date;
+      if (inPlan) {
+        adjusted.push({
+          user_id: userId, date: race.date, sport: 'Race', type: RACE_DISTANCES[race.distance]?.label || race.distance,
+          duration: RACE_DISTANCES[race.distance]?.raceMins || 120, distance: 0, intensity: 'Hard',
+          description: `${race.priority} race: ${race.name}${race.location ? ` — ${race.location}` : ''}`,
+          workout: null, status: 'planned', completed_session_id: null, created_by: 'system',
+        });
+      }
+    });
+    return adjusted.sort((a, b) => a.date.localeCompare(b.date));
+  },
+
+  // Full season from today up to (not including) race day, built backwards from the A race
+  generateSeasonSessions: (userId: string, onboarding: OnboardingData, plan: any, races: Race[] = [], gymProgramme?: GymProgramme | null) => {
     const sessions: any[] = [];
-    const startDate = new Date();
-    const weekTemplate: Record<number, any[]> = {
-      0: [],
-      1: [
-        { sport: 'Swim', type: 'Skills', duration: 45, distance: 1500, intensity: 'Easy', description: 'Technique drills + easy swimming' },
-        { sport: 'Gym - Push', type: 'Push', duration: 45, distance: 0, intensity: 'Moderate', description: 'Bench press, overhead press, lateral raises, triceps' },
-      ],
-      2: [{ sport: 'Run', type: 'Z2', duration: 40, distance: 6, intensity: 'Easy', description: 'Easy aerobic run' }],
-      3: [
-        { sport: 'Bike', type: 'Z2', duration: 60, distance: 20, intensity: 'Easy', description: 'Steady endurance ride' },
-        { sport: 'Gym - Pull', type: 'Pull', duration: 45, distance: 0, intensity: 'Moderate', description: 'Rows, pull-ups, lat pulldown, bicep curls' },
-      ],
-      4: [{ sport: 'Swim', type: 'Threshold', duration: 50, distance: 2000, intensity: 'Moderate', description: '6x200m @ threshold' }],
-      5: [
-        { sport: 'Run', type: 'Tempo', duration: 45, distance: 7, intensity: 'Moderate', description: 'Tempo run' },
-        { sport: 'Gym - Legs', type: 'Legs', duration: 45, distance: 0, intensity: 'Moderate', description: 'Squats, leg press, RDL, leg curls, calf raises' },
-      ],
-      6: [{ sport: 'Bike', type: 'Long', duration: 120, distance: 40, intensity: 'Easy', description: 'Long Z2 ride' }],
-    };
-    for (let day = 0; day < 30; day++) {
-      const date = new Date(startDate);
-      date.setDate(startDate.getDate() + day);
-      const dayOfWeek = date.getDay();
-      const daySessions = weekTemplate[dayOfWeek] || [];
-      daySessions.forEach((s) => {
-        sessions.push({ user_id: userId, date: date.toISOString().split('T')[0], ...s, status: 'planned', completed_session_id: null, created_by: 'system' });
+    const startDate = new Date(); startDate.setHours(0, 0, 0, 0);
+    const endDate = onboarding.raceDate ? new Date(onboarding.raceDate + 'T00:00:00') : new Date(startDate.getTime() + 28 * 24 * 60 * 60 * 1000);
+    const planStart = plan?.start_date ? new Date(plan.start_date + 'T00:00:00') : startDate;
+    let weekDays: Record<number, any[]> = {};
+    for (const date = new Date(startDate); date < endDate; date.setDate(date.getDate() + 1)) {
+      if (date.getTime() === startDate.getTime() || date.getDay() === 0) {
+        const weekStart = new Date(date); weekStart.setDate(date.getDate() - date.getDay());
+        const week = PlanningEngine.getWeekLoad(onboarding.raceDate, weekStart, planStart, onboarding.raceDistance);
+        weekDays = PlanningEngine.buildWeekSessions(onboarding, plan, week, gymProgramme);
+      }
+      (weekDays[date.getDay()] || []).forEach((s) => {
+        const workout = WorkoutEngine.buildWorkout(s.sport, s.type, s.duration, s.distance);
+        sessions.push({ user_id: userId, date: toLocalDate(date), ...s, workout, status: 'planned', completed_session_id: null, created_by: 'system' });
       });
     }
-    return sessions;
+    return PlanningEngine.applyRaceAdjustments(sessions, races, userId);
   },
 
-  projectFinishTime: (onboarding: OnboardingData) => {
-    const swimMins = onboarding.canSwim1900m ? 35 : 45;
-    const bikeMins = onboarding.ftp ? 150 + (250 - onboarding.ftp) * 0.5 : 180;
-    const runMins = onboarding.fiveKTime ? (onboarding.fiveKTime / 60) * 4.2 : 120;
-    const totalMins = swimMins + bikeMins + runMins + 10;
-    const hours = Math.floor(totalMins / 60);
-    const mins = Math.round(totalMins % 60);
-    return { time: `${hours}:${mins.toString().padStart(2, '0')}`, swim: `${Math.floor(swimMins)}min`, bike: `${Math.floor(bikeMins)}min`, run: `${Math.floor(runMins)}min` };
+  projectFinishTime: (onboarding: OnboardingData, sessions: TrainingSession[] = [], tests: FitnessTest[] = []) => {
+    const { legs, total } = PredictionEngine.predict(onboarding, sessions, tests);
+    return {
+      time: formatDuration(total.likely), best: formatDuration(total.best), worst: formatDuration(total.worst),
+      swim: `${Math.round(legs.swim.likely)}min`, bike: `${Math.round(legs.bike.likely)}min`, run: `${Math.round(legs.run.likely)}min`,
+    };
   },
 
   checkGoalRealism: (onboarding: OnboardingData) => {
     const warnings: string[] = [];
     if (onboarding.goalType === 'sub4_30') {
-      if (!onboarding.canSwim1900m) warnings.push('Sub-4:30 requires 1.9km swim endurance.');
-      if (onboarding.fiveKTime && onboarding.fiveKTime > 1500) warnings.push('Sub-4:30 requires faster 5K pace.');
+      const race = getRaceDistance(onboarding.raceDistance);
+      const goal = onboarding.raceDistance && onboarding.raceDistance !== '70.3' ? 'A competitive goal' : 'Sub-4:30';
+      if (race.legs.swimM > 0 && !onboarding.canSwim1900m) warnings.push(`${goal} requires ${race.legs.swimM / 1000}km swim endurance.`);
+      if (race.legs.runKm > 0 && onboarding.fiveKTime && onboarding.fiveKTime > 1500) warnings.push(`${goal} requires faster 5K pace.`);
     }
     return { realistic: warnings.length === 0, warnings, recommendation: warnings.length > 2 ? 'conservative' : warnings.length > 0 ? 'stretch' : 'achievable' };
   },
 };
 
+// ============================================================================
+// TRAINING LOAD ENGINE
+// ============================================================================
+
+// Intensity factor implied by a session RPE (RPE 10 ≈ a one-hour all-out effort at threshold)
+const RPE_TO_IF: Record<number, number> = { 1: 0.5, 2: 0.55, 3: 0.6, 4: 0.65, 5: 0.7, 6: 0.75, 7: 0.82, 8: 0.88, 9: 0.95, 10: 1.02 };
+
+const TrainingLoadEngine = {
+  // Stress score in TSS units. Runs with a known 5K use pace-based rTSS, rides with a known FTP use
+  // average power (or RPE-derived intensity when there is no power), everything else falls back to session-RPE (RPE × minutes) scaled so RPE 10 for 60min ≈ 100.
+  sessionLoad: (session: TrainingSession, onboarding?: OnboardingData | null) => {
+    const hours = (session.duration || 0) / 60;
+    const rpe = Math.min(10, Math.max(1, Math.round(session.rpe || 5)));
+    const srpe = rpe * (session.duration || 0);
+    if (session.sport === 'Run' && onboarding?.fiveKTime && session.distance > 0 && session.duration > 0) {
+      const thresholdPace = ZonesEngine.thresholdPaceFrom5k(onboarding.fiveKTime);
+      const pace = (session.duration * 60) / session.distance;
+      const intensity = Math.min(1.15, thresholdPace / pace);
+      return { srpe, tss: Math.round(hours * intensity * intensity * 100), method: 'rTSS' };
+    }
+    if (session.sport === 'Bike' && onboarding?.ftp) {
+      const intensity = session.avg_power ? Math.min(1.2, session.avg_power / onboarding.ftp) : RPE_TO_IF[rpe];
+      return { srpe, tss: Math.round(hours * intensity * intensity * 100), method: 'TSS' };
+    }
+    return { srpe, tss: Math.round(srpe / 6), method: 'sRPE' };
+  },
+
+  // Daily ATL (7-day) and CTL (42-day) exponentially weighted loads; TSB is yesterday's CTL − ATL
+  computeLoadSeries: (sessions: TrainingSession[], onboarding?: OnboardingData | null, days = 42) => {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const dailyLoad: Record<string, number> = {};
+    sessions.forEach(s => {
+      dailyLoad[s.date] = (dailyLoad[s.date] || 0) + TrainingLoadEngine.sessionLoad(s, onboarding).tss;
+    });
+    const today = new Date(); today.setHours(0, 0, 0, 0);
+    const earliest = Object.keys(dailyLoad).sort()[0];
+    const warmup = earliest ? Math.ceil((today.getTime() - new Date(earliest + 'T00:00:00').getTime()) / dayMs) : days;
+    const span = Math.min(180, Math.max(days, warmup));
+    let atl = 0, ctl = 0;
+    const series: { date: string; load: number; atl: number; ctl: number; tsb: number }[] = [];
+    for (let i = span; i >= 0; i--) {
+      const date = addDays(toLocalDate(today), -i);
+      const load = dailyLoad[date] || 0;
+      const tsb = ctl - atl;
+      atl += (load - atl) / 7;
+      ctl += (load - ctl) / 42;
+      series.push({ date, load, atl: Math.round(atl * 10) / 10, ctl: Math.round(ctl * 10) / 10, tsb: Math.round(tsb * 10) / 10 });
+    }
+    return series.slice(-days);
+  },
+
+  getLoadStatus: (series: { ctl: number; atl: number; tsb: number }[]) => {
+    const latest = series[series.length - 1] || { ctl: 0, atl: 0, tsb: 0 };
+    const weekAgo = series[series.length - 8] || latest;
+    const rampRate = Math.round((latest.ctl - weekAgo.ctl) * 10) / 10;
+    let status = 'Maintaining', color = '#6B7280';
+    if (latest.tsb < -30 || rampRate > 8) { status = 'Overreaching'; color = '#DC2626'; }
+    else if (latest.tsb < -10) { status = 'Productive'; color = '#16A34A'; }
+    else if (latest.tsb > 25) { status = 'Detraining'; color = '#D97706'; }
+    else if (latest.tsb > 5) { status = 'Fresh'; color = '#2563EB'; }
+    return { ...latest, rampRate, status, color };
+  },
+
+  summarize: (sessions: TrainingSession[], onboarding?: OnboardingData | null) => {
+    const series = TrainingLoadEngine.computeLoadSeries(sessions, onboarding);
+    const status = TrainingLoadEngine.getLoadStatus(series);
+    return {
+      atl: status.atl, ctl: status.ctl, tsb: status.tsb, rampRate: status.rampRate, status: status.status,
+      last7Days: series.slice(-7).map(d => ({ date: d.date, load: d.load })),
+    };
+  },
+};
+
+// ============================================================================
+// PREDICTION ENGINE
+// ============================================================================
+
+const COURSE_BIKE_FACTOR: Record<string, number> = { flat: 1, rolling: 0.95, hilly: 0.88 };
+const COURSE_RUN_FACTOR: Record<string, number> = { flat: 1, rolling: 1.02, hilly: 1.05 };
+// Slowdown running off the bike compared with a fresh effort of the same length
+const OFF_BIKE_FACTOR: Record<string, number> = { beginner: 1.1, intermediate: 1.07, advanced: 1.04 };
+const TRANSITION_MINS: Record<string, number> = { beginner: 8, intermediate: 6, advanced: 4 };
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const formatDuration = (mins: number) => `${Math.floor(mins / 60)}:${String(Math.round(mins % 60)).padStart(2, '0')}`;
+
+const PredictionEngine = {
+  // Thresholds as they stood on `asOf`: the latest logged test before that date, else the profile value
+  thresholdsAsOf: (onboarding: OnboardingData, tests: FitnessTest[], asOf: string) => {
+    const latest = (type: FitnessTest['test_type']) => tests.filter(t => t.test_type === type && t.date <= asOf).sort((a, b) => b.date.localeCompare(a.date))[0]?.result;
+    const ftpTest = latest('FTP Test'), runTest = latest('5K Test'), swimTest = latest('CSS Test');
+    const hasHistory = (type: FitnessTest['test_type']) => tests.some(t => t.test_type === type);
+    return {
+      ftp: ftpTest?.ftp ?? (hasHistory('FTP Test') ? undefined : onboarding.ftp),
+      fiveKTime: runTest?.fiveKTime ?? (hasHistory('5K Test') ? undefined : onboarding.fiveKTime),
+      css: swimTest?.css ?? (!hasHistory('CSS Test') && onboarding.css400Time && onboarding.css200Time ? ZonesEngine.cssFromTest(onboarding.css400Time, onboarding.css200Time) : undefined),
+    };
+  },
+
+  // Per-leg best/likely/worst minutes from tests plus the last 8 weeks of training before `asOf`.
+  // Each leg blends a test-based and a training-based estimate; fewer sources means a wider range.
+  predict: (onboarding: OnboardingData, sessions: TrainingSession[], tests: FitnessTest[] = [], asOf = toLocalDate()) => {
+    const since = addDays(asOf, -56);
+    const recent = sessions.filter(s => s.date > since && s.date <= asOf && s.duration > 0 && s.distance > 0);
+    const t = PredictionEngine.thresholdsAsOf(onboarding, tests, asOf);
+    const race = getRaceDistance(onboarding.raceDistance);
+    const isMultisport = [race.legs.swimM, race.legs.bikeKm, race.legs.runKm].filter(d => d > 0).length > 1;
+    const level = onboarding.trainingBackground || 'intermediate';
+    const course = onboarding.raceCourseProfile || 'flat';
+    const heat = Math.max(0, (onboarding.raceTemperature ?? 20) - 20);
+    const blend = (estimates: (number | null)[]) => {
+      const known = estimates.filter((e): e is number => e !== null);
+      return { value: known.length ? known.reduce((a, b) => a + b, 0) / known.length : null, sources: known.length };
+    };
+
+    // Swim: race pace ≈ CSS + 5s/100m; training median pace is aerobic, so race ~4% faster
+    const swimPaces = recent.filter(s => s.sport === 'Swim').map(s => (s.duration * 60) / (s.distance / 100));
+    const swim = blend([t.css ? t.css + 5 : null, median(swimPaces) ? median(swimPaces)! * 0.96 : null]);
+    const swimPace = swim.value ?? (onboarding.canSwim1900m ? 110 : 142);
+    const swimMins = (race.legs.swimM / 100) * swimPace / 60;
+
+    // Bike: race-distance share of FTP (~78% for 70.3) converted to flat-road speed, blended with recent long-ride speed
+    const rides = recent.filter(s => s.sport === 'Bike' && s.duration >= 45);
+    const rideSpeeds = rides.map(s => s.distance / (s.duration / 60));
+    const ftpSpeed = t.ftp ? 36 * Math.cbrt((t.ftp * (race.bikeIF || 0.78)) / 250) : null;
+    const bike = blend([ftpSpeed, median(rideSpeeds) ? median(rideSpeeds)! * 1.05 : null]);
+    const bikeSpeed = (bike.value ?? 28) * COURSE_BIKE_FACTOR[course] * (1 - heat * 0.004);
+    const bikeMins = (race.legs.bikeKm / bikeSpeed) * 60;
+
+    // Run: Riegel from 5K, blended with training pace (easy runs are ~18% slower than 10K effort,
+    // ~12% slower than half-marathon effort and ~7% slower than marathon effort)
+    const runKm = race.legs.runKm || 21.1;
+    const runPaces = recent.filter(s => s.sport === 'Run').map(s => (s.duration * 60) / s.distance);
+    const riegelPace = t.fiveKTime ? (t.fiveKTime * Math.pow(runKm / 5, 1.06)) / runKm : null;
+    const easyToRace = runKm <= 10 ? 0.82 : runKm <= 21.1 ? 0.88 : 0.93;
+    const run = blend([riegelPace, median(runPaces) ? median(runPaces)! * easyToRace : null]);
+    const offBike = isMultisport ? OFF_BIKE_FACTOR[level] || 1.07 : 1;
+    const runPace = (run.value ?? 345) * offBike * COURSE_RUN_FACTOR[course] * (1 + heat * 0.01);
+    const runMins = (race.legs.runKm * runPace) / 60;
+
+    const transitionMins = isMultisport ? TRANSITION_MINS[level] || 6 : 0;
+    const spread = (sources: number) => sources >= 2 ? 0.04 : sources === 1 ? 0.07 : 0.12;
+    const leg = (mins: number, sources: number) => ({ best: mins * (1 - spread(sources)), likely: mins, worst: mins * (1 + spread(sources) * 1.5), sources });
+    const legs = { swim: leg(swimMins, swim.sources), bike: leg(bikeMins, bike.sources), run: leg(runMins, run.sources), transitions: leg(transitionMins, 1) };
+    const total = (['best', 'likely', 'worst'] as const).reduce((acc, k) => ({ ...acc, [k]: Object.values(legs).reduce((sum, l) => sum + l[k], 0) }), {} as Record<'best' | 'likely' | 'worst', number>);
+    return { asOf, legs, total };
+  },
+
+  // Likely finish at the end of each of the last `weeks` weeks
+  trend: (onboarding: OnboardingData, sessions: TrainingSession[], tests: FitnessTest[] = [], weeks = 8) => {
+    const today = new Date();
+    return Array.from({ length: weeks }, (_, i) => {
+      const asOf = addDays(toLocalDate(today), -(weeks - 1 - i) * 7);
+      const p = PredictionEngine.predict(onboarding, sessions, tests, asOf);
+      return { date: asOf, likely: p.total.likely, best: p.total.best, worst: p.total.worst };
+    });
+  },
+};
+
+// ============================================================================
+// FUELLING ENGINE
+// ============================================================================
+
+// Approximate METs by sport and intensity for exercise energy cost
+const SESSION_METS: Record<string, Record<string, number>> = {
+  Swim: { Easy: 6, Moderate: 8, Hard: 10 },
+  Bike: { Easy: 6, Moderate: 8.5, Hard: 11 },
+  Run: { Easy: 8, Moderate: 10, Hard: 12 },
+  Race: { Easy: 9, Moderate: 10, Hard: 11 },
+  Gym: { Easy: 3.5, Moderate: 5, Hard: 6 },
+};
+
+// Race-day products the planner counts out: carbs in g, sodium in mg, drink per 500ml bottle
+const RACE_FUEL = {
+  gel: { carbs: 25, sodium: 100 },
+  drink: { carbs: 30, sodium: 300, ml: 500 },
+  capsule: { sodium: 250 },
+};
+
+const FuellingEngine = {
+  // Latest logged weight on or before `date`, then the profile weight
+  weightOn: (date: string, bodyMetrics: BodyMetrics[], onboarding?: OnboardingData | null) => {
+    const latest = bodyMetrics.filter(b => b.weight && b.date <= date).sort((a, b) => b.date.localeCompare(a.date))[0];
+    if (latest?.weight) return { weight: latest.weight, source: 'logged' as const };
+    if (onboarding?.weight) return { weight: onboarding.weight, source: 'profile' as const };
+    return { weight: 75, source: 'default' as const };
+  },
+
+  // The day's training: completed sessions as logged, plus planned sessions still to do
+  sessionsOn: (date: string, plannedSessions: PlannedSession[], trainingSessions: TrainingSession[]) => {
+    const intensityFromRpe = (rpe: number) => rpe >= 8 ? 'Hard' : rpe >= 5 ? 'Moderate' : 'Easy';
+    const done = trainingSessions.filter(t => t.date === date)
+      .map(t => ({ sport: t.sport, type: t.type, duration: t.duration, intensity: intensityFromRpe(t.rpe), completed: true }));
+    const todo = plannedSessions.filter(p => p.date === date && p.status === 'planned')
+      .map(p => ({ sport: p.sport, type: p.type, duration: p.duration, intensity: p.intensity, completed: false }));
+    return [...done, ...todo];
+  },
+
+  dailyTargets: (date: string, plannedSessions: PlannedSession[], trainingSessions: TrainingSession[], bodyMetrics: BodyMetrics[], onboarding?: OnboardingData | null) => {
+    const { weight, source } = FuellingEngine.weightOn(date, bodyMetrics, onboarding);
+    const sessions = FuellingEngine.sessionsOn(date, plannedSessions, trainingSessions);
+    const sportKey = (sport: string) => sport.startsWith('Gym') ? 'Gym' : SESSION_METS[sport] ? sport : 'Run';
+
+    // Resting energy: sex-averaged Mifflin-St Jeor when height and age are known, with a 1.4 non-exercise activity factor
+    const resting = onboarding?.height && onboarding?.age ? 10 * weight + 6.25 * onboarding.height - 5 * onboarding.age - 78 : weight * 22;
+    const exerciseKcal = sessions.reduce((sum, s) => sum + (SESSION_METS[sportKey(s.sport)][s.intensity] || 7) * weight * (s.duration / 60), 0);
+
+    const tier = carbTier(sessions);
+    const hasStrength = sessions.some(s => s.sport.startsWith('Gym'));
+
+    const carbs = Math.round(weight * tier.carbsPerKg);
+    const protein = Math.round(weight * (hasStrength ? 2 : 1.8));
+    const energy = resting * 1.4 + exerciseKcal;
+    const fat = Math.round(Math.max(weight * 0.8, (energy - carbs * 4 - protein * 4) / 9));
+    const calories = Math.round(carbs * 4 + protein * 4 + fat * 9);
+
+    return {
+      date, weight, weightSource: source, dayType: tier.dayType, trainingMinutes: Math.round(sessions.reduce((s, x) => s + x.duration, 0)),
+      exerciseKcal: Math.round(exerciseKcal), calories, protein, carbs, fat, sessions,
+      guidance: FuellingEngine.sessionGuidance(sessions, weight),
+    };
+  },
+
+  // Expected race temperature: the explicit setting, else the first °C figure in the weather notes
+  raceTemperature: (onboarding?: OnboardingData | null) => {
+    if (typeof onboarding?.raceTemperature === 'number') return onboarding.raceTemperature;
+    const match = onboarding?.raceWeather?.match(/(-?\d+(?:\.\d+)?)\s*°?\s*C\b/i);
+    return match ? parseFloat(match[1]) : 20;
+  },
+
+  // Hourly bike and run intake. Carbs scale with race length and with the highest rate the athlete
+  // has rehearsed comfortably; fluid and sodium scale with body weight and heat.
+  raceHourlyTargets: (onboarding: OnboardingData | null | undefined, weight: number, raceMins: number, rehearsals: FuelRehearsal[] = []) => {
+    const temperature = FuellingEngine.raceTemperature(onboarding);
+    const heat = Math.max(0, temperature - 20);
+    const tolerated = Math.max(0, ...rehearsals.filter(r => r.gut_score >= 4).map(r => r.carbs_per_hour));
+    const round = (v: number, to: number) => Math.round(v / to) * to;
+    const maxCarbs = raceMins <= 75 ? 30 : raceMins <= 150 ? 60 : 90;
+    const bikeCarbs = Math.min(maxCarbs, Math.max(Math.min(60, maxCarbs), round(tolerated, 5)));
+    const runCarbs = raceMins <= 75 ? 0 : Math.min(70, Math.max(30, bikeCarbs - 20));
+    const bikeFluid = Math.min(1000, Math.max(400, round(weight * 7 + heat * 25, 50)));
+    const runFluid = round(bikeFluid * 0.75, 50);
+    return {
+      temperature, tolerated,
+      bike: { carbs: bikeCarbs, fluid: bikeFluid, sodium: round(bikeFluid * 0.8, 50) },
+      run: { carbs: runCarbs, fluid: runFluid, sodium: round(runFluid * 0.8, 50) },
+    };
+  },
+
+  // Timed race plan in 20-minute slots from the projected leg times. Drink covers fluid first;
+  // gels and capsules top up whatever carbs and sodium the drink leaves short.
+  racePlan: (onboarding: OnboardingData, weight: number, legs: { swim: number; bike: number; run: number; transitions: number }, rehearsals: FuelRehearsal[] = []) => {
+    const raceMins = legs.swim + legs.bike + legs.run + legs.transitions;
+    const targets = FuellingEngine.raceHourlyTargets(onboarding, weight, raceMins, rehearsals);
+    const items: { at: number; leg: string; action: string }[] = [
+      { at: -180, leg: 'Pre-race', action: `Breakfast: ${Math.round(weight * 2)}g carbs (porridge, bagel, banana) + 500ml fluid` },
+      { at: -60, leg: 'Pre-race', action: `Sip 500ml electrolyte drink (~${RACE_FUEL.drink.sodium}mg sodium)` },
+    ];
+    if (raceMins > 75) items.push({ at: -15, leg: 'Pre-race', action: 'Gel with a few sips of water' });
+    const totals = { gels: raceMins > 75 ? 1 : 0, bottles: 0, capsules: 0, carbs: raceMins > 75 ? RACE_FUEL.gel.carbs : 0, fluid: 0, sodium: raceMins > 75 ? RACE_FUEL.gel.sodium : 0 };
+
+    const fuelLeg = (leg: 'Bike' | 'Run', start: number, mins: number, t: { carbs: number; fluid: number; sodium: number }) => {
+      let carbDebt = 0, sodiumDebt = 0;
+      for (let m = 0; m + 10 <= mins; m += 20) {
+        const slotMins = Math.min(20, mins - m);
+        const ml = Math.round(t.fluid * slotMins / 60 / 10) * 10;
+        const drinkCarbs = t.carbs > 0 ? ml / RACE_FUEL.drink.ml * RACE_FUEL.drink.carbs : 0;
+        const drinkSodium = ml / RACE_FUEL.drink.ml * RACE_FUEL.drink.sodium;
+        carbDebt += t.carbs * slotMins / 60 - drinkCarbs;
+        sodiumDebt += t.sodium * slotMins / 60 - drinkSodium;
+        const actions = [`${ml}ml ${t.carbs > 0 ? 'sports drink' : 'water'}`];
+        if (carbDebt >= RACE_FUEL.gel.carbs * 0.8) {
+          actions.unshift('Gel'); carbDebt -= RACE_FUEL.gel.carbs; sodiumDebt -= RACE_FUEL.gel.sodium;
+          totals.gels++; totals.carbs += RACE_FUEL.gel.carbs; totals.sodium += RACE_FUEL.gel.sodium;
+        }
+        if (sodiumDebt >= RACE_FUEL.capsule.sodium * 0.8) {
+          actions.push('salt capsule'); sodiumDebt -= RACE_FUEL.capsule.sodium;
+          totals.capsules++; totals.sodium += RACE_FUEL.capsule.sodium;
+        }
+        totals.fluid += ml; totals.carbs += Math.round(drinkCarbs); totals.sodium += Math.round(t.carbs > 0 ? drinkSodium : 0);
+        items.push({ at: Math.round(start + m + slotMins / 2), leg, action: actions.join(' + ') });
+      }
+      if (leg === 'Bike') totals.bottles = Math.ceil(t.fluid * mins / 60 / RACE_FUEL.drink.ml);
+    };
+    const bikeStart = legs.swim + legs.transitions / 2;
+    if (legs.bike > 0) fuelLeg('Bike', bikeStart, legs.bike, targets.bike);
+    if (legs.run > 0) fuelLeg('Run', bikeStart + legs.bike + (legs.bike > 0 ? legs.transitions / 2 : 0), legs.run, targets.run);
+    items.push({ at: Math.round(raceMins) + 30, leg: 'Post-race', action: `${Math.round(weight)}g carbs + ${Math.round(weight * 0.3)}g protein, rehydrate with electrolytes` });
+    return { raceMins, targets, items, totals };
+  },
+
+  // Per-session intake to practise race fuelling in a long session, using the race hourly targets
+  rehearsalFor: (session: { sport: string; duration: number }, targets: Record<'bike' | 'run', { carbs: number; fluid: number; sodium: number }>) => {
+    const t = session.sport === 'Bike' ? targets.bike : targets.run;
+    const hours = session.duration / 60;
+    return { ...t, totalCarbs: Math.round(t.carbs * hours), totalFluid: Math.round(t.fluid * hours / 50) * 50, gels: Math.ceil(t.carbs * hours / RACE_FUEL.gel.carbs) };
+  },
+
+  // Pre/during/post carbohydrate and fluid advice for long bike and run sessions
+  sessionGuidance: (sessions: { sport: string; type: string; duration: number; intensity: string }[], weight: number) =>
+    sessions.filter(isLongSession).map(s => {
+      const hours = s.duration / 60;
+      const carbsPerHour = carbsPerHourDuring(s);
+      const fluidPerHour = s.sport === 'Bike' ? '500–750ml' : '400–600ml';
+      return {
+        session: `${s.sport} ${s.type} — ${s.duration}min`,
+        pre: `${Math.round(weight * 1)}–${Math.round(weight * 2)}g carbs 1–3h before, plus ~500ml fluid`,
+        during: `${carbsPerHour}g carbs/h (≈${Math.round(hours * (s.duration > 150 ? 75 : 45))}g total), ${fluidPerHour} fluid/h${hours >= 2 ? ', 300–600mg sodium/h' : ''}`,
+        post: `${Math.round(weight * 1)}g carbs + ${Math.round(weight * 0.3)}g protein within an hour; drink ~1.5× fluid lost`,
+      };
+    }),
+};
+
+// ============================================================================
+// ADAPTATION ENGINE
+// ============================================================================
+
+const downgradeSession = (s: PlannedSession, durationFactor: number, intensity: string) => ({
+  intensity, duration: Math.max(20, Math.round(s.duration * durationFactor / 5) * 5),
+  type: intensity === 'Easy' ? 'Recovery' : s.type,
+  description: intensity === 'Easy' ? `Easy ${s.sport.toLowerCase()} — keep it conversational (adjusted for recovery)` : s.description,
+});
+
+const AdaptationEngine = {
+  // Rule-based proposals from recent body metrics, skips and load. Nothing is applied here —
+  // each proposal carries the plan changes plus before/after rows for the athlete to review.
+  proposeAdjustments: (plannedSessions: PlannedSession[], bodyMetrics: BodyMetrics[], trainingSessions: TrainingSession[], onboarding?: OnboardingData | null): PlanAdjustment[] => {
+    const today = new Date(); today.setHours(0, 0, 0, 0);
+    const dateStr = (offset: number) => addDays(toLocalDate(today), offset);
+    const todayStr = dateStr(0), tomorrowStr = dateStr(1);
+    const isEndurance = (s: PlannedSession) => !s.sport.startsWith('Gym');
+    const isKey = (s: PlannedSession) => s.intensity === 'Hard' || s.intensity === 'Moderate' || s.type === 'Long';
+    const upcoming = plannedSessions.filter(s => s.status === 'planned' && s.date >= todayStr);
+    const recentMetrics = bodyMetrics.filter(b => b.date >= dateStr(-3)).sort((a, b) => b.date.localeCompare(a.date));
+    const latest = recentMetrics[0];
+    const tsb = TrainingLoadEngine.summarize(trainingSessions, onboarding).tsb;
+    const proposals: PlanAdjustment[] = [];
+    const touched = new Set<string>();
+
+    // Very high fatigue or deep negative form: clear tomorrow's hard work for a recovery day
+    if ((latest?.fatigue ?? 0) >= 9 || tsb < -30) {
+      const tomorrow = upcoming.filter(s => s.date === tomorrowStr && isKey(s));
+      if (tomorrow.length > 0) {
+        tomorrow.forEach(s => touched.add(s.id));
+        const recovery = { date: tomorrowStr, sport: 'Bike', type: 'Recovery', duration: 30, distance: 0, intensity: 'Easy', description: 'Recovery day — easy spin or full rest' };
+        proposals.push({
+          key: `recovery_day:${tomorrowStr}`, rule: 'recovery_day',
+          reason: tsb < -30 ? `Form is ${Math.round(tsb)} TSB — you're carrying a lot of fatigue. Turn tomorrow into a recovery day.` : `Fatigue logged at ${latest!.fatigue}/10. Turn tomorrow into a recovery day.`,
+          changes: [...tomorrow.map(s => ({ action: 'cancel', sessionId: s.id })), { action: 'add', ...recovery }],
+          before: tomorrow, after: [recovery],
+        });
+      }
+    }
+
+    // Several high-fatigue days: downgrade the next three days of quality work
+    const highFatigueDays = recentMetrics.filter(b => (b.fatigue ?? 0) >= 7).length;
+    if (highFatigueDays >= 2) {
+      const nextDays = upcoming.filter(s => s.date <= dateStr(2) && isEndurance(s) && s.intensity !== 'Easy' && !touched.has(s.id));
+      if (nextDays.length > 0) {
+        nextDays.forEach(s => touched.add(s.id));
+        proposals.push({
+          key: `fatigue:${nextDays.map(s => s.id).join(',')}`, rule: 'fatigue',
+          reason: `Fatigue has been 7+/10 on ${highFatigueDays} of the last few days. Swap the next quality sessions for easy aerobic work.`,
+          changes: nextDays.map(s => ({ action: 'modify', sessionId: s.id, ...downgradeSession(s, 0.7, 'Easy') })),
+          before: nextDays, after: nextDays.map(s => ({ ...s, ...downgradeSession(s, 0.7, 'Easy') })),
+        });
+      }
+    }
+
+    // Short sleep last night: take the edge off today's hard session
+    if (latest && latest.date >= dateStr(-1) && latest.sleep !== null && latest.sleep < 6) {
+      const hardToday = upcoming.filter(s => s.date === todayStr && s.intensity === 'Hard' && !touched.has(s.id));
+      if (hardToday.length > 0) {
+        hardToday.forEach(s => touched.add(s.id));
+        proposals.push({
+          key: `sleep:${latest.date}`, rule: 'sleep',
+          reason: `Only ${latest.sleep}h sleep logged. Keep today's session but drop it to moderate and trim the volume.`,
+          changes: hardToday.map(s => ({ action: 'modify', sessionId: s.id, ...downgradeSession(s, 0.8, 'Moderate') })),
+          before: hardToday, after: hardToday.map(s => ({ ...s, ...downgradeSession(s, 0.8, 'Moderate') })),
+        });
+      }
+    }
+
+    // Missed key session in the last three days: move it to the first free slot this week
+    const weekEnd = new Date(today); weekEnd.setDate(today.getDate() + (6 - today.getDay()));
+    const weekEndStr = toLocalDate(weekEnd);
+    plannedSessions
+      .filter(s => s.status === 'skipped' && s.date >= dateStr(-3) && s.date < todayStr && isEndurance(s) && isKey(s))
+      .forEach(missed => {
+        for (let offset = 1; dateStr(offset) <= weekEndStr; offset++) {
+          const day = dateStr(offset);
+          const daySessions = upcoming.filter(s => s.date === day);
+          if (daySessions.some(s => s.sport === missed.sport || isKey(s))) continue;
+          proposals.push({
+            key: `missed_session:${missed.id}`, rule: 'missed_session',
+            reason: `You skipped ${missed.sport} ${missed.type} on ${missed.date}. ${day} has room for it without stacking hard days.`,
+            changes: [{ action: 'reschedule', sessionId: missed.id, newDate: day }],
+            before: [missed], after: [{ ...missed, date: day, status: 'planned' }],
+          });
+          break;
+        }
+      });
+
+    return proposals;
+  },
+};
+
 // ============================================================================
 // MAIN APP
 // ============================================================================
@@ -388,6 +1294,15 @@ const ProFitAgentV5 = () => {
   const [realism, setRealism] = useState<any>(null);
   const [milestones, setMilestones] = useState<Milestone[]>([]);
   const [userPrefs, setUserPrefs] = useState<UserPrefs>({ avatar_emoji: null, avatar_color: '#FFCB00' });
+  const [decidedAdjustments, setDecidedAdjustments] = useState<string[]>([]);
+  const [fitnessTests, setFitnessTests] = useState<FitnessTest[]>([]);
+  const [races, setRaces] = useState<Race[]>([]);
+  const [fuelRehearsals, setFuelRehearsals] = useState<FuelRehearsal[]>([]);
+  const [gymProgramme, setGymProgramme] = useState<GymProgramme | null>(null);
+
+  useEffect(() => {
+    if (onboardingData.completed) setProjection(PlanningEngine.projectFinishTime(onboardingData, trainingSessions, fitnessTests));
+  }, [onboardingData, trainingSessions, fitnessTests]);
 
   useEffect(() => {
     checkUser();
@@ -422,44 +1337,36 @@ const ProFitAgentV5 = () => {
       const onboarding = onboardingFromDb(onboardingRow);
       setOnboardingData(onboarding);
       if (onboarding.completed) {
-        const [planRes, sessionsRes, trainingRes, bodyRes, milestonesRes] = await Promise.all([
+        const [planRes, sessionsRes, trainingRes, bodyRes, milestonesRes, adjustmentsRes, testsRes, racesRes, rehearsalsRes, programmeRes] = await Promise.all([
           safeQuery(() => supabase.from('training_plans').select('*').eq('user_id', userId).maybeSingle(), 'loadPlan'),
           safeQuery(() => supabase.from('planned_sessions').select('*').eq('user_id', userId).order('date', { ascending: true }), 'loadPlanned'),
           safeQuery(() => supabase.from('training_sessions').select('*').eq('user_id', userId).order('date', { ascending: false }), 'loadTraining'),
           safeQuery(() => supabase.from('body_metrics').select('*').eq('user_id', userId).order('date', { ascending: false }), 'loadBody'),
           safeQuery(() => supabase.from('milestones').select('*').eq('user_id', userId).order('date', { ascending: true }), 'loadMilestones'),
+          safeQuery(() => supabase.from('plan_adjustments').select('key').eq('user_id', userId), 'loadAdjustments'),
+          safeQuery(() => supabase.from('fitness_tests').select('*').eq('user_id', userId).order('date', { ascending: false }), 'loadFitnessTests'),
+          safeQuery(() => supabase.from('races').select('*').eq('user_id', userId).order('date', { ascending: true }), 'loadRaces'),
+          safeQuery(() => supabase.from('fuel_rehearsals').select('*').eq('user_id', userId).order('date', { ascending: false }), 'loadRehearsals'),
+          safeQuery(() => supabase.from('gym_programmes').select('*').eq('user_id', userId).maybeSingle(), 'loadGymProgramme'),
         ]);
         if (planRes.data) setPlan(planRes.data);
         if (sessionsRes.data) setPlannedSessions(sessionsRes.data as any);
         if (trainingRes.data) setTrainingSessions(trainingRes.data as any);
         if (bodyRes.data) setBodyMetrics(bodyRes.data as any);
         if (milestonesRes.data) setMilestones(milestonesRes.data as any);
-
-        try {
-          const { data: gymSessions } = await supabase.from('gym_sessions')
-            .select('*')
-            .eq('user_id', userId)
-            .not('completed_at', 'is', null)
-            .order('date', { ascending: false })
-            .limit(10);
-          if (gymSessions && gymSessions.length > 0) {
-            const enriched = [];
-            for (const gs of gymSessions.slice(0, 5)) {
-              const { data: entries } = await supabase.from('gym_exercise_entries')
-                .select('*, gym_exercises(name)').eq('session_id', gs.id).order('order_index');
-              const entryData = [];
-              if (entries) {
-                for (const e of entries) {
-                  const { data: sets } = await supabase.from('gym_sets')
-                    .select('weight, reps, rpe').eq('entry_id', e.id).order('set_index');
-                  entryData.push({ exercise_name: e.gym_exercises?.name || 'Unknown', sets: sets || [] });
-                }
-              }
-              enriched.push({ ...gs, entries: entryData });
-            }
-            (window as any).__recentGymSessions = enriched;
+        if (adjustmentsRes.data) setDecidedAdjustments((adjustmentsRes.data as any[]).map(a => a.key));
+        if (testsRes.data) setFitnessTests(testsRes.data as any);
+        if (racesRes.data) {
+          // Athletes who onboarded before season races existed only have the race on their profile
+          const loadedRaces = racesRes.data as any[];
+          if (onboarding.raceDate && !loadedRaces.some(r => r.priority === 'A')) {
+            const { data: backfilled } = await safeQuery(() => supabase.from('races').insert(aRaceFromOnboarding(onboarding, userId)).select().single(), 'backfillARace');
+            if (backfilled) loadedRaces.push(backfilled);
           }
-        } catch (e) { console.error('Failed to load gym for coach:', e); }
+          setRaces(loadedRaces.sort((a, b) => a.date.localeCompare(b.date)));
+        }
+        if (rehearsalsRes.data) setFuelRehearsals(rehearsalsRes.data as any);
+        if (programmeRes.data) setGymProgramme(programmeRes.data as any);
       }
     }
   };
@@ -468,7 +1375,8 @@ const ProFitAgentV5 = () => {
     setUser(authUser);
     setDataLoading(true);
     await safeQuery(() => supabase.from('user_profiles').insert({ user_id: authUser.id }), 'initProfile');
-    await safeQuery(() => supabase.from('user_preferences').insert({ user_id: authUser.id }), 'initPrefs');
+    // The time zone is refreshed at every sign-in so Telegram reminders follow the athlete's local clock
+    await safeQuery(() => supabase.from('user_preferences').upsert({ user_id: authUser.id, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }, { onConflict: 'user_id' }), 'initPrefs');
     await safeQuery(() => supabase.from('billing_info').insert({ user_id: authUser.id, plan: 'free', status: 'active' }), 'initBilling');
     await loadUserData(authUser.id);
     setDataLoading(false);
@@ -487,7 +1395,12 @@ const ProFitAgentV5 = () => {
     await safeQuery(() => supabase.from('training_plans').insert(generatedPlan), 'savePlan');
     setPlan(generatedPlan);
 
-    const sessions = PlanningEngine.generate30DaySessions(user.id);
+    if (data.raceDate) {
+      const { data: insertedRace } = await safeQuery(() => supabase.from('races').insert(aRaceFromOnboarding(data, user.id)).select().single(), 'saveARace');
+      if (insertedRace) setRaces([insertedRace as any]);
+    }
+
+    const sessions = PlanningEngine.generateSeasonSessions(user.id, data, generatedPlan);
     await safeQuery(() => supabase.from('planned_sessions').insert(sessions), 'saveSessions');
     setPlannedSessions(sessions as any);
 
@@ -499,22 +1412,24 @@ const ProFitAgentV5 = () => {
       const raceDate = new Date(data.raceDate);
       const now = new Date();
       const totalWeeks = Math.floor((raceDate.getTime() - now.getTime()) / (7 * 24 * 60 * 60 * 1000));
+      const race = getRaceDistance(data.raceDistance);
       const phaseDates = {
         base: new Date(now),
-        build: new Date(now.getTime() + Math.max(1, totalWeeks - 12) * 7 * 24 * 60 * 60 * 1000),
-        peak: new Date(raceDate.getTime() - 3 * 7 * 24 * 60 * 60 * 1000),
-        taper: new Date(raceDate.getTime() - 1 * 7 * 24 * 60 * 60 * 1000),
+        build: new Date(now.getTime() + Math.max(1, totalWeeks - race.phaseStarts.Build) * 7 * 24 * 60 * 60 * 1000),
+        peak: new Date(raceDate.getTime() - race.phaseStarts.Peak * 7 * 24 * 60 * 60 * 1000),
+        taper: new Date(raceDate.getTime() - race.phaseStarts.Taper * 7 * 24 * 60 * 60 * 1000),
       };
+      const rideLabel = race.milestones.rideMins % 60 === 0 ? `${race.milestones.rideMins / 60}-hour` : `${race.milestones.rideMins}-minute`;
       const milestoneRows = [
-        { user_id: user.id, title: 'Training begins', date: now.toISOString().split('T')[0], rule_type: 'date_based', rule_json: {}, status: 'achieved', achieved_at: now.toISOString(), phase: 'Base', icon: '🚀' },
-        { user_id: user.id, title: 'Build phase starts', date: phaseDates.build.toISOString().split('T')[0], rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Build', icon: '💪' },
-        { user_id: user.id, title: 'Peak phase starts', date: phaseDates.peak.toISOString().split('T')[0], rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Peak', icon: '⚡' },
-        { user_id: user.id, title: 'Taper begins', date: phaseDates.taper.toISOString().split('T')[0], rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Taper', icon: '🧘' },
+        { user_id: user.id, title: 'Training begins', date: toLocalDate(now), rule_type: 'date_based', rule_json: {}, status: 'achieved', achieved_at: now.toISOString(), phase: 'Base', icon: '🚀' },
+        { user_id: user.id, title: 'Build phase starts', date: toLocalDate(phaseDates.build), rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Build', icon: '💪' },
+        { user_id: user.id, title: 'Peak phase starts', date: toLocalDate(phaseDates.peak), rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Peak', icon: '⚡' },
+        { user_id: user.id, title: 'Taper begins', date: toLocalDate(phaseDates.taper), rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Taper', icon: '🧘' },
         { user_id: user.id, title: 'Race Day!', date: data.raceDate, rule_type: 'date_based', rule_json: {}, status: 'upcoming', achieved_at: null, phase: 'Race', icon: '🏁' },
-        { user_id: user.id, title: 'First 2-hour ride', date: null, rule_type: 'achievement_based', rule_json: { sport: 'Bike', min_duration: 120 }, status: 'upcoming', achieved_at: null, phase: null, icon: '🚴' },
-        { user_id: user.id, title: 'First continuous 1.9km swim', date: null, rule_type: 'achievement_based', rule_json: { sport: 'Swim', min_distance: 1900 }, status: 'upcoming', achieved_at: null, phase: null, icon: '🏊' },
-        { user_id: user.id, title: 'First 10km+ run', date: null, rule_type: 'achievement_based', rule_json: { sport: 'Run', min_distance: 10 }, status: 'upcoming', achieved_at: null, phase: null, icon: '🏃' },
-      ];
+        race.milestones.rideMins > 0 && { user_id: user.id, title: `First ${rideLabel} ride`, date: null, rule_type: 'achievement_based', rule_json: { sport: 'Bike', min_duration: race.milestones.rideMins }, status: 'upcoming', achieved_at: null, phase: null, icon: '🚴' },
+        race.legs.swimM > 0 && { user_id: user.id, title: `First continuous ${race.legs.swimM / 1000}km swim`, date: null, rule_type: 'achievement_based', rule_json: { sport: 'Swim', min_distance: race.legs.swimM }, status: 'upcoming', achieved_at: null, phase: null, icon: '🏊' },
+        race.milestones.runKm > 0 && { user_id: user.id, title: `First ${race.milestones.runKm}km+ run`, date: null, rule_type: 'achievement_based', rule_json: { sport: 'Run', min_distance: race.milestones.runKm }, status: 'upcoming', achieved_at: null, phase: null, icon: '🏃' },
+      ].filter(Boolean);
       const { data: insertedMilestones } = await safeQuery(() => supabase.from('milestones').insert(milestoneRows).select(), 'createMilestones');
       if (insertedMilestones) setMilestones(insertedMilestones as any);
     }
@@ -549,55 +1464,312 @@ const ProFitAgentV5 = () => {
     setActiveScreen('home');
   };
 
-  const handleLogout = async () => {
-    await supabase.auth.signOut();
-    setUser(null); setOnboardingData({ step: 1, completed: false });
-    setPlan(null); setPlannedSessions([]); setTrainingSessions([]); setBodyMetrics([]);
+  // Shared by the coach and the adaptation engine; `createdBy` tags any sessions it inserts.
+  // Returns false if any write failed, so callers never report a change that didn't happen.
+  const applyPlanChanges = async (changes: any[], createdBy: string) => {
+    let ok = true;
+    for (const change of changes) {
+      if ((change.action === 'skip' || change.action === 'cancel') && change.sessionId) {
+        const { error } = await safeQuery(() => supabase.from('planned_sessions').update({ status: 'cancelled' }).eq('id', change.sessionId), 'planCancel');
+        if (error) { ok = false; continue; }
+        setPlannedSessions(prev => prev.map(p => p.id === change.sessionId ? { ...p, status: 'cancelled' } : p));
+      }
+      if (change.action === 'modify' && change.sessionId) {
+        const updates: Partial<PlannedSession> = {};
+        (['type', 'duration', 'distance', 'intensity', 'description'] as const).forEach(field => {
+          if (change[field] !== undefined) (updates as any)[field] = change[field];
+        });
+        const original = plannedSessions.find(p => p.id === change.sessionId);
+        if (original && (updates.type || updates.duration || updates.distance)) {
+          updates.workout = WorkoutEngine.buildWorkout(original.sport, updates.type || original.type, updates.duration || original.duration, updates.distance ?? original.distance);
+        }
+        const { error } = await safeQuery(() => supabase.from('planned_sessions').update(updates).eq('id', change.sessionId), 'planModify');
+        if (error) { ok = false; continue; }
+        setPlannedSessions(prev => prev.map(p => p.id === change.sessionId ? { ...p, ...updates } : p));
+      }
+      if (change.action === 'reschedule' && change.sessionId && change.newDate) {
+        const original = plannedSessions.find(p => p.id === change.sessionId);
+        // A missed session moved to a later day stays 'skipped' so the miss still counts against compliance
+        if (original?.status !== 'skipped') {
+          const { error } = await safeQuery(() => supabase.from('planned_sessions').update({ status: 'cancelled' }).eq('id', change.sessionId), 'planRescheduleCancel');
+          if (error) { ok = false; continue; }
+          setPlannedSessions(prev => prev.map(p => p.id === change.sessionId ? { ...p, status: 'cancelled' } : p));
+        }
+        if (original) {
+          const newSession = { user_id: original.user_id, date: change.newDate, sport: original.sport, type: original.type, duration: original.duration, distance: original.distance, intensity: original.intensity, description: original.description, workout: original.workout ?? null, status: 'planned', completed_session_id: null, created_by: createdBy };
+          const { data: inserted } = await safeQuery(() => supabase.from('planned_sessions').insert(newSession).select().single(), 'planRescheduleAdd');
+          if (inserted) setPlannedSessions(prev => [...prev, inserted as any]);
+          else ok = false;
+        }
+      }
+      if (change.action === 'add') {
+        const newSession = { user_id: user?.id, date: change.date, sport: change.sport, type: change.type || 'Z2', duration: change.duration || 45, distance: change.distance || 0, intensity: change.intensity || 'Easy', description: change.description || '', status: 'planned', completed_session_id: null, created_by: createdBy,
+          workout: WorkoutEngine.buildWorkout(change.sport, change.type || 'Z2', change.duration || 45, change.distance || 0) };
+        const { data: inserted } = await safeQuery(() => supabase.from('planned_sessions').insert(newSession).select().single(), 'planAdd');
+        if (inserted) setPlannedSessions(prev => [...prev, inserted as any]);
+        else ok = false;
+      }
+    }
+    return ok;
   };
 
-  if (loading || dataLoading) {
-    const userName = user?.user_metadata?.full_name?.split(' ')[0] || '';
-    return (
-      <div className="min-h-screen bg-black flex items-center justify-center">
-        <div className="text-white text-center">
-          <div className="mb-6 flex flex-col items-center">
-            <img src={HUEL_LOGO} alt="Huel" className="h-16 w-auto mb-2" />
-            <span className="text-xl font-black tracking-tight text-white">Fit</span>
-          </div>
-          <Loader className="animate-spin mx-auto mb-4" size={36} style={{ color: '#FFCB00' }} />
-          <p className="text-lg font-bold">{userName ? `Welcome back, ${userName}!` : 'Loading...'}</p>
-          {userName && <p className="text-sm opacity-50 mt-1">Loading your training data...</p>}
-        </div>
-      </div>
-    );
-  }
+  // The decision is only recorded once the plan writes and the decision row have both saved, so a failure keeps the suggestion
+  const handleAdjustmentDecision = async (adjustment: PlanAdjustment, accepted: boolean) => {
+    if (!user) return false;
+    if (accepted && !(await applyPlanChanges(adjustment.changes, 'adaptation'))) return false;
+    const { error } = await safeQuery(() => supabase.from('plan_adjustments').insert({
+      user_id: user.id, key: adjustment.key, rule: adjustment.rule, reason: adjustment.reason,
+      changes: adjustment.changes, status: accepted ? 'accepted' : 'rejected',
+    }), 'saveAdjustmentDecision');
+    if (error) return false;
+    setDecidedAdjustments(prev => [...prev, adjustment.key]);
+    return true;
+  };
 
-  if (!user) return <AuthFlow onAuth={handleAuth} />;
-  if (!onboardingData.completed) return <OnboardingFlow user={user} data={onboardingData} onComplete={handleOnboardingComplete} />;
+  // Saves a benchmark result, feeds it into the profile (and so zones/projection) and ticks off the scheduled test.
+  // Reports the two writes separately so the log screen never claims zones changed when they didn't.
+  // A back-dated result is kept in the history but leaves the profile to the newer test of that type.
+  const handleLogTest = async (test: FitnessTest) => {
+    if (!user) return { saved: false, zonesUpdated: false, superseded: false };
+    const { data: inserted, error } = await safeQuery(
+      () => supabase.from('fitness_tests').insert({ ...test, user_id: user.id }).select().single(), 'logFitnessTest'
+    );
+    if (error || !inserted) return { saved: false, zonesUpdated: false, superseded: false };
+    setFitnessTests([inserted as any, ...fitnessTests]);
+
+    const superseded = fitnessTests.some(t => t.test_type === test.test_type && t.date > test.date);
+    let saveErr: any = null;
+    if (!superseded) {
+      const { ftp, fiveKTime, css400Time, css200Time } = test.result;
+      const zoneKind: ZoneKind = test.test_type === 'FTP Test' ? 'power' : test.test_type === '5K Test' ? 'pace' : 'swim';
+      const { [zoneKind]: _stale, ...zoneOverrides } = onboardingData.zoneOverrides || {};
+      const updated: OnboardingData = {
+        ...onboardingData, zoneOverrides,
+        ...(ftp ? { ftp } : {}), ...(fiveKTime ? { fiveKTime } : {}),
+        ...(css400Time && css200Time ? { css400Time, css200Time } : {}),
+      };
+      ({ error: saveErr } = await safeQuery(
+        () => supabase.from('onboarding_data').upsert(onboardingToDb(updated, user.id), { onConflict: 'user_id' }), 'updateFromTest'
+      ));
+      if (!saveErr) setOnboardingData(updated);
+    }
 
-  return (
-    <ToastProvider>
-      <div className="min-h-screen bg-gray-50">
-        <Header user={user} showMenu={showProfileMenu} setShowMenu={setShowProfileMenu} onLogout={handleLogout} onNavigate={setActiveScreen} userPrefs={userPrefs} setUserPrefs={setUserPrefs} />
-        <div className="pb-20">
-          {activeScreen === 'home' && (
-            <HomeScreen user={user} onboarding={onboardingData} plan={plan} projection={projection}
-              realism={realism} plannedSessions={plannedSessions} trainingSessions={trainingSessions} bodyMetrics={bodyMetrics} milestones={milestones} />
-          )}
-          {activeScreen === 'calendar' && <CalendarScreen plannedSessions={plannedSessions} milestones={milestones} />}
-          {activeScreen === 'log' && <LogScreen onLogTraining={handleLogTraining} onLogBody={handleLogBody} setActiveScreen={setActiveScreen} />}
-          {activeScreen === 'plan' && <PlanScreen plan={plan} plannedSessions={plannedSessions} setPlannedSessions={setPlannedSessions} onboarding={onboardingData} milestones={milestones} user={user} supabase={supabase} />}
-          {activeScreen === 'coach' && <CoachScreen onboarding={onboardingData} plan={plan} plannedSessions={plannedSessions} setPlannedSessions={setPlannedSessions} trainingSessions={trainingSessions} bodyMetrics={bodyMetrics} />}
-          {activeScreen === 'nutrition' && <NutritionScreen onboarding={onboardingData} plan={plan} trainingSessions={trainingSessions} />}
-          {activeScreen === 'gym' && <GymScreen supabase={supabase} user={user} />}
-          {activeScreen === 'leaderboard' && <LeaderboardScreen />}
-          {activeScreen === 'account' && <AccountScreen user={user} onboarding={onboardingData} setOnboarding={setOnboardingData} setActiveScreen={setActiveScreen} />}
-        </div>
-        <BottomNav activeTab={activeScreen} setActiveTab={setActiveScreen} />
-      </div>
-    </ToastProvider>
-  );
-};
+    const dayMs = 24 * 60 * 60 * 1000;
+    const scheduled = plannedSessions.find(p => p.type === test.test_type && p.status === 'planned'
+      && Math.abs(new Date(p.date).getTime() - new Date(test.date).getTime()) <= 3 * dayMs);
+    if (scheduled) {
+      const { error: completeErr } = await safeQuery(() => supabase.from('planned_sessions').update({ status: 'completed' }).eq('id', scheduled.id), 'completeTest');
+      if (!completeErr) setPlannedSessions(plannedSessions.map(p => p.id === scheduled.id ? { ...p, status: 'completed' } : p));
+    }
+    return { saved: true, zonesUpdated: !superseded && !saveErr, superseded };
+  };
+
+  const handleLogRehearsal = async (rehearsal: FuelRehearsal) => {
+    if (!user) return false;
+    const { data: inserted, error } = await safeQuery(
+      () => supabase.from('fuel_rehearsals').insert({ ...rehearsal, user_id: user.id }).select().single(), 'logRehearsal'
+    );
+    if (error || !inserted) return false;
+    setFuelRehearsals([inserted as any, ...fuelRehearsals]);
+    return true;
+  };
+
+  const handleUnavailableEquipment = async (unavailableEquipment: string[]) => {
+    if (!user) return;
+    const updated = { ...onboardingData, unavailableEquipment };
+    const { error } = await safeQuery(
+      () => supabase.from('onboarding_data').upsert(onboardingToDb(updated, user.id), { onConflict: 'user_id' }), 'saveUnavailableEquipment'
+    );
+    if (!error) setOnboardingData(updated);
+  };
+
+  // Future planned gym sessions are rebuilt from the programme days; completed ones are left alone
+  const handleSaveProgramme = async (programme: GymProgramme) => {
+    if (!user) return false;
+    const { data: saved, error } = await safeQuery(
+      () => supabase.from('gym_programmes').upsert({ ...programme, user_id: user.id }, { onConflict: 'user_id' }).select().single(), 'saveGymProgramme'
+    );
+    if (error || !saved) return false;
+    setGymProgramme(saved as any);
+    if (onboardingData.completed && plan) {
+      const today = toLocalDate();
+      const isFutureGym = (s: { sport: string; status: string; date: string }) => s.sport.startsWith('Gym') && s.status === 'planned' && s.date >= today;
+      await safeQuery(() => supabase.from('planned_sessions').delete().eq('user_id', user.id).eq('status', 'planned').gte('date', today).like('sport', 'Gym%'), 'clearGymSessions');
+      const gymSessions = PlanningEngine.generateSeasonSessions(user.id, onboardingData, plan, races, saved as any).filter(isFutureGym);
+      const { data: inserted } = await safeQuery(() => supabase.from('planned_sessions').insert(gymSessions).select(), 'saveGymSessions');
+      setPlannedSessions(prev => [...prev.filter(s => !isFutureGym(s)), ...((inserted as any[]) || [])].sort((a, b) => a.date.localeCompare(b.date)));
+    }
+    return true;
+  };
+
+  // A finished gym workout is logged as training (sRPE load, weekly totals) and ticks off that day's planned gym slot
+  const handleGymSessionComplete = async (gym: GymSession, summary: GymSessionSummary) => {
+    if (!user) return false;
+    // A retried save finds the row the first attempt wrote instead of logging the workout twice
+    const { data: existing, error: lookupError } = await safeQuery(() => supabase.from('training_sessions').select('id').eq('gym_session_id', gym.id).limit(1), 'findGymSession');
+    if (lookupError) return false;
+    if ((existing as any[] | null)?.length) return true;
+    const sport = `Gym - ${gym.day_type}`;
+    const { data: inserted, error } = await safeQuery(() => supabase.from('training_sessions').insert({
+      user_id: user.id, date: gym.date, sport, type: gym.day_type, duration: summary.duration, distance: 0, rpe: summary.rpe,
+      notes: `${summary.workingSets} working sets, ${summary.volume.toLocaleString()} kg lifted`, volume_kg: summary.volume, gym_session_id: gym.id, source: 'gym',
+    }).select().single(), 'logGymSession');
+    if (error || !inserted) return false;
+    const trainingId = (inserted as any).id;
+    setTrainingSessions(prev => [inserted as any, ...prev]);
+    // Prefer the slot for this day type, otherwise any gym slot planned that day
+    const open = plannedSessions.filter(p => p.date === gym.date && p.status === 'planned' && p.sport.startsWith('Gym'));
+    const planned = open.find(p => p.sport === sport) || open[0];
+    if (planned) {
+      await safeQuery(() => supabase.from('planned_sessions').update({ status: 'completed', completed_session_id: trainingId }).eq('id', planned.id), 'markGymCompleted');
+      setPlannedSessions(prev => prev.map(p => p.id === planned.id ? { ...p, status: 'completed', completed_session_id: trainingId } : p));
+    }
+    return true;
+  };
+
+  const handleGymSessionDeleted = async (gymSessionId: string) => {
+    const linked = trainingSessions.find(t => t.gym_session_id === gymSessionId);
+    if (!linked?.id) return;
+    await safeQuery(() => supabase.from('planned_sessions').update({ status: 'planned', completed_session_id: null }).eq('completed_session_id', linked.id), 'reopenGymSession');
+    await safeQuery(() => supabase.from('training_sessions').delete().eq('id', linked.id), 'deleteGymTraining');
+    setTrainingSessions(prev => prev.filter(t => t.id !== linked.id));
+    setPlannedSessions(prev => prev.map(p => p.completed_session_id === linked.id ? { ...p, status: 'planned', completed_session_id: null } : p));
+  };
+
+  // The A race drives phases and milestones, so it is mirrored onto the onboarding race fields;
+  // only one A race exists at a time and B/C races get their own milestone.
+  // Every write is checked: local state only follows the writes that landed, and any failure returns false.
+  const handleSaveRace = async (race: Race) => {
+    if (!user) return false;
+    let nextRaces = races;
+    // B/C races carry a milestone on their date; the A race is the season goal and has none
+    let nextMilestones = milestones;
+    const commit = (ok: boolean) => {
+      setMilestones(nextMilestones);
+      setRaces([...nextRaces].sort((a, b) => a.date.localeCompare(b.date)));
+      return ok;
+    };
+    const syncRaceMilestone = async (r: Race) => {
+      const existing = nextMilestones.find(m => m.rule_json?.race_id === r.id);
+      if (r.priority === 'A') {
+        if (!existing) return;
+        const { error: deleteErr } = await safeQuery(() => supabase.from('milestones').delete().eq('id', existing.id), 'deleteRaceMilestone');
+        if (!deleteErr) nextMilestones = nextMilestones.filter(m => m.id !== existing.id);
+        return;
+      }
+      const fields = { title: `${r.name} (${r.priority} race)`, date: r.date };
+      if (existing) {
+        const { error: updateErr } = await safeQuery(() => supabase.from('milestones').update(fields).eq('id', existing.id), 'updateRaceMilestone');
+        if (!updateErr) nextMilestones = nextMilestones.map(m => m.id === existing.id ? { ...m, ...fields } : m);
+        return;
+      }
+      const milestone = { user_id: user.id, ...fields, rule_type: 'date_based', rule_json: { race_id: r.id }, status: 'upcoming', achieved_at: null, phase: 'Race', icon: '🏅' };
+      const { data: insertedMilestone } = await safeQuery(() => supabase.from('milestones').insert(milestone).select().single(), 'raceMilestone');
+      if (insertedMilestone) nextMilestones = [...nextMilestones, insertedMilestone as any];
+    };
+    // The old A race is demoted before the new one is saved, so the table never holds two
+    if (race.priority === 'A') {
+      for (const r of races.filter(r => r.priority === 'A' && r.id !== race.id)) {
+        const { error: demoteErr } = await safeQuery(() => supabase.from('races').update({ priority: 'B' }).eq('id', r.id), 'demoteRace');
+        if (demoteErr) return commit(false);
+        nextRaces = nextRaces.map(n => n.id === r.id ? { ...n, priority: 'B' } : n);
+        await syncRaceMilestone({ ...r, priority: 'B' });
+      }
+    }
+    const row = { ...race, user_id: user.id };
+    const { data: saved, error } = await safeQuery(
+      () => race.id ? supabase.from('races').update(row).eq('id', race.id).select().single() : supabase.from('races').insert(row).select().single(), 'saveRace'
+    );
+    if (error || !saved) return commit(false);
+    nextRaces = race.id ? nextRaces.map(r => r.id === race.id ? saved as any : r) : [...nextRaces, saved as any];
+    await syncRaceMilestone(saved as any);
+    if (race.priority === 'A') {
+      const updated = { ...onboardingData, raceDate: race.date, raceName: race.name, raceLocation: race.location, raceDistance: race.distance };
+      const { error: syncErr } = await safeQuery(() => supabase.from('onboarding_data').upsert(onboardingToDb(updated, user.id), { onConflict: 'user_id' }), 'syncARace');
+      if (syncErr) return commit(false);
+      setOnboardingData(updated);
+    }
+    return commit(true);
+  };
+
+  // Profile edits to the race fields carry over to the A race row so the two never drift apart
+  const handleSyncARace = async (updated: OnboardingData) => {
+    const aRace = races.find(r => r.priority === 'A');
+    if (!aRace) return true;
+    const fields = { date: updated.raceDate || aRace.date, name: updated.raceName || aRace.name, location: updated.raceLocation || '', distance: updated.raceDistance || aRace.distance };
+    if (fields.date === aRace.date && fields.name === aRace.name && fields.location === aRace.location && fields.distance === aRace.distance) return true;
+    const { error } = await safeQuery(() => supabase.from('races').update(fields).eq('id', aRace.id), 'syncARaceFromProfile');
+    if (error) return false;
+    setRaces(races.map(r => r.id === aRace.id ? { ...r, ...fields } : r).sort((a, b) => a.date.localeCompare(b.date)));
+    return true;
+  };
+
+  const handleDeleteRace = async (race: Race) => {
+    const { error } = await safeQuery(() => supabase.from('races').delete().eq('id', race.id), 'deleteRace');
+    if (error) return;
+    setRaces(races.filter(r => r.id !== race.id));
+    const milestone = milestones.find(m => m.rule_json?.race_id === race.id);
+    if (milestone) {
+      await safeQuery(() => supabase.from('milestones').delete().eq('id', milestone.id), 'deleteRaceMilestone');
+      setMilestones(milestones.filter(m => m.id !== milestone.id));
+    }
+  };
+
+  const handleLogout = async () => {
+    await supabase.auth.signOut();
+    setUser(null); setOnboardingData({ step: 1, completed: false });
+    setPlan(null); setPlannedSessions([]); setTrainingSessions([]); setBodyMetrics([]);
+  };
+
+  if (loading || dataLoading) {
+    const userName = user?.user_metadata?.full_name?.split(' ')[0] || '';
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-center">
+          <div className="mb-6 flex flex-col items-center">
+            <img src={HUEL_LOGO} alt="Huel" className="h-16 w-auto mb-2" />
+            <span className="text-xl font-black tracking-tight text-white">Fit</span>
+          </div>
+          <Loader className="animate-spin mx-auto mb-4" size={36} style={{ color: '#FFCB00' }} />
+          <p className="text-lg font-bold">{userName ? `Welcome back, ${userName}!` : 'Loading...'}</p>
+          {userName && <p className="text-sm opacity-50 mt-1">Loading your training data...</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) return <AuthFlow onAuth={handleAuth} />;
+  if (!onboardingData.completed) return <OnboardingFlow user={user} data={onboardingData} onComplete={handleOnboardingComplete} />;
+
+  const adjustments = AdaptationEngine.proposeAdjustments(plannedSessions, bodyMetrics, trainingSessions, onboardingData)
+    .filter(a => !decidedAdjustments.includes(a.key));
+
+  return (
+    <ToastProvider>
+      <div className="min-h-screen bg-gray-50">
+        <Header user={user} showMenu={showProfileMenu} setShowMenu={setShowProfileMenu} onLogout={handleLogout} onNavigate={setActiveScreen} userPrefs={userPrefs} setUserPrefs={setUserPrefs} />
+        <div className="pb-20">
+          {activeScreen === 'home' && (
+            <HomeScreen user={user} onboarding={onboardingData} plan={plan} projection={projection}
+              realism={realism} plannedSessions={plannedSessions} trainingSessions={trainingSessions} bodyMetrics={bodyMetrics} milestones={milestones}
+              adjustments={adjustments} onAdjustmentDecision={handleAdjustmentDecision} fitnessTests={fitnessTests} races={races} />
+          )}
+          {activeScreen === 'calendar' && <CalendarScreen plannedSessions={plannedSessions} milestones={milestones} onboarding={onboardingData} />}
+          {activeScreen === 'log' && <LogScreen onLogTraining={handleLogTraining} onLogBody={handleLogBody} onLogTest={handleLogTest} fitnessTests={fitnessTests} setActiveScreen={setActiveScreen} />}
+          {activeScreen === 'plan' && <PlanScreen plan={plan} plannedSessions={plannedSessions} setPlannedSessions={setPlannedSessions} onboarding={onboardingData} milestones={milestones} user={user} supabase={supabase} adjustments={adjustments} onAdjustmentDecision={handleAdjustmentDecision} races={races} fuelRehearsals={fuelRehearsals} gymProgramme={gymProgramme} />}
+          {activeScreen === 'coach' && <CoachScreen plan={plan} plannedSessions={plannedSessions} trainingSessions={trainingSessions} bodyMetrics={bodyMetrics} onApplyPlanChanges={applyPlanChanges} />}
+          {activeScreen === 'nutrition' && <NutritionScreen onboarding={onboardingData} trainingSessions={trainingSessions} plannedSessions={plannedSessions} bodyMetrics={bodyMetrics}
+            fitnessTests={fitnessTests} fuelRehearsals={fuelRehearsals} onLogRehearsal={handleLogRehearsal} />}
+          {activeScreen === 'gym' && <GymScreen supabase={supabase} user={user} programme={gymProgramme} onSaveProgramme={handleSaveProgramme} unavailableEquipment={onboardingData.unavailableEquipment || []} onUpdateUnavailableEquipment={handleUnavailableEquipment}
+            onCompleteSession={handleGymSessionComplete} onDeleteSession={handleGymSessionDeleted} />}
+          {activeScreen === 'leaderboard' && <LeaderboardScreen />}
+          {activeScreen === 'account' && <AccountScreen user={user} onboarding={onboardingData} setOnboarding={setOnboardingData} setActiveScreen={setActiveScreen} races={races} onSaveRace={handleSaveRace} onDeleteRace={handleDeleteRace} onSyncARace={handleSyncARace} />}
+        </div>
+        <BottomNav activeTab={activeScreen} setActiveTab={setActiveScreen} />
+      </div>
+    </ToastProvider>
+  );
+};
 
 // ============================================================================
 // AUTH FLOW
@@ -690,7 +1862,7 @@ const AuthFlow = ({ onAuth }: { onAuth: (user: AppUser) => void }) => {
             <img src={HUEL_LOGO} alt="Huel" className="h-12 w-auto mb-1" style={{ filter: 'invert(1)' }} />
             <span className="text-2xl font-black tracking-tight" style={{ color: '#FFCB00' }}>Fit</span>
           </div>
-          <p className="text-sm text-gray-400">Ironman 70.3 Training</p>
+          <p className="text-sm text-gray-400">Triathlon & Endurance Training</p>
         </div>
 
         {mode === 'choose' && (
@@ -843,11 +2015,31 @@ const OnboardingStep1 = ({ data, onUpdate }: any) => (
   </div>
 );
 
+// Time goals are 70.3-specific; other distances get generic equivalents on the same plan scaling
+const goalOptions = (distance?: string) => {
+  const is703 = !distance || distance === '70.3';
+  return [
+    { value: 'finish_strong', label: `First ${getRaceDistance(distance).label} – Finish Strong` },
+    { value: 'sub5', label: is703 ? 'Sub 5:00' : 'Set a PB' },
+    { value: 'sub4_30', label: is703 ? 'Sub 4:30' : 'Compete for a podium' },
+    { value: 'hybrid', label: 'Hybrid Strength + Endurance' },
+  ];
+};
+
 const OnboardingStep2 = ({ data, onUpdate }: any) => (
   <div className="space-y-6">
+    <h3 className="text-xl font-bold mb-2">What are you training for?</h3>
+    <div className="grid grid-cols-2 gap-3">
+      {Object.entries(RACE_DISTANCES).map(([value, d]) => (
+        <button key={value} onClick={() => onUpdate({ raceDistance: value })}
+          className={`p-3 rounded-lg border-2 text-left ${(data.raceDistance || '70.3') === value ? 'border-black bg-black text-white' : 'border-gray-200'}`}>
+          <div className="font-semibold text-sm">{d.label}</div>
+        </button>
+      ))}
+    </div>
     <h3 className="text-xl font-bold mb-2">What's your goal?</h3>
     <div className="space-y-3">
-      {[{ value: 'finish_strong', label: 'First 70.3 – Finish Strong' }, { value: 'sub5', label: 'Sub 5:00' }, { value: 'sub4_30', label: 'Sub 4:30' }, { value: 'hybrid', label: 'Hybrid Strength + Endurance' }].map((goal) => (
+      {goalOptions(data.raceDistance).map((goal) => (
         <button key={goal.value} onClick={() => onUpdate({ goalType: goal.value })}
           className={`w-full p-4 rounded-lg border-2 text-left ${data.goalType === goal.value ? 'border-black bg-black text-white' : 'border-gray-200'}`}>
           <div className="font-semibold">{goal.label}</div>
@@ -889,7 +2081,9 @@ const OnboardingStep4 = ({ data, onUpdate }: any) => (
 const OnboardingStep5 = ({ data, onUpdate }: any) => (
   <div className="space-y-6">
     <h3 className="text-xl font-bold mb-2">Baseline Fitness</h3>
-    <div><label className="flex items-center gap-2"><input type="checkbox" checked={data.canSwim1900m || false} onChange={(e: any) => onUpdate({ canSwim1900m: e.target.checked })} className="w-4 h-4" /><span className="text-sm font-medium">I can swim 1.9km continuously</span></label></div>
+    {getRaceDistance(data.raceDistance).legs.swimM > 0 && (
+      <div><label className="flex items-center gap-2"><input type="checkbox" checked={data.canSwim1900m || false} onChange={(e: any) => onUpdate({ canSwim1900m: e.target.checked })} className="w-4 h-4" /><span className="text-sm font-medium">I can swim {getRaceDistance(data.raceDistance).legs.swimM / 1000}km continuously</span></label></div>
+    )}
     <div className="grid grid-cols-2 gap-4">
       <div><label className="block text-sm font-medium mb-1">5K time (min)</label><input type="number" value={data.fiveKTime ? data.fiveKTime / 60 : ''} onChange={(e: any) => onUpdate({ fiveKTime: +e.target.value * 60 })} className="w-full p-3 border rounded-lg" /></div>
       <div><label className="block text-sm font-medium mb-1">FTP (watts)</label><input type="number" value={data.ftp || ''} onChange={(e: any) => onUpdate({ ftp: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
@@ -1058,7 +2252,90 @@ const WhatsAppConnectModal = ({ user, onClose }: { user: AppUser; onClose: () =>
             <button onClick={generateCode} className="text-sm text-gray-600 hover:underline mt-3">Generate new code</button>
           </div>
         )}
+        <TelegramReminderSettings user={user} />
+      </div>
+    </div>
+  );
+};
+
+// Morning briefing / evening nudge settings, read by the /api/telegram-reminders cron from user_preferences
+interface ReminderPrefs {
+  briefing_enabled: boolean;
+  briefing_time: string;
+  nudge_enabled: boolean;
+  nudge_time: string;
+  quiet_days: number[];
+}
+
+const DEFAULT_REMINDER_PREFS: ReminderPrefs = { briefing_enabled: true, briefing_time: '07:00', nudge_enabled: true, nudge_time: '20:00', quiet_days: [] };
+
+const TelegramReminderSettings = ({ user }: { user: AppUser }) => {
+  const { showToast } = useToast();
+  const [prefs, setPrefs] = useState<ReminderPrefs>(DEFAULT_REMINDER_PREFS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    safeQuery(() => supabase.from('user_preferences').select('briefing_enabled, briefing_time, nudge_enabled, nudge_time, quiet_days').eq('user_id', user.id).maybeSingle(), 'loadReminderPrefs')
+      .then(({ data }) => {
+        if (!data) return;
+        // Unset columns keep the defaults the cron also falls back to
+        const stored = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null));
+        setPrefs({ ...DEFAULT_REMINDER_PREFS, ...stored, briefing_time: (stored.briefing_time || DEFAULT_REMINDER_PREFS.briefing_time).slice(0, 5), nudge_time: (stored.nudge_time || DEFAULT_REMINDER_PREFS.nudge_time).slice(0, 5) });
+      });
+  }, [user.id]);
+
+  const save = async () => {
+    setSaving(true);
+    // The browser's time zone is saved with the times so they are sent at the athlete's local clock
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const { error } = await safeQuery(() => supabase.from('user_preferences').upsert({ user_id: user.id, ...prefs, timezone }, { onConflict: 'user_id' }), 'saveReminderPrefs');
+    if (!error) showToast('Reminder settings saved', 'success');
+    else showToast('Failed to save: ' + error, 'error');
+    setSaving(false);
+  };
+
+  const toggleDay = (day: number) => setPrefs({ ...prefs, quiet_days: prefs.quiet_days.includes(day) ? prefs.quiet_days.filter(d => d !== day) : [...prefs.quiet_days, day].sort() });
+  const rows: { key: 'briefing' | 'nudge'; label: string; detail: string }[] = [
+    { key: 'briefing', label: '☀️ Morning briefing', detail: "Today's sessions, fatigue trend and a fuelling tip" },
+    { key: 'nudge', label: '🌙 Evening check-in', detail: 'Reminds you to log sleep, fatigue, weight and sessions' },
+  ];
+
+  return (
+    <div className="border-t mt-4 pt-4 text-left">
+      <h3 className="font-semibold text-sm mb-1">Daily Telegram messages</h3>
+      <p className="text-xs text-gray-500 mb-3">Sent once your Telegram is connected.</p>
+      {rows.map(row => {
+        const enabled = prefs[`${row.key}_enabled`];
+        return (
+          <div key={row.key} className="flex items-center gap-3 mb-3">
+            <button onClick={() => setPrefs({ ...prefs, [`${row.key}_enabled`]: !enabled })}
+              className={`w-10 h-5 rounded-full relative transition-colors flex-shrink-0 ${enabled ? '' : 'bg-gray-300'}`}
+              style={enabled ? { backgroundColor: '#FFCB00' } : {}}>
+              <div className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-all ${enabled ? 'left-5' : 'left-0.5'}`} />
+            </button>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium">{row.label}</div>
+              <div className="text-xs text-gray-500">{row.detail}</div>
+            </div>
+            <input type="time" value={prefs[`${row.key}_time`]} disabled={!enabled}
+              onChange={(e) => setPrefs({ ...prefs, [`${row.key}_time`]: e.target.value })}
+              className="p-1.5 border rounded-lg text-sm disabled:opacity-40" />
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-600 font-semibold mb-1">Quiet days</p>
+      <div className="flex gap-1 mb-3">
+        {WEEKDAY_NAMES.map((name, day) => (
+          <button key={name} onClick={() => toggleDay(day)}
+            className={`flex-1 py-1 rounded text-xs font-semibold ${prefs.quiet_days.includes(day) ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-600'}`}>
+            {name}
+          </button>
+        ))}
       </div>
+      <button onClick={save} disabled={saving}
+        className="w-full py-2 rounded-xl text-black text-sm font-semibold disabled:opacity-50 flex items-center justify-center gap-2" style={{ backgroundColor: '#FFCB00' }}>
+        {saving ? <Loader className="animate-spin" size={16} /> : <Save size={16} />} Save reminders
+      </button>
     </div>
   );
 };
@@ -1067,23 +2344,27 @@ const WhatsAppConnectModal = ({ user, onClose }: { user: AppUser; onClose: () =>
 // PHASE TIMELINE COMPONENT
 // ============================================================================
 
-const PhaseTimeline = ({ onboarding, plan }: { onboarding: OnboardingData; plan: any }) => {
+const PhaseTimeline = ({ onboarding, plan, races = [] }: { onboarding: OnboardingData; plan: any; races?: Race[] }) => {
   if (!onboarding.raceDate) return null;
 
   const raceDate = new Date(onboarding.raceDate);
   const now = new Date();
   const totalDays = Math.max(1, (raceDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
   const totalWeeks = Math.floor(totalDays / 7);
+  const starts = getRaceDistance(onboarding.raceDistance).phaseStarts;
+  const buildWeeks = starts.Build - starts.Peak, peakWeeks = starts.Peak - starts.Taper;
 
   const phases = [
-    { name: 'Base', color: 'bg-gray-700', weeks: Math.max(1, totalWeeks - 12) },
-    { name: 'Build', color: 'bg-gray-600', weeks: Math.min(9, Math.max(1, totalWeeks > 12 ? 9 : totalWeeks - 3)) },
-    { name: 'Peak', color: 'bg-gray-800', weeks: Math.min(2, Math.max(1, totalWeeks > 3 ? 2 : 1)) },
-    { name: 'Taper', color: 'bg-gray-500', weeks: 1 },
+    { name: 'Base', color: 'bg-gray-700', weeks: Math.max(1, totalWeeks - starts.Build) },
+    { name: 'Build', color: 'bg-gray-600', weeks: Math.min(buildWeeks, Math.max(1, totalWeeks > starts.Build ? buildWeeks : totalWeeks - starts.Peak)) },
+    { name: 'Peak', color: 'bg-gray-800', weeks: Math.min(peakWeeks, Math.max(1, totalWeeks > starts.Peak ? peakWeeks : 1)) },
+    { name: 'Taper', color: 'bg-gray-500', weeks: starts.Taper },
     { name: 'Race', color: 'bg-black', weeks: 0 },
   ];
 
   const currentPhase = plan?.phase || 'Base';
+  const today = toLocalDate(now);
+  const tuneUps = races.filter(r => r.priority !== 'A' && r.date >= today && r.date < onboarding.raceDate!);
 
   return (
     <div className="bg-white rounded-xl shadow-sm p-4">
@@ -1111,6 +2392,15 @@ const PhaseTimeline = ({ onboarding, plan }: { onboarding: OnboardingData; plan:
           );
         })}
       </div>
+      {tuneUps.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1">
+          {tuneUps.map(r => (
+            <span key={r.id} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+              🏅 {r.name} ({r.priority}) • {Math.ceil((new Date(r.date).getTime() - now.getTime()) / (7 * 24 * 60 * 60 * 1000))} wks
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -1158,19 +2448,170 @@ const MilestonesCard = ({ milestones }: { milestones: Milestone[] }) => {
   );
 };
 
+// ============================================================================
+// TRAINING LOAD CARD COMPONENT
+// ============================================================================
+
+const TrainingLoadCard = ({ trainingSessions, onboarding }: { trainingSessions: TrainingSession[]; onboarding: OnboardingData }) => {
+  if (trainingSessions.length === 0) return null;
+  const series = TrainingLoadEngine.computeLoadSeries(trainingSessions, onboarding);
+  const status = TrainingLoadEngine.getLoadStatus(series);
+
+  const width = 300, height = 120, pad = 4;
+  const values = series.flatMap(d => [d.atl, d.ctl, d.tsb]);
+  const max = Math.max(10, ...values), min = Math.min(0, ...values);
+  const x = (i: number) => pad + (i / Math.max(1, series.length - 1)) * (width - pad * 2);
+  const y = (v: number) => pad + ((max - v) / (max - min)) * (height - pad * 2);
+  const line = (key: 'atl' | 'ctl' | 'tsb') => series.map((d, i) => `${x(i).toFixed(1)},${y(d[key]).toFixed(1)}`).join(' ');
+  const maxLoad = Math.max(1, ...series.map(d => d.load));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-sm text-gray-700 flex items-center gap-2"><TrendingUp size={16} style={{ color: '#FFCB00' }} /> Training Load</h3>
+        <span className="text-xs px-2 py-0.5 rounded-full font-semibold text-white" style={{ backgroundColor: status.color }}>{status.status}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center mb-3">
+        <div className="bg-blue-50 rounded p-2"><div className="text-lg font-bold text-blue-600">{Math.round(status.ctl)}</div><div className="text-xs text-gray-500">Fitness (CTL)</div></div>
+        <div className="bg-pink-50 rounded p-2"><div className="text-lg font-bold text-pink-600">{Math.round(status.atl)}</div><div className="text-xs text-gray-500">Fatigue (ATL)</div></div>
+        <div className="rounded p-2" style={{ backgroundColor: '#FFFBCC' }}><div className="text-lg font-bold" style={{ color: '#B8920A' }}>{status.tsb > 0 ? '+' : ''}{Math.round(status.tsb)}</div><div className="text-xs text-gray-500">Form (TSB)</div></div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" preserveAspectRatio="none" style={{ height: 120 }}>
+        {series.map((d, i) => d.load > 0 && (
+          <rect key={d.date} x={x(i) - 2} y={height - pad - (d.load / maxLoad) * 30} width={4} height={(d.load / maxLoad) * 30} fill="#E5E7EB" />
+        ))}
+        <line x1={pad} x2={width - pad} y1={y(0)} y2={y(0)} stroke="#D1D5DB" strokeDasharray="2 2" />
+        <polyline points={line('ctl')} fill="none" stroke="#2563EB" strokeWidth={2} />
+        <polyline points={line('atl')} fill="none" stroke="#DB2777" strokeWidth={1.5} />
+        <polyline points={line('tsb')} fill="none" stroke="#FFCB00" strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1"><span>{series[0]?.date}</span><span>Today</span></div>
+      {status.rampRate > 8 && <div className="mt-2 text-xs text-red-600 flex items-center gap-1"><AlertTriangle size={12} /> Fitness ramping {status.rampRate} CTL/week — consider an easier day</div>}
+    </div>
+  );
+};
+
+// ============================================================================
+// PLAN ADJUSTMENTS CARD COMPONENT
+// ============================================================================
+
+const PlanAdjustmentsCard = ({ adjustments, onDecision }: { adjustments: PlanAdjustment[]; onDecision: (a: PlanAdjustment, accepted: boolean) => Promise<boolean> }) => {
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const { showToast } = useToast();
+  if (adjustments.length === 0) return null;
+
+  const describe = (s: Partial<PlannedSession>) => `${s.date?.slice(5)} • ${s.sport} ${s.type} — ${s.duration}min, ${s.intensity}`;
+  const decide = async (a: PlanAdjustment, accepted: boolean) => {
+    setBusyKey(a.key);
+    const ok = await onDecision(a, accepted);
+    setBusyKey(null);
+    if (!ok) showToast(accepted ? 'Could not update your plan — try again' : 'Could not dismiss the suggestion — try again', 'error');
+    else showToast(accepted ? 'Plan updated' : 'Suggestion dismissed', accepted ? 'success' : 'info');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 border-l-4" style={{ borderColor: '#FFCB00' }}>
+      <h3 className="font-bold text-sm text-gray-700 flex items-center gap-2 mb-3"><RefreshCw size={16} style={{ color: '#FFCB00' }} /> Suggested Plan Changes</h3>
+      <div className="space-y-3">
+        {adjustments.map(a => (
+          <div key={a.key} className="bg-gray-50 rounded-lg p-3">
+            <div className="text-sm text-gray-800 mb-2">{a.reason}</div>
+            <div className="font-mono text-xs space-y-0.5 mb-3">
+              {a.before.map(s => <div key={`b-${s.id}`} className="text-red-600 line-through">− {describe(s)}</div>)}
+              {a.after.map((s, i) => <div key={`a-${i}`} className="text-green-700">+ {describe(s)}</div>)}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => decide(a, true)} disabled={busyKey === a.key}
+                className="flex-1 py-1.5 rounded-lg text-xs font-bold text-black hover:opacity-80 disabled:opacity-50" style={{ backgroundColor: '#FFCB00' }}>
+                {busyKey === a.key ? 'Applying...' : 'Accept'}
+              </button>
+              <button onClick={() => decide(a, false)} disabled={busyKey === a.key}
+                className="flex-1 py-1.5 rounded-lg text-xs font-bold bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50">
+                Reject
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// RACE PREDICTION CARD COMPONENT
+// ============================================================================
+
+const RacePredictionCard = ({ onboarding, trainingSessions, fitnessTests }: { onboarding: OnboardingData; trainingSessions: TrainingSession[]; fitnessTests: FitnessTest[] }) => {
+  const { legs, total } = PredictionEngine.predict(onboarding, trainingSessions, fitnessTests);
+  const trend = PredictionEngine.trend(onboarding, trainingSessions, fitnessTests);
+  const change = trend[trend.length - 1].likely - trend[0].likely;
+
+  const width = 300, height = 50;
+  const lo = Math.min(...trend.map(p => p.best)), hi = Math.max(...trend.map(p => p.worst));
+  const x = (i: number) => (i / Math.max(1, trend.length - 1)) * width;
+  const y = (v: number) => 4 + ((v - lo) / Math.max(1, hi - lo)) * (height - 8);
+  const band = [...trend.map((p, i) => `${x(i)},${y(p.best)}`), ...trend.map((p, i) => `${x(i)},${y(p.worst)}`).reverse()].join(' ');
+
+  const legRows = [
+    { key: 'swim' as const, label: '🏊 Swim' },
+    { key: 'transitions' as const, label: '🔁 T1 + T2' },
+    { key: 'bike' as const, label: '🚴 Bike' },
+    { key: 'run' as const, label: '🏃 Run' },
+  ].filter(({ key }) => legs[key].likely > 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-sm text-gray-700 flex items-center gap-2"><Flag size={16} style={{ color: '#FFCB00' }} /> {getRaceDistance(onboarding.raceDistance).label} Prediction</h3>
+        {Math.abs(change) >= 1 && (
+          <span className={`text-xs px-2 py-0.5 rounded-full font-semibold ${change < 0 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+            {change < 0 ? '▼' : '▲'} {Math.round(Math.abs(change))}min in 8 wks
+          </span>
+        )}
+      </div>
+      <div className="text-center mb-3">
+        <div className="text-3xl font-bold">{formatDuration(total.likely)}</div>
+        <div className="text-xs text-gray-500">Best {formatDuration(total.best)} • Worst {formatDuration(total.worst)}</div>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full mb-3" preserveAspectRatio="none" style={{ height: 50 }}>
+        <polygon points={band} fill="#FFF3B0" />
+        <polyline points={trend.map((p, i) => `${x(i)},${y(p.likely)}`).join(' ')} fill="none" stroke="#000" strokeWidth={2} />
+      </svg>
+      <div className="space-y-1 text-sm">
+        {legRows.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between">
+            <span className="text-gray-600">{label}</span>
+            <span>
+              <span className="font-semibold">{formatDuration(legs[key].likely)}</span>
+              <span className="text-xs text-gray-400 ml-2">{formatDuration(legs[key].best)}–{formatDuration(legs[key].worst)}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+      {(['swim', 'bike', 'run'] as const).some(k => legs[k].likely > 0 && legs[k].sources === 0) && (
+        <div className="text-xs text-gray-400 mt-2">Log more sessions or a fitness test to narrow the range.</div>
+      )}
+    </div>
+  );
+};
+
 // ============================================================================
 // HOME SCREEN
 // ============================================================================
 
-const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessions, trainingSessions, bodyMetrics, milestones }: any) => {
+const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessions, trainingSessions, bodyMetrics, milestones, adjustments, onAdjustmentDecision, fitnessTests, races }: any) => {
   const weeksToRace = Math.max(0, Math.floor((new Date(onboarding.raceDate).getTime() - Date.now()) / (7 * 24 * 60 * 60 * 1000)));
-  const today = new Date().toISOString().split('T')[0];
+  const today = toLocalDate();
   const todaySessions = plannedSessions.filter((s: PlannedSession) => s.date === today);
+  const zones = ZonesEngine.getZones(onboarding);
   const weekStart = new Date(); weekStart.setDate(weekStart.getDate() - weekStart.getDay());
   const thisWeekTraining = trainingSessions.filter((t: TrainingSession) => new Date(t.date) >= weekStart);
   const actualSwim = thisWeekTraining.filter((t: TrainingSession) => t.sport === 'Swim').reduce((s: number, t: TrainingSession) => s + t.distance, 0);
   const actualBike = thisWeekTraining.filter((t: TrainingSession) => t.sport === 'Bike').reduce((s: number, t: TrainingSession) => s + t.distance, 0);
   const actualRun = thisWeekTraining.filter((t: TrainingSession) => t.sport === 'Run').reduce((s: number, t: TrainingSession) => s + t.distance, 0);
+  const thisWeekGym = thisWeekTraining.filter((t: TrainingSession) => t.sport.startsWith('Gym'));
+  const gymMinutes = thisWeekGym.reduce((s: number, t: TrainingSession) => s + t.duration, 0);
+  const gymVolume = thisWeekGym.reduce((s: number, t: TrainingSession) => s + (t.volume_kg || 0), 0);
   const thisWeekPlanned = plannedSessions.filter((p: PlannedSession) => new Date(p.date) >= weekStart && p.status !== 'cancelled');
   const completed = thisWeekPlanned.filter((p: PlannedSession) => p.status === 'completed').length;
   const total = thisWeekPlanned.length;
@@ -1185,9 +2626,9 @@ const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessio
           <div className="relative z-10 p-6 text-white">
             <div className="flex items-center justify-between mb-3"><h2 className="font-bold text-xl">Race Goal Progress</h2><Target size={28} style={{ color: '#FFCB00' }} /></div>
             <div className="text-4xl font-bold mb-1">{weeksToRace} weeks</div>
-            <div className="text-sm opacity-90 mb-1">Ironman 70.3 • {formatRaceDate(onboarding.raceDate)}</div>
+            <div className="text-sm opacity-90 mb-1">{getRaceDistance(onboarding.raceDistance).label} • {formatRaceDate(onboarding.raceDate)}</div>
             <div className="text-xs opacity-70 mb-3">📍 {onboarding.raceLocation}</div>
-            {projection && <div className="bg-white bg-opacity-10 rounded px-3 py-2 text-sm mb-2">📊 Projected: {projection.time}</div>}
+            {projection && <div className="bg-white bg-opacity-10 rounded px-3 py-2 text-sm mb-2">📊 Projected: {projection.time} <span className="opacity-60">({projection.best}–{projection.worst})</span></div>}
             <div className="flex gap-2">
               <div className="bg-white bg-opacity-10 rounded px-3 py-1 text-xs">{plan?.phase || 'Base'} Phase</div>
               <div className="bg-white bg-opacity-10 rounded px-3 py-1 text-xs">📈 {compliance}% Compliance</div>
@@ -1198,16 +2639,19 @@ const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessio
         <div className="text-white rounded-lg shadow p-6 bg-black">
           <div className="flex items-center justify-between mb-3"><h2 className="font-bold text-xl">Race Goal Progress</h2><Target size={28} style={{ color: '#FFCB00' }} /></div>
           <div className="text-4xl font-bold mb-1">{weeksToRace} weeks</div>
-          <div className="text-sm opacity-90 mb-3">Ironman 70.3 • {formatRaceDate(onboarding.raceDate)}</div>
-          {projection && <div className="bg-white bg-opacity-10 rounded px-3 py-2 text-sm mb-2">📊 Projected: {projection.time}</div>}
+          <div className="text-sm opacity-90 mb-3">{getRaceDistance(onboarding.raceDistance).label} • {formatRaceDate(onboarding.raceDate)}</div>
+          {projection && <div className="bg-white bg-opacity-10 rounded px-3 py-2 text-sm mb-2">📊 Projected: {projection.time} <span className="opacity-60">({projection.best}–{projection.worst})</span></div>}
           <div className="flex gap-2">
             <div className="bg-white bg-opacity-10 rounded px-3 py-1 text-xs">{plan?.phase || 'Base'} Phase</div>
             <div className="bg-white bg-opacity-10 rounded px-3 py-1 text-xs">📈 {compliance}% Compliance</div>
           </div>
         </div>
       )}
-      <PhaseTimeline onboarding={onboarding} plan={plan} />
+      <PlanAdjustmentsCard adjustments={adjustments} onDecision={onAdjustmentDecision} />
+      <PhaseTimeline onboarding={onboarding} plan={plan} races={races} />
       <MilestonesCard milestones={milestones} />
+      <TrainingLoadCard trainingSessions={trainingSessions} onboarding={onboarding} />
+      <RacePredictionCard onboarding={onboarding} trainingSessions={trainingSessions} fitnessTests={fitnessTests} />
       <div className="bg-white rounded-lg shadow p-4">
         <h3 className="font-bold text-lg mb-3">This Week</h3>
         <div className="grid grid-cols-2 gap-3">
@@ -1215,6 +2659,12 @@ const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessio
           <div className="bg-green-50 p-3 rounded"><div className="text-xs text-gray-600">Bike</div><div className="text-xl font-bold text-green-600">{actualBike.toFixed(1)}km</div></div>
           <div className="bg-orange-50 p-3 rounded"><div className="text-xs text-gray-600">Run</div><div className="text-xl font-bold text-orange-600">{actualRun.toFixed(1)}km</div></div>
           <div className="p-3 rounded" style={{ backgroundColor: '#FFFBCC' }}><div className="text-xs text-gray-600">Compliance</div><div className="text-xl font-bold" style={{ color: '#B8920A' }}>{compliance}%</div><div className="text-xs text-gray-500">{completed}/{total}</div></div>
+          {thisWeekGym.length > 0 && (
+            <div className="col-span-2 bg-gray-50 p-3 rounded flex items-center justify-between">
+              <div><div className="text-xs text-gray-600">Gym</div><div className="text-xl font-bold text-gray-800">{thisWeekGym.length} × {Math.round(gymMinutes)}min</div></div>
+              <div className="text-right"><div className="text-xs text-gray-600">Volume</div><div className="text-xl font-bold text-gray-800">{(gymVolume / 1000).toFixed(1)}t</div></div>
+            </div>
+          )}
         </div>
       </div>
       {todaySessions.length > 0 && (
@@ -1223,7 +2673,7 @@ const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessio
           {todaySessions.map((s: PlannedSession) => (
             <div key={s.id} className="border-l-4 border-black pl-3 py-2 mb-2">
               <div className="flex justify-between items-start">
-                <div><div className="font-semibold">{s.sport} - {s.type}</div><div className="text-sm text-gray-600">{s.description}</div><div className="text-xs text-gray-500">{s.duration}min • {s.intensity}</div></div>
+                <div><div className="font-semibold">{s.sport} - {s.type}</div><div className="text-sm text-gray-600">{s.description}</div><div className="text-xs text-gray-500">{s.duration}min • {s.intensity}{ZonesEngine.zoneForSession(s, zones) ? ` • ${ZonesEngine.zoneForSession(s, zones)}` : ''}</div></div>
                 {s.status === 'completed' ? <Check className="text-green-600" size={20} /> : <div className="text-xs bg-gray-100 px-2 py-1 rounded">Planned</div>}
               </div>
             </div>
@@ -1249,8 +2699,9 @@ const HomeScreen = ({ user, onboarding, plan, projection, realism, plannedSessio
 // CALENDAR SCREEN
 // ============================================================================
 
-const CalendarScreen = ({ plannedSessions, milestones }: any) => {
-  const today = new Date().toISOString().split('T')[0];
+const CalendarScreen = ({ plannedSessions, milestones, onboarding }: any) => {
+  const zones = ZonesEngine.getZones(onboarding);
+  const today = toLocalDate();
   const [selectedDate, setSelectedDate] = useState(today);
   const [isDark, setIsDark] = useState(false);
   const t = isDark ? calThemes.dark : calThemes.light;
@@ -1265,7 +2716,7 @@ const CalendarScreen = ({ plannedSessions, milestones }: any) => {
     const weekStart = new Date(calendarStart);
     weekStart.setDate(calendarStart.getDate() + w * 7);
     const days: string[] = [];
-    for (let d = 0; d < 7; d++) { const day = new Date(weekStart); day.setDate(weekStart.getDate() + d); days.push(day.toISOString().split('T')[0]); }
+    for (let d = 0; d < 7; d++) { const day = new Date(weekStart); day.setDate(weekStart.getDate() + d); days.push(toLocalDate(day)); }
     weeks.push(days);
   }
 
@@ -1294,7 +2745,7 @@ const CalendarScreen = ({ plannedSessions, milestones }: any) => {
   const streakDays = (() => {
     let streak = 0; const d = new Date(); d.setDate(d.getDate() - 1);
     for (let i = 0; i < 60; i++) {
-      const dateStr = d.toISOString().split('T')[0];
+      const dateStr = toLocalDate(d);
       const daySessions = plannedSessions.filter((s: PlannedSession) => s.date === dateStr);
       d.setDate(d.getDate() - 1);
       if (daySessions.length === 0) continue;
@@ -1397,7 +2848,7 @@ const CalendarScreen = ({ plannedSessions, milestones }: any) => {
                   </div>
                   <div className="flex-1">
                     <div className={`font-semibold text-sm ${session.status === 'skipped' ? t.sessionSkippedText + ' line-through' : session.status === 'cancelled' ? t.sessionCancelledText + ' line-through' : t.sessionText}`}>{session.sport} – {session.type}</div>
-                    <div className={`text-xs ${t.sessionMeta}`}>{session.duration}min{session.distance > 0 ? ` • ${session.distance}${session.sport === 'Swim' ? 'm' : 'km'}` : ''} • {session.intensity}</div>
+                    <div className={`text-xs ${t.sessionMeta}`}>{session.duration}min{session.distance > 0 ? ` • ${session.distance}${session.sport === 'Swim' ? 'm' : 'km'}` : ''} • {session.intensity}{ZonesEngine.zoneForSession(session, zones) ? ` • ${ZonesEngine.zoneForSession(session, zones)}` : ''}</div>
                   </div>
                   <div>
                     {session.status === 'completed' && <div className={`${t.badgeCompleted} text-xs px-2 py-1 rounded-full font-semibold`}>Done</div>}
@@ -1419,18 +2870,80 @@ const CalendarScreen = ({ plannedSessions, milestones }: any) => {
 // LOG SCREEN
 // ============================================================================
 
-const LogScreen = ({ onLogTraining, onLogBody, setActiveScreen }: any) => {
+const parseMinSec = (raw: string) => {
+  const [m, sec] = raw.trim().split(':');
+  return sec === undefined ? NaN : +m * 60 + +sec;
+};
+
+const LogScreen = ({ onLogTraining, onLogBody, onLogTest, fitnessTests, setActiveScreen }: any) => {
   const { showToast } = useToast();
-  const [logType, setLogType] = useState<'training' | 'body'>('training');
+  const [logType, setLogType] = useState<'training' | 'body' | 'test'>('training');
+  const [testForm, setTestForm] = useState({ date: toLocalDate(), testType: 'FTP Test', protocol: '20min', power: '', time: '', time400: '', time200: '', notes: '' });
   const [saving, setSaving] = useState(false);
-  const [trainingForm, setTrainingForm] = useState({ date: new Date().toISOString().split('T')[0], sport: 'Run', type: 'Z2', duration: 0, distance: 0, rpe: 5, notes: '' });
-  const [bodyForm, setBodyForm] = useState({ date: new Date().toISOString().split('T')[0], weight: null as number | null, sleep: null as number | null, fatigue: null as number | null, notes: '' });
+  const [trainingForm, setTrainingForm] = useState({ date: toLocalDate(), sport: 'Run', type: 'Z2', duration: 0, distance: 0, rpe: 5, notes: '' });
+  const [bodyForm, setBodyForm] = useState({ date: toLocalDate(), weight: null as number | null, sleep: null as number | null, fatigue: null as number | null, notes: '' });
+  const [imported, setImported] = useState<ImportedActivity | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      const activity = await parseActivityFile(file);
+      setImported(activity);
+      setTrainingForm({ ...trainingForm, date: activity.date, sport: activity.sport, duration: activity.duration, distance: activity.distance });
+      showToast(`Imported ${activity.sport.toLowerCase()} from ${file.name}`, 'success');
+    } catch (err: any) {
+      showToast(err.message || 'Could not read that file', 'error');
+    }
+    setImporting(false);
+  };
+
+  const formatPace = (secs: number | null, sport: string) => {
+    if (!secs) return '—';
+    return `${Math.floor(secs / 60)}:${String(secs % 60).padStart(2, '0')}${sport === 'Swim' ? '/100m' : '/km'}`;
+  };
 
   const handleSaveTraining = async () => {
     if (!trainingForm.duration && !trainingForm.distance) { showToast('Enter duration or distance', 'error'); return; }
-    setSaving(true); await onLogTraining(trainingForm); showToast('Training logged!', 'success'); setSaving(false);
+    const session = imported
+      ? { ...trainingForm, avg_hr: imported.avgHr, avg_power: imported.avgPower, avg_pace: imported.avgPace, laps: imported.laps, source: imported.source }
+      : trainingForm;
+    setSaving(true); await onLogTraining(session); showToast('Training logged!', 'success'); setSaving(false); setImported(null);
+  };
+
+  const handleSaveTest = async () => {
+    const f = testForm;
+    let result: Record<string, number> = {};
+    if (f.testType === 'FTP Test') {
+      const power = +f.power;
+      if (!power) { showToast('Enter your average power', 'error'); return; }
+      // 20min test: 95% of 20min average power; ramp test: 75% of best 1min power
+      result = { power, ftp: Math.round(power * (f.protocol === 'ramp' ? 0.75 : 0.95)) };
+    } else if (f.testType === '5K Test') {
+      const secs = parseMinSec(f.time);
+      if (!secs) { showToast('Enter your 5K time as mm:ss', 'error'); return; }
+      result = { fiveKTime: secs };
+    } else {
+      const t400 = parseMinSec(f.time400), t200 = parseMinSec(f.time200);
+      if (!t400 || !t200 || t200 >= t400) { showToast('Enter both swim times as mm:ss', 'error'); return; }
+      result = { css400Time: t400, css200Time: t200, css: Math.round(ZonesEngine.cssFromTest(t400, t200)) };
+    }
+    setSaving(true);
+    const { saved, zonesUpdated, superseded } = await onLogTest({ date: f.date, test_type: f.testType, protocol: f.testType === 'FTP Test' ? f.protocol : f.testType === '5K Test' ? 'time_trial' : '400_200', result, notes: f.notes });
+    setSaving(false);
+    if (!saved) { showToast('Could not save the test result — please try again', 'error'); return; }
+    if (superseded) showToast('Test result saved — your zones stay on your more recent test', 'info');
+    else if (zonesUpdated) showToast('Test result saved — zones and projection updated', 'success');
+    else showToast('Test result saved, but your zones could not be updated — re-enter it in Profile', 'error');
+    setTestForm({ ...testForm, power: '', time: '', time400: '', time200: '', notes: '' });
   };
 
+  const testValue = (t: FitnessTest) => t.test_type === 'FTP Test' ? `${t.result.ftp}W FTP`
+    : t.test_type === '5K Test' ? formatPaceSecs(t.result.fiveKTime) : `${formatPaceSecs(t.result.css)}/100m CSS`;
+
   const handleSaveBody = async () => { setSaving(true); await onLogBody(bodyForm); showToast('Body metrics logged!', 'success'); setSaving(false); };
 
   return (
@@ -1441,10 +2954,44 @@ const LogScreen = ({ onLogTraining, onLogBody, setActiveScreen }: any) => {
         <button onClick={() => setLogType('body')}
           className={`flex-1 py-2 rounded font-semibold ${logType === 'body' ? 'text-black' : 'bg-gray-200'}`}
           style={logType === 'body' ? { backgroundColor: '#FFCB00' } : {}}>Body Metrics</button>
+        <button onClick={() => setLogType('test')}
+          className={`flex-1 py-2 rounded font-semibold ${logType === 'test' ? 'bg-black text-white' : 'bg-gray-200'}`}>Fitness Test</button>
       </div>
       {logType === 'training' && (
         <div className="bg-white rounded-lg shadow p-4 space-y-3">
-          <h2 className="font-bold text-lg">Log Training</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="font-bold text-lg">Log Training</h2>
+            <label className={`px-3 py-1.5 rounded-lg text-xs font-bold text-black cursor-pointer hover:opacity-80 flex items-center gap-1 ${importing ? 'opacity-50' : ''}`} style={{ backgroundColor: '#FFCB00' }}>
+              {importing ? <Loader className="animate-spin" size={14} /> : <Plus size={14} />} Import .fit / .gpx / .tcx
+              <input type="file" accept=".fit,.gpx,.tcx" onChange={handleImportFile} disabled={importing} className="hidden" />
+            </label>
+          </div>
+          {imported && (
+            <div className="bg-gray-50 rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold">Imported from {imported.source.toUpperCase()}</span>
+                <button onClick={() => setImported(null)} className="text-gray-400 hover:text-gray-600"><X size={16} /></button>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center mb-2">
+                <div className="bg-white rounded p-2"><div className="font-bold">{imported.avgHr ?? '—'}</div><div className="text-xs text-gray-500">Avg HR</div></div>
+                <div className="bg-white rounded p-2"><div className="font-bold">{imported.avgPower ? `${imported.avgPower}W` : '—'}</div><div className="text-xs text-gray-500">Avg Power</div></div>
+                <div className="bg-white rounded p-2"><div className="font-bold">{formatPace(imported.avgPace, imported.sport)}</div><div className="text-xs text-gray-500">Avg Pace</div></div>
+              </div>
+              {imported.laps.length > 1 && (
+                <div className="max-h-40 overflow-y-auto text-xs">
+                  {imported.laps.map(l => (
+                    <div key={l.index} className="flex justify-between py-1 border-b border-gray-200 last:border-0">
+                      <span className="font-semibold">Lap {l.index + 1}</span>
+                      <span>{imported.sport === 'Swim' ? `${l.distance}m` : `${(l.distance / 1000).toFixed(2)}km`}</span>
+                      <span>{Math.floor(l.duration / 60)}:{String(l.duration % 60).padStart(2, '0')}</span>
+                      <span>{l.avgHr ? `${l.avgHr}bpm` : ''}{l.avgPower ? ` ${l.avgPower}W` : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="text-xs text-gray-500 mt-2">Check the details below, add your RPE, then log it.</div>
+            </div>
+          )}
           <div><label className="block text-sm font-medium mb-1">Date</label><input type="date" value={trainingForm.date} onChange={(e) => setTrainingForm({ ...trainingForm, date: e.target.value })} className="w-full p-3 border rounded-lg" /></div>
           <div><label className="block text-sm font-medium mb-1">Sport</label><select value={trainingForm.sport} onChange={(e) => setTrainingForm({ ...trainingForm, sport: e.target.value })} className="w-full p-3 border rounded-lg"><option>Swim</option><option>Bike</option><option>Run</option></select></div>
           <div><label className="block text-sm font-medium mb-1">Type</label><select value={trainingForm.type} onChange={(e) => setTrainingForm({ ...trainingForm, type: e.target.value })} className="w-full p-3 border rounded-lg"><option>Z2</option><option>Tempo</option><option>Threshold</option><option>VO2</option><option>Long</option><option>Recovery</option></select></div>
@@ -1460,6 +3007,50 @@ const LogScreen = ({ onLogTraining, onLogBody, setActiveScreen }: any) => {
           </button>
         </div>
       )}
+      {logType === 'test' && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <h2 className="font-bold text-lg">Log Fitness Test</h2>
+          <div><label className="block text-sm font-medium mb-1">Date</label><input type="date" value={testForm.date} onChange={(e) => setTestForm({ ...testForm, date: e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+          <div><label className="block text-sm font-medium mb-1">Test</label><select value={testForm.testType} onChange={(e) => setTestForm({ ...testForm, testType: e.target.value })} className="w-full p-3 border rounded-lg"><option>FTP Test</option><option>5K Test</option><option>CSS Test</option></select></div>
+          {testForm.testType === 'FTP Test' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div><label className="block text-sm font-medium mb-1">Protocol</label><select value={testForm.protocol} onChange={(e) => setTestForm({ ...testForm, protocol: e.target.value })} className="w-full p-3 border rounded-lg"><option value="20min">20-min test</option><option value="ramp">Ramp test</option></select></div>
+              <div><label className="block text-sm font-medium mb-1">{testForm.protocol === 'ramp' ? 'Best 1min (W)' : '20min avg (W)'}</label><input type="number" value={testForm.power} onChange={(e) => setTestForm({ ...testForm, power: e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+            </div>
+          )}
+          {testForm.testType === '5K Test' && (
+            <div><label className="block text-sm font-medium mb-1">5K time (mm:ss)</label><input type="text" placeholder="24:30" value={testForm.time} onChange={(e) => setTestForm({ ...testForm, time: e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+          )}
+          {testForm.testType === 'CSS Test' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div><label className="block text-sm font-medium mb-1">400m (mm:ss)</label><input type="text" placeholder="7:20" value={testForm.time400} onChange={(e) => setTestForm({ ...testForm, time400: e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+              <div><label className="block text-sm font-medium mb-1">200m (mm:ss)</label><input type="text" placeholder="3:30" value={testForm.time200} onChange={(e) => setTestForm({ ...testForm, time200: e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+            </div>
+          )}
+          <div><label className="block text-sm font-medium mb-1">Notes</label><textarea value={testForm.notes} onChange={(e) => setTestForm({ ...testForm, notes: e.target.value })} className="w-full p-3 border rounded-lg" rows={2} /></div>
+          <button onClick={handleSaveTest} disabled={saving}
+            className="w-full bg-black text-white py-3 rounded-lg font-semibold disabled:opacity-50 flex items-center justify-center gap-2">
+            {saving ? <Loader className="animate-spin" size={18} /> : <Check size={18} />} Save Result
+          </button>
+          {fitnessTests.length > 0 && (
+            <div className="pt-2">
+              <h3 className="font-bold text-sm text-gray-700 mb-2">Test History</h3>
+              {fitnessTests.map((t: FitnessTest, i: number) => {
+                const previous = fitnessTests.slice(i + 1).find((p: FitnessTest) => p.test_type === t.test_type);
+                return (
+                  <div key={t.id || i} className="flex justify-between items-center py-2 border-b last:border-0 text-sm">
+                    <div><div className="font-semibold">{t.test_type}</div><div className="text-xs text-gray-500">{t.date}</div></div>
+                    <div className="text-right">
+                      <div className="font-bold">{testValue(t)}</div>
+                      {previous && <div className="text-xs text-gray-500">was {testValue(previous)}</div>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
       {logType === 'body' && (
         <div className="bg-white rounded-lg shadow p-4 space-y-3">
           <h2 className="font-bold text-lg">Log Body Metrics</h2>
@@ -1481,18 +3072,74 @@ const LogScreen = ({ onLogTraining, onLogBody, setActiveScreen }: any) => {
   );
 };
 
+// ============================================================================
+// WORKOUT STEP CHART COMPONENT
+// ============================================================================
+
+const stepColor = (step: WorkoutStep) => {
+  if (step.target.type === 'open') return '#E5E7EB';
+  const high = step.target.high;
+  if (high < 0.76) return '#93C5FD';
+  if (high < 0.9) return '#86EFAC';
+  if (high < 1) return '#FFCB00';
+  return '#F87171';
+};
+
+const WorkoutStepChart = ({ workout, thresholds, date }: { workout: StructuredWorkout; thresholds: WorkoutThresholds; date: string }) => {
+  const steps = flattenWorkout(workout);
+  const seconds = steps.map(s => estimateStepSeconds(s, thresholds));
+  const total = seconds.reduce((a, b) => a + b, 0) || 1;
+  const maxIntensity = Math.max(1.1, ...steps.map(s => s.target.high));
+  const filename = `${date}-${workout.name.replace(/\s+/g, '-').toLowerCase()}`;
+
+  const exportZwo = () => downloadFile(toZwo(workout, thresholds), `${filename}.zwo`, 'application/xml');
+  const exportErg = () => { const { content, extension } = toErgOrMrc(workout, thresholds); downloadFile(content, `${filename}.${extension}`, 'text/plain'); };
+  const exportFit = () => downloadFile(toFitWorkout(workout, thresholds), `${filename}.fit`, 'application/octet-stream');
+
+  let elapsed = 0;
+  return (
+    <div className="mt-2 bg-white rounded p-2">
+      <svg viewBox="0 0 300 60" className="w-full" preserveAspectRatio="none" style={{ height: 60 }}>
+        {steps.map((s, i) => {
+          const x = (elapsed / total) * 300, w = (seconds[i] / total) * 300;
+          elapsed += seconds[i];
+          const h = s.target.type === 'open' ? 6 : Math.max(6, (s.target.high / maxIntensity) * 58);
+          return <rect key={i} x={x} y={60 - h} width={Math.max(0.5, w - 0.5)} height={h} fill={stepColor(s)} />;
+        })}
+      </svg>
+      <div className="text-xs text-gray-600 mt-2 space-y-0.5">
+        {workout.steps.map((s, i) => s.kind === 'repeat' ? (
+          <div key={i}><span className="font-semibold">{s.count}×</span> {s.steps.map(r => `${r.distanceM ? `${r.distanceM}m` : `${Math.round((r.durationSec || 0) / 60 * 10) / 10}min`} ${r.label || r.kind} @ ${formatTarget(r, thresholds)}`).join(' / ')}</div>
+        ) : (
+          <div key={i}><span className="font-semibold capitalize">{s.label || s.kind}</span> {s.distanceM ? `${s.distanceM}m` : `${Math.round((s.durationSec || 0) / 60)}min`} @ {formatTarget(s, thresholds)}</div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {workout.sport !== 'Swim' && <button onClick={exportZwo} className="px-2 py-1 text-xs rounded bg-gray-100 hover:bg-gray-200 font-semibold">.zwo</button>}
+        {workout.sport === 'Bike' && <button onClick={exportErg} className="px-2 py-1 text-xs rounded bg-gray-100 hover:bg-gray-200 font-semibold">{thresholds.ftp ? '.erg' : '.mrc'}</button>}
+        <button onClick={exportFit} className="px-2 py-1 text-xs rounded bg-gray-100 hover:bg-gray-200 font-semibold">.fit</button>
+      </div>
+    </div>
+  );
+};
+
 // ============================================================================
 // PLAN SCREEN
 // ============================================================================
 
-const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, milestones, user, supabase }: any) => {
+const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, milestones, user, supabase, adjustments, onAdjustmentDecision, races, fuelRehearsals = [], gymProgramme }: any) => {
   const [weekOffset, setWeekOffset] = useState(0);
   const [refreshing, setRefreshing] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const thresholds = WorkoutEngine.getThresholds(onboarding);
+  const zones = ZonesEngine.getZones(onboarding);
+  const raceFuel = FuellingEngine.raceHourlyTargets(onboarding, onboarding.weight || 75, getRaceDistance(onboarding.raceDistance).raceMins, fuelRehearsals);
+  const isRehearsal = (s: PlannedSession) => (s.sport === 'Bike' || s.sport === 'Run') && s.type === 'Long' && s.duration >= 90 && s.status === 'planned';
 
   const refreshPlan = async () => {
     setRefreshing(true);
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = toLocalDate();
       const { data: existing, error: fetchErr } = await supabase.from('planned_sessions').select('*').eq('user_id', user.id);
       if (fetchErr) { console.error('Fetch error:', fetchErr); setRefreshing(false); return; }
       const toDeleteIds = (existing || []).filter((s: any) => s.date >= today && s.status === 'planned').map((s: any) => s.id);
@@ -1503,14 +3150,13 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
           if (delErr) console.error('Delete batch error:', delErr);
         }
       }
-      const newSessions = PlanningEngine.generate30DaySessions(user.id);
+      const newSessions = PlanningEngine.generateSeasonSessions(user.id, onboarding, plan || PlanningEngine.generateInitialPlan(user.id, onboarding), races, gymProgramme);
       const { data: keptData } = await supabase.from('planned_sessions').select('date, sport').eq('user_id', user.id).gte('date', today);
       const keptKeys = new Set((keptData || []).map((s: any) => `${s.date}-${s.sport}`));
       const toInsert = newSessions.filter((s: any) => !keptKeys.has(`${s.date}-${s.sport}`));
-      let inserted = 0;
-      for (const session of toInsert) {
-        const { error: insErr } = await supabase.from('planned_sessions').insert(session);
-        if (!insErr) inserted++;
+      for (let i = 0; i < toInsert.length; i += 50) {
+        const { error: insErr } = await supabase.from('planned_sessions').insert(toInsert.slice(i, i + 50));
+        if (insErr) console.error('Insert batch error:', insErr);
       }
       const { data: all } = await supabase.from('planned_sessions').select('*').eq('user_id', user.id).order('date', { ascending: true });
       if (all) setPlannedSessions(all);
@@ -1522,13 +3168,14 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
     const now = new Date(); const startOfWeek = new Date(now);
     startOfWeek.setDate(now.getDate() - now.getDay() + (offset * 7));
     const dates: string[] = [];
-    for (let i = 0; i < 7; i++) { const d = new Date(startOfWeek); d.setDate(startOfWeek.getDate() + i); dates.push(d.toISOString().split('T')[0]); }
+    for (let i = 0; i < 7; i++) { const d = new Date(startOfWeek); d.setDate(startOfWeek.getDate() + i); dates.push(toLocalDate(d)); }
     return dates;
   };
 
   const weekDates = getWeekDates(weekOffset);
   const weekStart = new Date(weekDates[0]);
   const weekEnd = new Date(weekDates[6]);
+  const weekLoad = PlanningEngine.getWeekLoad(onboarding.raceDate, new Date(weekDates[0] + 'T00:00:00'), plan?.start_date ? new Date(plan.start_date + 'T00:00:00') : new Date(), onboarding.raceDistance);
   const weekSessions = plannedSessions.filter((s: PlannedSession) => weekDates.includes(s.date));
   const activeSessions = weekSessions.filter((s: PlannedSession) => s.status !== 'cancelled');
   const completed = activeSessions.filter((s: PlannedSession) => s.status === 'completed').length;
@@ -1538,8 +3185,8 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
   const total = activeSessions.length;
   const totalHours = (activeSessions.reduce((sum: number, s: PlannedSession) => sum + s.duration, 0) / 60).toFixed(1);
 
-  const sportColor: Record<string, string> = { Swim: 'border-blue-500 bg-blue-50', Bike: 'border-green-500 bg-green-50', Run: 'border-orange-500 bg-orange-50', Strength: 'border-gray-700 bg-gray-50', 'Gym - Push': 'border-red-500 bg-red-50', 'Gym - Pull': 'border-blue-500 bg-blue-50', 'Gym - Legs': 'border-green-500 bg-green-50' };
-  const sportEmoji: Record<string, string> = { Swim: '🏊', Bike: '🚴', Run: '🏃', Strength: '💪', 'Gym - Push': '🏋️', 'Gym - Pull': '🏋️', 'Gym - Legs': '🦵' };
+  const sportColor: Record<string, string> = { Swim: 'border-blue-500 bg-blue-50', Bike: 'border-green-500 bg-green-50', Run: 'border-orange-500 bg-orange-50', Strength: 'border-gray-700 bg-gray-50', 'Gym - Push': 'border-red-500 bg-red-50', 'Gym - Pull': 'border-blue-500 bg-blue-50', 'Gym - Legs': 'border-green-500 bg-green-50', Race: 'border-yellow-400 bg-yellow-50' };
+  const sportEmoji: Record<string, string> = { Swim: '🏊', Bike: '🚴', Run: '🏃', Strength: '💪', 'Gym - Push': '🏋️', 'Gym - Pull': '🏋️', 'Gym - Legs': '🦵', Race: '🏅' };
   const intensityColor: Record<string, string> = { Easy: 'bg-green-100 text-green-700', Moderate: 'bg-yellow-100 text-yellow-700', Hard: 'bg-red-100 text-red-700' };
 
   const handleSkipSession = async (session: PlannedSession) => {
@@ -1549,7 +3196,7 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
   };
 
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-  const today = new Date().toISOString().split('T')[0];
+  const today = toLocalDate();
 
   return (
     <div className="p-4 space-y-4">
@@ -1571,7 +3218,8 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
           <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{plan?.weekly_strength_sessions || 2}</div><div className="text-xs opacity-70">Gym/wk</div></div>
         </div>
       </div>
-      <PhaseTimeline onboarding={onboarding} plan={plan} />
+      <PhaseTimeline onboarding={onboarding} plan={plan} races={races} />
+      <PlanAdjustmentsCard adjustments={adjustments} onDecision={onAdjustmentDecision} />
 
       <div className="bg-white rounded-lg shadow p-4">
         <div className="flex items-center justify-between mb-3">
@@ -1579,6 +3227,11 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
           <div className="text-center">
             <h3 className="font-bold">{weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – {weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</h3>
             <div className="text-xs text-gray-500">{weekOffset === 0 ? 'This Week' : weekOffset === 1 ? 'Next Week' : weekOffset === -1 ? 'Last Week' : ''}</div>
+            <div className="text-xs font-semibold mt-0.5">
+              {weekLoad.phase} • Week {weekLoad.weekInBlock + 1}
+              {weekLoad.isRecovery && <span className="ml-1 px-1.5 py-0.5 rounded bg-green-100 text-green-700">Recovery week</span>}
+              {weekLoad.weeksOut === 0 && <span className="ml-1 px-1.5 py-0.5 rounded text-black" style={{ backgroundColor: '#FFCB00' }}>Race week</span>}
+            </div>
           </div>
           <button onClick={() => setWeekOffset(weekOffset + 1)} className="p-2 hover:bg-gray-100 rounded"><ChevronRight size={20} /></button>
         </div>
@@ -1606,16 +3259,29 @@ const PlanScreen = ({ plan, plannedSessions, setPlannedSessions, onboarding, mil
                 {daySessions.length === 0 && <span className="text-xs text-gray-400 ml-auto">Rest day</span>}
               </div>
               {daySessions.map((session: PlannedSession) => (
-                <div key={session.id} className={`border-l-4 ${sportColor[session.sport] || 'border-gray-300 bg-gray-50'} p-3 mb-1 rounded-r ${session.status === 'skipped' ? 'opacity-50' : session.status === 'cancelled' ? 'opacity-40 bg-amber-50 border-amber-400' : ''}`}>
+                <div key={session.id} className={`border-l-4 ${sportColor[session.sport] || (session.sport.startsWith('Gym') ? 'border-gray-700 bg-gray-50' : 'border-gray-300 bg-gray-50')} p-3 mb-1 rounded-r ${session.status === 'skipped' ? 'opacity-50' : session.status === 'cancelled' ? 'opacity-40 bg-amber-50 border-amber-400' : ''}`}>
                   <div className="flex justify-between items-start">
                     <div className="flex-1">
                       <div className="flex items-center gap-2 flex-wrap">
                         <span>{sportEmoji[session.sport] || '🏋️'}</span>
                         <span className={`font-semibold ${session.status === 'skipped' ? 'line-through' : session.status === 'cancelled' ? 'line-through text-amber-600' : ''}`}>{session.sport} – {session.type}</span>
                         <span className={`text-xs px-2 py-0.5 rounded-full ${intensityColor[session.intensity] || 'bg-gray-100'}`}>{session.intensity}</span>
+                        {ZonesEngine.zoneForSession(session, zones) && <span className="text-xs px-2 py-0.5 rounded-full bg-gray-900 text-white">{ZonesEngine.zoneForSession(session, zones)}</span>}
                       </div>
                       <div className="text-sm text-gray-600 mt-1">{session.description}</div>
-                      <div className="text-xs text-gray-500 mt-1">{session.duration}min • {session.distance}{session.sport === 'Swim' ? 'm' : 'km'}</div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {session.duration}min • {session.distance}{session.sport === 'Swim' ? 'm' : 'km'}
+                        {session.workout && (
+                          <button onClick={() => setExpandedId(expandedId === session.id ? null : session.id)} className="ml-2 font-semibold text-gray-700 underline">
+                            {expandedId === session.id ? 'Hide steps' : 'Steps'}
+                          </button>
+                        )}
+                      </div>
+                      {session.workout && expandedId === session.id && <WorkoutStepChart workout={session.workout} thresholds={thresholds} date={session.date} />}
+                      {isRehearsal(session) && (() => {
+                        const r = FuellingEngine.rehearsalFor(session, raceFuel);
+                        return <div className="text-xs mt-1 px-2 py-1 rounded" style={{ backgroundColor: '#FFFBCC', color: '#7A6000' }}>🧪 Race fuel rehearsal: {r.carbs}g carbs/h ({r.gels} gels or equivalent), {r.fluid}ml fluid/h, {r.sodium}mg sodium/h — log gut comfort under Nutrition → Race Fuel</div>;
+                      })()}
                     </div>
                     <div className="ml-2">
                       {session.status === 'completed' ? (
@@ -1647,16 +3313,58 @@ interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: string;
+  planChanges?: ProposedPlanChange[];
+  notes?: string[]; // memories the coach saved or forgot while replying
+}
+
+// A plan edit the coach proposed through a tool call — nothing changes until the athlete confirms it.
+// Proposals that failed server-side validation carry an error instead of a change.
+interface ProposedPlanChange {
+  change?: any;
+  summary?: string;
+  error?: string;
+  status: 'pending' | 'applied' | 'dismissed';
+}
+
+// Durable athlete facts (kind 'fact') and rolling chat summaries (kind 'summary') the coach keeps
+interface CoachMemory {
+  id: string;
+  kind: 'fact' | 'summary';
+  category: string;
+  content: string;
+  source: 'coach' | 'athlete';
+  covers_until?: string | null;
+  updated_at?: string;
+}
+
+// Written by the Sunday-evening /api/weekly-review job; stats is a snapshot for week-over-week comparison
+interface WeeklyReview {
+  id: string;
+  week_start: string;
+  week_end: string;
+  content: string;
+  stats: { compliancePercent: number; completed: number; total: number; totalMinutes: number; ctl?: number; tsb?: number };
+  delivered_via: string[];
+  created_at: string;
 }
 
-const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, trainingSessions, bodyMetrics }: any) => {
-  const [activeTab, setActiveTab] = useState<'chat' | 'summary'>('summary');
+const COACH_MEMORY_CATEGORIES: Record<string, string> = {
+  injury: '🩹 Injuries', health: '❤️ Health', schedule: '📅 Schedule', preference: '👍 Preferences', goal: '🎯 Goals', life: '🏠 Life', other: '📝 Other',
+};
+
+const CoachScreen = ({ plan, plannedSessions, trainingSessions, bodyMetrics, onApplyPlanChanges }: any) => {
+  const [activeTab, setActiveTab] = useState<'chat' | 'summary' | 'memory'>('summary');
+  const [memories, setMemories] = useState<CoachMemory[]>([]);
+  const [editingMemory, setEditingMemory] = useState<{ id: string; content: string } | null>(null);
+  const [newFact, setNewFact] = useState({ content: '', category: 'other' });
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [summary, setSummary] = useState<string | null>(null);
   const [summaryLoading, setSummaryLoading] = useState(false);
   const [chatLoaded, setChatLoaded] = useState(false);
+  const [reviews, setReviews] = useState<WeeklyReview[]>([]);
+  const [openReviewId, setOpenReviewId] = useState<string | null>(null);
   const chatEndRef = React.useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => { chatEndRef.current?.scrollIntoView({ behavior: 'smooth' }); };
@@ -1667,14 +3375,21 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
       try {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) return;
-        const { data } = await supabase.from('coach_messages').select('role, content, timestamp').eq('user_id', user.id).order('timestamp', { ascending: true }).limit(50);
+        const { data } = await supabase.from('coach_messages').select('role, content, timestamp').eq('user_id', user.id).order('timestamp', { ascending: false }).limit(50);
         if (data && data.length > 0) {
-          setMessages(data.map((m: any) => ({ role: m.role, content: m.content, timestamp: m.timestamp })));
+          setMessages(data.reverse().map((m: any) => ({ role: m.role, content: m.content, timestamp: m.timestamp })));
         }
       } catch (err) { console.error('Failed to load chat history:', err); }
       setChatLoaded(true);
     };
     loadChat();
+    const loadReviews = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      const { data } = await supabase.from('weekly_reviews').select('*').eq('user_id', user.id).order('week_start', { ascending: false }).limit(12);
+      if (data) setReviews(data);
+    };
+    loadReviews();
   }, []);
 
   const saveMessage = async (msg: ChatMessage) => {
@@ -1685,95 +3400,96 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
     } catch (err) { console.error('Failed to save message:', err); }
   };
 
-  const buildAthleteContext = () => {
-    const today = new Date();
-    const weekStart = new Date(today);
-    weekStart.setDate(today.getDate() - today.getDay());
-    const thisWeekPlanned = plannedSessions.filter((p: PlannedSession) => new Date(p.date) >= weekStart && p.status !== 'cancelled');
-    const completed = thisWeekPlanned.filter((p: PlannedSession) => p.status === 'completed').length;
-    const skipped = thisWeekPlanned.filter((p: PlannedSession) => p.status === 'skipped').length;
-    const total = thisWeekPlanned.length;
-    const thisWeekTraining = trainingSessions.filter((t: TrainingSession) => new Date(t.date) >= weekStart);
-    const swimDistance = thisWeekTraining.filter((t: TrainingSession) => t.sport === 'Swim').reduce((s: number, t: TrainingSession) => s + t.distance, 0);
-    const bikeDistance = thisWeekTraining.filter((t: TrainingSession) => t.sport === 'Bike').reduce((s: number, t: TrainingSession) => s + t.distance, 0);
-    const runDistance = thisWeekTraining.filter((t: TrainingSession) => t.sport === 'Run').reduce((s: number, t: TrainingSession) => s + t.distance, 0);
-    const totalMinutes = thisWeekTraining.reduce((s: number, t: TrainingSession) => s + t.duration, 0);
-    return {
-      onboarding, plan,
-      weekStats: { completed, skipped, total, compliancePercent: total > 0 ? Math.round((completed / total) * 100) : 0, swimDistance, bikeDistance, runDistance, totalMinutes },
-      recentBody: bodyMetrics.slice(0, 5),
-      recentSessions: trainingSessions.slice(0, 7),
-      plannedSessionsList: plannedSessions.filter((s: PlannedSession) => {
-        const todayStr = new Date().toISOString().split('T')[0];
-        return s.status === 'planned' && s.date >= todayStr;
-      }).slice(0, 14),
-      recentGymSessions: (window as any).__recentGymSessions || [],
-    };
+  const loadMemories = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    const { data } = await supabase.from('coach_memories').select('*').eq('user_id', user.id).order('updated_at', { ascending: false });
+    if (data) setMemories(data);
   };
 
-  const callCoachAPI = async (mode: 'chat' | 'summary', userMessage?: string) => {
-    const context = buildAthleteContext();
-    (context as any).canModifyPlan = true;
-    const chatHistory = messages.slice(-20).map(m => ({ role: m.role, content: m.content }));
-    try {
-      const response = await fetch('/api/coach', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mode, userMessage, athleteContext: context, chatHistory }),
+  const addMemory = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !newFact.content.trim()) return;
+    const now = new Date().toISOString();
+    const { data } = await supabase.from('coach_memories').insert({ user_id: user.id, kind: 'fact', category: newFact.category, content: newFact.content.trim(), source: 'athlete', created_at: now, updated_at: now }).select().single();
+    if (data) { setMemories(prev => [data, ...prev]); setNewFact({ content: '', category: newFact.category }); }
+  };
+
+  const saveMemoryEdit = async () => {
+    if (!editingMemory?.content.trim()) return;
+    const changes = { content: editingMemory.content.trim(), source: 'athlete' as const, updated_at: new Date().toISOString() };
+    await supabase.from('coach_memories').update(changes).eq('id', editingMemory.id);
+    setMemories(prev => prev.map(m => m.id === editingMemory.id ? { ...m, ...changes } : m));
+    setEditingMemory(null);
+  };
+
+  const deleteMemory = async (id: string) => {
+    await supabase.from('coach_memories').delete().eq('id', id);
+    setMemories(prev => prev.filter(m => m.id !== id));
+  };
+
+  // Streams the reply: text deltas, plan-change proposals and memory notes arrive as server-sent events
+  const callCoachAPI = async (mode: 'chat' | 'summary', userMessage: string | undefined, onText: (text: string) => void, onPlanChange?: (proposal: ProposedPlanChange) => void, onMemory?: (note: string) => void) => {
+    const chatHistory = messages.filter(m => m.content).slice(-20).map(m => ({ role: m.role, content: m.content }));
+    try {
+      // The server loads the athlete's data itself for the user behind this token
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch('/api/coach', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ mode, userMessage, chatHistory, stream: true, localDate: toLocalDate() }),
       });
       if (!response.ok) { const err = await response.json(); throw new Error(err.error || 'Failed to get coach response'); }
-      const data = await response.json();
-      if (data.planChanges && data.planChanges.length > 0) { await applyPlanChanges(data.planChanges); }
-      return data.message;
+      let failure = '';
+      await readEventStream(response, (event, data) => {
+        if (event === 'text') onText(data.text);
+        if (event === 'plan_change') onPlanChange?.({ ...data, status: 'pending' });
+        if (event === 'memory' && data.note) onMemory?.(data.note);
+        if (event === 'error') failure = data.error;
+      });
+      if (failure) throw new Error(failure);
     } catch (err: any) { console.error('Coach API error:', err); throw err; }
   };
 
-  const applyPlanChanges = async (changes: any[]) => {
-    for (const change of changes) {
-      if ((change.action === 'skip' || change.action === 'cancel') && change.sessionId) {
-        await safeQuery(() => supabase.from('planned_sessions').update({ status: 'cancelled' }).eq('id', change.sessionId), 'coachCancel');
-        setPlannedSessions((prev: PlannedSession[]) => prev.map(p => p.id === change.sessionId ? { ...p, status: 'cancelled' } : p));
-      }
-      if (change.action === 'reschedule' && change.sessionId && change.newDate) {
-        await safeQuery(() => supabase.from('planned_sessions').update({ status: 'cancelled' }).eq('id', change.sessionId), 'coachRescheduleCancel');
-        setPlannedSessions((prev: PlannedSession[]) => prev.map(p => p.id === change.sessionId ? { ...p, status: 'cancelled' } : p));
-        const original = plannedSessions.find((p: PlannedSession) => p.id === change.sessionId);
-        if (original) {
-          const newSession = { user_id: original.user_id, date: change.newDate, sport: original.sport, type: original.type, duration: original.duration, distance: original.distance, intensity: original.intensity, description: original.description, status: 'planned', completed_session_id: null, created_by: 'coach' };
-          const { data: inserted } = await safeQuery(() => supabase.from('planned_sessions').insert(newSession).select().single(), 'coachRescheduleAdd');
-          if (inserted) setPlannedSessions((prev: PlannedSession[]) => [...prev, inserted]);
-        }
-      }
-      if (change.action === 'add') {
-        const newSession = { user_id: plannedSessions[0]?.user_id, date: change.date, sport: change.sport, type: change.type || 'Z2', duration: change.duration || 45, distance: change.distance || 0, intensity: change.intensity || 'Easy', description: change.description || '', status: 'planned', completed_session_id: null, created_by: 'coach' };
-        const { data: inserted } = await safeQuery(() => supabase.from('planned_sessions').insert(newSession).select().single(), 'coachAdd');
-        if (inserted) setPlannedSessions((prev: PlannedSession[]) => [...prev, inserted]);
-      }
-    }
-  };
-
   const handleSendMessage = async () => {
     if (!input.trim() || loading) return;
     const userMsg: ChatMessage = { role: 'user', content: input.trim(), timestamp: new Date().toISOString() };
-    setMessages(prev => [...prev, userMsg]);
+    const reply: ChatMessage = { role: 'assistant', content: '', timestamp: new Date().toISOString(), planChanges: [], notes: [] };
+    // The reply is always the last message while loading, so it is updated in place as it streams
+    const updateReply = () => setMessages(prev => prev.map((m, i) => i === prev.length - 1 ? { ...reply, planChanges: [...(reply.planChanges || [])], notes: [...(reply.notes || [])] } : m));
+    setMessages(prev => [...prev, userMsg, reply]);
     saveMessage(userMsg);
     setInput('');
     setLoading(true);
     try {
-      const reply = await callCoachAPI('chat', userMsg.content);
-      const assistantMsg: ChatMessage = { role: 'assistant', content: reply, timestamp: new Date().toISOString() };
-      setMessages(prev => [...prev, assistantMsg]);
-      saveMessage(assistantMsg);
+      await callCoachAPI('chat', userMsg.content,
+        text => { reply.content += text; updateReply(); },
+        proposal => { reply.planChanges!.push(proposal); updateReply(); },
+        note => { reply.notes!.push(note); updateReply(); });
+      if (reply.content) saveMessage(reply);
     } catch (err: any) {
-      const errorMsg: ChatMessage = { role: 'assistant', content: `Sorry, I couldn\u2019t connect right now. ${err.message || 'Please try again.'}`, timestamp: new Date().toISOString() };
-      setMessages(prev => [...prev, errorMsg]);
+      reply.content = reply.content || `Sorry, I couldn\u2019t connect right now. ${err.message || 'Please try again.'}`;
+      updateReply();
     }
     setLoading(false);
   };
 
+  const updateProposal = (messageIndex: number, proposalIndex: number, changes: Partial<ProposedPlanChange>) =>
+    setMessages(prev => prev.map((m, i) => i === messageIndex ? { ...m, planChanges: m.planChanges?.map((p, j) => j === proposalIndex ? { ...p, ...changes } : p) } : m));
+
+  const confirmProposal = async (messageIndex: number, proposalIndex: number) => {
+    const proposal = messages[messageIndex].planChanges?.[proposalIndex];
+    if (!proposal?.change) return;
+    const target = proposal.change.sessionId && plannedSessions.find((p: PlannedSession) => p.id === proposal.change.sessionId);
+    if (proposal.change.sessionId && target?.status !== 'planned') { updateProposal(messageIndex, proposalIndex, { error: 'That session is no longer planned' }); return; }
+    if (await onApplyPlanChanges([proposal.change], 'coach')) updateProposal(messageIndex, proposalIndex, { status: 'applied' });
+    else updateProposal(messageIndex, proposalIndex, { error: 'your plan could not be saved' });
+  };
+
   const handleGenerateSummary = async () => {
     setSummaryLoading(true); setSummary(null);
-    try { const result = await callCoachAPI('summary'); setSummary(result); }
+    let text = '';
+    try { await callCoachAPI('summary', undefined, chunk => { text += chunk; setSummary(text); }); }
     catch (err: any) { setSummary(`Could not generate summary: ${err.message || 'Please try again.'}`); }
     setSummaryLoading(false);
   };
@@ -1812,6 +3528,11 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
             style={activeTab === 'chat' ? { backgroundColor: '#FFCB00' } : {}}>
             <Brain size={16} /> Chat with Coach
           </button>
+          <button onClick={() => { setActiveTab('memory'); loadMemories(); }}
+            className={`px-3 py-2 rounded-lg font-semibold text-sm flex items-center justify-center gap-2 ${activeTab === 'memory' ? 'text-black' : 'bg-gray-200 text-gray-700'}`}
+            style={activeTab === 'memory' ? { backgroundColor: '#FFCB00' } : {}}>
+            🧠 Memory
+          </button>
         </div>
       </div>
 
@@ -1834,14 +3555,50 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
                 <p className="text-xs text-gray-400">The AI coach will analyse your training data and give recommendations</p>
               </div>
             )}
-            {summaryLoading && (
+            {summaryLoading && !summary && (
               <div className="text-center py-8">
                 <Loader className="animate-spin mx-auto mb-3" size={32} style={{ color: '#FFCB00' }} />
                 <p className="text-sm text-gray-500">Analysing your training data...</p>
               </div>
             )}
-            {summary && !summaryLoading && <div className="prose prose-sm max-w-none">{renderMarkdown(summary)}</div>}
+            {summary && <div className="prose prose-sm max-w-none">{renderMarkdown(summary)}</div>}
           </div>
+          {reviews.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-4 mb-3">
+              <h3 className="font-bold text-lg mb-1">Past Weekly Reviews</h3>
+              <p className="text-xs text-gray-500 mb-3">Sent every Sunday evening to your connected Telegram or WhatsApp</p>
+              {reviews.map((review, i) => {
+                const previous = reviews[i + 1]?.stats;
+                const delta = (value: number | undefined, before: number | undefined, unit = '') => {
+                  if (value === undefined || before === undefined) return null;
+                  const diff = Math.round((value - before) * 10) / 10;
+                  return <span className={`ml-1 ${diff > 0 ? 'text-green-600' : diff < 0 ? 'text-red-500' : 'text-gray-400'}`}>{diff > 0 ? '▲' : diff < 0 ? '▼' : '•'}{Math.abs(diff)}{unit}</span>;
+                };
+                const open = openReviewId === review.id;
+                return (
+                  <div key={review.id} className="border-t first:border-t-0 py-2">
+                    <button onClick={() => setOpenReviewId(open ? null : review.id)} className="w-full text-left">
+                      <div className="flex items-center justify-between">
+                        <span className="font-semibold text-sm">
+                          {new Date(review.week_start + 'T00:00:00').toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })} – {new Date(review.week_end + 'T00:00:00').toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}
+                        </span>
+                        <span className="flex items-center gap-2 text-xs text-gray-400">
+                          {review.delivered_via.map(c => c === 'telegram' ? '✈️' : '💬').join(' ')}
+                          <ChevronDown size={14} className={`transition-transform ${open ? 'rotate-180' : ''}`} />
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-x-3 text-xs text-gray-600 mt-1">
+                        <span>{review.stats.completed}/{review.stats.total} sessions ({review.stats.compliancePercent}%){delta(review.stats.compliancePercent, previous?.compliancePercent, '%')}</span>
+                        <span>{review.stats.totalMinutes}min{delta(review.stats.totalMinutes, previous?.totalMinutes)}</span>
+                        {review.stats.ctl !== undefined && <span>CTL {review.stats.ctl}{delta(review.stats.ctl, previous?.ctl)}</span>}
+                      </div>
+                    </button>
+                    {open && <div className="prose prose-sm max-w-none mt-2">{renderMarkdown(review.content)}</div>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
           <div className="rounded-lg p-4" style={{ backgroundColor: '#FFFBCC' }}>
             <h4 className="font-semibold text-sm mb-2" style={{ color: '#7A6000' }}>Your Data Snapshot</h4>
             <div className="grid grid-cols-2 gap-2 text-xs">
@@ -1854,6 +3611,66 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
         </div>
       )}
 
+      {activeTab === 'memory' && (() => {
+        const facts = memories.filter(m => m.kind === 'fact');
+        const summary = memories.filter(m => m.kind === 'summary').sort((a, b) => (b.covers_until || '').localeCompare(a.covers_until || ''))[0];
+        return (
+          <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+            <div className="bg-white rounded-lg shadow p-4">
+              <h3 className="font-bold text-lg">What the coach knows about me</h3>
+              <p className="text-xs text-gray-500 mb-3">The coach saves lasting facts from your chats and uses them in every reply. Edit or delete anything that's wrong or out of date.</p>
+              <div className="flex gap-2">
+                <select value={newFact.category} onChange={(e) => setNewFact({ ...newFact, category: e.target.value })} className="p-2 border rounded-lg text-sm">
+                  {Object.entries(COACH_MEMORY_CATEGORIES).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+                <input value={newFact.content} onChange={(e) => setNewFact({ ...newFact, content: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && addMemory()}
+                  placeholder="e.g. No early swims on weekdays" className="flex-1 p-2 border rounded-lg text-sm" />
+                <button onClick={addMemory} disabled={!newFact.content.trim()} className="px-3 rounded-lg text-black disabled:opacity-50" style={{ backgroundColor: '#FFCB00' }}><Plus size={16} /></button>
+              </div>
+            </div>
+
+            {facts.length === 0 && <div className="text-center py-6 text-sm text-gray-400">Nothing remembered yet — mention injuries, schedule constraints or preferences in chat</div>}
+            {Object.entries(COACH_MEMORY_CATEGORIES).filter(([key]) => facts.some(f => (COACH_MEMORY_CATEGORIES[f.category] ? f.category : 'other') === key)).map(([key, label]) => (
+              <div key={key} className="bg-white rounded-lg shadow p-3">
+                <div className="text-xs font-bold text-gray-500 uppercase tracking-wide mb-2">{label}</div>
+                {facts.filter(f => (COACH_MEMORY_CATEGORIES[f.category] ? f.category : 'other') === key).map(fact => (
+                  <div key={fact.id} className="flex items-start gap-2 py-1.5 border-t first:border-t-0">
+                    {editingMemory?.id === fact.id ? (
+                      <>
+                        <input value={editingMemory.content} onChange={(e) => setEditingMemory({ ...editingMemory, content: e.target.value })} onKeyDown={(e) => e.key === 'Enter' && saveMemoryEdit()}
+                          className="flex-1 p-1.5 border rounded text-sm" autoFocus />
+                        <button onClick={saveMemoryEdit} className="p-1.5 text-green-600 hover:bg-green-50 rounded"><Check size={14} /></button>
+                        <button onClick={() => setEditingMemory(null)} className="p-1.5 text-gray-400 hover:bg-gray-100 rounded"><X size={14} /></button>
+                      </>
+                    ) : (
+                      <>
+                        <div className="flex-1 text-sm text-gray-800">
+                          {fact.content}
+                          <span className="ml-2 text-[10px] text-gray-400">{fact.source === 'athlete' ? 'added by you' : 'from chat'}</span>
+                        </div>
+                        <button onClick={() => setEditingMemory({ id: fact.id, content: fact.content })} className="p-1.5 text-gray-400 hover:bg-gray-100 rounded"><Edit3 size={14} /></button>
+                        <button onClick={() => deleteMemory(fact.id)} className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded"><Trash2 size={14} /></button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            {summary && (
+              <div className="rounded-lg p-4" style={{ backgroundColor: '#FFFBCC' }}>
+                <div className="flex items-center justify-between mb-1">
+                  <h4 className="font-semibold text-sm" style={{ color: '#7A6000' }}>Earlier conversations</h4>
+                  <button onClick={() => Promise.all(memories.filter(m => m.kind === 'summary').map(m => deleteMemory(m.id)))} className="text-xs text-gray-500 hover:text-red-600">Clear</button>
+                </div>
+                {summary.covers_until && <div className="text-[10px] text-gray-500 mb-2">Summary of chats up to {new Date(summary.covers_until).toLocaleDateString()}</div>}
+                <p className="text-sm text-gray-700 whitespace-pre-line">{summary.content}</p>
+              </div>
+            )}
+          </div>
+        );
+      })()}
+
       {activeTab === 'chat' && (
         <>
           <div className="flex-1 overflow-y-auto px-4 pb-2">
@@ -1872,7 +3689,7 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
                 </div>
               </div>
             )}
-            {messages.map((msg, i) => (
+            {messages.map((msg, i) => (msg.content || msg.planChanges?.length) ? (
               <div key={i} className={`mb-3 flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 <div className={`max-w-[85%] rounded-lg px-3 py-2 ${msg.role === 'user' ? 'text-black' : 'bg-white shadow text-gray-800'}`}
                   style={msg.role === 'user' ? { backgroundColor: '#FFCB00' } : {}}>
@@ -1881,13 +3698,35 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
                   ) : (
                     <p className="text-sm">{msg.content}</p>
                   )}
+                  {msg.planChanges?.map((proposal, j) => (
+                    <div key={j} className="mt-2 rounded-lg p-2 text-xs" style={{ backgroundColor: '#FFFBCC', border: '1px solid #FFCB00' }}>
+                      {proposal.error ? (
+                        <span className="text-red-600">Couldn't apply a plan change: {proposal.error}</span>
+                      ) : (
+                        <>
+                          <div className="font-semibold" style={{ color: '#7A6000' }}>📋 {proposal.summary}</div>
+                          {proposal.status === 'pending' ? (
+                            <div className="flex gap-2 mt-2">
+                              <button onClick={() => confirmProposal(i, j)} disabled={loading}
+                                className="flex-1 py-1.5 rounded-lg font-bold text-black disabled:opacity-50" style={{ backgroundColor: '#FFCB00' }}>Confirm</button>
+                              <button onClick={() => updateProposal(i, j, { status: 'dismissed' })}
+                                className="flex-1 py-1.5 rounded-lg font-semibold bg-white text-gray-600">Dismiss</button>
+                            </div>
+                          ) : (
+                            <div className={`mt-1 font-semibold ${proposal.status === 'applied' ? 'text-green-700' : 'text-gray-400'}`}>{proposal.status === 'applied' ? '✓ Applied to your plan' : 'Dismissed'}</div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                  {msg.notes?.map((note, j) => <div key={j} className="mt-1 text-[11px] text-gray-400">🧠 {note}</div>)}
                   <div className={`text-xs mt-1 ${msg.role === 'user' ? 'text-yellow-800' : 'text-gray-400'}`}>
                     {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                   </div>
                 </div>
               </div>
-            ))}
-            {loading && (
+            ) : null)}
+            {loading && !messages[messages.length - 1]?.content && (
               <div className="flex justify-start mb-3">
                 <div className="bg-white shadow rounded-lg px-4 py-3 flex items-center gap-2">
                   <Loader className="animate-spin" size={16} style={{ color: '#FFCB00' }} />
@@ -1918,43 +3757,126 @@ const CoachScreen = ({ onboarding, plan, plannedSessions, setPlannedSessions, tr
   );
 };
 
+// ============================================================================
+// SEASON RACES CARD COMPONENT
+// ============================================================================
+
+const emptyRace = (): Race => ({ user_id: '', name: '', date: '', location: '', distance: 'olympic', priority: 'B', notes: '' });
+
+const SeasonRacesCard = ({ races, onSave, onDelete }: { races: Race[]; onSave: (r: Race) => Promise<boolean>; onDelete: (r: Race) => Promise<void> }) => {
+  const { showToast } = useToast();
+  const [draft, setDraft] = useState<Race | null>(null);
+  const [saving, setSaving] = useState(false);
+  const priorityStyle: Record<string, any> = { A: { backgroundColor: '#FFCB00', color: '#000' }, B: { backgroundColor: '#000', color: '#fff' }, C: { backgroundColor: '#E5E7EB', color: '#374151' } };
+
+  const save = async () => {
+    if (!draft || !draft.name || !draft.date) { showToast('Race name and date are required', 'error'); return; }
+    setSaving(true);
+    const ok = await onSave(draft);
+    setSaving(false);
+    if (ok) { setDraft(null); showToast('Race saved — refresh your plan to apply tapers', 'success'); }
+    else showToast('Failed to save race', 'error');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 border-b flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-700">Season Races</h3>
+        {!draft && <button onClick={() => setDraft(emptyRace())} className="text-xs font-semibold flex items-center gap-1"><Plus size={14} /> Add race</button>}
+      </div>
+      <div className="divide-y">
+        {races.length === 0 && !draft && <div className="px-4 py-3 text-sm text-gray-400">No races yet.</div>}
+        {races.map(r => (
+          <div key={r.id} className="px-4 py-3 flex items-center gap-3">
+            <span className="w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold" style={priorityStyle[r.priority]}>{r.priority}</span>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-semibold truncate">{r.name}</div>
+              <div className="text-xs text-gray-500">{formatRaceDate(r.date)} • {RACE_DISTANCES[r.distance]?.label || r.distance}{r.location ? ` • ${r.location}` : ''}</div>
+            </div>
+            <button onClick={() => setDraft({ ...r })} className="p-1 text-gray-400 hover:text-gray-700"><Edit3 size={14} /></button>
+            {r.priority !== 'A' && <button onClick={() => onDelete(r)} className="p-1 text-gray-400 hover:text-red-500"><Trash2 size={14} /></button>}
+          </div>
+        ))}
+        {draft && (
+          <div className="px-4 py-3 space-y-2 bg-gray-50">
+            <input type="text" placeholder="Race name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="w-full p-2 border rounded-lg text-sm" />
+            <div className="grid grid-cols-2 gap-2">
+              <input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className="w-full p-2 border rounded-lg text-sm" />
+              <input type="text" placeholder="Location" value={draft.location} onChange={(e) => setDraft({ ...draft, location: e.target.value })} className="w-full p-2 border rounded-lg text-sm" />
+              <select value={draft.distance} onChange={(e) => setDraft({ ...draft, distance: e.target.value })} className="w-full p-2 border rounded-lg text-sm">
+                {Object.entries(RACE_DISTANCES).map(([value, d]) => <option key={value} value={value}>{d.label}</option>)}
+              </select>
+              <select value={draft.priority} onChange={(e) => setDraft({ ...draft, priority: e.target.value as Race['priority'] })} className="w-full p-2 border rounded-lg text-sm">
+                <option value="A">A — goal race</option>
+                <option value="B">B — important, mini-taper</option>
+                <option value="C">C — training race</option>
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => setDraft(null)} className="flex-1 py-2 border rounded-lg text-sm font-semibold text-gray-600">Cancel</button>
+              <button onClick={save} disabled={saving} className="flex-1 py-2 bg-black text-white rounded-lg text-sm font-semibold disabled:opacity-50">{saving ? 'Saving...' : 'Save race'}</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // ============================================================================
 // ACCOUNT SCREEN
 // ============================================================================
 
-const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any) => {
+const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen, races, onSaveRace, onDeleteRace, onSyncARace }: any) => {
   const { showToast } = useToast();
-  const [accountTab, setAccountTab] = useState<'profile' | 'goals' | 'raceInfo'>('profile');
+  const [accountTab, setAccountTab] = useState<'profile' | 'goals' | 'zones' | 'raceInfo'>('profile');
+  const [zoneOverrides, setZoneOverrides] = useState<Partial<Record<ZoneKind, { low: number; high: number }[]>>>(onboarding.zoneOverrides || {});
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [form, setForm] = useState({
     age: onboarding.age || '', weight: onboarding.weight || '', height: onboarding.height || '',
     trainingBackground: onboarding.trainingBackground || 'beginner', goalType: onboarding.goalType || 'finish',
-    raceDate: onboarding.raceDate || '', raceLocation: onboarding.raceLocation || '', raceName: onboarding.raceName || '',
+    raceDate: onboarding.raceDate || '', raceDistance: onboarding.raceDistance || '70.3', raceLocation: onboarding.raceLocation || '', raceName: onboarding.raceName || '',
     raceCost: onboarding.raceCost || '', raceWebsite: onboarding.raceWebsite || '', raceAccommodation: onboarding.raceAccommodation || '',
     raceWeather: onboarding.raceWeather || '', raceTravel: onboarding.raceTravel || '', raceNotes: onboarding.raceNotes || '',
+    raceCourseProfile: onboarding.raceCourseProfile || 'flat', raceTemperature: onboarding.raceTemperature ?? '',
     priority: onboarding.priority || 'balanced', hoursPerWeek: onboarding.hoursPerWeek || '',
     poolDaysPerWeek: onboarding.poolDaysPerWeek || '', gymAccess: onboarding.gymAccess ?? true,
     canSwim1900m: onboarding.canSwim1900m ?? false, fiveKTime: onboarding.fiveKTime || '', ftp: onboarding.ftp || '',
+    css400Time: onboarding.css400Time || '', css200Time: onboarding.css200Time || '', maxHr: onboarding.maxHr || '', thresholdHr: onboarding.thresholdHr || '',
   });
 
-  const resetForm = () => setForm({
+  const resetForm = () => { setZoneOverrides(onboarding.zoneOverrides || {}); setForm({
     age: onboarding.age || '', weight: onboarding.weight || '', height: onboarding.height || '',
     trainingBackground: onboarding.trainingBackground || 'beginner', goalType: onboarding.goalType || 'finish',
-    raceDate: onboarding.raceDate || '', raceLocation: onboarding.raceLocation || '', raceName: onboarding.raceName || '',
+    raceDate: onboarding.raceDate || '', raceDistance: onboarding.raceDistance || '70.3', raceLocation: onboarding.raceLocation || '', raceName: onboarding.raceName || '',
     raceCost: onboarding.raceCost || '', raceWebsite: onboarding.raceWebsite || '', raceAccommodation: onboarding.raceAccommodation || '',
     raceWeather: onboarding.raceWeather || '', raceTravel: onboarding.raceTravel || '', raceNotes: onboarding.raceNotes || '',
+    raceCourseProfile: onboarding.raceCourseProfile || 'flat', raceTemperature: onboarding.raceTemperature ?? '',
     priority: onboarding.priority || 'balanced', hoursPerWeek: onboarding.hoursPerWeek || '',
     poolDaysPerWeek: onboarding.poolDaysPerWeek || '', gymAccess: onboarding.gymAccess ?? true,
     canSwim1900m: onboarding.canSwim1900m ?? false, fiveKTime: onboarding.fiveKTime || '', ftp: onboarding.ftp || '',
-  });
+    css400Time: onboarding.css400Time || '', css200Time: onboarding.css200Time || '', maxHr: onboarding.maxHr || '', thresholdHr: onboarding.thresholdHr || '',
+  }); };
 
   const handleSave = async () => {
     setSaving(true);
-    const updatedOnboarding = { ...onboarding, ...form };
+    // New test results re-derive that discipline's zones, so manual edits for it are dropped
+    const testChanged: Record<ZoneKind, boolean> = {
+      power: form.ftp !== (onboarding.ftp || ''),
+      pace: form.fiveKTime !== (onboarding.fiveKTime || ''),
+      swim: form.css400Time !== (onboarding.css400Time || '') || form.css200Time !== (onboarding.css200Time || ''),
+      hr: form.maxHr !== (onboarding.maxHr || '') || form.thresholdHr !== (onboarding.thresholdHr || ''),
+    };
+    const keptOverrides = Object.fromEntries(Object.entries(zoneOverrides).filter(([kind]) => !testChanged[kind as ZoneKind]));
+    const updatedOnboarding = { ...onboarding, ...form, zoneOverrides: keptOverrides };
     const dbData = onboardingToDb(updatedOnboarding, user.id);
     const { error } = await safeQuery(() => supabase.from('onboarding_data').upsert(dbData, { onConflict: 'user_id' }), 'updateProfile');
-    if (!error) { setOnboarding(updatedOnboarding); showToast('Profile updated!', 'success'); setEditing(false); }
+    if (!error) {
+      setOnboarding(updatedOnboarding); setEditing(false);
+      if (await onSyncARace(updatedOnboarding)) showToast('Profile updated!', 'success');
+      else showToast('Profile saved, but your A race could not be updated', 'error');
+    }
     else { showToast('Failed to save: ' + error, 'error'); }
     setSaving(false);
   };
@@ -1976,7 +3898,7 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
       { key: 'gymAccess', label: 'Gym access', type: 'toggle' },
     ]},
     { title: 'Fitness Benchmarks', fields: [
-      { key: 'canSwim1900m', label: 'Can swim 1.9km', type: 'toggle' },
+      { key: 'canSwim1900m', label: `Can swim ${getRaceDistance(form.raceDistance).legs.swimM / 1000 || 1.9}km`, type: 'toggle' },
       { key: 'fiveKTime', label: '5K time', type: 'number', unit: 'seconds' },
       { key: 'ftp', label: 'FTP', type: 'number', unit: 'watts' },
     ]},
@@ -1984,13 +3906,8 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
 
   const goalFields = [
     { title: 'Race Goals', fields: [
-      { key: 'goalType', label: 'Goal', type: 'select', options: [
-        { value: 'finish', label: 'Finish the race' },
-        { value: 'sub6', label: 'Finish under 6 hours' },
-        { value: 'sub530', label: 'Finish under 5:30' },
-        { value: 'sub5', label: 'Finish under 5 hours' },
-        { value: 'pb', label: 'Personal best' },
-      ]},
+      { key: 'goalType', label: 'Goal', type: 'select', options: goalOptions(form.raceDistance) },
+      { key: 'raceDistance', label: 'Race Distance', type: 'select', options: Object.entries(RACE_DISTANCES).map(([value, d]) => ({ value, label: d.label })) },
       { key: 'raceDate', label: 'Race Date', type: 'date' },
       { key: 'priority', label: 'Priority Discipline', type: 'select', options: [
         { value: 'swim', label: 'Swim' },
@@ -2001,6 +3918,17 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
     ]},
   ];
 
+  const zoneFields = [
+    { title: 'Test Results', fields: [
+      { key: 'ftp', label: 'FTP', type: 'number', unit: 'watts' },
+      { key: 'fiveKTime', label: '5K time', type: 'number', unit: 'seconds' },
+      { key: 'css400Time', label: '400m swim test', type: 'number', unit: 'seconds' },
+      { key: 'css200Time', label: '200m swim test', type: 'number', unit: 'seconds' },
+      { key: 'maxHr', label: 'Max HR', type: 'number', unit: 'bpm' },
+      { key: 'thresholdHr', label: 'Threshold HR', type: 'number', unit: 'bpm' },
+    ]},
+  ];
+
   const raceInfoFields = [
     { title: 'Event Details', fields: [
       { key: 'raceName', label: 'Race Name', type: 'text' },
@@ -2012,11 +3940,33 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
       { key: 'raceTravel', label: 'Travel Plans', type: 'text' },
       { key: 'raceAccommodation', label: 'Accommodation', type: 'text' },
       { key: 'raceWeather', label: 'Expected Weather', type: 'text' },
+      { key: 'raceTemperature', label: 'Expected Temperature', type: 'number', unit: '°C' },
+      { key: 'raceCourseProfile', label: 'Course Profile', type: 'select', options: [
+        { value: 'flat', label: 'Flat' },
+        { value: 'rolling', label: 'Rolling' },
+        { value: 'hilly', label: 'Hilly' },
+      ]},
       { key: 'raceNotes', label: 'Notes', type: 'text' },
     ]},
   ];
 
-  const currentFieldGroups = accountTab === 'profile' ? profileFields : accountTab === 'goals' ? goalFields : raceInfoFields;
+  const currentFieldGroups = accountTab === 'profile' ? profileFields : accountTab === 'goals' ? goalFields : accountTab === 'zones' ? zoneFields : raceInfoFields;
+  const previewZones = ZonesEngine.getZones({ ...onboarding, ...form, zoneOverrides } as OnboardingData);
+
+  const updateZoneBound = (kind: ZoneKind, index: number, bound: 'low' | 'high', value: number) => {
+    if (isNaN(value)) return;
+    const current = (zoneOverrides[kind] || previewZones[kind]!.map(z => ({ low: z.low, high: z.high }))).map(z => ({ ...z }));
+    current[index][bound] = value;
+    setZoneOverrides({ ...zoneOverrides, [kind]: current });
+  };
+
+  const parseZoneInput = (kind: ZoneKind, raw: string) => {
+    if (kind === 'pace' || kind === 'swim') {
+      const [m, sec] = raw.split(':');
+      return sec === undefined ? NaN : +m * 60 + +sec;
+    }
+    return +raw;
+  };
 
   const renderField = (field: any) => (
     <div key={field.key} className={`px-4 py-3 ${field.type === 'text' ? 'block' : 'flex items-center justify-between'}`}>
@@ -2027,7 +3977,7 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
             (form as any)[field.key] ? <span className="text-green-600">Yes</span> : <span className="text-gray-400">No</span>
           ) : field.type === 'select' ? (
             field.options?.find((o: any) => o.value === (form as any)[field.key])?.label || (form as any)[field.key] || '—'
-          ) : field.key === 'fiveKTime' && (form as any)[field.key] ? (
+          ) : field.unit === 'seconds' && (form as any)[field.key] ? (
             `${Math.floor((form as any)[field.key] / 60)}:${String((form as any)[field.key] % 60).padStart(2, '0')}`
           ) : field.key === 'raceDate' && (form as any)[field.key] ? (
             formatRaceDate((form as any)[field.key])
@@ -2111,6 +4061,7 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
         {[
           { id: 'profile' as const, label: '👤 Profile' },
           { id: 'goals' as const, label: '🎯 Goals' },
+          { id: 'zones' as const, label: '⚡ Zones' },
           { id: 'raceInfo' as const, label: '🏁 Race Info' },
         ].map(tab => (
           <button key={tab.id} onClick={() => setAccountTab(tab.id)}
@@ -2133,6 +4084,8 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
         </div>
       )}
 
+      {accountTab === 'raceInfo' && <SeasonRacesCard races={races} onSave={onSaveRace} onDelete={onDeleteRace} />}
+
       {currentFieldGroups.map((group) => (
         <div key={group.title} className="bg-white rounded-xl shadow-sm overflow-hidden">
           <div className="px-4 py-3 bg-gray-50 border-b">
@@ -2144,6 +4097,46 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
         </div>
       ))}
 
+      {accountTab === 'zones' && ([
+        { kind: 'power' as const, title: 'Bike Power Zones', missing: 'Add your FTP to calculate power zones.' },
+        { kind: 'pace' as const, title: 'Run Pace Zones', missing: 'Add a 5K time to calculate pace zones.' },
+        { kind: 'swim' as const, title: 'Swim CSS Zones', missing: 'Add 400m and 200m test times to calculate CSS zones.' },
+        { kind: 'hr' as const, title: 'Heart Rate Zones', missing: 'Add max or threshold HR to calculate HR zones.' },
+      ]).map(({ kind, title, missing }) => (
+        <div key={kind} className="bg-white rounded-xl shadow-sm overflow-hidden">
+          <div className="px-4 py-3 bg-gray-50 border-b flex items-center justify-between">
+            <h3 className="font-bold text-sm text-gray-700">{title}</h3>
+            {zoneOverrides[kind] && <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-600">Custom</span>}
+          </div>
+          {!previewZones[kind] ? (
+            <div className="px-4 py-3 text-sm text-gray-400">{missing}</div>
+          ) : (
+            <div className="divide-y">
+              {previewZones[kind]!.map((z, i) => (
+                <div key={`${z.zone}-${z.low}-${z.high}`} className="px-4 py-2 flex items-center justify-between text-sm">
+                  <span><span className="font-bold">{z.zone}</span> <span className="text-gray-500">{z.name}</span></span>
+                  {!editing ? (
+                    <span className="font-semibold text-gray-900">{ZonesEngine.formatZone(kind, z)}</span>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      {(['low', 'high'] as const).map(bound => (
+                        <input key={bound} type="text" defaultValue={kind === 'pace' || kind === 'swim' ? formatPaceSecs(z[bound]) : String(z[bound])}
+                          onBlur={(e) => updateZoneBound(kind, i, bound, parseZoneInput(kind, e.target.value))}
+                          className="w-16 p-1 border rounded text-sm text-right" />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {editing && zoneOverrides[kind] && (
+                <button onClick={() => { const { [kind]: _removed, ...rest } = zoneOverrides; setZoneOverrides(rest); }}
+                  className="w-full px-4 py-2 text-xs font-semibold text-gray-500 hover:bg-gray-50">Reset to calculated zones</button>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
       {accountTab === 'profile' && user.email === MANOLIS_EMAIL && (
         <div className="bg-white rounded-xl shadow-sm overflow-hidden">
           <div className="px-4 py-3 bg-gray-50 border-b">
@@ -2171,36 +4164,143 @@ const AccountScreen = ({ user, onboarding, setOnboarding, setActiveScreen }: any
 
 interface MealEntry {
   id?: string;
+  date?: string;
   meal: string;
   food: string;
+  food_id?: string | null;
+  grams?: number | null;
   calories: number;
   protein: number;
   carbs: number;
   fat: number;
 }
 
+type HabitSchedule = 'daily' | 'weekdays' | 'training_days' | 'rest_days';
+
 interface DailyHabit {
   id?: string;
   name: string;
   icon: string;
   completed: boolean;
   date: string;
+  schedule?: HabitSchedule;
 }
 
-const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
-  const [activeTab, setActiveTab] = useState<'habits' | 'plan' | 'log'>('habits');
+const HABIT_SCHEDULES: { value: HabitSchedule; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'training_days', label: 'Training days' },
+  { value: 'rest_days', label: 'Rest days' },
+];
+
+// Habit rows exist for every day, but only days matching the row's schedule count toward
+// streaks and adherence — an unticked rest-day habit on a training day is not a miss.
+const HabitEngine = {
+  isScheduled: (habit: DailyHabit, trainingDates: Set<string>) => isHabitScheduled(habit, trainingDates),
+
+  // Days without a row become unticked rows (see trainingRules); streaks, adherence and the heatmap expect them
+  withMissedDays: (rows: DailyHabit[], today: string, activeNames: Set<string>): DailyHabit[] => withMissedDays(rows, today, activeNames),
+
+  // Current streak counts back from today (an unticked today doesn't break it yet); best is the longest run
+  streaks: (rows: DailyHabit[], trainingDates: Set<string>, today: string) => {
+    const scheduled = rows.filter(r => HabitEngine.isScheduled(r, trainingDates)).sort((a, b) => a.date.localeCompare(b.date));
+    let best = 0, run = 0;
+    scheduled.forEach(r => { run = r.completed ? run + 1 : 0; best = Math.max(best, run); });
+    let current = 0;
+    for (const r of [...scheduled].reverse()) {
+      if (r.completed) current++;
+      else if (r.date !== today) break;
+    }
+    return { current, best };
+  },
+
+  adherence: (rows: DailyHabit[], trainingDates: Set<string>) => {
+    const scheduled = rows.filter(r => HabitEngine.isScheduled(r, trainingDates));
+    return scheduled.length > 0 ? Math.round((scheduled.filter(r => r.completed).length / scheduled.length) * 100) : null;
+  },
+
+  // Sleep and fatigue on scheduled days the habit was done vs skipped; needs 5+ days on each side
+  correlations: (rows: DailyHabit[], bodyMetrics: BodyMetrics[], trainingDates: Set<string>) => {
+    const byDate = new Map(bodyMetrics.map(b => [b.date, b]));
+    const names = [...new Set(rows.map(r => r.name))];
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+    const hints: { text: string; strength: number }[] = [];
+    names.forEach(name => {
+      const days = rows.filter(r => r.name === name && HabitEngine.isScheduled(r, trainingDates) && byDate.has(r.date));
+      const habitLabel = name.toLowerCase();
+      ([
+        { key: 'sleep' as const, min: 0.3, phrase: (d: number) => `Sleep was ${Math.abs(d).toFixed(1)}h ${d > 0 ? 'longer' : 'shorter'} on days you did "${habitLabel}"` },
+        { key: 'fatigue' as const, min: 0.8, phrase: (d: number) => `Fatigue was ${Math.abs(d).toFixed(1)} points ${d > 0 ? 'higher' : 'lower'} on days you did "${habitLabel}"` },
+      ]).forEach(metric => {
+        const done = days.filter(r => r.completed).map(r => byDate.get(r.date)![metric.key]).filter((v): v is number => v !== null);
+        const missed = days.filter(r => !r.completed).map(r => byDate.get(r.date)![metric.key]).filter((v): v is number => v !== null);
+        if (done.length < 5 || missed.length < 5) return;
+        const diff = mean(done) - mean(missed);
+        if (Math.abs(diff) >= metric.min) hints.push({ text: metric.phrase(diff), strength: Math.abs(diff) / metric.min });
+      });
+    });
+    return hints.sort((a, b) => b.strength - a.strength).slice(0, 4).map(h => h.text);
+  },
+};
+
+const formatRaceClock = (mins: number) => `${mins < 0 ? '−' : ''}${formatDuration(Math.abs(mins))}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Opens the race plan as a plain checklist page and triggers the browser print dialog
+const printRaceFuelPlan = (raceName: string, plan: ReturnType<typeof FuellingEngine.racePlan>) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  const title = escapeHtml(raceName); // user-entered
+  const box = '<span style="display:inline-block;width:12px;height:12px;border:1px solid #000;margin-right:8px"></span>';
+  const pack = [
+    `${plan.totals.gels} gels (+2 spare)`,
+    plan.totals.bottles > 0 ? `${plan.totals.bottles} × 500ml sports drink (bike)` : '',
+    plan.totals.capsules > 0 ? `${plan.totals.capsules} salt capsules (+2 spare)` : '',
+    'Pre-race electrolyte drink', 'Race breakfast', 'Recovery food and drink',
+  ].filter(Boolean);
+  win.document.write(`<html><head><title>${title} — Race Fuel Plan</title></head><body style="font-family:sans-serif;padding:24px">
+    <h1 style="margin-bottom:4px">${title} — Race Fuel Plan</h1>
+    <p>Expected ${plan.targets.temperature}°C • ${formatDuration(plan.raceMins)} projected • ${plan.totals.carbs}g carbs, ${(plan.totals.fluid / 1000).toFixed(1)}L fluid, ${plan.totals.sodium}mg sodium</p>
+    <h2>Pack</h2>${pack.map(p => `<div style="margin:6px 0">${box}${escapeHtml(p)}</div>`).join('')}
+    <h2>Timeline</h2>${plan.items.map(i => `<div style="margin:6px 0">${box}<b>${formatRaceClock(i.at)}</b> ${escapeHtml(i.leg)}: ${escapeHtml(i.action)}</div>`).join('')}
+  </body></html>`);
+  win.document.close();
+  win.print();
+};
+
+const NutritionScreen = ({ onboarding, trainingSessions, plannedSessions, bodyMetrics, fitnessTests = [], fuelRehearsals = [], onLogRehearsal }: any) => {
+  const [activeTab, setActiveTab] = useState<'habits' | 'plan' | 'log' | 'race'>('habits');
   const [mealPlan, setMealPlan] = useState<string | null>(null);
   const [mealPlanLoading, setMealPlanLoading] = useState(false);
-  const [todayMeals, setTodayMeals] = useState<MealEntry[]>([]);
+  const { showToast } = useToast();
+  const [mealLog, setMealLog] = useState<MealEntry[]>([]);
+  const [logDate, setLogDate] = useState(toLocalDate());
+  const [favouriteFoods, setFavouriteFoods] = useState<string[]>([]);
   const [showAddMeal, setShowAddMeal] = useState(false);
   const [mealForm, setMealForm] = useState<MealEntry>({ meal: 'Breakfast', food: '', calories: 0, protein: 0, carbs: 0, fat: 0 });
+  const [foodQuery, setFoodQuery] = useState('');
+  const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
+  const [foodGrams, setFoodGrams] = useState(100);
+  const [manualEntry, setManualEntry] = useState(false);
+  const [barcode, setBarcode] = useState('');
+  const [rehearsalForm, setRehearsalForm] = useState<Omit<FuelRehearsal, 'user_id'> | null>(null);
   const [habits, setHabits] = useState<DailyHabit[]>([]);
   const [showAddHabit, setShowAddHabit] = useState(false);
   const [newHabitName, setNewHabitName] = useState('');
   const [newHabitIcon, setNewHabitIcon] = useState('💧');
   const [habitsLoaded, setHabitsLoaded] = useState(false);
+  const [newHabitSchedule, setNewHabitSchedule] = useState<HabitSchedule>('daily');
+  const [habitHistory, setHabitHistory] = useState<DailyHabit[]>([]);
+  const [habitView, setHabitView] = useState<'today' | 'insights'>('today');
 
-  const today = new Date().toISOString().split('T')[0];
+  const today = toLocalDate();
+  // Twelve Sunday-start weeks, ending with the current one
+  const habitHistoryStartDate = new Date(); habitHistoryStartDate.setDate(habitHistoryStartDate.getDate() - habitHistoryStartDate.getDay() - 77);
+  const habitHistoryStart = toLocalDate(habitHistoryStartDate);
+  // Meal history window: drives day navigation, the intake trend and recent foods
+  const historyStart = addDays(toLocalDate(), -29);
 
   const defaultHabits: Omit<DailyHabit, 'id'>[] = [
     { name: 'Drink 2L water', icon: '💧', completed: false, date: today },
@@ -2216,15 +4316,17 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
       try {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) return;
+        const { data: history } = await supabase.from('daily_habits').select('*').eq('user_id', user.id).gte('date', habitHistoryStart).lt('date', today);
+        if (history) setHabitHistory(history);
         const { data } = await supabase.from('daily_habits').select('*').eq('user_id', user.id).eq('date', today).order('created_at');
         if (data && data.length > 0) {
           setHabits(data);
         } else {
-          const { data: templates } = await supabase.from('daily_habits').select('name, icon').eq('user_id', user.id).order('date', { ascending: false }).limit(20);
+          const { data: templates } = await supabase.from('daily_habits').select('name, icon, schedule').eq('user_id', user.id).order('date', { ascending: false }).limit(20);
           if (templates && templates.length > 0) {
             const seen = new Set<string>();
             const uniqueTemplates = templates.filter((t: any) => { if (seen.has(t.name)) return false; seen.add(t.name); return true; });
-            const todayHabits = uniqueTemplates.map((t: any) => ({ name: t.name, icon: t.icon, completed: false, date: today }));
+            const todayHabits = uniqueTemplates.map((t: any) => ({ name: t.name, icon: t.icon, schedule: t.schedule || 'daily', completed: false, date: today }));
             const { data: inserted } = await supabase.from('daily_habits').insert(todayHabits.map((h: any) => ({ ...h, user_id: user.id }))).select();
             if (inserted) setHabits(inserted);
           } else {
@@ -2238,6 +4340,22 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
     loadHabits();
   }, []);
 
+  useEffect(() => {
+    const loadMeals = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        const [{ data: meals }, { data: favourites }] = await Promise.all([
+          supabase.from('meal_logs').select('*').eq('user_id', user.id).gte('date', historyStart).order('created_at'),
+          supabase.from('favourite_foods').select('food_id').eq('user_id', user.id),
+        ]);
+        if (meals) setMealLog(meals);
+        if (favourites) setFavouriteFoods(favourites.map((f: any) => f.food_id));
+      } catch (err) { console.error('Failed to load meals:', err); }
+    };
+    loadMeals();
+  }, []);
+
   const toggleHabit = async (habitId: string) => {
     const habit = habits.find(h => h.id === habitId);
     if (!habit) return;
@@ -2250,9 +4368,17 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
     if (!newHabitName.trim()) return;
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
-    const { data: inserted } = await supabase.from('daily_habits').insert({ user_id: user.id, name: newHabitName.trim(), icon: newHabitIcon, completed: false, date: today }).select().single();
+    const { data: inserted } = await supabase.from('daily_habits').insert({ user_id: user.id, name: newHabitName.trim(), icon: newHabitIcon, schedule: newHabitSchedule, completed: false, date: today }).select().single();
     if (inserted) setHabits(prev => [...prev, inserted]);
-    setNewHabitName(''); setNewHabitIcon('💧'); setShowAddHabit(false);
+    setNewHabitName(''); setNewHabitIcon('💧'); setNewHabitSchedule('daily'); setShowAddHabit(false);
+  };
+
+  // Applies from today onward; past rows keep the schedule they were tracked under
+  const changeHabitSchedule = async (habit: DailyHabit, schedule: HabitSchedule) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    setHabits(prev => prev.map(h => h.name === habit.name ? { ...h, schedule } : h));
+    await supabase.from('daily_habits').update({ schedule }).eq('user_id', user.id).eq('name', habit.name).gte('date', today);
   };
 
   const deleteHabit = async (habitId: string) => {
@@ -2260,26 +4386,78 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
     await supabase.from('daily_habits').delete().eq('id', habitId);
   };
 
-  const completedCount = habits.filter(h => h.completed).length;
-  const habitProgress = habits.length > 0 ? Math.round((completedCount / habits.length) * 100) : 0;
+  const trainingDates = new Set<string>([
+    ...plannedSessions.filter((p: PlannedSession) => p.status !== 'cancelled').map((p: PlannedSession) => p.date),
+    ...trainingSessions.map((t: TrainingSession) => t.date),
+  ]);
+  const scheduledToday = habits.filter(h => HabitEngine.isScheduled(h, trainingDates));
+  const completedCount = scheduledToday.filter(h => h.completed).length;
+  const habitProgress = scheduledToday.length > 0 ? Math.round((completedCount / scheduledToday.length) * 100) : 0;
+
+  const habitRows = HabitEngine.withMissedDays([...habitHistory, ...habits], today, new Set(habits.map(h => h.name)));
+  const heatmapDays = Array.from({ length: 84 }, (_, i) => {
+    const date = addDays(habitHistoryStart, i);
+    if (date > today) return { date, scheduled: 0, ratio: null };
+    const scheduled = habitRows.filter(h => h.date === date && HabitEngine.isScheduled(h, trainingDates));
+    return { date, scheduled: scheduled.length, ratio: scheduled.length > 0 ? scheduled.filter(h => h.completed).length / scheduled.length : null };
+  });
+  const weeklyAdherence = Array.from({ length: 12 }, (_, w) => {
+    const dates = new Set(heatmapDays.slice(w * 7, w * 7 + 7).map(d => d.date));
+    return HabitEngine.adherence(habitRows.filter(h => dates.has(h.date)), trainingDates);
+  });
+  const habitStats = habits.map(h => {
+    const rows = habitRows.filter(r => r.name === h.name);
+    return { habit: h, ...HabitEngine.streaks(rows, trainingDates, today), adherence: HabitEngine.adherence(rows, trainingDates) };
+  });
+  const habitHints = HabitEngine.correlations(habitRows, bodyMetrics, trainingDates);
+
+  const dayMeals = mealLog.filter(m => m.date === logDate);
+  const totalCals = Math.round(dayMeals.reduce((s, m) => s + m.calories, 0));
+  const totalProtein = Math.round(dayMeals.reduce((s, m) => s + m.protein, 0));
+  const totalCarbs = Math.round(dayMeals.reduce((s, m) => s + m.carbs, 0));
+  const totalFat = Math.round(dayMeals.reduce((s, m) => s + m.fat, 0));
+
+  const recentFoods = [...new Set([...mealLog].reverse().map(m => m.food_id).filter((id): id is string => !!id))]
+    .map(getFood).filter((f): f is FoodItem => !!f).slice(0, 8);
+  const favourites = favouriteFoods.map(getFood).filter((f): f is FoodItem => !!f);
+  const foodResults = searchFoods(foodQuery);
+  const intakeHistory = Array.from({ length: 14 }, (_, i) => {
+    const date = addDays(toLocalDate(), i - 13);
+    const meals = mealLog.filter(m => m.date === date);
+    const target = FuellingEngine.dailyTargets(date, plannedSessions, trainingSessions, bodyMetrics, onboarding);
+    return { date, calories: Math.round(meals.reduce((s, m) => s + m.calories, 0)), protein: Math.round(meals.reduce((s, m) => s + m.protein, 0)), targetCalories: target.calories, targetProtein: target.protein };
+  });
+  const historyMax = Math.max(...intakeHistory.map(d => Math.max(d.calories, d.targetCalories)));
+  const loggedDays = intakeHistory.filter(d => d.calories > 0);
+
+  const fuelling = FuellingEngine.dailyTargets(logDate, plannedSessions, trainingSessions, bodyMetrics, onboarding);
+  const todayFuelling = logDate === today ? fuelling : FuellingEngine.dailyTargets(today, plannedSessions, trainingSessions, bodyMetrics, onboarding);
+  const { calories: targetCalories, protein: targetProtein, carbs: targetCarbs, fat: targetFat } = fuelling;
+
+  const raceLegs = PredictionEngine.predict(onboarding, trainingSessions, fitnessTests).legs;
+  const racePlan = FuellingEngine.racePlan(onboarding, FuellingEngine.weightOn(today, bodyMetrics, onboarding).weight,
+    { swim: raceLegs.swim.likely, bike: raceLegs.bike.likely, run: raceLegs.run.likely, transitions: raceLegs.transitions.likely }, fuelRehearsals);
+  const rehearsalSessions = plannedSessions.filter((s: PlannedSession) => (s.sport === 'Bike' || s.sport === 'Run') && s.type === 'Long' && s.duration >= 90 && s.status === 'planned' && s.date >= today).slice(0, 3);
 
-  const totalCals = todayMeals.reduce((s, m) => s + m.calories, 0);
-  const totalProtein = todayMeals.reduce((s, m) => s + m.protein, 0);
-  const totalCarbs = todayMeals.reduce((s, m) => s + m.carbs, 0);
-  const totalFat = todayMeals.reduce((s, m) => s + m.fat, 0);
+  const openRehearsalForm = (sport: string, duration: number, date = today) => {
+    const t = sport === 'Bike' ? racePlan.targets.bike : racePlan.targets.run;
+    setRehearsalForm({ date, sport, duration, carbs_per_hour: t.carbs, fluid_per_hour: t.fluid, sodium_per_hour: t.sodium, gut_score: 4, notes: '' });
+  };
 
-  const weight = onboarding?.weight || 75;
-  const targetCalories = Math.round(weight * 35);
-  const targetProtein = Math.round(weight * 1.8);
-  const targetCarbs = Math.round(weight * 5);
-  const targetFat = Math.round(weight * 1);
+  const handleSaveRehearsal = async () => {
+    if (!rehearsalForm) return;
+    const ok = await onLogRehearsal({ ...rehearsalForm, user_id: '' });
+    if (ok) { showToast('Rehearsal logged', 'success'); setRehearsalForm(null); }
+    else showToast('Failed to save rehearsal', 'error');
+  };
 
   const handleGenerateMealPlan = async () => {
     setMealPlanLoading(true); setMealPlan(null);
     try {
+      const { data: { session } } = await supabase.auth.getSession();
       const response = await fetch('/api/coach', {
-        method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mode: 'nutrition', athleteContext: { onboarding, plan, recentSessions: trainingSessions.slice(0, 7), targetCalories, targetProtein, targetCarbs, targetFat } }),
+        method: 'POST', headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${session?.access_token}` },
+        body: JSON.stringify({ mode: 'nutrition', fuelling: todayFuelling, localDate: toLocalDate() }),
       });
       const data = await response.json();
       setMealPlan(data.message);
@@ -2287,13 +4465,70 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
     setMealPlanLoading(false);
   };
 
-  const handleAddMeal = () => {
-    if (!mealForm.food) return;
-    setTodayMeals([...todayMeals, { ...mealForm, id: Date.now().toString() }]);
-    setMealForm({ meal: 'Breakfast', food: '', calories: 0, protein: 0, carbs: 0, fat: 0 });
+  const selectFood = (food: FoodItem) => {
+    setSelectedFood(food); setFoodGrams(food.servings[0]?.grams || 100); setManualEntry(false);
+  };
+
+  const resetMealForm = () => {
+    setMealForm({ meal: mealForm.meal, food: '', calories: 0, protein: 0, carbs: 0, fat: 0 });
+    setSelectedFood(null); setFoodQuery(''); setBarcode(''); setManualEntry(false);
+  };
+
+  const lookupBarcode = (code: string) => {
+    const food = findFoodByBarcode(code);
+    if (food) { selectFood(food); setBarcode(''); }
+    else showToast(`No food found for barcode ${code} — search by name instead`, 'error');
+  };
+
+  const handleScanBarcode = async (file: File) => {
+    try {
+      const code = await scanBarcode(file);
+      setBarcode(code);
+      lookupBarcode(code);
+    } catch (err: any) { showToast(err.message, 'error'); }
+  };
+
+  const toggleFavourite = async (foodId: string) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    if (favouriteFoods.includes(foodId)) {
+      setFavouriteFoods(prev => prev.filter(id => id !== foodId));
+      await supabase.from('favourite_foods').delete().eq('user_id', user.id).eq('food_id', foodId);
+    } else {
+      setFavouriteFoods(prev => [...prev, foodId]);
+      await supabase.from('favourite_foods').insert({ user_id: user.id, food_id: foodId });
+    }
+  };
+
+  const handleAddMeal = async () => {
+    const entry: MealEntry = selectedFood
+      ? { meal: mealForm.meal, food: selectedFood.name, food_id: selectedFood.id, grams: foodGrams, ...macrosFor(selectedFood, foodGrams) }
+      : { ...mealForm, food_id: null, grams: null };
+    if (!entry.food) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+    const { data: inserted, error } = await supabase.from('meal_logs').insert({ ...entry, user_id: user.id, date: logDate }).select().single();
+    if (error || !inserted) { showToast('Failed to save meal', 'error'); return; }
+    setMealLog(prev => [...prev, inserted]);
+    resetMealForm();
     setShowAddMeal(false);
   };
 
+  const deleteMeal = async (mealId: string) => {
+    const index = mealLog.findIndex(m => m.id === mealId);
+    setMealLog(prev => prev.filter(m => m.id !== mealId));
+    const { error } = await supabase.from('meal_logs').delete().eq('id', mealId);
+    if (error && index >= 0) {
+      setMealLog(prev => [...prev.slice(0, index), mealLog[index], ...prev.slice(index)]);
+      showToast('Could not delete meal — please try again', 'error');
+    }
+  };
+
+  const shiftLogDate = (days: number) => {
+    const nextStr = addDays(logDate, days);
+    if (nextStr >= historyStart && nextStr <= today) setLogDate(nextStr);
+  };
+
   return (
     <div className="p-4 space-y-4">
       <div className="flex gap-2">
@@ -2312,14 +4547,80 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
           style={activeTab === 'log' ? { backgroundColor: '#FFCB00' } : {}}>
           <UtensilsCrossed size={14} /> Food Log
         </button>
+        <button onClick={() => setActiveTab('race')}
+          className={`flex-1 py-2 rounded-lg font-semibold text-sm flex items-center justify-center gap-1 ${activeTab === 'race' ? 'text-black' : 'bg-gray-200 text-gray-700'}`}
+          style={activeTab === 'race' ? { backgroundColor: '#FFCB00' } : {}}>
+          <Flag size={14} /> Race Fuel
+        </button>
       </div>
 
       {activeTab === 'habits' && (
+        <div className="flex gap-2">
+          {(['today', 'insights'] as const).map(view => (
+            <button key={view} onClick={() => setHabitView(view)}
+              className={`flex-1 py-1.5 rounded-lg text-xs font-semibold ${habitView === view ? 'bg-black text-white' : 'bg-white border text-gray-600'}`}>
+              {view === 'today' ? 'Today' : '📊 Insights'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {activeTab === 'habits' && habitView === 'insights' && (
+        <div className="space-y-3">
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-bold text-sm">12-Week Completion</h3>
+              <span className="text-xs text-gray-500">This week: {weeklyAdherence[11] ?? '–'}%</span>
+            </div>
+            <div className="flex gap-1">
+              {Array.from({ length: 12 }, (_, w) => (
+                <div key={w} className="flex-1 flex flex-col gap-1">
+                  {heatmapDays.slice(w * 7, w * 7 + 7).map(d => (
+                    <div key={d.date} title={`${d.date}: ${d.ratio === null ? 'nothing scheduled' : `${Math.round(d.ratio * 100)}%`}`}
+                      className="aspect-square rounded-sm"
+                      style={{ backgroundColor: d.ratio === null ? '#F3F4F6' : d.ratio === 0 ? '#E5E7EB' : `rgba(255, 203, 0, ${0.25 + d.ratio * 0.75})`, outline: d.date === today ? '1px solid #000' : 'none' }} />
+                  ))}
+                  <div className="text-center text-[10px] text-gray-500 mt-1">{weeklyAdherence[w] ?? '–'}</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-400 mt-2">Columns are weeks (Sun–Sat); the number under each is weekly adherence %. Unscheduled days don't count.</div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-4 pt-3 pb-2 font-bold text-sm">Streaks</div>
+            {habitStats.map(({ habit, current, best, adherence }) => (
+              <div key={habit.id} className="flex items-center gap-3 px-4 py-2 border-t">
+                <span className="text-xl">{habit.icon}</span>
+                <div className="flex-1">
+                  <div className="text-sm font-medium">{habit.name}</div>
+                  <div className="text-xs text-gray-500">{HABIT_SCHEDULES.find(o => o.value === (habit.schedule || 'daily'))?.label} • {adherence ?? '–'}% over 12 weeks</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm font-bold">🔥 {current}</div>
+                  <div className="text-xs text-gray-400">best {best}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4">
+            <h3 className="font-bold text-sm mb-2">Patterns</h3>
+            {habitHints.length > 0 ? habitHints.map(hint => (
+              <div key={hint} className="text-sm text-gray-700 py-1">💡 {hint}</div>
+            )) : (
+              <p className="text-xs text-gray-400">Log sleep and fatigue in Body metrics alongside your habits — patterns show up after about 10 days of each.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'habits' && habitView === 'today' && (
         <div className="space-y-3">
           <div className="bg-black text-white rounded-lg p-4">
             <div className="flex items-center justify-between mb-2">
               <h3 className="font-bold text-sm">Today's Habits</h3>
-              <span className="text-sm font-bold" style={{ color: '#FFCB00' }}>{completedCount}/{habits.length}</span>
+              <span className="text-sm font-bold" style={{ color: '#FFCB00' }}>{completedCount}/{scheduledToday.length}</span>
             </div>
             <div className="w-full bg-white bg-opacity-20 rounded-full h-3">
               <div className="rounded-full h-3 transition-all duration-500" style={{ width: `${habitProgress}%`, backgroundColor: '#FFCB00' }} />
@@ -2336,7 +4637,13 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
                   <Check size={16} />
                 </button>
                 <span className="text-xl">{habit.icon}</span>
-                <span className={`flex-1 text-sm font-medium ${habit.completed ? 'line-through text-gray-400' : 'text-gray-800'}`}>{habit.name}</span>
+                <div className="flex-1">
+                  <span className={`text-sm font-medium ${habit.completed ? 'line-through text-gray-400' : HabitEngine.isScheduled(habit, trainingDates) ? 'text-gray-800' : 'text-gray-400'}`}>{habit.name}</span>
+                  {!HabitEngine.isScheduled(habit, trainingDates) && <span className="text-xs text-gray-400"> • not scheduled today</span>}
+                </div>
+                <select value={habit.schedule || 'daily'} onChange={(e) => changeHabitSchedule(habit, e.target.value as HabitSchedule)} className="text-xs text-gray-500 bg-transparent">
+                  {HABIT_SCHEDULES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
                 <button onClick={() => deleteHabit(habit.id!)} className="text-gray-300 hover:text-red-400 p-1"><X size={14} /></button>
               </div>
             ))}
@@ -2361,6 +4668,9 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
                 placeholder="e.g. Drink 2L water, Take creatine..."
                 className="w-full p-3 border rounded-lg text-sm"
                 onKeyDown={(e) => e.key === 'Enter' && addHabit()} />
+              <select value={newHabitSchedule} onChange={(e) => setNewHabitSchedule(e.target.value as HabitSchedule)} className="w-full p-2 border rounded-lg text-sm">
+                {HABIT_SCHEDULES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
               <div className="flex gap-2">
                 <button onClick={() => setShowAddHabit(false)} className="flex-1 py-2 bg-gray-200 rounded-lg font-semibold text-sm">Cancel</button>
                 <button onClick={addHabit} className="flex-1 py-2 bg-black text-white rounded-lg font-semibold text-sm">Add</button>
@@ -2374,7 +4684,110 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
           )}
 
           <div className="rounded-lg p-3 text-xs" style={{ backgroundColor: '#FFFBCC', color: '#7A6000' }}>
-            💡 Habits reset daily. Your list carries over from yesterday — just tick them off each day.
+            💡 Habits reset daily. Your list carries over from yesterday — just tick them off each day. Habits outside their schedule don't count as misses.
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'race' && (
+        <div className="space-y-3">
+          <div className="bg-black text-white rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-bold text-sm">{onboarding.raceName || getRaceDistance(onboarding.raceDistance).label} Fuel Plan</h3>
+              <span className="text-xs opacity-70">{racePlan.targets.temperature}°C • {formatDuration(racePlan.raceMins)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-center">
+              {(['bike', 'run'] as const).filter(leg => raceLegs[leg].likely > 0).map(leg => (
+                <div key={leg} className="bg-white bg-opacity-10 rounded p-2">
+                  <div className="text-xs opacity-70 mb-1">{leg === 'bike' ? '🚴 Bike' : '🏃 Run'} per hour</div>
+                  <div className="text-sm font-bold">{racePlan.targets[leg].carbs}g carbs</div>
+                  <div className="text-xs">{racePlan.targets[leg].fluid}ml • {racePlan.targets[leg].sodium}mg Na</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs mt-2 opacity-70">
+              Total: {racePlan.totals.gels} gels{racePlan.totals.bottles > 0 ? `, ${racePlan.totals.bottles} bottles` : ''}{racePlan.totals.capsules > 0 ? `, ${racePlan.totals.capsules} salt capsules` : ''} • {racePlan.totals.carbs}g carbs, {(racePlan.totals.fluid / 1000).toFixed(1)}L, {racePlan.totals.sodium}mg sodium
+            </div>
+            {racePlan.targets.tolerated > 0 && <div className="text-xs mt-1" style={{ color: '#FFCB00' }}>Carb rate based on your best-tolerated rehearsal ({racePlan.targets.tolerated}g/h)</div>}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-bold">Race Timeline</h3>
+              <button onClick={() => printRaceFuelPlan(onboarding.raceName || getRaceDistance(onboarding.raceDistance).label, racePlan)}
+                className="px-3 py-1.5 text-black rounded-lg text-sm font-semibold hover:opacity-80" style={{ backgroundColor: '#FFCB00' }}>
+                Print checklist
+              </button>
+            </div>
+            {racePlan.items.map((item, i) => (
+              <div key={i} className="flex gap-3 py-1.5 border-b last:border-b-0 text-sm">
+                <span className="w-14 font-mono text-xs text-gray-500 pt-0.5">{formatRaceClock(item.at)}</span>
+                <span className="w-16 text-xs font-semibold text-gray-600 pt-0.5">{item.leg}</span>
+                <span className="flex-1">{item.action}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4">
+            <h3 className="font-bold mb-2">Rehearse in Training</h3>
+            <p className="text-xs text-gray-500 mb-3">Practise race intake on long sessions, then log how your gut coped. Comfortable higher rates raise your race-day carb target.</p>
+            {rehearsalSessions.map((s: PlannedSession) => {
+              const r = FuellingEngine.rehearsalFor(s, racePlan.targets);
+              return (
+                <div key={s.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg mb-2">
+                  <div className="flex-1">
+                    <div className="font-semibold text-sm">{formatRaceDate(s.date)} • {s.sport} {s.type} {s.duration}min</div>
+                    <div className="text-xs text-gray-500">{r.totalCarbs}g carbs ({r.gels} gels or equivalent) • {r.totalFluid}ml fluid</div>
+                  </div>
+                  <button onClick={() => openRehearsalForm(s.sport, s.duration, s.date)} className="text-xs px-2 py-1 bg-black text-white rounded font-semibold">Log</button>
+                </div>
+              );
+            })}
+            {!rehearsalForm && (
+              <button onClick={() => openRehearsalForm('Bike', 120)} className="w-full py-2 border rounded-lg text-sm font-semibold flex items-center justify-center gap-1"><Plus size={14} /> Log a rehearsal</button>
+            )}
+            {rehearsalForm && (
+              <div className="space-y-3 border-t pt-3 mt-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <div><label className="block text-xs font-medium mb-1">Date</label><input type="date" value={rehearsalForm.date} max={today} onChange={(e) => setRehearsalForm({ ...rehearsalForm, date: e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+                  <div><label className="block text-xs font-medium mb-1">Sport</label>
+                    <select value={rehearsalForm.sport} onChange={(e) => setRehearsalForm({ ...rehearsalForm, sport: e.target.value })} className="w-full p-2 border rounded-lg text-sm"><option>Bike</option><option>Run</option></select>
+                  </div>
+                  <div><label className="block text-xs font-medium mb-1">Minutes</label><input type="number" value={rehearsalForm.duration || ''} onChange={(e) => setRehearsalForm({ ...rehearsalForm, duration: +e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div><label className="block text-xs font-medium mb-1">Carbs g/h</label><input type="number" value={rehearsalForm.carbs_per_hour || ''} onChange={(e) => setRehearsalForm({ ...rehearsalForm, carbs_per_hour: +e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+                  <div><label className="block text-xs font-medium mb-1">Fluid ml/h</label><input type="number" value={rehearsalForm.fluid_per_hour || ''} onChange={(e) => setRehearsalForm({ ...rehearsalForm, fluid_per_hour: +e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+                  <div><label className="block text-xs font-medium mb-1">Sodium mg/h</label><input type="number" value={rehearsalForm.sodium_per_hour || ''} onChange={(e) => setRehearsalForm({ ...rehearsalForm, sodium_per_hour: +e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium mb-1">Gut comfort</label>
+                  <div className="flex gap-1">
+                    {[{ v: 1, l: '😖' }, { v: 2, l: '😣' }, { v: 3, l: '😐' }, { v: 4, l: '🙂' }, { v: 5, l: '😄' }].map(o => (
+                      <button key={o.v} onClick={() => setRehearsalForm({ ...rehearsalForm, gut_score: o.v })}
+                        className={`flex-1 py-2 rounded-lg text-lg ${rehearsalForm.gut_score === o.v ? '' : 'bg-gray-100'}`}
+                        style={rehearsalForm.gut_score === o.v ? { backgroundColor: '#FFCB00' } : {}}>{o.l}</button>
+                    ))}
+                  </div>
+                </div>
+                <input type="text" value={rehearsalForm.notes} onChange={(e) => setRehearsalForm({ ...rehearsalForm, notes: e.target.value })} className="w-full p-2 border rounded-lg text-sm" placeholder="Symptoms, products used..." />
+                <div className="flex gap-2">
+                  <button onClick={() => setRehearsalForm(null)} className="flex-1 py-2 border rounded-lg font-semibold text-sm">Cancel</button>
+                  <button onClick={handleSaveRehearsal} className="flex-1 py-2 bg-black text-white rounded-lg font-semibold text-sm">Save</button>
+                </div>
+              </div>
+            )}
+            {fuelRehearsals.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs font-semibold text-gray-500 uppercase mb-1">History</div>
+                {fuelRehearsals.slice(0, 8).map((r: FuelRehearsal) => (
+                  <div key={r.id} className="flex items-center justify-between py-1.5 border-b last:border-b-0 text-sm">
+                    <span>{formatRaceDate(r.date)} • {r.sport} {r.duration}min</span>
+                    <span className="text-xs text-gray-600">{r.carbs_per_hour}g/h • {r.fluid_per_hour}ml/h • gut {r.gut_score}/5</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -2382,15 +4795,35 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
       {activeTab === 'plan' && (
         <div className="space-y-3">
           <div className="bg-black text-white rounded-lg p-4">
-            <h3 className="font-bold text-sm mb-2">Daily Nutrition Targets</h3>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-bold text-sm">Today's Fuelling Targets</h3>
+              <span className="text-xs px-2 py-0.5 rounded-full font-semibold text-black" style={{ backgroundColor: '#FFCB00' }}>{todayFuelling.dayType} day</span>
+            </div>
             <div className="grid grid-cols-4 gap-2 text-center">
-              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{targetCalories}</div><div className="text-xs opacity-70">kcal</div></div>
-              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{targetProtein}g</div><div className="text-xs opacity-70">Protein</div></div>
-              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{targetCarbs}g</div><div className="text-xs opacity-70">Carbs</div></div>
-              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{targetFat}g</div><div className="text-xs opacity-70">Fat</div></div>
+              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{todayFuelling.calories}</div><div className="text-xs opacity-70">kcal</div></div>
+              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{todayFuelling.protein}g</div><div className="text-xs opacity-70">Protein</div></div>
+              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{todayFuelling.carbs}g</div><div className="text-xs opacity-70">Carbs</div></div>
+              <div className="bg-white bg-opacity-10 rounded p-2"><div className="text-lg font-bold">{todayFuelling.fat}g</div><div className="text-xs opacity-70">Fat</div></div>
+            </div>
+            <div className="text-xs mt-2 opacity-70">
+              {todayFuelling.sessions.length > 0
+                ? `${todayFuelling.trainingMinutes}min training (${todayFuelling.sessions.map(s => s.sport).join(', ')}) ≈ ${todayFuelling.exerciseKcal} kcal`
+                : 'Rest day — carbs dialled down, protein held for recovery'}
+              {' • '}{todayFuelling.weight}kg{todayFuelling.weightSource === 'default' ? ' (default — log your weight for accurate targets)' : todayFuelling.weightSource === 'profile' ? ' (profile)' : ''}
             </div>
           </div>
 
+          {todayFuelling.guidance.map(g => (
+            <div key={g.session} className="bg-white rounded-lg shadow p-4">
+              <h3 className="font-bold text-sm mb-2">⚡ Fuelling: {g.session}</h3>
+              <div className="space-y-1 text-sm">
+                <div><span className="font-semibold">Before:</span> <span className="text-gray-700">{g.pre}</span></div>
+                <div><span className="font-semibold">During:</span> <span className="text-gray-700">{g.during}</span></div>
+                <div><span className="font-semibold">After:</span> <span className="text-gray-700">{g.post}</span></div>
+              </div>
+            </div>
+          ))}
+
           <div className="bg-white rounded-lg shadow p-4">
             <div className="flex items-center justify-between mb-3">
               <h3 className="font-bold text-lg flex items-center gap-2"><UtensilsCrossed size={20} style={{ color: '#FFCB00' }} /> AI Meal Plan</h3>
@@ -2430,8 +4863,17 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
 
       {activeTab === 'log' && (
         <div className="space-y-3">
+          <div className="bg-white rounded-lg shadow p-3 flex items-center justify-between">
+            <button onClick={() => shiftLogDate(-1)} disabled={logDate <= historyStart} className="p-1 disabled:opacity-30"><ChevronLeft size={20} /></button>
+            <span className="font-semibold text-sm">{logDate === today ? 'Today' : formatRaceDate(logDate)}</span>
+            <button onClick={() => shiftLogDate(1)} disabled={logDate >= today} className="p-1 disabled:opacity-30"><ChevronRight size={20} /></button>
+          </div>
+
           <div className="bg-white rounded-lg shadow p-4">
-            <h3 className="font-bold text-lg mb-3">Today's Intake</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-bold text-lg">{logDate === today ? "Today's Intake" : 'Intake'}</h3>
+              <span className="text-xs text-gray-500">{fuelling.dayType} day targets</span>
+            </div>
             <div className="grid grid-cols-4 gap-2 mb-3">
               {[
                 { label: 'Calories', value: totalCals, target: targetCalories, color: '#FFCB00', textColor: '#7A6000' },
@@ -2460,16 +4902,16 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
                 <Plus size={14} /> Add Meal
               </button>
             </div>
-            {todayMeals.length === 0 && !showAddMeal && (
-              <p className="text-gray-400 text-sm text-center py-4">No meals logged today. Tap "Add Meal" to start tracking.</p>
+            {dayMeals.length === 0 && !showAddMeal && (
+              <p className="text-gray-400 text-sm text-center py-4">No meals logged {logDate === today ? 'today' : 'on this day'}. Tap "Add Meal" to start tracking.</p>
             )}
-            {todayMeals.map((meal) => (
+            {dayMeals.map((meal) => (
               <div key={meal.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg mb-2">
                 <div className="flex-1">
-                  <div className="font-semibold text-sm">{meal.food}</div>
-                  <div className="text-xs text-gray-500">{meal.meal} • {meal.calories} kcal • P:{meal.protein}g C:{meal.carbs}g F:{meal.fat}g</div>
+                  <div className="font-semibold text-sm">{meal.food}{meal.grams ? <span className="text-xs text-gray-400 font-normal"> • {meal.grams}g</span> : null}</div>
+                  <div className="text-xs text-gray-500">{meal.meal} • {Math.round(meal.calories)} kcal • P:{Math.round(meal.protein)}g C:{Math.round(meal.carbs)}g F:{Math.round(meal.fat)}g</div>
                 </div>
-                <button onClick={() => setTodayMeals(todayMeals.filter(m => m.id !== meal.id))} className="text-red-400 hover:text-red-600"><X size={16} /></button>
+                <button onClick={() => deleteMeal(meal.id!)} className="text-red-400 hover:text-red-600"><X size={16} /></button>
               </div>
             ))}
           </div>
@@ -2482,21 +4924,113 @@ const NutritionScreen = ({ onboarding, plan, trainingSessions }: any) => {
                   <option>Breakfast</option><option>Snack AM</option><option>Lunch</option><option>Snack PM</option><option>Dinner</option><option>Post-Workout</option>
                 </select>
               </div>
-              <div><label className="block text-sm font-medium mb-1">Food</label><input type="text" value={mealForm.food} onChange={(e) => setMealForm({ ...mealForm, food: e.target.value })} className="w-full p-3 border rounded-lg" placeholder="e.g. Chicken rice bowl" /></div>
-              <div className="grid grid-cols-2 gap-3">
-                <div><label className="block text-sm font-medium mb-1">Calories</label><input type="number" value={mealForm.calories || ''} onChange={(e) => setMealForm({ ...mealForm, calories: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
-                <div><label className="block text-sm font-medium mb-1">Protein (g)</label><input type="number" value={mealForm.protein || ''} onChange={(e) => setMealForm({ ...mealForm, protein: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
-              </div>
-              <div className="grid grid-cols-2 gap-3">
-                <div><label className="block text-sm font-medium mb-1">Carbs (g)</label><input type="number" value={mealForm.carbs || ''} onChange={(e) => setMealForm({ ...mealForm, carbs: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
-                <div><label className="block text-sm font-medium mb-1">Fat (g)</label><input type="number" value={mealForm.fat || ''} onChange={(e) => setMealForm({ ...mealForm, fat: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
-              </div>
+
+              {!manualEntry && !selectedFood && (
+                <>
+                  <div className="relative">
+                    <Search size={16} className="absolute left-3 top-3.5 text-gray-400" />
+                    <input type="text" value={foodQuery} onChange={(e) => setFoodQuery(e.target.value)} className="w-full p-3 pl-9 border rounded-lg" placeholder="Search foods" />
+                  </div>
+                  <div className="flex gap-2">
+                    <input type="text" inputMode="numeric" value={barcode} onChange={(e) => setBarcode(e.target.value)} className="flex-1 p-2 border rounded-lg text-sm" placeholder="Barcode number"
+                      onKeyDown={(e) => e.key === 'Enter' && barcode && lookupBarcode(barcode)} />
+                    <button onClick={() => barcode && lookupBarcode(barcode)} className="px-3 py-2 bg-gray-200 rounded-lg text-sm font-semibold">Find</button>
+                    <label className="px-3 py-2 bg-gray-200 rounded-lg cursor-pointer flex items-center">
+                      <Camera size={16} />
+                      <input type="file" accept="image/*" capture="environment" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleScanBarcode(file); e.target.value = ''; }} />
+                    </label>
+                  </div>
+                  {(foodQuery ? [{ title: 'Results', foods: foodResults }] : [{ title: 'Favourites', foods: favourites }, { title: 'Recent', foods: recentFoods }]).filter(g => g.foods.length > 0 || foodQuery).map(group => (
+                    <div key={group.title}>
+                      <div className="text-xs font-semibold text-gray-500 uppercase mb-1">{group.title}</div>
+                      {group.foods.length === 0 && <p className="text-sm text-gray-400 py-2">No matches — try another search or enter it manually.</p>}
+                      {group.foods.map(food => (
+                        <div key={food.id} className="flex items-center gap-2 py-2 border-b last:border-b-0">
+                          <button onClick={() => selectFood(food)} className="flex-1 text-left">
+                            <div className="text-sm font-medium">{food.name}</div>
+                            <div className="text-xs text-gray-500">{food.kcal} kcal • P:{food.protein}g C:{food.carbs}g F:{food.fat}g per 100g</div>
+                          </button>
+                          <button onClick={() => toggleFavourite(food.id)} className="p-1">
+                            <Star size={16} className={favouriteFoods.includes(food.id) ? 'text-yellow-500' : 'text-gray-300'} fill={favouriteFoods.includes(food.id) ? '#FFCB00' : 'none'} />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                  <button onClick={() => setManualEntry(true)} className="text-sm text-gray-500 underline">Enter food manually</button>
+                </>
+              )}
+
+              {selectedFood && (
+                <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="font-semibold">{selectedFood.name}</div>
+                    <div className="flex items-center gap-1">
+                      <button onClick={() => toggleFavourite(selectedFood.id)} className="p-1">
+                        <Star size={16} className={favouriteFoods.includes(selectedFood.id) ? 'text-yellow-500' : 'text-gray-300'} fill={favouriteFoods.includes(selectedFood.id) ? '#FFCB00' : 'none'} />
+                      </button>
+                      <button onClick={() => setSelectedFood(null)} className="p-1 text-gray-400"><X size={16} /></button>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-wrap">
+                    {selectedFood.servings.map(sv => (
+                      <button key={sv.label} onClick={() => setFoodGrams(sv.grams)}
+                        className={`px-3 py-1 rounded-full text-xs font-semibold ${foodGrams === sv.grams ? 'text-black' : 'bg-gray-200 text-gray-700'}`}
+                        style={foodGrams === sv.grams ? { backgroundColor: '#FFCB00' } : {}}>
+                        {sv.label} ({sv.grams}g)
+                      </button>
+                    ))}
+                  </div>
+                  <div><label className="block text-sm font-medium mb-1">Amount (g)</label><input type="number" value={foodGrams || ''} onChange={(e) => setFoodGrams(+e.target.value)} className="w-full p-3 border rounded-lg" /></div>
+                  {(() => {
+                    const m = macrosFor(selectedFood, foodGrams);
+                    return <div className="text-sm text-gray-600">{m.calories} kcal • P:{m.protein}g C:{m.carbs}g F:{m.fat}g</div>;
+                  })()}
+                </div>
+              )}
+
+              {manualEntry && (
+                <>
+                  <div><label className="block text-sm font-medium mb-1">Food</label><input type="text" value={mealForm.food} onChange={(e) => setMealForm({ ...mealForm, food: e.target.value })} className="w-full p-3 border rounded-lg" placeholder="e.g. Chicken rice bowl" /></div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div><label className="block text-sm font-medium mb-1">Calories</label><input type="number" value={mealForm.calories || ''} onChange={(e) => setMealForm({ ...mealForm, calories: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+                    <div><label className="block text-sm font-medium mb-1">Protein (g)</label><input type="number" value={mealForm.protein || ''} onChange={(e) => setMealForm({ ...mealForm, protein: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div><label className="block text-sm font-medium mb-1">Carbs (g)</label><input type="number" value={mealForm.carbs || ''} onChange={(e) => setMealForm({ ...mealForm, carbs: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+                    <div><label className="block text-sm font-medium mb-1">Fat (g)</label><input type="number" value={mealForm.fat || ''} onChange={(e) => setMealForm({ ...mealForm, fat: +e.target.value })} className="w-full p-3 border rounded-lg" /></div>
+                  </div>
+                  <button onClick={() => setManualEntry(false)} className="text-sm text-gray-500 underline">Search the food database instead</button>
+                </>
+              )}
+
               <div className="flex gap-2">
-                <button onClick={() => setShowAddMeal(false)} className="flex-1 py-2 border rounded-lg font-semibold">Cancel</button>
-                <button onClick={handleAddMeal} className="flex-1 py-2 bg-black text-white rounded-lg font-semibold">Add</button>
+                <button onClick={() => { resetMealForm(); setShowAddMeal(false); }} className="flex-1 py-2 border rounded-lg font-semibold">Cancel</button>
+                <button onClick={handleAddMeal} disabled={!selectedFood && !(manualEntry && mealForm.food)} className="flex-1 py-2 bg-black text-white rounded-lg font-semibold disabled:opacity-40">Add</button>
               </div>
             </div>
           )}
+
+          <div className="bg-white rounded-lg shadow p-4">
+            <h3 className="font-bold mb-3">Last 14 Days</h3>
+            <div className="flex items-end gap-1 h-24">
+              {intakeHistory.map(d => (
+                <button key={d.date} onClick={() => setLogDate(d.date)} className="flex-1 h-full flex items-end relative" title={`${d.date}: ${d.calories} / ${d.targetCalories} kcal, ${d.protein}g protein`}>
+                  <div className="absolute left-0 right-0 border-t-2 border-gray-400" style={{ bottom: `${(d.targetCalories / historyMax) * 100}%` }} />
+                  <div className="w-full rounded-t" style={{ height: `${(d.calories / historyMax) * 100}%`, backgroundColor: d.date === logDate ? '#000' : '#FFCB00' }} />
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-gray-400 mt-1">Bars show intake; grey ticks show that day's target.</div>
+            {loggedDays.length > 0 ? (
+              <div className="grid grid-cols-2 gap-2 mt-3 text-center">
+                <div className="bg-gray-50 rounded p-2"><div className="font-bold">{Math.round(loggedDays.reduce((s, d) => s + d.calories, 0) / loggedDays.length)}</div><div className="text-xs text-gray-500">avg kcal / {Math.round(loggedDays.reduce((s, d) => s + d.targetCalories, 0) / loggedDays.length)}</div></div>
+                <div className="bg-gray-50 rounded p-2"><div className="font-bold">{Math.round(loggedDays.reduce((s, d) => s + d.protein, 0) / loggedDays.length)}g</div><div className="text-xs text-gray-500">avg protein / {Math.round(loggedDays.reduce((s, d) => s + d.targetProtein, 0) / loggedDays.length)}g</div></div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400 mt-2">Averages appear once you've logged a few days.</p>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -2598,11 +5132,16 @@ interface GymExercise {
   id: string;
   slug: string;
   name: string;
-  day_type: 'Push' | 'Pull' | 'Legs';
+  day_type: string;
   primary_muscle: string;
   secondary_muscles: string[];
   equipment: string[];
   sort_order: number;
+  user_id?: string | null; // null for the shared catalogue
+  unilateral?: boolean;
+  bodyweight?: boolean;
+  archived?: boolean;
+  image_url?: string | null;
 }
 
 interface GymSet {
@@ -2613,9 +5152,31 @@ interface GymSet {
   reps: number;
   rpe?: number;
   is_warmup: boolean;
+  set_type?: GymSetType;
+  duration_seconds?: number;
   notes?: string;
 }
 
+type GymSetType = 'normal' | 'warmup' | 'drop' | 'amrap' | 'cluster' | 'timed';
+
+// tonnage: counts toward kg volume; hardSet: credit toward weekly muscle sets;
+// strength: a straight effort used for targets, e1RM and PRs
+const SET_TYPES: Record<GymSetType, { label: string; short: string; color: string; tonnage: boolean; hardSet: number; strength: boolean }> = {
+  normal: { label: 'Working set', short: '', color: 'text-gray-400', tonnage: true, hardSet: 1, strength: true },
+  warmup: { label: 'Warm-up', short: 'W', color: 'text-amber-500', tonnage: false, hardSet: 0, strength: false },
+  drop: { label: 'Drop set', short: 'D', color: 'text-purple-500', tonnage: true, hardSet: 0.5, strength: false },
+  amrap: { label: 'AMRAP', short: 'A', color: 'text-red-500', tonnage: true, hardSet: 1, strength: true },
+  cluster: { label: 'Cluster', short: 'C', color: 'text-blue-500', tonnage: true, hardSet: 1, strength: false },
+  timed: { label: 'Timed hold', short: 'T', color: 'text-green-600', tonnage: false, hardSet: 1, strength: false },
+};
+const SET_TYPE_ORDER: GymSetType[] = ['normal', 'warmup', 'drop', 'amrap', 'cluster', 'timed'];
+
+// Sets logged before set types existed only carry the warm-up flag
+const setTypeOf = (set: GymSet): GymSetType => set.set_type || (set.is_warmup ? 'warmup' : 'normal');
+
+const SUPERSET_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+const REST_OPTIONS = [30, 45, 60, 90, 120, 150, 180, 240];
+
 interface GymExerciseEntry {
   id?: string;
   session_id?: string;
@@ -2623,15 +5184,27 @@ interface GymExerciseEntry {
   exercise?: GymExercise;
   order_index: number;
   notes?: string;
+  rest_seconds?: number | null;
+  superset_group?: string | null;
   sets: GymSet[];
   lastSession?: { date: string; sets: GymSet[] };
+  target?: OverloadTarget;
+  records?: StrengthRecords;
+}
+
+interface OverloadTarget {
+  weight: number;
+  reps: number;
+  sets: number;
+  reason: 'reps' | 'weight' | 'deload';
+  note: string;
 }
 
 interface GymSession {
   id?: string;
   user_id?: string;
   date: string;
-  day_type: 'Push' | 'Pull' | 'Legs';
+  day_type: string;
   notes?: string;
   duration_minutes?: number;
   started_at?: string;
@@ -2639,20 +5212,399 @@ interface GymSession {
   entries?: GymExerciseEntry[];
 }
 
+// What a finished workout contributes to weekly totals and training load
+interface GymSessionSummary {
+  duration: number; // minutes
+  volume: number; // kg
+  workingSets: number;
+  rpe: number;
+}
+
 interface GymTemplate {
   id: string;
   name: string;
-  day_type: 'Push' | 'Pull' | 'Legs';
+  day_type: string;
   exercises: { exercise_id: string; order_index: number }[];
 }
 
+// ============================================================================
+// EXERCISE LIBRARY
+// ============================================================================
+
+const MUSCLE_GROUPS = ['Chest', 'Upper Chest', 'Shoulders', 'Lateral Deltoid', 'Rear Deltoid', 'Triceps', 'Biceps', 'Forearms', 'Lats', 'Middle Back', 'Lower Back', 'Core', 'Quadriceps', 'Hamstrings', 'Glutes', 'Calves'];
+const EQUIPMENT_TYPES = ['Barbell', 'Dumbbells', 'Kettlebell', 'Cable Machine', 'Machine', 'Smith Machine', 'Leg Press Machine', 'Bench', 'Rack', 'Pull-Up Bar', 'Resistance Band', 'Bodyweight'];
+const EXERCISE_CATEGORIES = ['Push', 'Pull', 'Legs', 'Core', 'Full Body'];
+
+// The catalogue mixes "Dumbbell"/"Dumbbells" and "Cable"/"Cable Machine", so compare loosely
+const equipmentKey = (item: string) => item.toLowerCase().replace(/ machine$/, '').replace(/s$/, '');
+
+const ExerciseLibrary = {
+  missingEquipment: (exercise: GymExercise, unavailable: string[]) => {
+    const blocked = unavailable.map(equipmentKey);
+    return (exercise.equipment || []).filter(item => equipmentKey(item) !== 'bodyweight' && blocked.includes(equipmentKey(item)));
+  },
+
+  isAvailable: (exercise: GymExercise, unavailable: string[]) => {
+    return ExerciseLibrary.missingEquipment(exercise, unavailable).length === 0;
+  },
+
+  // Same primary muscle first, then shared secondaries, category and unilateral match
+  substitutes: (exercise: GymExercise, library: GymExercise[], unavailable: string[], limit = 3) => {
+    return library
+      .filter(e => e.id !== exercise.id && !e.archived && ExerciseLibrary.isAvailable(e, unavailable))
+      .map(e => ({
+        exercise: e,
+        score: (e.primary_muscle === exercise.primary_muscle ? 3 : (exercise.secondary_muscles || []).includes(e.primary_muscle) ? 1 : 0)
+          + (e.secondary_muscles || []).filter(m => (exercise.secondary_muscles || []).includes(m)).length * 0.5
+          + (e.day_type === exercise.day_type ? 0.5 : 0)
+          + (!!e.unilateral === !!exercise.unilateral ? 0.25 : 0),
+      }))
+      .filter(c => c.score >= 3)
+      .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+      .slice(0, limit)
+      .map(c => c.exercise);
+  },
+};
+
+// ============================================================================
+// OVERLOAD ENGINE
+// ============================================================================
+
+// Double progression: add reps inside the range until every working set reaches the top,
+// then add weight and drop back to the bottom. Two missed sessions in a row trigger a deload.
+const OVERLOAD_RULES = {
+  compound: { minReps: 6, maxReps: 8, increment: 2.5, repStep: 1, restSeconds: 150 },
+  isolation: { minReps: 10, maxReps: 15, increment: 1, repStep: 2, restSeconds: 90 },
+};
+const OVERLOAD_COMPOUND_PATTERN = /squat|deadlift|bench|row|pull-?up|chin-?up|\bdips?\b|lunge|hip thrust|(overhead|shoulder|military|leg|chest|incline|decline) press/i;
+const OVERLOAD_DELOAD_AFTER = 2;
+const OVERLOAD_DELOAD_FACTOR = 0.9;
+const GYM_HISTORY_LIMIT = 50; // recent sessions per exercise loaded for overload targets; records are all-time
+
+const OverloadEngine = {
+  HISTORY_SESSIONS: 6,
+
+  isCompound: (exercise?: GymExercise) => {
+    return OVERLOAD_COMPOUND_PATTERN.test(exercise?.name || '');
+  },
+
+  // A programme prescription overrides the default rep range
+  rule: (exercise?: GymExercise, prescription?: GymPrescription) => {
+    const base = OverloadEngine.isCompound(exercise) ? OVERLOAD_RULES.compound : OVERLOAD_RULES.isolation;
+    return prescription ? { ...base, minReps: prescription.minReps, maxReps: prescription.maxReps } : base;
+  },
+
+  round: (kg: number, exercise?: GymExercise) => {
+    const { increment } = OverloadEngine.rule(exercise);
+    return Math.round(kg / increment) * increment;
+  },
+
+  workingSets: (sets: GymSet[]) => {
+    return sets.filter(s => SET_TYPES[setTypeOf(s)].strength && s.weight > 0 && s.reps > 0);
+  },
+
+  setHit: (set: GymSet, target?: OverloadTarget): boolean | null => {
+    if (!target || !SET_TYPES[setTypeOf(set)].strength || !set.reps) return null;
+    return set.weight >= target.weight && set.reps >= target.reps;
+  },
+
+  sessionHit: (sets: GymSet[], target: OverloadTarget) => {
+    return OverloadEngine.workingSets(sets).filter(s => OverloadEngine.setHit(s, target)).length >= target.sets;
+  },
+
+  progress: (sets: GymSet[], exercise: GymExercise | undefined, misses: number, prescription?: GymPrescription): OverloadTarget => {
+    const rule = OverloadEngine.rule(exercise, prescription);
+    const top = Math.max(...sets.map(s => s.weight));
+    const atTop = sets.filter(s => s.weight === top);
+    const count = prescription?.sets || sets.length;
+
+    if (misses >= OVERLOAD_DELOAD_AFTER) {
+      const weight = OverloadEngine.round(top * OVERLOAD_DELOAD_FACTOR, exercise);
+      return { weight, reps: rule.minReps, sets: count, reason: 'deload', note: `Missed ${misses} sessions in a row — deload to ${weight}kg and rebuild` };
+    }
+    const lowest = Math.min(...atTop.map(s => s.reps));
+    if (lowest >= rule.maxReps) {
+      const weight = top + rule.increment;
+      return { weight, reps: rule.minReps, sets: count, reason: 'weight', note: `All sets hit ${rule.maxReps} reps — add ${rule.increment}kg` };
+    }
+    // Isolations move faster through the range when the last set felt easy
+    const easy = atTop.every(s => s.rpe && s.rpe <= 7);
+    const reps = Math.min(rule.maxReps, lowest + (easy ? rule.repStep : 1));
+    return { weight: top, reps, sets: count, reason: 'reps', note: `Same weight — build to ${reps} reps (top of range ${rule.maxReps})` };
+  },
+
+  // History is newest first, as returned by the gym session queries
+  nextTarget: (exercise: GymExercise | undefined, history: { date: string; sets: GymSet[] }[], prescription?: GymPrescription): OverloadTarget | undefined => {
+    const sessions = history.map(h => OverloadEngine.workingSets(h.sets)).filter(s => s.length > 0).reverse();
+    let target: OverloadTarget | undefined;
+    let misses = 0;
+    for (const sets of sessions) {
+      if (target) misses = OverloadEngine.sessionHit(sets, target) ? 0 : misses + 1;
+      target = OverloadEngine.progress(sets, exercise, misses, prescription);
+      if (target.reason === 'deload') misses = 0;
+    }
+    return target;
+  },
+};
+
+// ============================================================================
+// STRENGTH ENGINE
+// ============================================================================
+
+interface StrengthRecords {
+  e1rm: number;
+  reps: Record<number, number>; // best weight lifted for at least N reps
+}
+
+interface StrengthLogEntry {
+  exercise_id: string;
+  date: string;
+  sets: GymSet[];
+}
+
+const PR_REP_TARGETS = [1, 3, 5, 10];
+const SECONDARY_MUSCLE_CREDIT = 0.5;
+const GYM_DEFAULT_RPE = 7; // session RPE when no set was rated
+
+const StrengthEngine = {
+  // Reps left in reserve from RPE are added before estimating; Brzycki up to 10 reps, Epley beyond
+  e1rm: (set: GymSet) => {
+    if (!SET_TYPES[setTypeOf(set)].strength || set.weight <= 0 || set.reps <= 0) return 0;
+    const reps = set.reps + (set.rpe ? Math.max(0, 10 - set.rpe) : 0);
+    if (reps === 1) return set.weight;
+    const estimate = reps <= 10 ? set.weight * 36 / (37 - reps) : set.weight * (1 + reps / 30);
+    return Math.round(estimate * 10) / 10;
+  },
+
+  records: (sets: GymSet[], base?: StrengthRecords): StrengthRecords => {
+    const result: StrengthRecords = { e1rm: base?.e1rm || 0, reps: { ...(base?.reps || {}) } };
+    sets.filter(s => SET_TYPES[setTypeOf(s)].strength && s.weight > 0 && s.reps > 0).forEach(s => {
+      result.e1rm = Math.max(result.e1rm, StrengthEngine.e1rm(s));
+      PR_REP_TARGETS.filter(n => s.reps >= n).forEach(n => { result.reps[n] = Math.max(result.reps[n] || 0, s.weight); });
+    });
+    return result;
+  },
+
+  // Labels for every record the set beats; empty when there is nothing to compare against
+  newRecords: (set: GymSet, previous?: StrengthRecords) => {
+    if (!previous || !SET_TYPES[setTypeOf(set)].strength || set.weight <= 0 || set.reps <= 0) return [];
+    const labels: string[] = [];
+    const e1rm = StrengthEngine.e1rm(set);
+    if (previous.e1rm > 0 && e1rm > previous.e1rm) labels.push(`e1RM ${e1rm}kg`);
+    PR_REP_TARGETS.filter(n => set.reps >= n && previous.reps[n] && set.weight > previous.reps[n]).forEach(n => labels.push(`${n}RM ${set.weight}kg`));
+    return labels;
+  },
+
+  // kg lifted; warm-ups and timed holds carry no tonnage
+  tonnage: (sets: GymSet[]) => {
+    return sets.filter(s => SET_TYPES[setTypeOf(s)].tonnage).reduce((sum, s) => sum + s.weight * s.reps, 0);
+  },
+
+  sessionSummary: (duration: number, sets: GymSet[]): GymSessionSummary => {
+    const working = sets.filter(s => SET_TYPES[setTypeOf(s)].hardSet > 0);
+    const rated = working.filter(s => s.rpe);
+    return {
+      duration,
+      volume: Math.round(StrengthEngine.tonnage(sets)),
+      workingSets: working.length,
+      rpe: rated.length > 0 ? Math.round(rated.reduce((sum, s) => sum + (s.rpe || 0), 0) / rated.length) : GYM_DEFAULT_RPE,
+    };
+  },
+
+  e1rmSeries: (log: StrengthLogEntry[], exerciseId: string) => {
+    const byDate: Record<string, number> = {};
+    log.filter(l => l.exercise_id === exerciseId).forEach(l => {
+      const best = Math.max(0, ...l.sets.map(s => StrengthEngine.e1rm(s)));
+      if (best > 0) byDate[l.date] = Math.max(byDate[l.date] || 0, best);
+    });
+    return Object.entries(byDate).sort(([a], [b]) => a.localeCompare(b)).map(([date, e1rm]) => ({ date, e1rm }));
+  },
+
+  // Working sets per muscle for the last `weeks` Sunday-aligned weeks, oldest first
+  weeklyMuscleSets: (log: StrengthLogEntry[], exercises: GymExercise[], weeks = 8) => {
+    const start = new Date(); start.setHours(0, 0, 0, 0); start.setDate(start.getDate() - start.getDay() - (weeks - 1) * 7);
+    const volume: Record<string, number[]> = {};
+    const credit = (muscle: string, week: number, sets: number) => {
+      if (!volume[muscle]) volume[muscle] = new Array(weeks).fill(0);
+      volume[muscle][week] += sets;
+    };
+    log.forEach(l => {
+      const exercise = exercises.find(e => e.id === l.exercise_id);
+      const week = Math.floor((new Date(l.date + 'T00:00:00').getTime() - start.getTime()) / (7 * 86400000));
+      if (!exercise || week < 0 || week >= weeks) return;
+      const sets = l.sets.filter(s => s.reps > 0 || (s.duration_seconds || 0) > 0).reduce((sum, s) => sum + SET_TYPES[setTypeOf(s)].hardSet, 0);
+      if (sets === 0) return;
+      credit(exercise.primary_muscle, week, sets);
+      (exercise.secondary_muscles || []).forEach(m => credit(m, week, sets * SECONDARY_MUSCLE_CREDIT));
+    });
+    return Object.entries(volume).map(([muscle, perWeek]) => ({ muscle, perWeek })).sort((a, b) => b.perWeek[weeks - 1] - a.perWeek[weeks - 1] || a.muscle.localeCompare(b.muscle));
+  },
+};
+
+// ============================================================================
+// GYM PROGRAMMES
+// ============================================================================
+
+type GymProgression = 'double' | 'wave';
+
+interface GymPrescription {
+  exercise_id: string;
+  name: string;
+  sets: number;
+  minReps: number;
+  maxReps: number;
+}
+
+interface GymProgrammeDay {
+  name: string;
+  weekday: number; // 0 = Sunday
+  exercises: GymPrescription[];
+}
+
+interface GymProgramme {
+  id?: string;
+  user_id?: string;
+  name: string;
+  progression: GymProgression;
+  block_weeks: number; // the last week of each block is a deload
+  start_date: string;
+  days: GymProgrammeDay[];
+}
+
+const GYM_PROGRESSIONS: Record<GymProgression, { label: string; description: string }> = {
+  double: { label: 'Double progression', description: 'Add reps inside the range, then add weight' },
+  wave: { label: '5/3/1 wave', description: 'Main lifts run weekly 5s, 3s and 1s from a training max of 90% e1RM; accessories use double progression' },
+};
+
+// Top-set percentage of training max for each non-deload week of a wave block
+const WAVE_WEEKS = [{ reps: 5, pct: 0.85 }, { reps: 3, pct: 0.9 }, { reps: 1, pct: 0.95 }];
+const WAVE_DELOAD = { reps: 5, pct: 0.6 };
+const WAVE_TRAINING_MAX = 0.9;
+const PROGRAMME_DELOAD_VOLUME = 0.6;
+
+// Exercises are matched against the library by name, so presets survive library edits
+type PresetExercise = [keyword: string, sets: number, minReps: number, maxReps: number];
+
+const PROGRAMME_PRESETS: Record<string, { label: string; progression: GymProgression; blockWeeks: number; days: { name: string; weekday: number; exercises: PresetExercise[] }[] }> = {
+  ppl: {
+    label: 'Push / Pull / Legs', progression: 'double', blockWeeks: 4,
+    days: [
+      { name: 'Push', weekday: 1, exercises: [['bench press', 3, 6, 8], ['overhead press', 3, 6, 8], ['incline', 3, 8, 12], ['lateral raise', 3, 12, 15], ['pushdown', 3, 10, 15], ['overhead tricep', 2, 10, 15]] },
+      { name: 'Pull', weekday: 3, exercises: [['barbell row', 3, 6, 8], ['pull-up', 3, 6, 10], ['lat pulldown', 3, 8, 12], ['seated cable row', 3, 8, 12], ['face pull', 3, 12, 15], ['bicep curl', 3, 10, 15], ['hammer curl', 2, 10, 15]] },
+      { name: 'Legs', weekday: 5, exercises: [['squat', 3, 6, 8], ['leg press', 3, 8, 12], ['romanian', 3, 6, 10], ['leg curl', 3, 10, 15], ['leg extension', 3, 10, 15], ['calf raise', 3, 12, 15]] },
+    ],
+  },
+  upper_lower: {
+    label: 'Upper / Lower', progression: 'double', blockWeeks: 5,
+    days: [
+      { name: 'Upper A', weekday: 1, exercises: [['bench press', 4, 5, 8], ['barbell row', 4, 6, 8], ['lateral raise', 3, 12, 15], ['bicep curl', 3, 10, 12], ['pushdown', 3, 10, 12]] },
+      { name: 'Lower A', weekday: 2, exercises: [['squat', 4, 5, 8], ['romanian', 3, 8, 10], ['leg curl', 3, 10, 15], ['calf raise', 3, 12, 15]] },
+      { name: 'Upper B', weekday: 4, exercises: [['overhead press', 4, 6, 8], ['pull-up', 4, 6, 10], ['incline', 3, 8, 12], ['face pull', 3, 12, 15], ['hammer curl', 3, 10, 12]] },
+      { name: 'Lower B', weekday: 5, exercises: [['leg press', 4, 8, 12], ['lunge', 3, 8, 12], ['leg extension', 3, 10, 15], ['calf raise', 3, 12, 15]] },
+    ],
+  },
+  full_body: {
+    label: 'Full Body', progression: 'double', blockWeeks: 4,
+    days: [
+      { name: 'Full Body A', weekday: 1, exercises: [['squat', 3, 6, 8], ['bench press', 3, 6, 8], ['barbell row', 3, 8, 10], ['lateral raise', 2, 12, 15]] },
+      { name: 'Full Body B', weekday: 3, exercises: [['romanian', 3, 6, 10], ['overhead press', 3, 6, 8], ['pull-up', 3, 6, 10], ['leg curl', 2, 10, 15]] },
+      { name: 'Full Body C', weekday: 5, exercises: [['leg press', 3, 8, 12], ['incline', 3, 8, 12], ['lat pulldown', 3, 8, 12], ['calf raise', 2, 12, 15]] },
+    ],
+  },
+  five_three_one: {
+    label: '5/3/1', progression: 'wave', blockWeeks: 4,
+    days: [
+      { name: 'Squat Day', weekday: 1, exercises: [['squat', 3, 1, 5], ['leg press', 3, 10, 12], ['leg curl', 3, 10, 15]] },
+      { name: 'Bench Day', weekday: 2, exercises: [['bench press', 3, 1, 5], ['barbell row', 3, 8, 12], ['pushdown', 3, 10, 15]] },
+      { name: 'Deadlift Day', weekday: 4, exercises: [['deadlift', 3, 1, 5], ['lunge', 3, 8, 12], ['calf raise', 3, 12, 15]] },
+      { name: 'Press Day', weekday: 5, exercises: [['overhead press', 3, 1, 5], ['pull-up', 3, 6, 10], ['face pull', 3, 12, 15]] },
+    ],
+  },
+  triathlon: {
+    label: 'Triathlon Strength', progression: 'double', blockWeeks: 4,
+    days: [
+      { name: 'Strength A', weekday: 2, exercises: [['squat', 3, 6, 8], ['romanian', 3, 8, 10], ['lunge', 2, 8, 12], ['pull-up', 3, 6, 10], ['calf raise', 3, 12, 15]] },
+      { name: 'Strength B', weekday: 5, exercises: [['leg press', 3, 8, 12], ['barbell row', 3, 8, 10], ['face pull', 3, 12, 15], ['overhead press', 3, 6, 8], ['leg curl', 2, 10, 15]] },
+    ],
+  },
+};
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ProgrammeEngine = {
+  fromPreset: (key: string, library: GymExercise[]): GymProgramme => {
+    const preset = PROGRAMME_PRESETS[key];
+    const used = new Set<string>();
+    const resolve = ([keyword, sets, minReps, maxReps]: PresetExercise): GymPrescription | null => {
+      const exercise = library.find(e => !used.has(e.id) && e.name.toLowerCase().includes(keyword));
+      if (!exercise) return null;
+      used.add(exercise.id);
+      return { exercise_id: exercise.id, name: exercise.name, sets, minReps, maxReps };
+    };
+    return {
+      name: preset.label, progression: preset.progression, block_weeks: preset.blockWeeks,
+      start_date: toLocalDate(),
+      days: preset.days.map(d => { used.clear(); return { name: d.name, weekday: d.weekday, exercises: d.exercises.map(resolve).filter((e): e is GymPrescription => e !== null) }; }),
+    };
+  },
+
+  // 1-based week within the current block
+  weekOfBlock: (programme: GymProgramme, date = new Date()) => {
+    const weeks = Math.floor((date.getTime() - new Date(programme.start_date + 'T00:00:00').getTime()) / (7 * 86400000));
+    return (Math.max(0, weeks) % Math.max(1, programme.block_weeks)) + 1;
+  },
+
+  isDeloadWeek: (programme: GymProgramme, date = new Date()) => {
+    return programme.block_weeks > 1 && ProgrammeEngine.weekOfBlock(programme, date) === programme.block_weeks;
+  },
+
+  prescriptionFor: (programme: GymProgramme | null | undefined, dayName: string, exerciseId: string) => {
+    return programme?.days.find(d => d.name === dayName)?.exercises.find(e => e.exercise_id === exerciseId);
+  },
+
+  // As in 5/3/1, each day's first exercise is its main lift; the rest are accessories
+  isMainLift: (programme: GymProgramme, prescription: GymPrescription) => {
+    return programme.days.some(d => d.exercises[0]?.exercise_id === prescription.exercise_id);
+  },
+
+  // The wave's training max comes from the all-time records, double progression from the recent history
+  target: (programme: GymProgramme, prescription: GymPrescription, exercise: GymExercise | undefined, history: { date: string; sets: GymSet[] }[], records?: StrengthRecords): OverloadTarget | undefined => {
+    const week = ProgrammeEngine.weekOfBlock(programme);
+    const deload = ProgrammeEngine.isDeloadWeek(programme);
+    if (programme.progression === 'wave' && ProgrammeEngine.isMainLift(programme, prescription)) {
+      const e1rm = records?.e1rm || 0;
+      if (e1rm <= 0) return undefined;
+      const trainingMax = Math.round(e1rm * WAVE_TRAINING_MAX);
+      const scheme = deload ? WAVE_DELOAD : WAVE_WEEKS[(week - 1) % WAVE_WEEKS.length];
+      const weight = OverloadEngine.round(trainingMax * scheme.pct, exercise);
+      return {
+        weight, reps: scheme.reps, sets: prescription.sets, reason: deload ? 'deload' : 'weight',
+        note: `Week ${week} — ${Math.round(scheme.pct * 100)}% of ${trainingMax}kg training max${deload ? ' (deload)' : ', last set as many reps as possible'}`,
+      };
+    }
+    const target = OverloadEngine.nextTarget(exercise, history.slice(0, OverloadEngine.HISTORY_SESSIONS), prescription);
+    if (!target || !deload) return target;
+    const weight = OverloadEngine.round(target.weight * OVERLOAD_DELOAD_FACTOR, exercise);
+    return { weight, reps: prescription.minReps, sets: Math.max(1, Math.round(prescription.sets * PROGRAMME_DELOAD_VOLUME)), reason: 'deload', note: `Programme deload week — fewer sets at ${weight}kg` };
+  },
+
+  // Planner slots, one per programme day
+  schedule: (programme: GymProgramme) => {
+    return programme.days.map(d => ({
+      day: d.weekday, sport: `Gym - ${d.name}`, type: d.name,
+      description: d.exercises.map(e => e.name).join(', ') || `${d.name} strength session`,
+    }));
+  },
+};
+
 const EXERCISE_IMG_BASE = 'https://tvpzjylyickdmeurthxe.supabase.co/storage/v1/object/public/exercise-images';
 
-const ExerciseImage = ({ exercise, size = 36 }: { exercise?: { slug?: string; day_type?: string; primary_muscle?: string }; size?: number }) => {
+const ExerciseImage = ({ exercise, size = 36 }: { exercise?: { slug?: string; day_type?: string; primary_muscle?: string; user_id?: string | null; image_url?: string | null }; size?: number }) => {
   const [failed, setFailed] = useState(false);
   const folder = exercise?.day_type?.toLowerCase() || '';
   const slug = exercise?.slug || '';
-  const url = slug && folder ? `${EXERCISE_IMG_BASE}/${folder}/${slug}.jpg` : '';
+  // Personal exercises only have an image if one was uploaded
+  const url = exercise?.image_url || (slug && folder && !exercise?.user_id ? `${EXERCISE_IMG_BASE}/${folder}/${slug}.jpg` : '');
 
   if (!url || failed) {
     const muscle = exercise?.primary_muscle || '';
@@ -2697,8 +5649,13 @@ const EquipmentBadge = ({ equipment }: { equipment: string | string[] }) => {
   );
 };
 
-const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
-  const [view, setView] = useState<'home' | 'workout' | 'history' | 'session-detail'>('home');
+const GymScreen = ({ supabase, user, programme, onSaveProgramme, unavailableEquipment, onUpdateUnavailableEquipment, onCompleteSession, onDeleteSession }: {
+  supabase: any; user: any; programme: GymProgramme | null; onSaveProgramme: (programme: GymProgramme) => Promise<boolean>;
+  unavailableEquipment: string[]; onUpdateUnavailableEquipment: (equipment: string[]) => Promise<void>;
+  onCompleteSession: (session: GymSession, summary: GymSessionSummary) => Promise<boolean>; onDeleteSession: (sessionId: string) => Promise<void>;
+}) => {
+  const { showToast } = useToast();
+  const [view, setView] = useState<'home' | 'workout' | 'history' | 'session-detail' | 'progress' | 'programme' | 'library'>('home');
   const [exercises, setExercises] = useState<GymExercise[]>([]);
   const [activeSession, setActiveSession] = useState<GymSession | null>(null);
   const [sessionEntries, setSessionEntries] = useState<GymExerciseEntry[]>([]);
@@ -2711,6 +5668,20 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
   const [viewingEntries, setViewingEntries] = useState<GymExerciseEntry[]>([]);
   const [sessionTimer, setSessionTimer] = useState(0);
   const [timerInterval, setTimerIntervalState] = useState<any>(null);
+  const [setRecords, setSetRecords] = useState<Record<string, string[]>>({});
+  const [celebration, setCelebration] = useState<{ exercise: string; labels: string[] } | null>(null);
+  const [strengthLog, setStrengthLog] = useState<StrengthLogEntry[]>([]);
+  const [progressExercise, setProgressExercise] = useState('');
+  const [programmeDraft, setProgrammeDraft] = useState<GymProgramme | null>(null);
+  const [restTimer, setRestTimer] = useState<{ exercise: string; endsAt: number; total: number } | null>(null);
+  const [doneSets, setDoneSets] = useState<Record<string, boolean>>({});
+  const [editingExercise, setEditingExercise] = useState<GymExercise | null>(null);
+  const [exerciseImage, setExerciseImage] = useState<File | null>(null);
+  const [savingExercise, setSavingExercise] = useState(false);
+  const [exerciseError, setExerciseError] = useState('');
+  const [libraryQuery, setLibraryQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [savingProgramme, setSavingProgramme] = useState(false);
 
   useEffect(() => { loadExercises(); loadPastSessions(); loadRecentSessions(); loadTemplates(); }, []);
 
@@ -2723,63 +5694,179 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
     return () => { if (timerInterval) clearInterval(timerInterval); };
   }, [activeSession]);
 
-  const loadExercises = async () => { const { data } = await supabase.from('gym_exercises').select('*').order('sort_order'); if (data) setExercises(data); };
+  // The session stopwatch ticks every second, which is enough to drive the rest countdown
+  useEffect(() => {
+    if (restTimer && Date.now() >= restTimer.endsAt) {
+      if (navigator.vibrate) navigator.vibrate([200, 100, 200]);
+      setRestTimer(null);
+    }
+  }, [sessionTimer]);
+
+  // Shared catalogue plus the athlete's own exercises; archived ones stay loaded so history still resolves
+  const loadExercises = async () => { const { data } = await supabase.from('gym_exercises').select('*').or(`user_id.is.null,user_id.eq.${user.id}`).order('sort_order'); if (data) setExercises(data); };
+  const activeExercises = exercises.filter(e => !e.archived);
   const loadPastSessions = async () => { const { data } = await supabase.from('gym_sessions').select('*').eq('user_id', user.id).not('completed_at', 'is', null).order('date', { ascending: false }).limit(50); if (data) setPastSessions(data); };
   const loadRecentSessions = async () => { const { data } = await supabase.from('gym_sessions').select('*').eq('user_id', user.id).is('completed_at', null).order('date', { ascending: false }).limit(10); if (data) setRecentSessions(data); };
+  const loadStrengthLog = async () => {
+    const { data } = await supabase.from('gym_exercise_entries').select('exercise_id, gym_sessions!inner(date, user_id, completed_at), gym_sets(*)').eq('gym_sessions.user_id', user.id).not('gym_sessions.completed_at', 'is', null);
+    if (data) setStrengthLog(data.map((e: any) => ({ exercise_id: e.exercise_id, date: e.gym_sessions.date, sets: e.gym_sets || [] })));
+  };
   const loadTemplates = async () => {
     const { data } = await supabase.from('gym_templates').select('*, gym_template_exercises(*)').eq('user_id', user.id);
     if (data) setTemplates(data.map((t: any) => ({ ...t, exercises: (t.gym_template_exercises || []).sort((a: any, b: any) => a.order_index - b.order_index) })));
   };
 
-  const startWorkout = async (dayType: 'Push' | 'Pull' | 'Legs', template?: GymTemplate) => {
-    const { data: session } = await supabase.from('gym_sessions').insert({ user_id: user.id, date: new Date().toISOString().split('T')[0], day_type: dayType, started_at: new Date().toISOString() }).select().single();
+  const startWorkout = async (dayType: string, template?: GymTemplate) => {
+    const { data: session } = await supabase.from('gym_sessions').insert({ user_id: user.id, date: toLocalDate(), day_type: dayType, started_at: new Date().toISOString() }).select().single();
     if (!session) return;
     setActiveSession(session); setSessionTimer(0);
-    if (template) {
-      const entries: GymExerciseEntry[] = [];
-      for (const te of template.exercises) {
-        const exercise = exercises.find(e => e.id === te.exercise_id);
-        if (!exercise) continue;
-        const { data: entry } = await supabase.from('gym_exercise_entries').insert({ session_id: session.id, exercise_id: te.exercise_id, order_index: te.order_index }).select().single();
-        if (entry) { const lastSession = await getLastSession(te.exercise_id); entries.push({ ...entry, exercise, sets: [], lastSession }); }
-      }
-      setSessionEntries(entries);
-    } else { setSessionEntries([]); }
+    // A saved template wins over the programme day's prescribed exercises
+    const planned = template ? template.exercises : (programme?.days.find(d => d.name === dayType)?.exercises || []).map((e, i) => ({ exercise_id: e.exercise_id, order_index: i }));
+    const entries: GymExerciseEntry[] = [];
+    for (const te of planned) {
+      const exercise = exercises.find(e => e.id === te.exercise_id);
+      if (!exercise) continue;
+      const progression = await getProgression(exercise, dayType);
+      const { data: entry } = await supabase.from('gym_exercise_entries').insert({ session_id: session.id, exercise_id: te.exercise_id, order_index: te.order_index, rest_seconds: progression.rest_seconds }).select().single();
+      if (entry) entries.push({ ...entry, exercise, sets: [], ...progression });
+    }
+    setSessionEntries(entries);
     setView('workout');
   };
 
-  const getLastSession = async (exerciseId: string): Promise<{ date: string; sets: GymSet[] } | undefined> => {
-    const { data: entries } = await supabase.from('gym_exercise_entries').select('id, session_id, gym_sessions!inner(date, user_id, id)').eq('exercise_id', exerciseId).eq('gym_sessions.user_id', user.id).order('gym_sessions(date)', { ascending: false }).limit(5);
-    if (!entries || entries.length === 0) return undefined;
-    const pastEntry = entries.find((e: any) => !activeSession || e.session_id !== activeSession.id);
-    if (!pastEntry) return undefined;
-    const { data: sets } = await supabase.from('gym_sets').select('*').eq('entry_id', pastEntry.id).order('set_index');
-    return { date: (pastEntry as any).gym_sessions?.date || '', sets: sets || [] };
+  // The exercise's recent sessions, newest first, for overload targets, the last-session view and remembered rest
+  const getHistory = async (exerciseId: string): Promise<{ date: string; sets: GymSet[]; rest_seconds?: number | null }[]> => {
+    const { data: entries } = await supabase.from('gym_exercise_entries').select('id, session_id, rest_seconds, gym_sessions!inner(date, user_id, id), gym_sets(*)').eq('exercise_id', exerciseId).eq('gym_sessions.user_id', user.id).order('gym_sessions(date)', { ascending: false }).limit(GYM_HISTORY_LIMIT);
+    return (entries || [])
+      .filter((e: any) => !activeSession || e.session_id !== activeSession.id)
+      .map((e: any) => ({ date: e.gym_sessions?.date || '', rest_seconds: e.rest_seconds, sets: (e.gym_sets || []).sort((a: GymSet, b: GymSet) => a.set_index - b.set_index) }))
+      .filter((h: { sets: GymSet[] }) => h.sets.length > 0);
+  };
+
+  // All-time bests for PR checks and the 5/3/1 training max: every earlier set of the exercise, loading only
+  // the fields the records need rather than the capped history
+  const getRecords = async (exerciseId: string): Promise<StrengthRecords | undefined> => {
+    let query = supabase.from('gym_sets').select('weight, reps, rpe, set_type, gym_exercise_entries!inner(exercise_id, session_id, gym_sessions!inner(user_id))')
+      .eq('gym_exercise_entries.exercise_id', exerciseId).eq('gym_exercise_entries.gym_sessions.user_id', user.id);
+    if (activeSession) query = query.neq('gym_exercise_entries.session_id', activeSession.id);
+    const { data } = await query;
+    return data && data.length > 0 ? StrengthEngine.records(data as GymSet[]) : undefined;
+  };
+
+  const getProgression = async (exercise: GymExercise, dayType: string) => {
+    const [history, records] = await Promise.all([getHistory(exercise.id), getRecords(exercise.id)]);
+    const prescription = ProgrammeEngine.prescriptionFor(programme, dayType, exercise.id);
+    return {
+      lastSession: history[0],
+      target: programme && prescription
+        ? ProgrammeEngine.target(programme, prescription, exercise, history, records)
+        : OverloadEngine.nextTarget(exercise, history.slice(0, OverloadEngine.HISTORY_SESSIONS)),
+      records,
+      // Rest is remembered per exercise from the last session it was changed in
+      rest_seconds: history.find(h => h.rest_seconds)?.rest_seconds || null,
+    };
   };
 
   const addExercise = async (exercise: GymExercise) => {
     if (!activeSession) return;
-    const { data: entry } = await supabase.from('gym_exercise_entries').insert({ session_id: activeSession.id, exercise_id: exercise.id, order_index: sessionEntries.length }).select().single();
-    if (entry) { const lastSession = await getLastSession(exercise.id); setSessionEntries(prev => [...prev, { ...entry, exercise, sets: [], lastSession }]); }
+    const progression = await getProgression(exercise, activeSession.day_type);
+    const { data: entry } = await supabase.from('gym_exercise_entries').insert({ session_id: activeSession.id, exercise_id: exercise.id, order_index: sessionEntries.length, rest_seconds: progression.rest_seconds }).select().single();
+    if (entry) setSessionEntries(prev => [...prev, { ...entry, exercise, sets: [], ...progression }]);
     setShowExercisePicker(false);
   };
 
+  // Compares a logged set with all earlier sessions plus the other sets in this one
+  const checkRecords = (entryIndex: number, setIndex: number) => {
+    const entry = sessionEntries[entryIndex];
+    const set = entry?.sets[setIndex];
+    if (!set?.id || !entry.records) return;
+    const previous = StrengthEngine.records(entry.sets.filter((_, j) => j !== setIndex), entry.records);
+    const labels = StrengthEngine.newRecords(set, previous);
+    if (labels.length > 0 && labels.join() !== (setRecords[set.id] || []).join()) {
+      setCelebration({ exercise: entry.exercise?.name || '', labels });
+      setTimeout(() => setCelebration(null), 4000);
+    }
+    setSetRecords(prev => ({ ...prev, [set.id!]: labels }));
+  };
+
   const addSet = async (entryIndex: number) => {
     const entry = sessionEntries[entryIndex];
     if (!entry.id) return;
+    if (entry.sets.length > 0) checkRecords(entryIndex, entry.sets.length - 1);
     let defaultWeight = 0, defaultReps = 0;
-    if (entry.sets.length > 0) { const lastSet = entry.sets[entry.sets.length - 1]; defaultWeight = lastSet.weight; defaultReps = lastSet.reps; }
+    const previous = entry.sets[entry.sets.length - 1] || entry.lastSession?.sets[entry.lastSession.sets.length - 1];
+    // Timed holds stay timed, so a plank keeps its duration from set to set
+    const timed = previous && setTypeOf(previous) === 'timed';
+    if (!timed && entry.target && OverloadEngine.workingSets(entry.sets).length < entry.target.sets) { defaultWeight = entry.target.weight; defaultReps = entry.target.reps; }
+    else if (entry.sets.length > 0) { const lastSet = entry.sets[entry.sets.length - 1]; defaultWeight = lastSet.weight; defaultReps = lastSet.reps; }
     else if (entry.lastSession && entry.lastSession.sets.length > 0) { const lastTopSet = entry.lastSession.sets.reduce((max, s) => s.weight > max.weight ? s : max, entry.lastSession.sets[0]); defaultWeight = lastTopSet.weight; defaultReps = lastTopSet.reps; }
-    const newSet: GymSet = { set_index: entry.sets.length, weight: defaultWeight, reps: defaultReps, is_warmup: false };
+    const newSet: GymSet = { set_index: entry.sets.length, weight: defaultWeight, reps: timed ? 0 : defaultReps, is_warmup: false, set_type: timed ? 'timed' : 'normal', ...(timed ? { duration_seconds: previous.duration_seconds || 30 } : {}) };
     const { data: inserted } = await supabase.from('gym_sets').insert({ entry_id: entry.id, ...newSet }).select().single();
     if (inserted) setSessionEntries(prev => prev.map((e, i) => i === entryIndex ? { ...e, sets: [...e.sets, inserted] } : e));
   };
 
-  const updateSet = async (entryIndex: number, setIndex: number, field: string, value: any) => {
+  const updateSetFields = async (entryIndex: number, setIndex: number, changes: Partial<GymSet>) => {
     const set = sessionEntries[entryIndex].sets[setIndex];
     if (!set.id) return;
-    await supabase.from('gym_sets').update({ [field]: value }).eq('id', set.id);
-    setSessionEntries(prev => prev.map((e, i) => i === entryIndex ? { ...e, sets: e.sets.map((s, j) => j === setIndex ? { ...s, [field]: value } : s) } : e));
+    await supabase.from('gym_sets').update(changes).eq('id', set.id);
+    setSessionEntries(prev => prev.map((e, i) => i === entryIndex ? { ...e, sets: e.sets.map((s, j) => j === setIndex ? { ...s, ...changes } : s) } : e));
+  };
+
+  const updateSet = (entryIndex: number, setIndex: number, field: string, value: any) => updateSetFields(entryIndex, setIndex, { [field]: value });
+
+  const cycleSetType = (entryIndex: number, setIndex: number) => {
+    const set = sessionEntries[entryIndex].sets[setIndex];
+    const next = SET_TYPE_ORDER[(SET_TYPE_ORDER.indexOf(setTypeOf(set)) + 1) % SET_TYPE_ORDER.length];
+    updateSetFields(entryIndex, setIndex, { set_type: next, is_warmup: next === 'warmup', ...(next === 'timed' ? { duration_seconds: set.duration_seconds || 30 } : {}) });
+  };
+
+  const restFor = (entry: GymExerciseEntry) => entry.rest_seconds || OverloadEngine.rule(entry.exercise).restSeconds;
+
+  const updateRest = async (entryIndex: number, seconds: number) => {
+    const entry = sessionEntries[entryIndex];
+    if (!entry.id) return;
+    await supabase.from('gym_exercise_entries').update({ rest_seconds: seconds }).eq('id', entry.id);
+    setSessionEntries(prev => prev.map((e, i) => i === entryIndex ? { ...e, rest_seconds: seconds } : e));
+  };
+
+  // Ticking a set off starts the rest timer; inside a superset or circuit the rest only
+  // starts after the last exercise of the round, otherwise the next exercise is opened
+  const completeSet = (entryIndex: number, setIndex: number) => {
+    const entry = sessionEntries[entryIndex];
+    const set = entry.sets[setIndex];
+    if (!set.id) return;
+    const done = !doneSets[set.id];
+    setDoneSets(prev => ({ ...prev, [set.id!]: done }));
+    if (!done) return;
+    checkRecords(entryIndex, setIndex);
+    const nextInGroup = entry.superset_group ? sessionEntries.find((e, i) => i > entryIndex && e.superset_group === entry.superset_group) : undefined;
+    const nextSet = entry.sets[setIndex + 1];
+    if (nextInGroup) { setExpandedEntry(nextInGroup.id || null); return; }
+    if (nextSet && setTypeOf(nextSet) === 'drop') return;
+    const total = restFor(entry);
+    setRestTimer({ exercise: entry.exercise?.name || '', endsAt: Date.now() + total * 1000, total });
+  };
+
+  const toggleSuperset = async (entryIndex: number) => {
+    const a = sessionEntries[entryIndex], b = sessionEntries[entryIndex + 1];
+    if (!a || !b) return;
+    const groups = sessionEntries.map(e => e.superset_group || null);
+    const freshLetter = () => SUPERSET_LETTERS.find(l => !groups.includes(l)) || null;
+    if (a.superset_group && a.superset_group === b.superset_group) {
+      // Unlink: everything after this point in the run becomes its own group
+      const fresh = freshLetter();
+      for (let j = entryIndex + 1; j < groups.length && groups[j] === a.superset_group; j++) groups[j] = fresh;
+    } else {
+      const group = a.superset_group || b.superset_group || freshLetter();
+      const joining = b.superset_group;
+      groups[entryIndex] = group;
+      for (let j = entryIndex + 1; j < groups.length && (j === entryIndex + 1 || (joining && groups[j] === joining)); j++) groups[j] = group;
+    }
+    const normalised = groups.map(g => g && groups.filter(x => x === g).length > 1 ? g : null);
+    for (const [j, e] of sessionEntries.entries()) {
+      if (e.id && (e.superset_group || null) !== normalised[j]) await supabase.from('gym_exercise_entries').update({ superset_group: normalised[j] }).eq('id', e.id);
+    }
+    setSessionEntries(prev => prev.map((e, j) => ({ ...e, superset_group: normalised[j] })));
   };
 
   const deleteSet = async (entryIndex: number, setIndex: number) => {
@@ -2789,22 +5876,84 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
     setSessionEntries(prev => prev.map((e, i) => i === entryIndex ? { ...e, sets: e.sets.filter((_, j) => j !== setIndex) } : e));
   };
 
+  const newExercise = (): GymExercise => ({
+    id: '', slug: '', name: '', day_type: 'Push', primary_muscle: 'Chest', secondary_muscles: [], equipment: [],
+    sort_order: 1000, user_id: user.id, unilateral: false, bodyweight: false, archived: false, image_url: null,
+  });
+
+  const saveExercise = async () => {
+    if (!editingExercise) return;
+    setSavingExercise(true); setExerciseError('');
+    try {
+      const { id, ...fields } = editingExercise;
+      const slug = fields.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+      let imageUrl = fields.image_url || null;
+      if (exerciseImage) {
+        const path = `custom/${user.id}/${slug}-${Date.now()}.${exerciseImage.name.split('.').pop() || 'jpg'}`;
+        const { error: uploadErr } = await supabase.storage.from('exercise-images').upload(path, exerciseImage, { upsert: true });
+        if (uploadErr) throw uploadErr;
+        imageUrl = supabase.storage.from('exercise-images').getPublicUrl(path).data.publicUrl;
+      }
+      const row = { ...fields, name: fields.name.trim(), slug, image_url: imageUrl, user_id: user.id };
+      const { data, error } = id
+        ? await supabase.from('gym_exercises').update(row).eq('id', id).select().single()
+        : await supabase.from('gym_exercises').insert(row).select().single();
+      if (error) throw error;
+      setExercises(prev => id ? prev.map(e => e.id === id ? data : e) : [...prev, data]);
+      setEditingExercise(null); setExerciseImage(null);
+    } catch (err) {
+      console.error('Save exercise error:', err);
+      setExerciseError('Could not save the exercise — try again');
+    }
+    setSavingExercise(false);
+  };
+
+  const toggleArchived = async (exercise: GymExercise) => {
+    const { error } = await supabase.from('gym_exercises').update({ archived: !exercise.archived }).eq('id', exercise.id);
+    if (error) { console.error('Archive exercise error:', error); return; }
+    setExercises(prev => prev.map(e => e.id === exercise.id ? { ...e, archived: !exercise.archived } : e));
+  };
+
+  const toggleUnavailable = (item: string) => onUpdateUnavailableEquipment(
+    unavailableEquipment.includes(item) ? unavailableEquipment.filter(e => e !== item) : [...unavailableEquipment, item]
+  );
+
+  const swapExercise = async (entryIndex: number, exercise: GymExercise) => {
+    const entry = sessionEntries[entryIndex];
+    if (!entry.id || !activeSession) return;
+    const { error } = await supabase.from('gym_exercise_entries').update({ exercise_id: exercise.id }).eq('id', entry.id);
+    if (error) { console.error('Swap exercise error:', error); showToast(`Could not swap in ${exercise.name} — try again`, 'error'); return; }
+    const progression = await getProgression(exercise, activeSession.day_type);
+    setSessionEntries(prev => prev.map((e, i) => i === entryIndex ? { ...e, exercise_id: exercise.id, exercise, ...progression } : e));
+  };
+
   const saveWorkout = async () => {
     if (!activeSession) return;
     const totalSetsLogged = sessionEntries.reduce((sum, e) => sum + e.sets.length, 0);
     if (totalSetsLogged === 0) { await supabase.from('gym_sessions').delete().eq('id', activeSession.id); }
     else { await supabase.from('gym_sessions').update({ duration_minutes: Math.round(sessionTimer / 60) }).eq('id', activeSession.id); }
     if (timerInterval) clearInterval(timerInterval); setTimerIntervalState(null);
-    setActiveSession(null); setSessionEntries([]); setView('home');
+    setActiveSession(null); setSessionEntries([]); setSetRecords({}); setDoneSets({}); setRestTimer(null); setView('home');
     loadRecentSessions(); loadPastSessions();
   };
 
+  // Only the save that sets completed_at logs the workout, so a double tap can't log it twice
   const submitToHistory = async (sessionId: string) => {
-    await supabase.from('gym_sessions').update({ completed_at: new Date().toISOString() }).eq('id', sessionId);
+    const { data: session, error } = await supabase.from('gym_sessions').update({ completed_at: new Date().toISOString() }).eq('id', sessionId).is('completed_at', null).select().maybeSingle();
+    if (error) { console.error('Save workout error:', error); showToast('Could not save the workout — try again', 'error'); return; }
+    if (session) {
+      const { data: entries } = await supabase.from('gym_exercise_entries').select('gym_sets(*)').eq('session_id', sessionId);
+      if (!(await onCompleteSession(session, StrengthEngine.sessionSummary(session.duration_minutes || 0, (entries || []).flatMap((e: any) => e.gym_sets || []))))) {
+        // Back to a draft so the save can be retried
+        await supabase.from('gym_sessions').update({ completed_at: null }).eq('id', sessionId);
+        showToast('Could not add the workout to your training log — try again', 'error');
+      }
+    }
     loadRecentSessions(); loadPastSessions();
   };
 
   const deleteGymSession = async (sessionId: string) => {
+    await onDeleteSession(sessionId);
     await supabase.from('gym_sessions').delete().eq('id', sessionId);
     loadRecentSessions(); loadPastSessions();
     if (viewingSession?.id === sessionId) { setViewingSession(null); setView('home'); }
@@ -2814,7 +5963,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
     if (!activeSession) return;
     await supabase.from('gym_sessions').delete().eq('id', activeSession.id);
     if (timerInterval) clearInterval(timerInterval); setTimerIntervalState(null);
-    setActiveSession(null); setSessionEntries([]); setView('home');
+    setActiveSession(null); setSessionEntries([]); setSetRecords({}); setDoneSets({}); setRestTimer(null); setView('home');
   };
 
   const saveAsTemplate = async () => {
@@ -2843,7 +5992,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
   const formatTimer = (secs: number) => { const m = Math.floor(secs / 60); const s = secs % 60; return `${m}:${s.toString().padStart(2, '0')}`; };
   const formatDate = (dateStr: string) => { const d = new Date(dateStr + 'T00:00:00'); const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']; const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']; return `${days[d.getDay()]} ${d.getDate()} ${months[d.getMonth()]}`; };
 
-  const dayTypeColors = {
+  const dayTypeColors: Record<string, { bg: string; light: string; text: string; ring: string; huelBg: string }> = {
     Push: { bg: 'bg-black', light: 'bg-gray-100', text: 'text-gray-800', ring: 'ring-gray-300', huelBg: '#1a1a1a' },
     Pull: { bg: 'bg-gray-800', light: 'bg-gray-100', text: 'text-gray-800', ring: 'ring-gray-300', huelBg: '#2a2a2a' },
     Legs: { bg: 'bg-gray-700', light: 'bg-gray-100', text: 'text-gray-800', ring: 'ring-gray-300', huelBg: '#3a3a3a' },
@@ -2855,29 +6004,62 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
     Legs: `${EXERCISE_IMG_BASE}/day-types/legs.jpg`,
   };
 
+  const dayImage = (dayType: string, className: string) => dayTypeImages[dayType]
+    ? <img src={dayTypeImages[dayType]} alt={dayType} className={`${className} object-cover`} />
+    : <div className={`${className} bg-gray-100 flex items-center justify-center`}><Dumbbell size={18} className="text-gray-400" /></div>;
+
+  const openProgrammeEditor = () => {
+    setProgrammeDraft(programme ? { ...programme, days: programme.days.map(d => ({ ...d, exercises: [...d.exercises] })) } : ProgrammeEngine.fromPreset('ppl', activeExercises));
+    setView('programme');
+  };
+
   if (view === 'home') {
-    const dayTypes: ('Push' | 'Pull' | 'Legs')[] = ['Push', 'Pull', 'Legs'];
+    const dayTypes = programme && programme.days.length > 0 ? programme.days.map(d => d.name) : ['Push', 'Pull', 'Legs'];
     const recentByType = dayTypes.map(dt => ({ type: dt, last: pastSessions.find(s => s.day_type === dt) }));
 
     return (
       <div className="p-4 space-y-4">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-bold text-gray-900">Gym</h2>
-          <button onClick={() => setView('history')} className="text-sm font-semibold text-black hover:underline">History →</button>
+          <div className="flex gap-3">
+            <button onClick={() => { loadStrengthLog(); setView('progress'); }} className="text-sm font-semibold text-black hover:underline">Progress →</button>
+            <button onClick={() => setView('library')} className="text-sm font-semibold text-black hover:underline">Library →</button>
+            <button onClick={() => setView('history')} className="text-sm font-semibold text-black hover:underline">History →</button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4 flex items-center gap-3">
+          <div className="flex-1">
+            <div className="text-xs text-gray-500 uppercase tracking-wide font-semibold">Programme</div>
+            {programme ? (
+              <>
+                <div className="font-bold text-gray-900">{programme.name}</div>
+                <div className="text-xs text-gray-500">
+                  {GYM_PROGRESSIONS[programme.progression].label} • Week {ProgrammeEngine.weekOfBlock(programme)} of {programme.block_weeks}
+                  {ProgrammeEngine.isDeloadWeek(programme) && <span className="ml-1 font-semibold text-blue-600">• Deload week</span>}
+                </div>
+              </>
+            ) : <div className="text-sm text-gray-600">Default Push/Pull/Legs — set up your own split</div>}
+          </div>
+          <button onClick={openProgrammeEditor} className="px-3 py-1.5 rounded-lg text-xs font-bold text-black hover:opacity-80" style={{ backgroundColor: '#FFCB00' }}>
+            {programme ? 'Edit' : 'Set up'}
+          </button>
         </div>
 
         <div className="space-y-3">
           <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Start Workout</p>
           {dayTypes.map(dt => {
-            const c = dayTypeColors[dt];
+            const c = dayTypeColors[dt] || dayTypeColors.Push;
+            const programmeDay = programme?.days.find(d => d.name === dt);
             const last = recentByType.find(r => r.type === dt)?.last;
             const dayTemplates = templates.filter(t => t.day_type === dt);
             return (
               <div key={dt} className={`bg-white rounded-xl shadow-sm overflow-hidden ring-1 ${c.ring}`}>
                 <button onClick={() => startWorkout(dt)} className="w-full p-4 flex items-center gap-4 hover:bg-gray-50 transition-colors">
-                  <img src={dayTypeImages[dt]} alt={dt} className="w-14 h-14 rounded-xl object-cover" />
+                  {dayImage(dt, 'w-14 h-14 rounded-xl')}
                   <div className="flex-1 text-left">
                     <div className="font-bold text-gray-900">{dt} Day</div>
+                    {programmeDay && <div className="text-xs text-gray-600">{WEEKDAY_NAMES[programmeDay.weekday]} • {programmeDay.exercises.length} exercises</div>}
                     <div className="text-xs text-gray-500">{last ? `Last: ${formatDate(last.date)}${last.duration_minutes ? ` • ${last.duration_minutes}min` : ''}` : 'No sessions yet'}</div>
                   </div>
                   <div className="text-gray-300 text-xl">→</div>
@@ -2903,7 +6085,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
             <p className="text-sm font-semibold text-amber-600 uppercase tracking-wide mb-2">📝 Recent Training (unsaved)</p>
             {recentSessions.map(s => (
               <div key={s.id} className="flex items-center gap-3 p-3 bg-amber-50 rounded-lg shadow-sm mb-2 ring-1 ring-amber-200">
-                <img src={dayTypeImages[s.day_type as string] || ''} alt={s.day_type} className="w-10 h-10 rounded-lg object-cover" />
+                {dayImage(s.day_type, 'w-10 h-10 rounded-lg')}
                 <button onClick={() => viewSession(s)} className="flex-1 text-left">
                   <div className="font-semibold text-sm">{s.day_type} Day</div>
                   <div className="text-xs text-gray-500">{formatDate(s.date)}{s.duration_minutes ? ` • ${s.duration_minutes}min` : ''}</div>
@@ -2920,7 +6102,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
             <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">History</p>
             {pastSessions.slice(0, 5).map(s => (
               <button key={s.id} onClick={() => viewSession(s)} className="w-full flex items-center gap-3 p-3 bg-white rounded-lg shadow-sm mb-2 hover:bg-gray-50">
-                <img src={dayTypeImages[s.day_type as string] || ''} alt={s.day_type} className="w-10 h-10 rounded-lg object-cover" />
+                {dayImage(s.day_type, 'w-10 h-10 rounded-lg')}
                 <div className="flex-1 text-left">
                   <div className="font-semibold text-sm">{s.day_type} Day</div>
                   <div className="text-xs text-gray-500">{formatDate(s.date)}</div>
@@ -2935,9 +6117,10 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
   }
 
   if (view === 'workout' && activeSession) {
-    const filteredExercises = exercises.filter(e => e.day_type === activeSession.day_type);
+    // Any library exercise can go into any day; ones from the matching category are listed first
     const usedIds = sessionEntries.map(e => e.exercise_id);
-    const availableExercises = filteredExercises.filter(e => !usedIds.includes(e.id));
+    const rank = (e: GymExercise) => (ExerciseLibrary.isAvailable(e, unavailableEquipment) ? 2 : 0) + (e.day_type === activeSession.day_type ? 1 : 0);
+    const availableExercises = activeExercises.filter(e => !usedIds.includes(e.id)).sort((a, b) => rank(b) - rank(a));
 
     return (
       <div className="p-4 space-y-3 pb-24">
@@ -2964,62 +6147,134 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
           </div>
         </div>
 
-        {sessionEntries.map((entry, entryIndex) => (
-          <div key={entry.id || entryIndex} className="bg-white rounded-xl shadow-sm overflow-hidden">
-            <button onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id || null)}
-              className="w-full p-3 flex items-center gap-3 hover:bg-gray-50">
-              <ExerciseImage exercise={entry.exercise} size={36} />
-              <div className="flex-1 text-left">
-                <div className="font-bold text-sm">{entry.exercise?.name}</div>
-                <div className="flex items-center gap-2 mt-0.5">
-                  <EquipmentBadge equipment={entry.exercise?.equipment || ''} />
-                  <span className="text-[10px] text-gray-400">{entry.sets.length} sets</span>
-                  {entry.sets.length > 0 && (
-                    <span className="text-[10px] text-gray-500 font-semibold">
-                      Top: {Math.max(...entry.sets.map(s => s.weight))}kg × {entry.sets.find(s => s.weight === Math.max(...entry.sets.map(s => s.weight)))?.reps}
-                    </span>
-                  )}
+        {sessionEntries.map((entry, entryIndex) => {
+          const next = sessionEntries[entryIndex + 1];
+          const linked = !!entry.superset_group && entry.superset_group === next?.superset_group;
+          const groupSize = entry.superset_group ? sessionEntries.filter(e => e.superset_group === entry.superset_group).length : 0;
+          return (
+            <React.Fragment key={entry.id || entryIndex}>
+            <div className={`bg-white rounded-xl shadow-sm overflow-hidden ${entry.superset_group ? 'ring-2 ring-purple-300' : ''}`}>
+              <button onClick={() => setExpandedEntry(expandedEntry === entry.id ? null : entry.id || null)}
+                className="w-full p-3 flex items-center gap-3 hover:bg-gray-50">
+                <ExerciseImage exercise={entry.exercise} size={36} />
+                <div className="flex-1 text-left">
+                  {entry.superset_group && <div className="text-[10px] font-bold text-purple-600 uppercase tracking-wide">{groupSize > 2 ? 'Circuit' : 'Superset'} {entry.superset_group}</div>}
+                  <div className="font-bold text-sm">{entry.exercise?.name}</div>
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <EquipmentBadge equipment={entry.exercise?.equipment || ''} />
+                    <span className="text-[10px] text-gray-400">{entry.sets.length} sets</span>
+                    {entry.target && (
+                      <span className="text-[10px] font-bold px-1.5 py-0.5 rounded" style={{ backgroundColor: '#FFFBCC', color: '#7A6000' }}>
+                        🎯 {entry.target.sets} × {entry.target.reps} @ {entry.target.weight}kg
+                      </span>
+                    )}
+                    {entry.sets.length > 0 && (
+                      <span className="text-[10px] text-gray-500 font-semibold">
+                        Top: {Math.max(...entry.sets.map(s => s.weight))}kg × {entry.sets.find(s => s.weight === Math.max(...entry.sets.map(s => s.weight)))?.reps}
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
-              <span className="text-gray-300">{expandedEntry === entry.id ? '▲' : '▼'}</span>
-            </button>
-
-            {expandedEntry === entry.id && (
-              <div className="border-t">
-                {entry.lastSession && (
-                  <div className="bg-amber-50 px-3 py-2 border-b border-amber-100">
-                    <div className="text-[10px] font-bold text-amber-700 uppercase tracking-wide mb-1">📊 Last time — {formatDate(entry.lastSession.date)}</div>
-                    <div className="flex gap-3 flex-wrap">
-                      {entry.lastSession.sets.map((s, i) => (
-                        <div key={i} className="text-xs text-amber-800"><span className="font-semibold">{s.weight}kg</span> × {s.reps}{s.rpe ? <span className="text-amber-500 ml-1">@{s.rpe}</span> : ''}</div>
+                <span className="text-gray-300">{expandedEntry === entry.id ? '▲' : '▼'}</span>
+              </button>
+              {entry.exercise && entry.sets.length === 0 && !ExerciseLibrary.isAvailable(entry.exercise, unavailableEquipment) && (() => {
+                const swaps = ExerciseLibrary.substitutes(entry.exercise, exercises, unavailableEquipment);
+                return (
+                  <div className="px-3 py-2 bg-amber-50 border-t border-amber-100 text-xs text-amber-800">
+                    <span className="font-semibold">No {ExerciseLibrary.missingEquipment(entry.exercise, unavailableEquipment).join(' or ')}</span>
+                    {swaps.length > 0 ? ' — swap for:' : ' — no substitute in your library yet'}
+                    <div className="flex gap-2 flex-wrap mt-1">
+                      {swaps.map(sub => (
+                        <button key={sub.id} onClick={() => swapExercise(entryIndex, sub)} className="px-2 py-1 rounded-lg bg-white ring-1 ring-amber-200 font-semibold hover:bg-amber-100">⇄ {sub.name}</button>
                       ))}
                     </div>
                   </div>
-                )}
-                <div className="px-3 py-2">
-                  {entry.sets.length > 0 && (
-                    <div className="grid grid-cols-12 gap-1 text-[10px] text-gray-400 font-bold uppercase mb-1 px-1">
-                      <div className="col-span-1">#</div><div className="col-span-4">Weight (kg)</div><div className="col-span-3">Reps</div><div className="col-span-2">RPE</div><div className="col-span-2"></div>
+                );
+              })()}
+  
+              {expandedEntry === entry.id && (
+                <div className="border-t">
+                  {entry.target && (
+                    <div className="px-3 py-2 border-b" style={{ backgroundColor: '#FFFBCC' }}>
+                      <div className="text-[10px] font-bold uppercase tracking-wide mb-0.5" style={{ color: '#7A6000' }}>
+                        {entry.target.reason === 'deload' ? '🔻 Deload' : entry.target.reason === 'weight' ? '⬆️ Add weight' : '🎯 Target'} — {entry.target.sets} × {entry.target.reps} @ {entry.target.weight}kg
+                      </div>
+                      <div className="text-xs" style={{ color: '#7A6000' }}>{entry.target.note}</div>
                     </div>
                   )}
-                  {entry.sets.map((set, setIndex) => (
-                    <div key={set.id || setIndex} className="grid grid-cols-12 gap-1 items-center mb-1">
-                      <div className="col-span-1 text-xs text-gray-400 font-bold">{setIndex + 1}</div>
-                      <div className="col-span-4"><input type="number" value={set.weight || ''} step="0.5" onChange={(e) => updateSet(entryIndex, setIndex, 'weight', parseFloat(e.target.value) || 0)} className="w-full p-1.5 border rounded text-sm text-center font-semibold" /></div>
-                      <div className="col-span-3"><input type="number" value={set.reps || ''} onChange={(e) => updateSet(entryIndex, setIndex, 'reps', parseInt(e.target.value) || 0)} className="w-full p-1.5 border rounded text-sm text-center font-semibold" /></div>
-                      <div className="col-span-2"><input type="number" value={set.rpe || ''} step="0.5" min="1" max="10" onChange={(e) => updateSet(entryIndex, setIndex, 'rpe', parseFloat(e.target.value) || null)} className="w-full p-1.5 border rounded text-sm text-center text-gray-500" placeholder="—" /></div>
-                      <div className="col-span-2 text-right"><button onClick={() => deleteSet(entryIndex, setIndex)} className="text-red-300 hover:text-red-500 text-xs px-1">✕</button></div>
+                  {entry.lastSession && (
+                    <div className="bg-amber-50 px-3 py-2 border-b border-amber-100">
+                      <div className="text-[10px] font-bold text-amber-700 uppercase tracking-wide mb-1">📊 Last time — {formatDate(entry.lastSession.date)}</div>
+                      <div className="flex gap-3 flex-wrap">
+                        {entry.lastSession.sets.map((s, i) => (
+                          <div key={i} className="text-xs text-amber-800">
+                            {SET_TYPES[setTypeOf(s)].short && <span className="text-amber-500 mr-0.5">{SET_TYPES[setTypeOf(s)].short}</span>}
+                            {setTypeOf(s) === 'timed' ? <span className="font-semibold">{s.duration_seconds}s{s.weight ? ` +${s.weight}kg` : ''}</span> : <><span className="font-semibold">{s.weight}kg</span> × {s.reps}</>}
+                            {s.rpe ? <span className="text-amber-500 ml-1">@{s.rpe}</span> : ''}
+                          </div>
+                        ))}
+                      </div>
                     </div>
-                  ))}
-                  <button onClick={() => addSet(entryIndex)}
-                    className="w-full mt-1 py-2 border-2 border-dashed border-gray-200 rounded-lg text-sm text-gray-500 font-semibold hover:border-gray-400 hover:text-gray-700">
-                    + Add Set
-                  </button>
+                  )}
+                  <div className="px-3 py-2 border-b flex items-center gap-2 text-xs text-gray-500">
+                    <span>⏱ Rest</span>
+                    <select value={restFor(entry)} onChange={(e) => updateRest(entryIndex, parseInt(e.target.value))} className="p-1 border rounded text-xs">
+                      {Array.from(new Set([...REST_OPTIONS, restFor(entry)])).sort((a, b) => a - b).map(sec => <option key={sec} value={sec}>{formatTimer(sec)}</option>)}
+                    </select>
+                    <span className="ml-auto text-[10px] text-gray-400">Tap # to change set type</span>
+                  </div>
+                  <div className="px-3 py-2">
+                    {entry.sets.length > 0 && (
+                      <div className="grid grid-cols-12 gap-1 text-[10px] text-gray-400 font-bold uppercase mb-1 px-1">
+                        <div className="col-span-2">#</div><div className="col-span-3">Kg</div><div className="col-span-3">Reps / Secs</div><div className="col-span-2">RPE</div><div className="col-span-2"></div>
+                      </div>
+                    )}
+                    {entry.sets.map((set, setIndex) => {
+                      const type = setTypeOf(set);
+                      const hit = OverloadEngine.setHit(set, entry.target);
+                      const done = !!(set.id && doneSets[set.id]);
+                      const number = entry.sets.slice(0, setIndex + 1).filter(s => setTypeOf(s) !== 'warmup').length;
+                      return (
+                        <div key={set.id || setIndex} className="grid grid-cols-12 gap-1 items-center mb-1">
+                          <button onClick={() => cycleSetType(entryIndex, setIndex)} title={SET_TYPES[type].label}
+                            className={`col-span-2 text-xs font-bold text-left ${SET_TYPES[type].color}`}>
+                            {SET_TYPES[type].short || number}
+                            {set.id && setRecords[set.id]?.length ? <span title={setRecords[set.id].join(', ')}>🏆</span> : ''}
+                          </button>
+                          <div className="col-span-3"><input type="number" value={set.weight || ''} step="0.5" placeholder={type === 'timed' ? 'BW' : ''} onChange={(e) => updateSet(entryIndex, setIndex, 'weight', parseFloat(e.target.value) || 0)} onBlur={() => checkRecords(entryIndex, setIndex)} className="w-full p-1.5 border rounded text-sm text-center font-semibold" /></div>
+                          <div className="col-span-3">
+                            {type === 'timed'
+                              ? <input type="number" value={set.duration_seconds || ''} placeholder="sec" onChange={(e) => updateSet(entryIndex, setIndex, 'duration_seconds', parseInt(e.target.value) || 0)} className="w-full p-1.5 border rounded text-sm text-center font-semibold" />
+                              : <input type="number" value={set.reps || ''} onChange={(e) => updateSet(entryIndex, setIndex, 'reps', parseInt(e.target.value) || 0)} onBlur={() => checkRecords(entryIndex, setIndex)} className="w-full p-1.5 border rounded text-sm text-center font-semibold" />}
+                          </div>
+                          <div className="col-span-2"><input type="number" value={set.rpe || ''} step="0.5" min="1" max="10" onChange={(e) => updateSet(entryIndex, setIndex, 'rpe', parseFloat(e.target.value) || null)} className="w-full p-1.5 border rounded text-sm text-center text-gray-500" placeholder="—" /></div>
+                          <div className="col-span-2 flex items-center justify-end gap-1">
+                            <button onClick={() => completeSet(entryIndex, setIndex)}
+                              title={!done ? 'Mark set done and start rest' : hit === null ? 'Done' : hit ? 'Target hit' : `Missed ${entry.target!.reps} @ ${entry.target!.weight}kg`}
+                              className={`w-6 h-6 rounded flex items-center justify-center text-xs font-bold ${!done ? 'border border-gray-300 text-gray-300' : hit === false ? 'bg-red-500 text-white' : 'bg-green-600 text-white'}`}>
+                              {done && hit === false ? '✗' : '✓'}
+                            </button>
+                            <button onClick={() => deleteSet(entryIndex, setIndex)} className="text-red-300 hover:text-red-500 text-xs px-1">✕</button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <button onClick={() => addSet(entryIndex)}
+                      className="w-full mt-1 py-2 border-2 border-dashed border-gray-200 rounded-lg text-sm text-gray-500 font-semibold hover:border-gray-400 hover:text-gray-700">
+                      + Add Set
+                    </button>
+                  </div>
                 </div>
-              </div>
+              )}
+            </div>
+            {next && (
+              <button onClick={() => toggleSuperset(entryIndex)} className={`w-full text-[11px] font-semibold py-0.5 ${linked ? 'text-purple-600' : 'text-gray-400 hover:text-purple-600'}`}>
+                🔗 {linked ? 'Unlink' : 'Superset with next'}
+              </button>
             )}
-          </div>
-        ))}
+            </React.Fragment>
+          );
+        })}
 
         <button onClick={() => setShowExercisePicker(true)}
           className="w-full py-3 rounded-xl font-bold text-sm text-black hover:opacity-80"
@@ -3027,36 +6282,408 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
           + Add Exercise
         </button>
 
+        {restTimer && (() => {
+          const remaining = Math.max(0, Math.ceil((restTimer.endsAt - Date.now()) / 1000));
+          return (
+            <div className="fixed left-0 right-0 bg-black text-white px-4 py-2 flex items-center gap-3" style={{ bottom: 72, maxWidth: 480, margin: '0 auto' }}>
+              <div className="flex-1">
+                <div className="text-[10px] uppercase tracking-wide opacity-60">Rest — {restTimer.exercise}</div>
+                <div className="h-1 bg-gray-700 rounded mt-1"><div className="h-1 rounded" style={{ width: `${(remaining / restTimer.total) * 100}%`, backgroundColor: '#FFCB00' }} /></div>
+              </div>
+              <div className="text-xl font-mono font-bold" style={{ color: '#FFCB00' }}>{formatTimer(remaining)}</div>
+              <button onClick={() => setRestTimer({ ...restTimer, endsAt: restTimer.endsAt + 15000, total: restTimer.total + 15 })} className="text-xs px-2 py-1 rounded bg-gray-800">+15s</button>
+              <button onClick={() => setRestTimer(null)} className="text-xs px-2 py-1 rounded bg-gray-800">Skip</button>
+            </div>
+          );
+        })()}
+
         <div className="fixed bottom-0 left-0 right-0 bg-white border-t p-3 flex gap-2" style={{ maxWidth: 480, margin: '0 auto' }}>
           <button onClick={discardWorkout} className="py-3 px-3 border border-red-200 rounded-xl text-xs font-semibold text-red-400 hover:bg-red-50">🗑️</button>
           <button onClick={saveAsTemplate} className="py-3 px-3 border rounded-xl text-sm font-semibold text-gray-600 hover:bg-gray-50">💾</button>
           <button onClick={saveWorkout} className="flex-1 py-3 bg-black text-white rounded-xl text-sm font-bold hover:bg-gray-900">💾 Save Workout</button>
         </div>
 
+        {celebration && (
+          <div className="fixed top-4 left-0 right-0 z-50 flex justify-center px-4" onClick={() => setCelebration(null)}>
+            <div className="bg-black text-white rounded-xl shadow-lg px-4 py-3 flex items-center gap-3 animate-bounce" style={{ maxWidth: 448 }}>
+              <Trophy size={24} style={{ color: '#FFCB00' }} />
+              <div>
+                <div className="font-bold text-sm">New PR — {celebration.exercise}</div>
+                <div className="text-xs opacity-70">{celebration.labels.join(' • ')}</div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {showExercisePicker && (
           <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-end" onClick={() => setShowExercisePicker(false)}>
             <div className="bg-white rounded-t-2xl w-full max-h-[70vh] overflow-y-auto" onClick={(e: any) => e.stopPropagation()}>
               <div className="sticky top-0 bg-white p-4 border-b">
                 <div className="w-10 h-1 bg-gray-300 rounded-full mx-auto mb-3" />
-                <h3 className="font-bold text-lg">Add {activeSession.day_type} Exercise</h3>
+                <h3 className="font-bold text-lg">Add Exercise — {activeSession.day_type} Day</h3>
                 <p className="text-xs text-gray-500">{availableExercises.length} exercises available</p>
               </div>
               <div className="p-2">
-                {availableExercises.map(ex => (
-                  <button key={ex.id} onClick={() => addExercise(ex)} className="w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-lg">
-                    <ExerciseImage exercise={ex} size={40} />
-                    <div className="flex-1 text-left">
-                      <div className="font-semibold text-sm">{ex.name}</div>
-                      <div className="flex items-center gap-2 mt-0.5">
-                        <span className="text-[10px] text-gray-500">{ex.primary_muscle}</span>
-                        <EquipmentBadge equipment={ex.equipment} />
+                {availableExercises.map(ex => {
+                  const missing = ExerciseLibrary.missingEquipment(ex, unavailableEquipment);
+                  return (
+                    <button key={ex.id} onClick={() => addExercise(ex)} className={`w-full flex items-center gap-3 p-3 hover:bg-gray-50 rounded-lg ${missing.length > 0 ? 'opacity-50' : ''}`}>
+                      <ExerciseImage exercise={ex} size={40} />
+                      <div className="flex-1 text-left">
+                        <div className="font-semibold text-sm">{ex.name}</div>
+                        <div className="flex items-center gap-2 mt-0.5">
+                          <span className="text-[10px] text-gray-500">{ex.primary_muscle}</span>
+                          <EquipmentBadge equipment={ex.equipment} />
+                          {missing.length > 0 && <span className="text-[10px] text-amber-600">needs {missing.join(', ')}</span>}
+                        </div>
                       </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (view === 'programme' && programmeDraft) {
+    const draft = programmeDraft;
+    const updateDraft = (changes: Partial<GymProgramme>) => setProgrammeDraft({ ...draft, ...changes });
+    const updateDay = (dayIndex: number, changes: Partial<GymProgrammeDay>) => updateDraft({ days: draft.days.map((d, i) => i === dayIndex ? { ...d, ...changes } : d) });
+    const updatePrescription = (dayIndex: number, exIndex: number, changes: Partial<GymPrescription>) =>
+      updateDay(dayIndex, { exercises: draft.days[dayIndex].exercises.map((e, j) => j === exIndex ? { ...e, ...changes } : e) });
+    const addPrescription = (dayIndex: number, exerciseId: string) => {
+      const exercise = exercises.find(e => e.id === exerciseId);
+      if (!exercise) return;
+      const rule = OverloadEngine.rule(exercise);
+      updateDay(dayIndex, { exercises: [...draft.days[dayIndex].exercises, { exercise_id: exercise.id, name: exercise.name, sets: 3, minReps: rule.minReps, maxReps: rule.maxReps }] });
+    };
+    const names = draft.days.map(d => d.name.trim());
+    const problem = !draft.name.trim() ? 'Give the programme a name'
+      : draft.days.length === 0 ? 'Add at least one day'
+      : names.some(n => !n) ? 'Every day needs a name'
+      : new Set(names).size !== names.length ? 'Day names must be unique'
+      : draft.days.some(d => d.exercises.some(e => e.sets < 1 || e.minReps < 1 || e.minReps > e.maxReps)) ? 'Check sets and rep ranges (min ≤ max)'
+      : '';
+    const save = async () => {
+      setSavingProgramme(true);
+      const ok = await onSaveProgramme({ ...draft, name: draft.name.trim(), days: draft.days.map(d => ({ ...d, name: d.name.trim() })) });
+      setSavingProgramme(false);
+      if (ok) setView('home');
+    };
+
+    return (
+      <div className="p-4 space-y-4 pb-24">
+        <div className="flex items-center gap-3">
+          <button onClick={() => setView('home')} className="p-2 hover:bg-gray-100 rounded-lg">←</button>
+          <h2 className="text-xl font-bold text-gray-900">Gym Programme</h2>
+        </div>
+
+        <div>
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Start from a template</p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {Object.entries(PROGRAMME_PRESETS).map(([key, preset]) => (
+              <button key={key} onClick={() => setProgrammeDraft({ ...ProgrammeEngine.fromPreset(key, activeExercises), id: draft.id })}
+                className="text-xs font-semibold px-3 py-1.5 rounded-lg whitespace-nowrap bg-gray-100 hover:bg-gray-200">{preset.label}</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+          <div><label className="text-xs text-gray-500">Name</label><input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-gray-500">Progression</label>
+              <select value={draft.progression} onChange={(e) => updateDraft({ progression: e.target.value as GymProgression })} className="w-full p-2 border rounded-lg text-sm">
+                {Object.entries(GYM_PROGRESSIONS).map(([key, p]) => <option key={key} value={key}>{p.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500">Block length</label>
+              <select value={draft.block_weeks} onChange={(e) => updateDraft({ block_weeks: parseInt(e.target.value) })} className="w-full p-2 border rounded-lg text-sm">
+                {[3, 4, 5, 6, 8].map(w => <option key={w} value={w}>{w} weeks</option>)}
+              </select>
+            </div>
+          </div>
+          <div><label className="text-xs text-gray-500">Block starts</label><input type="date" value={draft.start_date} onChange={(e) => updateDraft({ start_date: e.target.value })} className="w-full p-2 border rounded-lg text-sm" /></div>
+          <p className="text-xs text-gray-500">{GYM_PROGRESSIONS[draft.progression].description}. The last week of each block is a deload.</p>
+        </div>
+
+        {draft.days.map((day, dayIndex) => {
+          const usedIds = day.exercises.map(e => e.exercise_id);
+          return (
+            <div key={dayIndex} className="bg-white rounded-xl shadow-sm overflow-hidden">
+              <div className="p-3 flex items-center gap-2 border-b bg-gray-50">
+                <input value={day.name} onChange={(e) => updateDay(dayIndex, { name: e.target.value })} placeholder="Day name" className="flex-1 p-1.5 border rounded text-sm font-bold" />
+                <select value={day.weekday} onChange={(e) => updateDay(dayIndex, { weekday: parseInt(e.target.value) })} className="p-1.5 border rounded text-sm">
+                  {WEEKDAY_NAMES.map((n, i) => <option key={n} value={i}>{n}</option>)}
+                </select>
+                <button onClick={() => updateDraft({ days: draft.days.filter((_, i) => i !== dayIndex) })} className="text-red-300 hover:text-red-500 px-1"><Trash2 size={14} /></button>
+              </div>
+              <div className="px-3 py-2">
+                {day.exercises.length > 0 && (
+                  <div className="grid grid-cols-12 gap-1 text-[10px] text-gray-400 font-bold uppercase mb-1">
+                    <div className="col-span-6">Exercise</div><div className="col-span-2 text-center">Sets</div><div className="col-span-3 text-center">Reps</div><div className="col-span-1"></div>
+                  </div>
+                )}
+                {day.exercises.map((ex, exIndex) => (
+                  <div key={ex.exercise_id} className="grid grid-cols-12 gap-1 items-center mb-1">
+                    <div className="col-span-6 text-sm truncate">{ex.name}</div>
+                    <div className="col-span-2"><input type="number" min="1" value={ex.sets || ''} onChange={(e) => updatePrescription(dayIndex, exIndex, { sets: parseInt(e.target.value) || 0 })} className="w-full p-1 border rounded text-sm text-center" /></div>
+                    <div className="col-span-3 flex items-center gap-0.5">
+                      <input type="number" min="1" value={ex.minReps || ''} onChange={(e) => updatePrescription(dayIndex, exIndex, { minReps: parseInt(e.target.value) || 0 })} className="w-full p-1 border rounded text-sm text-center" />
+                      <span className="text-gray-400 text-xs">–</span>
+                      <input type="number" min="1" value={ex.maxReps || ''} onChange={(e) => updatePrescription(dayIndex, exIndex, { maxReps: parseInt(e.target.value) || 0 })} className="w-full p-1 border rounded text-sm text-center" />
                     </div>
-                  </button>
+                    <div className="col-span-1 text-right"><button onClick={() => updateDay(dayIndex, { exercises: day.exercises.filter((_, j) => j !== exIndex) })} className="text-red-300 hover:text-red-500 text-xs px-1">✕</button></div>
+                  </div>
                 ))}
+                <select value="" onChange={(e) => addPrescription(dayIndex, e.target.value)} className="w-full mt-1 p-2 border-2 border-dashed border-gray-200 rounded-lg text-sm text-gray-500">
+                  <option value="">+ Add exercise</option>
+                  {activeExercises.filter(e => !usedIds.includes(e.id)).map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                </select>
               </div>
             </div>
+          );
+        })}
+
+        <button onClick={() => updateDraft({ days: [...draft.days, { name: `Day ${draft.days.length + 1}`, weekday: 1, exercises: [] }] })}
+          className="w-full py-3 border-2 border-dashed border-gray-300 rounded-xl text-sm font-semibold text-gray-600 hover:border-gray-400">
+          + Add Day
+        </button>
+
+        <div className="fixed bottom-0 left-0 right-0 bg-white border-t p-3" style={{ maxWidth: 480, margin: '0 auto' }}>
+          {problem && <div className="text-xs text-red-500 mb-2 text-center">{problem}</div>}
+          <button onClick={save} disabled={!!problem || savingProgramme}
+            className="w-full py-3 bg-black text-white rounded-xl text-sm font-bold hover:bg-gray-900 disabled:opacity-40">
+            {savingProgramme ? 'Saving…' : '💾 Save Programme'}
+          </button>
+          <p className="text-[10px] text-gray-400 mt-1 text-center">Upcoming gym sessions in your plan will follow these days</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (view === 'library') {
+    const query = libraryQuery.trim().toLowerCase();
+    const listed = exercises
+      .filter(e => showArchived ? e.archived : !e.archived)
+      .filter(e => !query || e.name.toLowerCase().includes(query) || e.primary_muscle.toLowerCase().includes(query))
+      .sort((a, b) => Number(!!b.user_id) - Number(!!a.user_id) || a.name.localeCompare(b.name));
+    const draft = editingExercise;
+    const updateDraft = (changes: Partial<GymExercise>) => draft && setEditingExercise({ ...draft, ...changes });
+    const toggleIn = (list: string[], item: string) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+    return (
+      <div className="p-4 space-y-4 pb-24">
+        <div className="flex items-center gap-3">
+          <button onClick={() => setView('home')} className="p-2 hover:bg-gray-100 rounded-lg">←</button>
+          <h2 className="text-xl font-bold text-gray-900 flex-1">Exercise Library</h2>
+          <button onClick={() => { setEditingExercise(newExercise()); setExerciseImage(null); setExerciseError(''); }}
+            className="px-3 py-1.5 rounded-lg text-sm font-bold text-black hover:opacity-80" style={{ backgroundColor: '#FFCB00' }}>
+            + New exercise
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4">
+          <div className="font-bold text-sm mb-1">Unavailable equipment</div>
+          <div className="text-xs text-gray-500 mb-2">Exercises needing these are flagged in workouts with swap suggestions</div>
+          <div className="flex flex-wrap gap-1.5">
+            {EQUIPMENT_TYPES.filter(item => item !== 'Bodyweight').map(item => (
+              <button key={item} onClick={() => toggleUnavailable(item)}
+                className={`px-2 py-1 rounded-full text-xs font-semibold ${unavailableEquipment.includes(item) ? 'bg-red-100 text-red-700 line-through' : 'bg-gray-100 text-gray-600'}`}>
+                {item}
+              </button>
+            ))}
           </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input value={libraryQuery} onChange={(e) => setLibraryQuery(e.target.value)} placeholder="Search by name or muscle"
+            className="flex-1 p-2 border rounded-lg text-sm" />
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} /> Archived
+          </label>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm divide-y">
+          {listed.length === 0 && <div className="p-6 text-center text-sm text-gray-400">{showArchived ? 'No archived exercises' : 'No exercises match'}</div>}
+          {listed.map(ex => {
+            const missing = ExerciseLibrary.missingEquipment(ex, unavailableEquipment);
+            const mine = ex.user_id === user.id;
+            return (
+              <div key={ex.id} className="flex items-center gap-3 p-3">
+                <ExerciseImage exercise={ex} size={40} />
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-sm truncate">{ex.name}</div>
+                  <div className="flex items-center gap-1.5 mt-0.5 flex-wrap">
+                    <span className="text-[10px] text-gray-500">{ex.primary_muscle}</span>
+                    <EquipmentBadge equipment={ex.equipment} />
+                    {ex.unilateral && <span className="text-[10px] font-bold px-1 rounded bg-sky-100 text-sky-700">UNI</span>}
+                    {ex.bodyweight && <span className="text-[10px] font-bold px-1 rounded bg-gray-100 text-gray-700">BW</span>}
+                    {mine && <span className="text-[10px] font-bold px-1 rounded" style={{ backgroundColor: '#FFFBCC', color: '#7A6000' }}>MINE</span>}
+                    {missing.length > 0 && <span className="text-[10px] text-amber-600">needs {missing.join(', ')}</span>}
+                  </div>
+                </div>
+                {mine && (
+                  <div className="flex gap-1">
+                    <button onClick={() => { setEditingExercise(ex); setExerciseImage(null); setExerciseError(''); }} className="px-2 py-1 text-xs font-semibold rounded-lg bg-gray-100 hover:bg-gray-200">Edit</button>
+                    <button onClick={() => toggleArchived(ex)} className="px-2 py-1 text-xs font-semibold rounded-lg bg-gray-100 hover:bg-gray-200">{ex.archived ? 'Restore' : 'Archive'}</button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {draft && (
+          <div className="fixed inset-0 bg-black/50 z-50 flex items-end" onClick={() => setEditingExercise(null)}>
+            <div className="bg-white rounded-t-2xl w-full max-h-[85vh] overflow-y-auto p-4 space-y-3" onClick={(e: any) => e.stopPropagation()}>
+              <div className="w-10 h-1 bg-gray-300 rounded-full mx-auto" />
+              <h3 className="font-bold text-lg">{draft.id ? 'Edit exercise' : 'New exercise'}</h3>
+              <input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="Exercise name"
+                className="w-full p-2 border rounded-lg text-sm" />
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs font-semibold text-gray-600">Category
+                  <select value={draft.day_type} onChange={(e) => updateDraft({ day_type: e.target.value })} className="w-full p-2 border rounded-lg text-sm mt-1">
+                    {EXERCISE_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs font-semibold text-gray-600">Primary muscle
+                  <select value={draft.primary_muscle} onChange={(e) => updateDraft({ primary_muscle: e.target.value, secondary_muscles: draft.secondary_muscles.filter(m => m !== e.target.value) })} className="w-full p-2 border rounded-lg text-sm mt-1">
+                    {MUSCLE_GROUPS.map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </label>
+              </div>
+              <div>
+                <div className="text-xs font-semibold text-gray-600 mb-1">Secondary muscles</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {MUSCLE_GROUPS.filter(m => m !== draft.primary_muscle).map(m => (
+                    <button key={m} onClick={() => updateDraft({ secondary_muscles: toggleIn(draft.secondary_muscles, m) })}
+                      className={`px-2 py-1 rounded-full text-xs font-semibold ${draft.secondary_muscles.includes(m) ? 'bg-black text-white' : 'bg-gray-100 text-gray-600'}`}>
+                      {m}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-semibold text-gray-600 mb-1">Equipment</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {EQUIPMENT_TYPES.map(item => (
+                    <button key={item} onClick={() => updateDraft({ equipment: toggleIn(draft.equipment, item) })}
+                      className={`px-2 py-1 rounded-full text-xs font-semibold ${draft.equipment.includes(item) ? 'bg-black text-white' : 'bg-gray-100 text-gray-600'}`}>
+                      {item}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-4 text-sm">
+                <label className="flex items-center gap-1.5"><input type="checkbox" checked={!!draft.unilateral} onChange={(e) => updateDraft({ unilateral: e.target.checked })} /> Unilateral</label>
+                <label className="flex items-center gap-1.5"><input type="checkbox" checked={!!draft.bodyweight} onChange={(e) => updateDraft({ bodyweight: e.target.checked })} /> Bodyweight</label>
+              </div>
+              <div className="flex items-center gap-3">
+                {(exerciseImage || draft.image_url) && (
+                  <img src={exerciseImage ? URL.createObjectURL(exerciseImage) : draft.image_url || ''} alt="" className="w-14 h-14 rounded-lg object-cover bg-gray-100" />
+                )}
+                <label className="text-xs font-semibold text-gray-600">Image (optional)
+                  <input type="file" accept="image/*" onChange={(e) => setExerciseImage(e.target.files?.[0] || null)} className="block text-xs mt-1" />
+                </label>
+              </div>
+              {exerciseError && <div className="text-xs text-red-600">{exerciseError}</div>}
+              <div className="flex gap-2">
+                <button onClick={() => setEditingExercise(null)} className="flex-1 py-2 rounded-lg bg-gray-100 text-sm font-semibold">Cancel</button>
+                <button onClick={saveExercise} disabled={savingExercise || !draft.name.trim()}
+                  className="flex-1 py-2 rounded-lg text-sm font-bold text-black disabled:opacity-50" style={{ backgroundColor: '#FFCB00' }}>
+                  {savingExercise ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (view === 'progress') {
+    const loggedIds = Array.from(new Set(strengthLog.map(l => l.exercise_id)));
+    const loggedExercises = exercises.filter(e => loggedIds.includes(e.id)).sort((a, b) => a.name.localeCompare(b.name));
+    const selected = loggedExercises.find(e => e.id === progressExercise) || loggedExercises[0];
+    const series = selected ? StrengthEngine.e1rmSeries(strengthLog, selected.id) : [];
+    const records = StrengthEngine.records(strengthLog.filter(l => l.exercise_id === selected?.id).flatMap(l => l.sets));
+    const muscleVolume = StrengthEngine.weeklyMuscleSets(strengthLog, exercises);
+
+    const width = 300, height = 120, pad = 6;
+    const values = series.map(p => p.e1rm);
+    const max = Math.max(...values, 1), min = Math.min(...values, max);
+    const span = Math.max(1, max - min);
+    const x = (i: number) => pad + (i / Math.max(1, series.length - 1)) * (width - pad * 2);
+    const y = (v: number) => pad + ((max - v) / span) * (height - pad * 2);
+    const change = series.length > 1 ? Math.round((series[series.length - 1].e1rm - series[0].e1rm) * 10) / 10 : 0;
+    const maxWeekSets = Math.max(1, ...muscleVolume.flatMap(m => m.perWeek));
+
+    return (
+      <div className="p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <button onClick={() => setView('home')} className="p-2 hover:bg-gray-100 rounded-lg">←</button>
+          <h2 className="text-xl font-bold text-gray-900">Strength Progress</h2>
+        </div>
+
+        {loggedExercises.length === 0 ? (
+          <div className="text-center py-12 text-gray-400"><div className="text-4xl mb-3">📈</div><div className="font-semibold">No completed workouts yet</div><div className="text-sm">Save a session to history to see your progress</div></div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl shadow-sm p-4">
+              <select value={selected?.id || ''} onChange={(e) => setProgressExercise(e.target.value)} className="w-full p-2 border rounded-lg text-sm font-semibold mb-3">
+                {loggedExercises.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+              </select>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-bold text-sm text-gray-700 flex items-center gap-2"><TrendingUp size={16} style={{ color: '#FFCB00' }} /> Estimated 1RM</h3>
+                {series.length > 1 && <span className={`text-xs font-semibold ${change >= 0 ? 'text-green-600' : 'text-red-500'}`}>{change >= 0 ? '+' : ''}{change}kg</span>}
+              </div>
+              {series.length > 0 ? (
+                <>
+                  <svg viewBox={`0 0 ${width} ${height}`} className="w-full" preserveAspectRatio="none" style={{ height: 120 }}>
+                    <polyline points={series.map((p, i) => `${x(i).toFixed(1)},${y(p.e1rm).toFixed(1)}`).join(' ')} fill="none" stroke="#000" strokeWidth={2} />
+                    {series.map((p, i) => (
+                      <circle key={p.date} cx={x(i)} cy={y(p.e1rm)} r={p.e1rm === max ? 4 : 2.5} fill={p.e1rm === max ? '#FFCB00' : '#000'} />
+                    ))}
+                  </svg>
+                  <div className="flex justify-between text-xs text-gray-400 mt-1"><span>{formatDate(series[0].date)}</span><span>{formatDate(series[series.length - 1].date)}</span></div>
+                </>
+              ) : <div className="text-xs text-gray-400">No working sets logged for this exercise yet.</div>}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-4">
+              <h3 className="font-bold text-sm text-gray-700 flex items-center gap-2 mb-3"><Trophy size={16} style={{ color: '#FFCB00' }} /> Personal Records</h3>
+              <div className="grid grid-cols-5 gap-2 text-center">
+                <div className="rounded p-2" style={{ backgroundColor: '#FFFBCC' }}><div className="text-sm font-bold" style={{ color: '#7A6000' }}>{records.e1rm || '—'}</div><div className="text-[10px] text-gray-500">e1RM</div></div>
+                {PR_REP_TARGETS.map(n => (
+                  <div key={n} className="bg-gray-50 rounded p-2"><div className="text-sm font-bold text-gray-800">{records.reps[n] || '—'}</div><div className="text-[10px] text-gray-500">{n}RM</div></div>
+                ))}
+              </div>
+              <p className="text-[10px] text-gray-400 mt-2">kg · e1RM uses Brzycki/Epley with RPE reps-in-reserve added</p>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm p-4">
+              <h3 className="font-bold text-sm text-gray-700 flex items-center gap-2 mb-1"><Dumbbell size={16} style={{ color: '#FFCB00' }} /> Weekly Sets per Muscle</h3>
+              <p className="text-[10px] text-gray-400 mb-3">Last 8 weeks · secondary muscles count as half a set</p>
+              <div className="space-y-2">
+                {muscleVolume.map(m => (
+                  <div key={m.muscle} className="flex items-center gap-3">
+                    <div className="w-28 text-xs text-gray-600 truncate">{m.muscle}</div>
+                    <div className="flex-1 flex items-end gap-0.5" style={{ height: 20 }}>
+                      {m.perWeek.map((sets, i) => (
+                        <div key={i} className="flex-1 rounded-sm" style={{ height: `${Math.max(2, (sets / maxWeekSets) * 100)}%`, backgroundColor: i === m.perWeek.length - 1 ? '#FFCB00' : '#E5E7EB' }} />
+                      ))}
+                    </div>
+                    <div className="w-8 text-right text-xs font-bold text-gray-800">{m.perWeek[m.perWeek.length - 1]}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
         )}
       </div>
     );
@@ -3081,7 +6708,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
                 <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{d.toLocaleString('default', { month: 'long', year: 'numeric' })}</p>
                 {sessions.map(s => (
                   <button key={s.id} onClick={() => viewSession(s)} className="w-full flex items-center gap-3 p-3 bg-white rounded-lg shadow-sm mb-2 hover:bg-gray-50">
-                    <img src={dayTypeImages[s.day_type as string] || ''} alt={s.day_type} className="w-10 h-10 rounded-lg object-cover" />
+                    {dayImage(s.day_type, 'w-10 h-10 rounded-lg')}
                     <div className="flex-1 text-left"><div className="font-semibold text-sm">{s.day_type} Day</div><div className="text-xs text-gray-500">{formatDate(s.date)}</div></div>
                     {s.duration_minutes && <div className="text-xs text-gray-400">{s.duration_minutes}min</div>}
                     <span className="text-gray-300">→</span>
@@ -3104,7 +6731,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
 
   if (view === 'session-detail' && viewingSession) {
     const totalSets = viewingEntries.reduce((sum, e) => sum + e.sets.length, 0);
-    const totalVolume = viewingEntries.reduce((sum, e) => sum + e.sets.reduce((s, set) => s + set.weight * set.reps, 0), 0);
+    const totalVolume = viewingEntries.reduce((sum, e) => sum + StrengthEngine.tonnage(e.sets), 0);
 
     return (
       <div className="p-4 space-y-3">
@@ -3116,7 +6743,7 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
 
         <div className="bg-black text-white rounded-xl p-4">
           <div className="flex items-center gap-3">
-            <img src={dayTypeImages[viewingSession.day_type] || ''} alt="" className="w-12 h-12 rounded-lg object-cover opacity-80" />
+            {dayImage(viewingSession.day_type, 'w-12 h-12 rounded-lg opacity-80')}
             <div>
               <div className="font-bold text-lg">{viewingSession.day_type} Day</div>
               <div className="text-sm opacity-60">{formatDate(viewingSession.date)}</div>
@@ -3142,15 +6769,18 @@ const GymScreen = ({ supabase, user }: { supabase: any; user: any }) => {
           <div key={i} className="bg-white rounded-xl shadow-sm overflow-hidden">
             <div className="p-3 flex items-center gap-3 border-b">
               <ExerciseImage exercise={entry.exercise} size={32} />
-              <div><div className="font-bold text-sm">{entry.exercise?.name}</div><EquipmentBadge equipment={entry.exercise?.equipment || ''} /></div>
+              <div className="flex-1"><div className="font-bold text-sm">{entry.exercise?.name}</div><EquipmentBadge equipment={entry.exercise?.equipment || ''} /></div>
+              {StrengthEngine.records(entry.sets).e1rm > 0 && <div className="text-xs text-gray-500">e1RM <span className="font-bold text-gray-800">{StrengthEngine.records(entry.sets).e1rm}kg</span></div>}
             </div>
             <div className="px-3 py-2">
               {entry.sets.map((set, j) => (
                 <div key={j} className="flex items-center gap-4 py-1 text-sm">
-                  <span className="text-gray-400 font-bold w-6">{j + 1}</span>
-                  <span className="font-semibold">{set.weight}kg</span>
-                  <span>× {set.reps}</span>
+                  <span className={`font-bold w-6 ${SET_TYPES[setTypeOf(set)].color}`} title={SET_TYPES[setTypeOf(set)].label}>{SET_TYPES[setTypeOf(set)].short || j + 1}</span>
+                  {setTypeOf(set) === 'timed'
+                    ? <><span className="font-semibold">{set.duration_seconds}s</span>{set.weight > 0 && <span>+{set.weight}kg</span>}</>
+                    : <><span className="font-semibold">{set.weight}kg</span><span>× {set.reps}</span></>}
                   {set.rpe && <span className="text-gray-400">@{set.rpe}</span>}
+                  {setTypeOf(set) !== 'normal' && setTypeOf(set) !== 'warmup' && <span className="text-[10px] text-gray-400 uppercase">{SET_TYPES[setTypeOf(set)].label}</span>}
                 </div>
               ))}
             </div>
@@ -0,0 +1,206 @@
+// Parses .fit, .gpx and .tcx exports from watches and bike computers into a training-session shape.
+// Distances follow the app convention: metres for swims, kilometres for everything else.
+
+import { toLocalDate } from './dates';
+
+export interface ImportedLap {
+  index: number;
+  duration: number; // seconds
+  distance: number; // metres
+  avgHr: number | null;
+  avgPower: number | null;
+}
+
+export interface ImportedActivity {
+  sport: string;
+  date: string;
+  duration: number; // minutes
+  distance: number;
+  avgHr: number | null;
+  avgPower: number | null;
+  avgPace: number | null; // sec/km, or sec/100m for swims
+  laps: ImportedLap[];
+  source: 'fit' | 'gpx' | 'tcx';
+}
+
+const mapSport = (raw: string | number | null | undefined) => {
+  const s = String(raw ?? '').toLowerCase();
+  if (s === '1' || s.includes('run')) return 'Run';
+  if (s === '2' || s.includes('bik') || s.includes('cycl') || s.includes('ride')) return 'Bike';
+  if (s === '5' || s.includes('swim')) return 'Swim';
+  return 'Run';
+};
+
+const average = (values: number[]) => values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+
+const buildActivity = (source: ImportedActivity['source'], sport: string, start: Date, seconds: number, metres: number, avgHr: number | null, avgPower: number | null, laps: ImportedLap[]): ImportedActivity => {
+  const isSwim = sport === 'Swim';
+  const distance = isSwim ? Math.round(metres) : Math.round(metres / 100) / 10;
+  const paceUnit = isSwim ? metres / 100 : metres / 1000;
+  return {
+    sport, source, laps, avgHr, avgPower,
+    date: toLocalDate(start), // the day the athlete trained, not the UTC day
+    duration: Math.round(seconds / 60),
+    distance,
+    avgPace: paceUnit > 0 ? Math.round(seconds / paceUnit) : null,
+  };
+};
+
+// ============================================================================
+// GPX
+// ============================================================================
+
+const haversine = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const rad = Math.PI / 180, r = 6371000;
+  const dLat = (lat2 - lat1) * rad, dLon = (lon2 - lon1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * r * Math.asin(Math.sqrt(a));
+};
+
+const childNumber = (el: Element, localName: string) => {
+  const found = Array.from(el.getElementsByTagName('*')).find(c => c.localName === localName);
+  return found ? parseFloat(found.textContent || '') : NaN;
+};
+
+export const parseGpx = (text: string): ImportedActivity => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const segments = Array.from(doc.getElementsByTagName('trkseg'));
+  if (segments.length === 0) throw new Error('No track found in GPX file');
+  const type = doc.getElementsByTagName('type')[0]?.textContent;
+  const hrs: number[] = [], watts: number[] = [];
+  let totalMetres = 0, first: Date | null = null, last: Date | null = null;
+  const laps: ImportedLap[] = segments.map((seg, index) => {
+    const points = Array.from(seg.getElementsByTagName('trkpt'));
+    const lapHr: number[] = [], lapPower: number[] = [];
+    let metres = 0, segStart: Date | null = null, segEnd: Date | null = null;
+    points.forEach((pt, i) => {
+      const time = pt.getElementsByTagName('time')[0]?.textContent;
+      if (time) { const t = new Date(time); segStart = segStart || t; segEnd = t; }
+      if (i > 0) {
+        const prev = points[i - 1];
+        metres += haversine(+prev.getAttribute('lat')!, +prev.getAttribute('lon')!, +pt.getAttribute('lat')!, +pt.getAttribute('lon')!);
+      }
+      const hr = childNumber(pt, 'hr'), power = childNumber(pt, 'power');
+      if (!isNaN(hr)) lapHr.push(hr);
+      if (!isNaN(power)) lapPower.push(power);
+    });
+    hrs.push(...lapHr); watts.push(...lapPower);
+    totalMetres += metres;
+    first = first || segStart; last = segEnd || last;
+    const duration = segStart && segEnd ? ((segEnd as Date).getTime() - (segStart as Date).getTime()) / 1000 : 0;
+    return { index, duration: Math.round(duration), distance: Math.round(metres), avgHr: average(lapHr), avgPower: average(lapPower) };
+  });
+  if (!first || !last) throw new Error('GPX file has no timestamps');
+  const seconds = ((last as Date).getTime() - (first as Date).getTime()) / 1000;
+  return buildActivity('gpx', mapSport(type), first, seconds, totalMetres, average(hrs), average(watts), laps);
+};
+
+// ============================================================================
+// TCX
+// ============================================================================
+
+export const parseTcx = (text: string): ImportedActivity => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const activity = doc.getElementsByTagName('Activity')[0];
+  if (!activity) throw new Error('No activity found in TCX file');
+  const lapEls = Array.from(activity.getElementsByTagName('Lap'));
+  if (lapEls.length === 0) throw new Error('TCX activity has no laps');
+  const laps: ImportedLap[] = lapEls.map((lap, index) => {
+    const hrEl = lap.getElementsByTagName('AverageHeartRateBpm')[0];
+    const watts = childNumber(lap, 'AvgWatts');
+    return {
+      index,
+      duration: Math.round(childNumber(lap, 'TotalTimeSeconds') || 0),
+      distance: Math.round(childNumber(lap, 'DistanceMeters') || 0),
+      avgHr: hrEl ? Math.round(childNumber(hrEl, 'Value')) : null,
+      avgPower: isNaN(watts) ? null : Math.round(watts),
+    };
+  });
+  const seconds = laps.reduce((s, l) => s + l.duration, 0);
+  const metres = laps.reduce((s, l) => s + l.distance, 0);
+  // Weight lap averages by lap duration
+  const weighted = (key: 'avgHr' | 'avgPower') => {
+    const withValue = laps.filter(l => l[key] !== null);
+    const time = withValue.reduce((s, l) => s + l.duration, 0);
+    return time > 0 ? Math.round(withValue.reduce((s, l) => s + (l[key] as number) * l.duration, 0) / time) : null;
+  };
+  const id = activity.getElementsByTagName('Id')[0]?.textContent || lapEls[0].getAttribute('StartTime');
+  return buildActivity('tcx', mapSport(activity.getAttribute('Sport')), new Date(id || Date.now()), seconds, metres, weighted('avgHr'), weighted('avgPower'), laps);
+};
+
+// ============================================================================
+// FIT
+// ============================================================================
+
+const FIT_EPOCH_OFFSET = 631065600; // seconds between 1970-01-01 and 1989-12-31
+const FIT_MESG_SESSION = 18, FIT_MESG_LAP = 19;
+
+interface FitDefinition { littleEndian: boolean; globalNum: number; fields: { num: number; size: number }[]; devSize: number }
+
+const readFitValue = (view: DataView, offset: number, size: number, littleEndian: boolean) => {
+  if (size === 1) { const v = view.getUint8(offset); return v === 0xff ? null : v; }
+  if (size === 2) { const v = view.getUint16(offset, littleEndian); return v === 0xffff ? null : v; }
+  if (size === 4) { const v = view.getUint32(offset, littleEndian); return v === 0xffffffff ? null : v; }
+  return null;
+};
+
+export const parseFit = (buffer: ArrayBuffer): ImportedActivity => {
+  const view = new DataView(buffer);
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  if (String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11)) !== '.FIT') throw new Error('Not a valid FIT file');
+  const definitions: Record<number, FitDefinition> = {};
+  const sessions: Record<number, number | null>[] = [], lapMsgs: Record<number, number | null>[] = [];
+  let offset = headerSize;
+  const end = Math.min(headerSize + dataSize, buffer.byteLength);
+
+  while (offset < end) {
+    const header = view.getUint8(offset++);
+    const compressed = (header & 0x80) !== 0;
+    const localType = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+    if (!compressed && (header & 0x40)) {
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNum = view.getUint16(offset + 2, littleEndian);
+      const numFields = view.getUint8(offset + 4);
+      offset += 5;
+      const fields = [];
+      for (let i = 0; i < numFields; i++, offset += 3) fields.push({ num: view.getUint8(offset), size: view.getUint8(offset + 1) });
+      let devSize = 0;
+      if (header & 0x20) {
+        const numDev = view.getUint8(offset++);
+        for (let i = 0; i < numDev; i++, offset += 3) devSize += view.getUint8(offset + 1);
+      }
+      definitions[localType] = { littleEndian, globalNum, fields, devSize };
+      continue;
+    }
+    const def = definitions[localType];
+    if (!def) throw new Error('Corrupt FIT file: data before definition');
+    const values: Record<number, number | null> = {};
+    def.fields.forEach(f => { values[f.num] = readFitValue(view, offset, f.size, def.littleEndian); offset += f.size; });
+    offset += def.devSize;
+    if (def.globalNum === FIT_MESG_SESSION) sessions.push(values);
+    if (def.globalNum === FIT_MESG_LAP) lapMsgs.push(values);
+  }
+
+  if (sessions.length === 0) throw new Error('FIT file has no session summary');
+  // Session fields: 2 start_time, 5 sport, 8 total_timer_time (ms), 9 total_distance (cm), 16 avg_heart_rate, 20 avg_power
+  const session = sessions[0];
+  const start = new Date(((session[2] ?? 0) + FIT_EPOCH_OFFSET) * 1000);
+  // Lap fields: 8 total_timer_time (ms), 9 total_distance (cm), 15 avg_heart_rate, 19 avg_power
+  const laps: ImportedLap[] = lapMsgs.map((l, index) => ({
+    index,
+    duration: Math.round((l[8] ?? 0) / 1000),
+    distance: Math.round((l[9] ?? 0) / 100),
+    avgHr: l[15] ?? null,
+    avgPower: l[19] ?? null,
+  }));
+  return buildActivity('fit', mapSport(session[5]), start, (session[8] ?? 0) / 1000, (session[9] ?? 0) / 100, session[16] ?? null, session[20] ?? null, laps);
+};
+
+export const parseActivityFile = async (file: File): Promise<ImportedActivity> => {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  if (ext === 'fit') return parseFit(await file.arrayBuffer());
+  if (ext === 'gpx') return parseGpx(await file.text());
+  if (ext === 'tcx') return parseTcx(await file.text());
+  throw new Error('Unsupported file type — use .fit, .gpx or .tcx');
+};
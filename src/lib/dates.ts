@@ -0,0 +1,12 @@
+// Calendar dates as YYYY-MM-DD in the device's time zone. toISOString() gives the UTC date, which is
+// a day early for local midnights east of UTC and a day late for evenings west of it.
+
+export const toLocalDate = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Shifts a YYYY-MM-DD date by whole calendar days (safe across DST changes, unlike adding 24h)
+export const addDays = (date: string, days: number) => {
+  const d = new Date(date + 'T00:00:00');
+  d.setDate(d.getDate() + days);
+  return toLocalDate(d);
+};
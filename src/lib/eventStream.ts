@@ -0,0 +1,28 @@
+// Reads a server-sent event stream from a fetch response (EventSource only supports GET).
+// Each complete event is handed to onEvent with its name and parsed JSON data.
+
+export const readEventStream = async (response: Response, onEvent: (event: string, data: any) => void) => {
+  if (!response.body) throw new Error('Response has no body to stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (raw: string) => {
+    let event = 'message', data = '';
+    raw.split('\n').forEach(line => {
+      if (line.startsWith('event: ')) event = line.slice(7).trim();
+      else if (line.startsWith('data: ')) data += line.slice(6);
+    });
+    if (data) onEvent(event, JSON.parse(data));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    events.forEach(dispatch);
+  }
+  if (buffer.trim()) dispatch(buffer);
+};
@@ -0,0 +1,143 @@
+// Bundled food database for the meal log. Macros are per 100g (or 100ml for drinks), rounded from
+// standard reference values for generic foods and from the pack label for the retail products, which
+// carry their EAN-13 so a scan or typed barcode resolves without leaving the device.
+
+export interface FoodServing {
+  label: string;
+  grams: number;
+}
+
+export interface FoodItem {
+  id: string;
+  name: string;
+  kcal: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  servings: FoodServing[];
+  barcode?: string;
+}
+
+export interface FoodMacros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export const FOODS: FoodItem[] = [
+  { id: 'oats', name: 'Rolled oats', kcal: 379, protein: 13.2, carbs: 67.7, fat: 6.5, servings: [{ label: 'Bowl (40g)', grams: 40 }] },
+  { id: 'granola', name: 'Granola', kcal: 471, protein: 10, carbs: 64, fat: 20, servings: [{ label: 'Bowl (50g)', grams: 50 }] },
+  { id: 'banana', name: 'Banana', kcal: 89, protein: 1.1, carbs: 22.8, fat: 0.3, servings: [{ label: 'Medium', grams: 118 }] },
+  { id: 'apple', name: 'Apple', kcal: 52, protein: 0.3, carbs: 13.8, fat: 0.2, servings: [{ label: 'Medium', grams: 182 }] },
+  { id: 'orange', name: 'Orange', kcal: 47, protein: 0.9, carbs: 11.8, fat: 0.1, servings: [{ label: 'Medium', grams: 131 }] },
+  { id: 'blueberries', name: 'Blueberries', kcal: 57, protein: 0.7, carbs: 14.5, fat: 0.3, servings: [{ label: 'Cup', grams: 148 }] },
+  { id: 'strawberries', name: 'Strawberries', kcal: 32, protein: 0.7, carbs: 7.7, fat: 0.3, servings: [{ label: 'Cup', grams: 152 }] },
+  { id: 'dates', name: 'Medjool dates', kcal: 277, protein: 1.8, carbs: 75, fat: 0.2, servings: [{ label: '1 date', grams: 24 }] },
+  { id: 'whole_milk', name: 'Whole milk', kcal: 61, protein: 3.2, carbs: 4.8, fat: 3.3, servings: [{ label: 'Glass (250ml)', grams: 250 }] },
+  { id: 'semi_milk', name: 'Semi-skimmed milk', kcal: 47, protein: 3.5, carbs: 4.8, fat: 1.7, servings: [{ label: 'Glass (250ml)', grams: 250 }, { label: 'Splash', grams: 30 }] },
+  { id: 'oat_drink', name: 'Oat drink', kcal: 46, protein: 1, carbs: 6.7, fat: 1.5, servings: [{ label: 'Glass (250ml)', grams: 250 }] },
+  { id: 'greek_yogurt_0', name: 'Greek yogurt 0% fat', kcal: 59, protein: 10.3, carbs: 3.6, fat: 0.4, servings: [{ label: 'Pot', grams: 170 }] },
+  { id: 'greek_yogurt', name: 'Greek yogurt, full fat', kcal: 97, protein: 9, carbs: 4, fat: 5, servings: [{ label: 'Pot', grams: 170 }] },
+  { id: 'cottage_cheese', name: 'Cottage cheese', kcal: 98, protein: 11.1, carbs: 3.4, fat: 4.3, servings: [{ label: 'Half tub', grams: 150 }] },
+  { id: 'cheddar', name: 'Cheddar', kcal: 403, protein: 24.9, carbs: 1.3, fat: 33.1, servings: [{ label: 'Slice', grams: 30 }] },
+  { id: 'butter', name: 'Butter', kcal: 717, protein: 0.9, carbs: 0.1, fat: 81, servings: [{ label: 'Knob', grams: 10 }] },
+  { id: 'egg', name: 'Egg', kcal: 143, protein: 12.6, carbs: 0.7, fat: 9.5, servings: [{ label: 'Large egg', grams: 50 }] },
+  { id: 'egg_white', name: 'Egg white', kcal: 52, protein: 10.9, carbs: 0.7, fat: 0.2, servings: [{ label: '1 white', grams: 33 }] },
+  { id: 'chicken_breast', name: 'Chicken breast, cooked', kcal: 165, protein: 31, carbs: 0, fat: 3.6, servings: [{ label: 'Fillet', grams: 150 }] },
+  { id: 'beef_mince', name: 'Beef mince 5% fat', kcal: 137, protein: 21.4, carbs: 0, fat: 5, servings: [{ label: 'Portion', grams: 125 }] },
+  { id: 'ham', name: 'Ham, sliced', kcal: 110, protein: 19, carbs: 1.5, fat: 3, servings: [{ label: 'Slice', grams: 25 }] },
+  { id: 'salmon', name: 'Salmon fillet, cooked', kcal: 206, protein: 22.1, carbs: 0, fat: 12.4, servings: [{ label: 'Fillet', grams: 140 }] },
+  { id: 'cod', name: 'Cod, cooked', kcal: 105, protein: 22.8, carbs: 0, fat: 0.9, servings: [{ label: 'Fillet', grams: 150 }] },
+  { id: 'tuna_can', name: 'Tuna in spring water, drained', kcal: 116, protein: 25.5, carbs: 0, fat: 0.8, servings: [{ label: 'Can (drained)', grams: 120 }] },
+  { id: 'tofu', name: 'Tofu, firm', kcal: 144, protein: 17.3, carbs: 2.8, fat: 8.7, servings: [{ label: 'Portion', grams: 100 }] },
+  { id: 'lentils', name: 'Lentils, cooked', kcal: 116, protein: 9, carbs: 20.1, fat: 0.4, servings: [{ label: 'Portion', grams: 200 }] },
+  { id: 'chickpeas', name: 'Chickpeas, drained', kcal: 139, protein: 7, carbs: 22.5, fat: 2.6, servings: [{ label: 'Half can', grams: 120 }] },
+  { id: 'baked_beans', name: 'Baked beans in tomato sauce', kcal: 78, protein: 4.7, carbs: 12.9, fat: 0.2, servings: [{ label: 'Half can', grams: 207 }] },
+  { id: 'hummus', name: 'Hummus', kcal: 166, protein: 7.9, carbs: 14.3, fat: 9.6, servings: [{ label: '2 tbsp', grams: 30 }] },
+  { id: 'white_rice', name: 'White rice, cooked', kcal: 130, protein: 2.7, carbs: 28.2, fat: 0.3, servings: [{ label: 'Cup', grams: 158 }] },
+  { id: 'brown_rice', name: 'Brown rice, cooked', kcal: 123, protein: 2.7, carbs: 25.6, fat: 1, servings: [{ label: 'Cup', grams: 158 }] },
+  { id: 'pasta', name: 'Pasta, cooked', kcal: 158, protein: 5.8, carbs: 30.9, fat: 0.9, servings: [{ label: 'Portion', grams: 180 }] },
+  { id: 'quinoa', name: 'Quinoa, cooked', kcal: 120, protein: 4.4, carbs: 21.3, fat: 1.9, servings: [{ label: 'Cup', grams: 185 }] },
+  { id: 'potato', name: 'Potato, boiled', kcal: 87, protein: 1.9, carbs: 20.1, fat: 0.1, servings: [{ label: 'Medium', grams: 170 }] },
+  { id: 'sweet_potato', name: 'Sweet potato, baked', kcal: 90, protein: 2, carbs: 20.7, fat: 0.2, servings: [{ label: 'Medium', grams: 150 }] },
+  { id: 'wholemeal_bread', name: 'Wholemeal bread', kcal: 247, protein: 13, carbs: 41, fat: 3.4, servings: [{ label: 'Slice', grams: 36 }] },
+  { id: 'white_bread', name: 'White bread', kcal: 265, protein: 9, carbs: 49, fat: 3.2, servings: [{ label: 'Slice', grams: 30 }] },
+  { id: 'bagel', name: 'Bagel, plain', kcal: 250, protein: 10, carbs: 49, fat: 1.5, servings: [{ label: 'Bagel', grams: 100 }] },
+  { id: 'rice_cakes', name: 'Rice cakes', kcal: 387, protein: 8.2, carbs: 81.5, fat: 2.8, servings: [{ label: '1 cake', grams: 9 }] },
+  { id: 'pretzels', name: 'Pretzels', kcal: 380, protein: 10, carbs: 80, fat: 3, servings: [{ label: 'Handful', grams: 30 }] },
+  { id: 'broccoli', name: 'Broccoli', kcal: 34, protein: 2.8, carbs: 6.6, fat: 0.4, servings: [{ label: 'Portion', grams: 90 }] },
+  { id: 'spinach', name: 'Spinach', kcal: 23, protein: 2.9, carbs: 3.6, fat: 0.4, servings: [{ label: 'Handful', grams: 30 }] },
+  { id: 'salad', name: 'Mixed salad leaves', kcal: 17, protein: 1.2, carbs: 3, fat: 0.2, servings: [{ label: 'Bowl', grams: 85 }] },
+  { id: 'avocado', name: 'Avocado', kcal: 160, protein: 2, carbs: 8.5, fat: 14.7, servings: [{ label: 'Half', grams: 75 }] },
+  { id: 'peanut_butter', name: 'Peanut butter', kcal: 588, protein: 25, carbs: 20, fat: 50, servings: [{ label: 'Tbsp', grams: 16 }] },
+  { id: 'almonds', name: 'Almonds', kcal: 579, protein: 21.2, carbs: 21.6, fat: 49.9, servings: [{ label: 'Handful', grams: 28 }] },
+  { id: 'olive_oil', name: 'Olive oil', kcal: 884, protein: 0, carbs: 0, fat: 100, servings: [{ label: 'Tbsp', grams: 14 }] },
+  { id: 'honey', name: 'Honey', kcal: 304, protein: 0.3, carbs: 82.4, fat: 0, servings: [{ label: 'Tbsp', grams: 21 }] },
+  { id: 'jam', name: 'Jam', kcal: 250, protein: 0.4, carbs: 60, fat: 0.1, servings: [{ label: 'Tbsp', grams: 20 }] },
+  { id: 'dark_chocolate', name: 'Dark chocolate 70%', kcal: 598, protein: 7.8, carbs: 45.9, fat: 42.6, servings: [{ label: '2 squares', grams: 20 }] },
+  { id: 'orange_juice', name: 'Orange juice', kcal: 45, protein: 0.7, carbs: 10.4, fat: 0.2, servings: [{ label: 'Glass (250ml)', grams: 250 }] },
+  { id: 'latte', name: 'Latte, semi-skimmed', kcal: 42, protein: 2.8, carbs: 4.1, fat: 1.5, servings: [{ label: 'Regular (300ml)', grams: 300 }] },
+  { id: 'pizza', name: 'Pizza margherita', kcal: 266, protein: 11, carbs: 33, fat: 10, servings: [{ label: 'Slice', grams: 107 }] },
+  { id: 'flapjack', name: 'Flapjack', kcal: 450, protein: 5, carbs: 58, fat: 22, servings: [{ label: 'Bar', grams: 60 }] },
+  { id: 'whey', name: 'Whey protein powder', kcal: 400, protein: 80, carbs: 8, fat: 6, servings: [{ label: 'Scoop', grams: 30 }] },
+  { id: 'complete_meal', name: 'Complete meal powder', kcal: 400, protein: 30, carbs: 37, fat: 13, servings: [{ label: 'Serving', grams: 100 }] },
+  { id: 'protein_bar', name: 'Protein bar', kcal: 350, protein: 33, carbs: 35, fat: 10, servings: [{ label: 'Bar', grams: 60 }] },
+  { id: 'energy_bar', name: 'Energy bar', kcal: 400, protein: 10, carbs: 60, fat: 12, servings: [{ label: 'Bar', grams: 55 }] },
+  { id: 'energy_gel', name: 'Energy gel', kcal: 225, protein: 0, carbs: 56, fat: 0, servings: [{ label: 'Gel', grams: 40 }] },
+  { id: 'caffeine_gel', name: 'Energy gel with caffeine', kcal: 225, protein: 0, carbs: 56, fat: 0, servings: [{ label: 'Gel', grams: 40 }] },
+  { id: 'sports_drink', name: 'Sports drink, made up', kcal: 26, protein: 0, carbs: 6.4, fat: 0, servings: [{ label: 'Bottle (500ml)', grams: 500 }] },
+  { id: 'electrolyte_tab', name: 'Electrolyte tablet, made up', kcal: 2, protein: 0, carbs: 0.4, fat: 0, servings: [{ label: 'Bottle (500ml)', grams: 500 }] },
+  { id: 'recovery_shake', name: 'Recovery shake, made up', kcal: 75, protein: 5, carbs: 11, fat: 1, servings: [{ label: 'Bottle (500ml)', grams: 500 }] },
+
+  // Retail products
+  { id: 'nutella', name: 'Nutella hazelnut spread (Ferrero)', kcal: 539, protein: 6.3, carbs: 57.5, fat: 30.9, servings: [{ label: 'Tbsp', grams: 15 }], barcode: '3017620422003' },
+  { id: 'ferrero_rocher', name: 'Ferrero Rocher', kcal: 603, protein: 8.2, carbs: 44.4, fat: 42.7, servings: [{ label: '1 chocolate', grams: 12.5 }], barcode: '8000500037560' },
+  { id: 'coca_cola', name: 'Coca-Cola', kcal: 42, protein: 0, carbs: 10.6, fat: 0, servings: [{ label: 'Can (330ml)', grams: 330 }], barcode: '5449000000996' },
+  { id: 'coca_cola_zero', name: 'Coca-Cola Zero Sugar', kcal: 0.3, protein: 0, carbs: 0, fat: 0, servings: [{ label: 'Can (330ml)', grams: 330 }], barcode: '5449000131805' },
+  { id: 'red_bull', name: 'Red Bull energy drink', kcal: 46, protein: 0, carbs: 11, fat: 0, servings: [{ label: 'Can (250ml)', grams: 250 }], barcode: '9002490100070' },
+  { id: 'oreo', name: 'Oreo biscuits', kcal: 480, protein: 5, carbs: 69, fat: 20, servings: [{ label: '1 biscuit', grams: 11 }], barcode: '7622210449283' },
+  { id: 'heinz_beanz', name: 'Heinz Beanz', kcal: 78, protein: 4.7, carbs: 12.9, fat: 0.2, servings: [{ label: 'Half can', grams: 207 }], barcode: '5000157024671' },
+  { id: 'barilla_spaghetti', name: 'Barilla Spaghetti n.5, dry', kcal: 359, protein: 12, carbs: 71, fat: 2, servings: [{ label: 'Portion', grams: 80 }], barcode: '8076800195057' },
+  { id: 'barilla_penne', name: 'Barilla Penne Rigate, dry', kcal: 359, protein: 12, carbs: 71, fat: 2, servings: [{ label: 'Portion', grams: 80 }], barcode: '8076802085738' },
+  { id: 'milka_alpine', name: 'Milka Alpine Milk chocolate', kcal: 539, protein: 6.6, carbs: 58, fat: 31, servings: [{ label: '4 squares', grams: 25 }], barcode: '3045140105502' },
+  { id: 'lindt_70', name: 'Lindt Excellence 70% cocoa', kcal: 566, protein: 9.5, carbs: 34, fat: 41, servings: [{ label: '2 squares', grams: 20 }], barcode: '3046920022651' },
+];
+
+const normalise = (s: string) => s.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Every query word must appear in the name; names starting with the query rank first
+export const searchFoods = (query: string, limit = 20): FoodItem[] => {
+  const words = normalise(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  return FOODS
+    .filter(f => words.every(w => normalise(f.name).includes(w)))
+    .sort((a, b) => Number(normalise(b.name).startsWith(words[0])) - Number(normalise(a.name).startsWith(words[0])) || a.name.localeCompare(b.name))
+    .slice(0, limit);
+};
+
+// A 12-digit UPC-A is the same code as the EAN-13 with a leading zero
+export const findFoodByBarcode = (code: string): FoodItem | null => {
+  const digits = code.replace(/\D/g, '');
+  const ean = digits.length === 12 ? `0${digits}` : digits;
+  return FOODS.find(f => f.barcode === ean) || null;
+};
+
+export const getFood = (id: string | null | undefined): FoodItem | null => FOODS.find(f => f.id === id) || null;
+
+export const macrosFor = (food: FoodItem, grams: number): FoodMacros => ({
+  calories: Math.round(food.kcal * grams / 100),
+  protein: Math.round(food.protein * grams / 10) / 10,
+  carbs: Math.round(food.carbs * grams / 10) / 10,
+  fat: Math.round(food.fat * grams / 10) / 10,
+});
+
+// Reads an EAN/UPC from a photo using the browser's BarcodeDetector where the browser provides one
+export const scanBarcode = async (file: File): Promise<string> => {
+  const Detector = (window as any).BarcodeDetector;
+  if (!Detector) throw new Error('Barcode scanning is not supported in this browser — type the number instead');
+  const detector = new Detector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e'] });
+  const codes = await detector.detect(await createImageBitmap(file));
+  if (codes.length === 0) throw new Error('No barcode found in the photo');
+  return codes[0].rawValue as string;
+};
@@ -0,0 +1,14 @@
+// Types for trainingRules.js
+
+export interface CarbTier { dayType: string; maxMins: number; carbsPerKg: number }
+
+interface FuelledSession { sport: string; duration: number; intensity?: string }
+
+interface HabitDay { name: string; icon?: string; schedule?: string | null; date: string; completed: boolean }
+
+export const CARB_TIERS: CarbTier[];
+export const carbTier: (sessions: FuelledSession[]) => CarbTier;
+export const isLongSession: (s: { sport: string; duration: number }) => boolean;
+export const carbsPerHourDuring: (s: { sport: string; duration: number }) => string;
+export const isHabitScheduled: (habit: { schedule?: string | null; date: string }, trainingDates: Set<string>) => boolean;
+export const withMissedDays: <T extends HabitDay>(rows: T[], today: string, activeNames: Set<string>) => (T | Pick<T, keyof HabitDay>)[];
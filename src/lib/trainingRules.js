@@ -0,0 +1,59 @@
+// Fuelling and habit rules shared by the app and the serverless functions in api/, so the Nutrition tab,
+// the Telegram briefing and the coach context all agree. Plain JS (types in trainingRules.d.ts) because
+// api/ runs on Node without a build step.
+
+// Daily carbohydrate (g/kg) by training load, after sports-nutrition consensus ranges
+export const CARB_TIERS = [
+  { dayType: 'Rest', maxMins: 0, carbsPerKg: 3 },
+  { dayType: 'Light', maxMins: 60, carbsPerKg: 5 },
+  { dayType: 'Moderate', maxMins: 150, carbsPerKg: 6.5 },
+  { dayType: 'High', maxMins: 240, carbsPerKg: 8 },
+  { dayType: 'Very high', maxMins: Infinity, carbsPerKg: 10 },
+];
+
+// Hard minutes count extra toward the carb tier; gym work barely moves glycogen needs
+export const carbTier = sessions => {
+  const loadMins = sessions.filter(s => !(s.sport || '').startsWith('Gym') && s.sport !== 'Strength')
+    .reduce((sum, s) => sum + s.duration * (s.intensity === 'Hard' ? 1.3 : s.intensity === 'Moderate' ? 1.1 : 1), 0);
+  return CARB_TIERS.find(t => loadMins <= t.maxMins);
+};
+
+// Bike and run sessions of 75min or more get pre/during/post fuelling advice
+export const isLongSession = s => (s.sport === 'Bike' || s.sport === 'Run') && s.duration >= 75;
+
+export const carbsPerHourDuring = s => s.duration > 150 ? (s.sport === 'Bike' ? '60–90' : '60–80') : '30–60';
+
+export const isHabitScheduled = (habit, trainingDates) => {
+  const schedule = habit.schedule || 'daily';
+  if (schedule === 'weekdays') { const day = new Date(habit.date).getUTCDay(); return day !== 0 && day !== 6; }
+  if (schedule === 'training_days') return trainingDates.has(habit.date);
+  if (schedule === 'rest_days') return !trainingDates.has(habit.date);
+  return true;
+};
+
+const nextDate = date => {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().split('T')[0];
+};
+
+// Rows are only created on days the Nutrition screen is opened, so each habit's calendar is walked from its
+// first row and days without one become unticked rows. Habits still active run up to today; removed ones
+// stop at their last row. Streaks and adherence expect rows filled in this way.
+export const withMissedDays = (rows, today, activeNames) => {
+  const byName = new Map();
+  rows.forEach(r => byName.set(r.name, [...(byName.get(r.name) || []), r]));
+  const filled = [];
+  byName.forEach((habitRows, name) => {
+    const sorted = [...habitRows].sort((a, b) => a.date.localeCompare(b.date));
+    const byDate = new Map(sorted.map(r => [r.date, r]));
+    const end = activeNames.has(name) ? today : sorted[sorted.length - 1].date;
+    let last = sorted[0];
+    for (let date = sorted[0].date; date <= end; date = nextDate(date)) {
+      const row = byDate.get(date);
+      if (row) last = row;
+      filled.push(row || { name, icon: last.icon, schedule: last.schedule, date, completed: false });
+    }
+  });
+  return filled;
+};
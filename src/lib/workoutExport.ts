@@ -0,0 +1,225 @@
+// Structured workout model plus exporters for Zwift (.zwo), ERG/MRC trainer files and Garmin FIT workouts.
+// Targets are stored relative to the athlete's thresholds so a workout stays valid when zones change:
+// power = fraction of FTP, pace/css = fraction of threshold speed (1.05 = 5% faster), hr = fraction of max HR.
+
+export type WorkoutTargetType = 'power' | 'pace' | 'hr' | 'css' | 'open';
+
+export interface WorkoutStep {
+  kind: 'warmup' | 'interval' | 'recovery' | 'steady' | 'cooldown';
+  durationSec?: number;
+  distanceM?: number;
+  target: { type: WorkoutTargetType; low: number; high: number };
+  label?: string;
+}
+
+export interface WorkoutRepeat {
+  kind: 'repeat';
+  count: number;
+  steps: WorkoutStep[];
+}
+
+export interface StructuredWorkout {
+  name: string;
+  sport: string;
+  steps: (WorkoutStep | WorkoutRepeat)[];
+}
+
+export interface WorkoutThresholds {
+  ftp?: number; // watts
+  thresholdPace?: number; // sec/km
+  css?: number; // sec/100m
+}
+
+// Repeats expanded into a flat list, in execution order
+export const flattenWorkout = (workout: StructuredWorkout): WorkoutStep[] =>
+  workout.steps.flatMap(s => s.kind === 'repeat' ? Array.from({ length: s.count }, () => s.steps).flat() : [s]);
+
+// Estimated seconds for a step; distance steps are converted using the target pace where known
+export const estimateStepSeconds = (step: WorkoutStep, thresholds: WorkoutThresholds = {}) => {
+  if (step.durationSec) return step.durationSec;
+  const metres = step.distanceM || 0;
+  const mid = (step.target.low + step.target.high) / 2 || 1;
+  if (step.target.type === 'css') return Math.round((metres / 100) * (thresholds.css || 120) / mid);
+  return Math.round((metres / 1000) * (thresholds.thresholdPace || 330) / mid);
+};
+
+export const formatTarget = (step: WorkoutStep, thresholds: WorkoutThresholds = {}) => {
+  const { type, low, high } = step.target;
+  const paceStr = (secs: number) => `${Math.floor(secs / 60)}:${String(Math.round(secs % 60)).padStart(2, '0')}`;
+  if (type === 'power') return thresholds.ftp ? `${Math.round(low * thresholds.ftp)}-${Math.round(high * thresholds.ftp)}W` : `${Math.round(low * 100)}-${Math.round(high * 100)}% FTP`;
+  if (type === 'pace') return thresholds.thresholdPace ? `${paceStr(thresholds.thresholdPace / low)}-${paceStr(thresholds.thresholdPace / high)}/km` : `${Math.round(low * 100)}-${Math.round(high * 100)}% threshold pace`;
+  if (type === 'css') return thresholds.css ? `${paceStr(thresholds.css / low)}-${paceStr(thresholds.css / high)}/100m` : `${Math.round(low * 100)}-${Math.round(high * 100)}% CSS`;
+  if (type === 'hr') return `${Math.round(low * 100)}-${Math.round(high * 100)}% max HR`;
+  return 'Open';
+};
+
+const escapeXml = (str: string) => str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// ============================================================================
+// ZWIFT .zwo
+// ============================================================================
+
+export const toZwo = (workout: StructuredWorkout, thresholds: WorkoutThresholds = {}) => {
+  const isRun = workout.sport === 'Run';
+  const secs = (s: WorkoutStep) => estimateStepSeconds(s, thresholds);
+  const mid = (s: WorkoutStep) => ((s.target.low + s.target.high) / 2).toFixed(3);
+  const stepXml = (s: WorkoutStep) => {
+    if (s.kind === 'warmup') return `    <Warmup Duration="${secs(s)}" PowerLow="${s.target.low.toFixed(3)}" PowerHigh="${s.target.high.toFixed(3)}"/>`;
+    if (s.kind === 'cooldown') return `    <Cooldown Duration="${secs(s)}" PowerLow="${s.target.high.toFixed(3)}" PowerHigh="${s.target.low.toFixed(3)}"/>`;
+    return `    <SteadyState Duration="${secs(s)}" Power="${mid(s)}"/>`;
+  };
+  const body = workout.steps.map(s => {
+    if (s.kind === 'repeat' && s.steps.length === 2) {
+      const [on, off] = s.steps;
+      return `    <IntervalsT Repeat="${s.count}" OnDuration="${secs(on)}" OffDuration="${secs(off)}" OnPower="${mid(on)}" OffPower="${mid(off)}"/>`;
+    }
+    if (s.kind === 'repeat') return Array.from({ length: s.count }, () => s.steps.map(stepXml).join('\n')).join('\n');
+    return stepXml(s);
+  }).join('\n');
+  return `<workout_file>
+  <author>Pro Fit Agent</author>
+  <name>${escapeXml(workout.name)}</name>
+  <sportType>${isRun ? 'run' : 'bike'}</sportType>
+  <workout>
+${body}
+  </workout>
+</workout_file>
+`;
+};
+
+// ============================================================================
+// ERG / MRC
+// ============================================================================
+
+// .erg (absolute watts) when FTP is known, otherwise .mrc (percent of FTP)
+export const toErgOrMrc = (workout: StructuredWorkout, thresholds: WorkoutThresholds = {}) => {
+  const useErg = !!thresholds.ftp;
+  const rows: string[] = [];
+  let minutes = 0;
+  flattenWorkout(workout).forEach(s => {
+    const length = estimateStepSeconds(s, thresholds) / 60;
+    const value = (f: number) => useErg ? Math.round(f * thresholds.ftp!) : Math.round(f * 100);
+    const startValue = s.kind === 'warmup' ? s.target.low : s.kind === 'cooldown' ? s.target.high : (s.target.low + s.target.high) / 2;
+    const endValue = s.kind === 'warmup' ? s.target.high : s.kind === 'cooldown' ? s.target.low : startValue;
+    rows.push(`${minutes.toFixed(2)}\t${value(startValue)}`);
+    minutes += length;
+    rows.push(`${minutes.toFixed(2)}\t${value(endValue)}`);
+  });
+  const content = `[COURSE HEADER]
+VERSION = 2
+UNITS = ENGLISH
+DESCRIPTION = ${workout.name}
+FILE NAME = ${workout.name}
+${useErg ? 'MINUTES WATTS' : 'MINUTES PERCENT'}
+[END COURSE HEADER]
+[COURSE DATA]
+${rows.join('\n')}
+[END COURSE DATA]
+`;
+  return { content, extension: useErg ? 'erg' : 'mrc' };
+};
+
+// ============================================================================
+// FIT WORKOUT
+// ============================================================================
+
+const FIT_EPOCH_OFFSET = 631065600;
+const CRC_TABLE = [0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400];
+
+const fitCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  bytes.forEach(byte => {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  });
+  return crc;
+};
+
+// Field definitions: [field number, size, base type]
+type FitField = [number, number, number];
+const UINT16 = 0x84, UINT32 = 0x86, ENUM = 0x00, STRING = 0x07;
+
+class FitWriter {
+  private bytes: number[] = [];
+  private push(value: number, size: number) { for (let i = 0; i < size; i++) this.bytes.push((value >>> (8 * i)) & 0xff); }
+  define(local: number, globalNum: number, fields: FitField[]) {
+    this.bytes.push(0x40 | local, 0, 0);
+    this.push(globalNum, 2);
+    this.bytes.push(fields.length);
+    fields.forEach(([num, size, type]) => this.bytes.push(num, size, type));
+  }
+  write(local: number, fields: FitField[], values: (number | string)[]) {
+    this.bytes.push(local);
+    fields.forEach(([, size, type], i) => {
+      const v = values[i];
+      if (type === STRING) {
+        const encoded = new TextEncoder().encode(String(v)).slice(0, size - 1);
+        for (let j = 0; j < size; j++) this.bytes.push(j < encoded.length ? encoded[j] : 0);
+      } else this.push(Number(v), size);
+    });
+  }
+  toFile() {
+    const data = Uint8Array.from(this.bytes);
+    const header = new Uint8Array(14);
+    const view = new DataView(header.buffer);
+    view.setUint8(0, 14); view.setUint8(1, 0x20); view.setUint16(2, 2132, true); view.setUint32(4, data.length, true);
+    header.set([0x2e, 0x46, 0x49, 0x54], 8);
+    view.setUint16(12, fitCrc(header.subarray(0, 12)), true);
+    const file = new Uint8Array(14 + data.length + 2);
+    file.set(header); file.set(data, 14);
+    new DataView(file.buffer).setUint16(14 + data.length, fitCrc(file.subarray(0, 14 + data.length)), true);
+    return file;
+  }
+}
+
+const FIT_SPORT: Record<string, number> = { Run: 1, Bike: 2, Swim: 5 };
+const FIT_INTENSITY: Record<WorkoutStep['kind'], number> = { interval: 0, steady: 0, recovery: 1, warmup: 2, cooldown: 3 };
+
+export const toFitWorkout = (workout: StructuredWorkout, thresholds: WorkoutThresholds = {}) => {
+  const w = new FitWriter();
+  const fileId: FitField[] = [[0, 1, ENUM], [1, 2, UINT16], [2, 2, UINT16], [4, 4, UINT32]];
+  w.define(0, 0, fileId);
+  w.write(0, fileId, [5, 255, 0, Math.floor(Date.now() / 1000) - FIT_EPOCH_OFFSET]);
+
+  // Repeats become a "repeat until steps complete" step pointing back at the block's first step
+  const fitSteps: { name: string; durationType: number; durationValue: number; targetType: number; targetValue: number; low: number; high: number; intensity: number }[] = [];
+  const addStep = (s: WorkoutStep) => {
+    const { type, low, high } = s.target;
+    let targetType = 2, lowValue = 0, highValue = 0;
+    if (type === 'power') { targetType = 4; lowValue = thresholds.ftp ? Math.round(low * thresholds.ftp) + 1000 : Math.round(low * 100); highValue = thresholds.ftp ? Math.round(high * thresholds.ftp) + 1000 : Math.round(high * 100); }
+    else if (type === 'hr') { targetType = 1; lowValue = Math.round(low * 100); highValue = Math.round(high * 100); }
+    else if (type === 'pace' && thresholds.thresholdPace) { targetType = 0; lowValue = Math.round(1000 / thresholds.thresholdPace * low * 1000); highValue = Math.round(1000 / thresholds.thresholdPace * high * 1000); }
+    else if (type === 'css' && thresholds.css) { targetType = 0; lowValue = Math.round(100 / thresholds.css * low * 1000); highValue = Math.round(100 / thresholds.css * high * 1000); }
+    fitSteps.push({
+      name: s.label || s.kind, intensity: FIT_INTENSITY[s.kind],
+      durationType: s.distanceM ? 1 : 0, durationValue: s.distanceM ? s.distanceM * 100 : (s.durationSec || 0) * 1000,
+      targetType, targetValue: 0, low: lowValue, high: highValue,
+    });
+  };
+  workout.steps.forEach(s => {
+    if (s.kind !== 'repeat') { addStep(s); return; }
+    const firstIndex = fitSteps.length;
+    s.steps.forEach(addStep);
+    fitSteps.push({ name: `repeat x${s.count}`, intensity: 0, durationType: 6, durationValue: firstIndex, targetType: 2, targetValue: s.count, low: 0, high: 0 });
+  });
+
+  const workoutFields: FitField[] = [[4, 1, ENUM], [6, 2, UINT16], [8, 24, STRING]];
+  w.define(1, 26, workoutFields);
+  w.write(1, workoutFields, [FIT_SPORT[workout.sport] ?? 0, fitSteps.length, workout.name]);
+
+  const stepFields: FitField[] = [[254, 2, UINT16], [0, 16, STRING], [1, 1, ENUM], [2, 4, UINT32], [3, 1, ENUM], [4, 4, UINT32], [5, 4, UINT32], [6, 4, UINT32], [7, 1, ENUM]];
+  w.define(2, 27, stepFields);
+  fitSteps.forEach((s, i) => w.write(2, stepFields, [i, s.name, s.durationType, s.durationValue, s.targetType, s.targetValue, s.low, s.high, s.intensity]));
+  return w.toFile();
+};
+
+export const downloadFile = (content: string | Uint8Array, filename: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content as BlobPart], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+};